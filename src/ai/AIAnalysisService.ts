@@ -0,0 +1,150 @@
+/**
+ * AI Analysis service
+ * General-purpose stock and sentiment analysis on whichever model ModelRouter picks
+ */
+
+import { ModelRouter, modelRouter as defaultRouter } from './llm/ModelRouter.js';
+import { parseModelJson } from './llm/LLMProvider.js';
+import { logHelpers } from '../config/logger.js';
+import env from '../config/env.js';
+
+export class AIAnalysisService {
+  modelRouter: ModelRouter;
+
+  constructor(router: ModelRouter = defaultRouter) {
+    this.modelRouter = router;
+  }
+
+  /**
+   * Analyze stock with appropriate model selection
+   */
+  async analyzeStock(symbol: string, data: any, analysisType: string = 'comprehensive'): Promise<any> {
+    const prompt = this.buildAnalysisPrompt(symbol, data, analysisType);
+
+    try {
+      const response = await this.modelRouter.complete({
+        useCase: analysisType,
+        tier: analysisType === 'comprehensive' ? 'advanced' : undefined,
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a professional financial analyst with expertise in stock analysis, technical indicators, and market trends.',
+          },
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        maxTokens: env.OPENAI_MAX_TOKENS,
+        temperature: 0.3,
+        responseFormat: 'json',
+      });
+
+      const tokens = response.usage.inputTokens + response.usage.outputTokens;
+      logHelpers.logAiAnalysis(symbol, analysisType, response.model, tokens, response.cost, {
+        provider: response.provider,
+        duration: response.latencyMs,
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+      });
+
+      return {
+        analysis: parseModelJson(response.content),
+        metadata: {
+          model: response.model,
+          provider: response.provider,
+          tokens,
+          cost: response.cost,
+          duration: response.latencyMs,
+          timestamp: new Date().toISOString(),
+        },
+      };
+    } catch (error) {
+      logHelpers.logApiError('llm', analysisType, symbol, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Analyze sentiment from news or social media
+   */
+  async analyzeSentiment(text: string, context: string = 'news'): Promise<any> {
+    const response = await this.modelRouter.complete({
+      useCase: 'sentiment_analysis',
+      messages: [
+        {
+          role: 'system',
+          content: 'Analyze the sentiment of financial text and provide a JSON response with sentiment score from -1 (very negative) to 1 (very positive).',
+        },
+        {
+          role: 'user',
+          content: `Analyze the sentiment of this ${context} and respond with JSON: ${text}`,
+        },
+      ],
+      maxTokens: 200,
+      temperature: 0.1,
+      responseFormat: 'json',
+    });
+
+    return parseModelJson(response.content);
+  }
+
+  /**
+   * Build analysis prompt based on data and type
+   */
+  buildAnalysisPrompt(symbol: string, data: any, analysisType: string): string {
+    const basePrompt = `Analyze ${symbol} stock with the following data:`;
+
+    let dataSection = '';
+    if (data.quote) {
+      dataSection += `\nCurrent Quote: ${JSON.stringify(data.quote)}`;
+    }
+    if (data.profile) {
+      dataSection += `\nCompany Profile: ${JSON.stringify(data.profile)}`;
+    }
+    if (data.news) {
+      dataSection += `\nRecent News: ${JSON.stringify(data.news)}`;
+    }
+    if (data.financials) {
+      dataSection += `\nFinancials: ${JSON.stringify(data.financials)}`;
+    }
+
+    const analysisRequests: Record<string, string> = {
+      quick_analysis: 'Provide a brief analysis with key insights and recommendation.',
+      comprehensive: 'Provide a comprehensive analysis including technical, fundamental, and sentiment analysis with detailed recommendations.',
+      risk_assessment: 'Focus on risk factors, volatility analysis, and risk-adjusted recommendations.',
+      technical: 'Focus on technical analysis, chart patterns, and momentum indicators.',
+      fundamental: 'Focus on fundamental analysis, valuation metrics, and financial health.',
+    };
+
+    const request = analysisRequests[analysisType] || analysisRequests.comprehensive;
+
+    return `${basePrompt}${dataSection}\n\n${request}\n\nProvide your response as a JSON object with the following structure:
+{
+  "symbol": "${symbol}",
+  "recommendation": "buy|hold|sell",
+  "confidence": 0.85,
+  "targetPrice": 150.00,
+  "risks": ["risk1", "risk2"],
+  "opportunities": ["opp1", "opp2"],
+  "summary": "Brief summary",
+  "analysis": {
+    "technical": "Technical analysis details",
+    "fundamental": "Fundamental analysis details",
+    "sentiment": "Sentiment analysis details"
+  }
+}`;
+  }
+
+  /**
+   * Get usage statistics
+   */
+  getUsageStats(): Record<string, any> {
+    return this.modelRouter.getUsageStats();
+  }
+}
+
+// Export singleton instance
+export const aiService = new AIAnalysisService();
+
+export default aiService;
@@ -5,10 +5,14 @@
 
 import sqlite3 from 'sqlite3';
 import { Database, open } from 'sqlite';
-import { openAIClient } from '../config/openai.js';
+import { LLMTier } from './llm/LLMProvider.js';
+import { LLMCallRecord, withLLMCallLog } from './llm/LLMCallLog.js';
 import { redisClientInstance as redisClient } from '../config/redis.js';
 import { loggerUtils } from '../config/logger.js';
 import { DataHub } from '../api/DataHub.js';
+import { mergeLineage } from '../api/LineageStore.js';
+import { LineageSource } from '../types/data.js';
+import { carryTaint, markSynthetic } from '../core/SyntheticData.js';
 import path from 'path';
 
 // Import all AI modules and their types
@@ -52,6 +56,8 @@ export interface PromptExecution {
     totalTokens: number;
   };
   qualityScore?: number;
+  promptVersion?: string; // Registry system prompt the module ran with, e.g. 'risk.system@v2'
+  llmCalls?: LLMCallRecord[]; // Full request and response of every model call the module made
   metadata: Record<string, any>;
 }
 
@@ -86,8 +92,11 @@ export interface OrchestrationInput {
     fusion?: Partial<StrategicFusionInput>;
     validator?: Partial<ValidationInput>;
   };
+  lineage?: ModuleLineage; // Provider fetches behind each module's inputs
 }
 
+export type ModuleLineage = Partial<Record<AIModuleName, LineageSource[]>>;
+
 export interface OrchestrationOutput {
   sessionId: string;
   symbol: string;
@@ -117,6 +126,7 @@ export interface OrchestrationOutput {
     qualityScores: Record<AIModuleName, number>;
   };
   
+  lineage: ModuleLineage; // Sources behind each completed module's output
   audit_trail: PromptExecution[];
   issues: Array<{
     moduleName: AIModuleName;
@@ -270,6 +280,7 @@ export class PromptOrchestrator {
           completion_tokens INTEGER,
           total_tokens INTEGER,
           quality_score REAL,
+          prompt_version TEXT,
           metadata TEXT,
           created_at DATETIME DEFAULT CURRENT_TIMESTAMP
         );
@@ -278,6 +289,21 @@ export class PromptOrchestrator {
         CREATE INDEX IF NOT EXISTS idx_prompt_executions_module ON prompt_executions(module_name);
         CREATE INDEX IF NOT EXISTS idx_prompt_executions_timestamp ON prompt_executions(start_time);
 
+        CREATE TABLE IF NOT EXISTS prompt_llm_calls (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          execution_id TEXT NOT NULL,
+          request_hash TEXT NOT NULL,
+          provider TEXT,
+          model TEXT,
+          request TEXT NOT NULL,
+          response TEXT,
+          error_message TEXT,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_prompt_llm_calls_execution ON prompt_llm_calls(execution_id);
+        CREATE INDEX IF NOT EXISTS idx_prompt_llm_calls_request ON prompt_llm_calls(request_hash);
+
         CREATE TABLE IF NOT EXISTS orchestration_sessions (
           session_id TEXT PRIMARY KEY,
           symbol TEXT NOT NULL,
@@ -299,6 +325,15 @@ export class PromptOrchestrator {
         CREATE INDEX IF NOT EXISTS idx_orchestration_sessions_timestamp ON orchestration_sessions(start_time);
       `);
 
+      // Audit databases created before prompt versioning lack the column
+      const columns = await this.database.all('PRAGMA table_info(prompt_executions)');
+      if (!columns.some(column => column.name === 'prompt_version')) {
+        await this.database.exec('ALTER TABLE prompt_executions ADD COLUMN prompt_version TEXT');
+      }
+      await this.database.exec(
+        'CREATE INDEX IF NOT EXISTS idx_prompt_executions_prompt ON prompt_executions(module_name, prompt_version)'
+      );
+
       loggerUtils.aiLogger.info('Prompt orchestrator database initialized');
     } catch (error) {
       loggerUtils.aiLogger.error('Failed to initialize prompt orchestrator database', {
@@ -311,18 +346,9 @@ export class PromptOrchestrator {
    * Initialize rate limiting configurations
    */
   private initializeRateLimits(): void {
-    // OpenAI rate limits (conservative estimates)
-    this.rateLimits.set('gpt-4o', {
-      model: 'gpt-4o',
-      requestsPerMinute: 500,
-      tokensPerMinute: 30000,
-      currentRequests: 0,
-      currentTokens: 0,
-      resetTime: Date.now() + 60000,
-    });
-
-    this.rateLimits.set('gpt-4-turbo', {
-      model: 'gpt-4-turbo',
+    // Per-tier limits (conservative estimates); ModelRouter picks the provider within a tier
+    this.rateLimits.set('advanced', {
+      model: 'advanced',
       requestsPerMinute: 500,
       tokensPerMinute: 150000,
       currentRequests: 0,
@@ -330,8 +356,8 @@ export class PromptOrchestrator {
       resetTime: Date.now() + 60000,
     });
 
-    this.rateLimits.set('gpt-3.5-turbo', {
-      model: 'gpt-3.5-turbo',
+    this.rateLimits.set('fast', {
+      model: 'fast',
       requestsPerMinute: 3000,
       tokensPerMinute: 160000,
       currentRequests: 0,
@@ -384,6 +410,8 @@ export class PromptOrchestrator {
       validator: 0
     };
     const issues: any[] = [];
+    const lineage: ModuleLineage = {};
+    const promptVersions: Partial<Record<AIModuleName, string>> = {};
     
     let totalApiCalls = 0;
     let totalTokens = 0;
@@ -411,11 +439,23 @@ export class PromptOrchestrator {
             moduleName,
             input,
             results,
+            lineage,
             auditTrail
           );
 
           if (moduleResult.success) {
             results[moduleName] = moduleResult.output;
+            lineage[moduleName] = this.resolveModuleLineage(moduleName, input, lineage);
+            const promptVersion = auditTrail[auditTrail.length - 1]?.promptVersion;
+            if (promptVersion) {
+              promptVersions[moduleName] = promptVersion;
+            }
+            // Cards carry the prompts behind them so trade outcomes can be credited to variants
+            if (moduleName === 'fusion') {
+              for (const card of moduleResult.output?.tradeCards || []) {
+                card.prompt_versions = { ...promptVersions };
+              }
+            }
             completedModules.push(moduleName);
             qualityScores[moduleName] = moduleResult.qualityScore || 0.8;
             
@@ -480,6 +520,7 @@ export class PromptOrchestrator {
           tokensUsedTotal: totalTokens,
           qualityScores,
         },
+        lineage,
         audit_trail: auditTrail,
         issues,
       };
@@ -558,6 +599,7 @@ export class PromptOrchestrator {
     moduleName: AIModuleName,
     input: OrchestrationInput,
     previousResults: any,
+    lineage: ModuleLineage,
     auditTrail: PromptExecution[]
   ): Promise<{
     success: boolean;
@@ -578,13 +620,14 @@ export class PromptOrchestrator {
     while (attempts < maxRetries) {
       attempts++;
       const executionId = `${input.sessionId}_${moduleName}_${attempts}`;
+      const tier = this.getTierForModule(moduleName);
       const promptType = attempts === 1 ? 'primary' : usedFallback ? 'fallback' : 'retry';
       
       const execution: PromptExecution = {
         id: executionId,
         sessionId: input.sessionId,
         moduleName,
-        model: this.getModelForModule(moduleName),
+        model: tier, // Replaced by the model that answered once the module reports it
         promptType,
         attempt: attempts,
         startTime: Date.now(),
@@ -597,24 +640,33 @@ export class PromptOrchestrator {
         },
       };
 
+      const llmCalls: LLMCallRecord[] = [];
+      execution.llmCalls = llmCalls;
+
       try {
         // Check rate limits before execution
-        await this.waitForRateLimit(execution.model);
+        await this.waitForRateLimit(tier);
 
-        const moduleInput = this.prepareModuleInput(moduleName, input, previousResults);
-        const result = await this.callModule(moduleName, moduleInput, config.timeoutMs);
+        const moduleInput = this.prepareModuleInput(moduleName, input, previousResults, lineage);
+        // Output built on synthetic input or a scripted model response is synthetic too
+        const result = carryTaint(moduleInput, await withLLMCallLog(llmCalls,
+          () => this.callModule(moduleName, moduleInput, config.timeoutMs)));
+        llmCalls.forEach(call => carryTaint(call.response, result));
 
         execution.endTime = Date.now();
         execution.success = true;
+        execution.model = result?.metadata?.model_used || execution.model;
         execution.outputHash = this.hashOutput(result);
         execution.qualityScore = this.assessOutputQuality(moduleName, result);
+        execution.tokenUsage = result?.tokenUsage || this.sumTokenUsage(llmCalls);
+        execution.promptVersion = this.promptVersionOf(llmCalls);
 
         // Store execution in database
         await this.storeExecution(execution);
         auditTrail.push(execution);
 
         // Update rate limits
-        this.updateRateLimits(execution.model, result.tokenUsage);
+        this.updateRateLimits(tier, execution.tokenUsage);
 
         return {
           success: true,
@@ -623,11 +675,12 @@ export class PromptOrchestrator {
           usedFallback,
           qualityScore: execution.qualityScore,
           apiCalls: 1,
-          tokens: result.tokenUsage?.totalTokens || 0,
+          tokens: execution.tokenUsage?.totalTokens || 0,
         };
       } catch (error) {
         execution.endTime = Date.now();
         execution.errorMessage = (error as Error).message;
+        execution.promptVersion = this.promptVersionOf(llmCalls);
         lastError = execution.errorMessage;
 
         // Store failed execution
@@ -662,21 +715,21 @@ export class PromptOrchestrator {
   }
 
   /**
-   * Get appropriate model for module
+   * Get the model tier a module mostly runs on
    */
-  private getModelForModule(moduleName: AIModuleName): string {
-    const modelMap: Record<AIModuleName, string> = {
-      sector: 'gpt-4-turbo',
-      risk: 'gpt-4-turbo',
-      technical: 'gpt-3.5-turbo', // Can use faster model for technical
-      reddit: 'gpt-3.5-turbo',
-      earningsDrift: 'gpt-4-turbo',
-      anomaly: 'gpt-4-turbo',
-      fusion: 'gpt-4o', // Use most advanced model for fusion
-      validator: 'gpt-4-turbo',
+  private getTierForModule(moduleName: AIModuleName): LLMTier {
+    const tierMap: Record<AIModuleName, LLMTier> = {
+      sector: 'advanced',
+      risk: 'advanced',
+      technical: 'fast', // Can use faster model for technical
+      reddit: 'fast',
+      earningsDrift: 'advanced',
+      anomaly: 'advanced',
+      fusion: 'advanced',
+      validator: 'advanced',
     };
 
-    return modelMap[moduleName] || 'gpt-4-turbo';
+    return tierMap[moduleName] || 'advanced';
   }
 
   /**
@@ -685,13 +738,14 @@ export class PromptOrchestrator {
   private prepareModuleInput(
     moduleName: AIModuleName,
     input: OrchestrationInput,
-    previousResults: any
+    previousResults: any,
+    lineage: ModuleLineage
   ): any {
     const baseInput = input.inputs[moduleName];
 
     switch (moduleName) {
-      case 'fusion':
-        return {
+      case 'fusion': {
+        const fusionInput = {
           symbol: input.symbol,
           currentPrice: 100, // Would get from market data
           marketContext: {
@@ -708,9 +762,16 @@ export class PromptOrchestrator {
             earningsDrift: previousResults.earningsDrift,
             anomaly: previousResults.anomaly,
           },
+          lineage: this.resolveModuleLineage('fusion', input, lineage),
           ...baseInput,
         };
 
+        // Entry, target and stop are priced off currentPrice, so the placeholder must not pass as a quote
+        return input.inputs.fusion?.currentPrice === undefined
+          ? markSynthetic(fusionInput, { reason: 'fallback', origin: 'PromptOrchestrator.prepareModuleInput', fields: ['currentPrice'] })
+          : fusionInput;
+      }
+
       case 'validator':
         if (!previousResults.fusion || !previousResults.fusion.tradeCards?.length) {
           throw new Error('Validation requires fusion results with trade cards');
@@ -752,6 +813,26 @@ export class PromptOrchestrator {
     }
   }
 
+  /**
+   * Sources behind a module's output: its own inputs, plus for fusion and validation
+   * everything behind the module outputs they consume
+   */
+  private resolveModuleLineage(
+    moduleName: AIModuleName,
+    input: OrchestrationInput,
+    lineage: ModuleLineage
+  ): LineageSource[] {
+    const own = (input.lineage?.[moduleName] || []).map(source => ({ ...source, usedBy: [moduleName] }));
+    if (moduleName !== 'fusion' && moduleName !== 'validator') {
+      return mergeLineage(own);
+    }
+
+    const upstream = Object.entries(lineage)
+      .filter(([name]) => name !== moduleName)
+      .map(([, sources]) => sources);
+    return mergeLineage(...upstream, own);
+  }
+
   /**
    * Call specific AI module
    */
@@ -786,7 +867,7 @@ export class PromptOrchestrator {
         return (input) => this.tradeValidator.validateTrade(input);
       case 'anomaly':
         // Placeholder for anomaly module
-        return async (input) => ({
+        return async (input) => markSynthetic({
           symbol: input.symbol || 'UNKNOWN',
           timestamp: Date.now(),
           investigation: {
@@ -805,11 +886,11 @@ export class PromptOrchestrator {
             options_correlation: 0.8,
           },
           metadata: {
-            model_used: 'gpt-4-turbo',
+            model_used: 'placeholder',
             processing_time: 1000,
             confidence_score: 0.7,
           },
-        });
+        }, { reason: 'fallback', origin: 'PromptOrchestrator.anomaly' });
       default:
         throw new Error(`Unknown module: ${moduleName}`);
     }
@@ -862,6 +943,22 @@ export class PromptOrchestrator {
     });
   }
 
+  /**
+   * Token usage reported by the model calls made during an execution
+   */
+  private sumTokenUsage(llmCalls: LLMCallRecord[]): PromptExecution['tokenUsage'] {
+    const answered = llmCalls.filter(call => call.response);
+    if (answered.length === 0) return undefined;
+
+    const promptTokens = answered.reduce((sum, call) => sum + call.response!.usage.inputTokens, 0);
+    const completionTokens = answered.reduce((sum, call) => sum + call.response!.usage.outputTokens, 0);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  private promptVersionOf(llmCalls: LLMCallRecord[]): string | undefined {
+    return llmCalls.find(call => call.request.promptVersion)?.request.promptVersion;
+  }
+
   /**
    * Database operations
    */
@@ -873,8 +970,8 @@ export class PromptOrchestrator {
         INSERT INTO prompt_executions (
           id, session_id, module_name, model, prompt_type, attempt,
           start_time, end_time, success, error_message, input_hash, output_hash,
-          prompt_tokens, completion_tokens, total_tokens, quality_score, metadata
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          prompt_tokens, completion_tokens, total_tokens, quality_score, prompt_version, metadata
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `, [
         execution.id,
         execution.sessionId,
@@ -892,8 +989,26 @@ export class PromptOrchestrator {
         execution.tokenUsage?.completionTokens,
         execution.tokenUsage?.totalTokens,
         execution.qualityScore,
+        execution.promptVersion,
         JSON.stringify(execution.metadata),
       ]);
+
+      // Full exchanges, which the replay LLM backend serves back by request hash
+      for (const call of execution.llmCalls || []) {
+        await this.database.run(`
+          INSERT INTO prompt_llm_calls (
+            execution_id, request_hash, provider, model, request, response, error_message
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        `, [
+          execution.id,
+          call.requestHash,
+          call.response?.provider,
+          call.response?.model,
+          JSON.stringify(call.request),
+          call.response ? JSON.stringify(call.response) : null,
+          call.error,
+        ]);
+      }
     } catch (error) {
       loggerUtils.aiLogger.error('Failed to store prompt execution', {
         executionId: execution.id,
@@ -1045,6 +1160,7 @@ export class PromptOrchestrator {
           validator: 0
         },
       },
+      lineage: {},
       audit_trail: auditTrail,
       issues: [{
         moduleName: 'fusion', // Default to fusion as main orchestrator
@@ -0,0 +1,405 @@
+/**
+ * Prompt Registry
+ * Versioned system prompts for the AI modules. Each module defines its prompt in code; the
+ * registry stores every distinct text it has seen under that template id as a new version,
+ * so editing a prompt adds history instead of overwriting it. An experiment splits a
+ * template's traffic across stored versions, and the version served is recorded on each
+ * prompt execution and trade card so variants can be compared on quality and outcomes.
+ */
+
+import sqlite3 from 'sqlite3';
+import { Database, open } from 'sqlite';
+import { createHash } from 'crypto';
+import path from 'path';
+import { loggerUtils } from '../config/logger.js';
+import { AIModuleName } from './PromptOrchestrator.js';
+import { PerformanceTracker } from '../analytics/PerformanceTracker.js';
+
+export interface PromptRegistryConfig {
+  dbPath: string;
+}
+
+// A prompt as a module defines it in code; `{name}` placeholders are filled at render time
+export interface PromptDefinition {
+  id: string; // e.g. 'risk.system', 'sector.biotech.system'
+  module: AIModuleName;
+  template: string;
+  variables?: string[];
+}
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  module: AIModuleName;
+  template: string;
+  variables: string[];
+  contentHash: string;
+  createdAt: number;
+}
+
+export interface PromptVariant {
+  version: number;
+  weight: number; // Relative share of traffic
+}
+
+export interface PromptExperiment {
+  templateId: string;
+  module: AIModuleName;
+  variants: PromptVariant[];
+  startedAt: number;
+}
+
+export interface RenderedPrompt {
+  templateId: string;
+  version: number;
+  ref: string; // 'risk.system@v2', the form recorded on executions and trade cards
+  text: string;
+}
+
+export interface PromptVariantComparison {
+  ref: string;
+  version: number;
+  trafficWeight: number; // Share in the running experiment, 0 when not in one
+  executions: number;
+  successRate: number;
+  averageQualityScore: number | null;
+  closedTrades: number; // Trades from cards built with this version that have an outcome
+  winRate: number | null;
+  averagePnLPercent: number | null;
+}
+
+export class PromptRegistry {
+  private database: Database | null = null;
+  private ready: Promise<void>;
+  private config: PromptRegistryConfig;
+  private templates = new Map<string, PromptTemplate[]>();
+  private experiments = new Map<string, PromptExperiment>();
+  private pending = new Map<string, Promise<PromptTemplate>>(); // Version being stored, per template
+
+  constructor(config: Partial<PromptRegistryConfig> = {}) {
+    this.config = {
+      dbPath: path.join(process.cwd(), 'data', 'prompt_audit.db'),
+      ...config,
+    };
+    this.ready = this.initializeDatabase();
+  }
+
+  /**
+   * Initialize template and experiment tables alongside the prompt audit trail
+   */
+  private async initializeDatabase(): Promise<void> {
+    try {
+      this.database = await open({
+        filename: this.config.dbPath,
+        driver: sqlite3.Database
+      });
+
+      await this.database.exec(`
+        CREATE TABLE IF NOT EXISTS prompt_templates (
+          template_id TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          module_name TEXT NOT NULL,
+          template TEXT NOT NULL,
+          variables TEXT NOT NULL,
+          content_hash TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          PRIMARY KEY (template_id, version)
+        );
+
+        CREATE TABLE IF NOT EXISTS prompt_experiments (
+          template_id TEXT PRIMARY KEY,
+          module_name TEXT NOT NULL,
+          variants TEXT NOT NULL,
+          started_at INTEGER NOT NULL
+        );
+      `);
+
+      const templates = await this.database.all('SELECT * FROM prompt_templates ORDER BY template_id, version');
+      for (const row of templates) {
+        this.addVersion({
+          id: row.template_id,
+          version: row.version,
+          module: row.module_name,
+          template: row.template,
+          variables: JSON.parse(row.variables),
+          contentHash: row.content_hash,
+          createdAt: row.created_at,
+        });
+      }
+
+      const experiments = await this.database.all('SELECT * FROM prompt_experiments');
+      for (const row of experiments) {
+        this.experiments.set(row.template_id, {
+          templateId: row.template_id,
+          module: row.module_name,
+          variants: JSON.parse(row.variants),
+          startedAt: row.started_at,
+        });
+      }
+
+      loggerUtils.dbLogger.info('Prompt registry initialized', {
+        templates: this.templates.size,
+        experiments: this.experiments.size,
+      });
+    } catch (error) {
+      loggerUtils.dbLogger.error('Failed to initialize prompt registry', {
+        error: (error as Error).message,
+      });
+      this.database = null;
+    }
+  }
+
+  /**
+   * Render a module's prompt. The code definition is served unless the template has a
+   * running experiment, in which case the assignment key (the symbol) picks the variant,
+   * so a symbol sees the same variant on every run and replays stay reproducible.
+   */
+  async render(
+    definition: PromptDefinition,
+    variables: Record<string, string | number> = {},
+    assignmentKey: string = ''
+  ): Promise<RenderedPrompt> {
+    const current = await this.register(definition);
+    const experiment = this.experiments.get(definition.id);
+    const version = experiment ? this.assign(experiment, assignmentKey) : current.version;
+    const template = this.templates.get(definition.id)!.find(candidate => candidate.version === version) || current;
+
+    let text = template.template;
+    for (const name of template.variables) {
+      if (variables[name] === undefined) {
+        throw new Error(`Prompt ${definition.id}@v${template.version} is missing variable ${name}`);
+      }
+      text = text.split(`{${name}}`).join(String(variables[name]));
+    }
+
+    return { templateId: template.id, version: template.version, ref: `${template.id}@v${template.version}`, text };
+  }
+
+  /**
+   * Store a template text, returning the existing version when the same text was seen before
+   */
+  async register(definition: PromptDefinition): Promise<PromptTemplate> {
+    await this.ready;
+
+    const variables = definition.variables || [];
+    const contentHash = createHash('sha256')
+      .update(JSON.stringify({ template: definition.template, variables }))
+      .digest('hex')
+      .substring(0, 16);
+
+    const existing = this.templates.get(definition.id)?.find(template => template.contentHash === contentHash);
+    if (existing) return existing;
+
+    // New versions of a template are numbered one at a time, so concurrent renders of the
+    // same new text resolve to a single version
+    const queued = (this.pending.get(definition.id) || Promise.resolve())
+      .then(() => this.templates.get(definition.id)?.find(template => template.contentHash === contentHash)
+        || this.storeVersion(definition, variables, contentHash));
+    this.pending.set(definition.id, queued);
+    return queued;
+  }
+
+  getVersions(templateId: string): PromptTemplate[] {
+    return [...(this.templates.get(templateId) || [])];
+  }
+
+  getExperiment(templateId: string): PromptExperiment | null {
+    return this.experiments.get(templateId) || null;
+  }
+
+  /**
+   * Split a template's traffic across stored versions, replacing any running experiment
+   */
+  async startExperiment(templateId: string, variants: PromptVariant[]): Promise<PromptExperiment> {
+    await this.ready;
+
+    const versions = this.templates.get(templateId);
+    if (!versions) {
+      throw new Error(`Unknown prompt template ${templateId}`);
+    }
+    for (const variant of variants) {
+      if (!versions.some(template => template.version === variant.version)) {
+        throw new Error(`Prompt ${templateId} has no version ${variant.version}`);
+      }
+      if (!(variant.weight > 0)) {
+        throw new Error(`Variant weights must be positive, got ${variant.weight} for v${variant.version}`);
+      }
+    }
+    if (variants.length < 2) {
+      throw new Error('An experiment needs at least two variants');
+    }
+
+    const experiment: PromptExperiment = {
+      templateId,
+      module: versions[0].module,
+      variants,
+      startedAt: Date.now(),
+    };
+
+    if (this.database) {
+      await this.database.run(`
+        INSERT OR REPLACE INTO prompt_experiments (template_id, module_name, variants, started_at)
+        VALUES (?, ?, ?, ?)
+      `, [templateId, experiment.module, JSON.stringify(variants), experiment.startedAt]);
+    }
+    this.experiments.set(templateId, experiment);
+
+    loggerUtils.aiLogger.info('Prompt experiment started', {
+      templateId,
+      variants: variants.map(variant => `v${variant.version}:${variant.weight}`),
+    });
+
+    return experiment;
+  }
+
+  /**
+   * End a template's experiment; the code definition is served again
+   */
+  async stopExperiment(templateId: string): Promise<void> {
+    await this.ready;
+
+    if (this.database) {
+      await this.database.run('DELETE FROM prompt_experiments WHERE template_id = ?', [templateId]);
+    }
+    this.experiments.delete(templateId);
+  }
+
+  /**
+   * Compare a template's versions on execution quality and, given the performance tracker,
+   * on the realized outcomes of the trade cards they contributed to
+   */
+  async compareVariants(
+    templateId: string,
+    performanceTracker?: PerformanceTracker,
+    days: number = 30
+  ): Promise<PromptVariantComparison[]> {
+    await this.ready;
+
+    const versions = this.templates.get(templateId) || [];
+    if (!this.database || versions.length === 0) return [];
+
+    const refs = versions.map(template => `${templateId}@v${template.version}`);
+    const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+    const placeholders = refs.map(() => '?').join(', ');
+
+    let rows: any[];
+    try {
+      rows = await this.database.all(`
+        SELECT
+          prompt_version,
+          COUNT(*) as executions,
+          SUM(CASE WHEN success = 1 THEN 1 ELSE 0 END) as successful,
+          AVG(quality_score) as avg_quality_score
+        FROM prompt_executions
+        WHERE prompt_version IN (${placeholders}) AND start_time > ?
+        GROUP BY prompt_version
+      `, [...refs, cutoff]);
+    } catch (error) {
+      loggerUtils.aiLogger.error('Failed to compare prompt variants', {
+        templateId,
+        error: (error as Error).message,
+      });
+      return [];
+    }
+
+    const outcomes = performanceTracker ? await performanceTracker.getPromptVersionOutcomes(refs, days) : {};
+    const experiment = this.experiments.get(templateId);
+    const totalWeight = experiment ? experiment.variants.reduce((sum, variant) => sum + variant.weight, 0) : 0;
+
+    return versions.map((template, index) => {
+      const ref = refs[index];
+      const row = rows.find(candidate => candidate.prompt_version === ref);
+      const outcome = outcomes[ref];
+      const weight = experiment?.variants.find(variant => variant.version === template.version)?.weight || 0;
+
+      return {
+        ref,
+        version: template.version,
+        trafficWeight: totalWeight > 0 ? weight / totalWeight : 0,
+        executions: row?.executions || 0,
+        successRate: row?.executions ? row.successful / row.executions : 0,
+        averageQualityScore: row?.avg_quality_score ?? null,
+        closedTrades: outcome?.closedTrades || 0,
+        winRate: outcome?.closedTrades ? outcome.winners / outcome.closedTrades : null,
+        averagePnLPercent: outcome?.averagePnLPercent ?? null,
+      };
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.ready;
+    if (this.database) {
+      await this.database.close();
+      this.database = null;
+    }
+  }
+
+  private async storeVersion(definition: PromptDefinition, variables: string[], contentHash: string): Promise<PromptTemplate> {
+    const versions = this.templates.get(definition.id) || [];
+    const template: PromptTemplate = {
+      id: definition.id,
+      version: versions.length > 0 ? versions[versions.length - 1].version + 1 : 1,
+      module: definition.module,
+      template: definition.template,
+      variables,
+      contentHash,
+      createdAt: Date.now(),
+    };
+
+    if (this.database) {
+      try {
+        await this.database.run(`
+          INSERT INTO prompt_templates (
+            template_id, version, module_name, template, variables, content_hash, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        `, [
+          template.id,
+          template.version,
+          template.module,
+          template.template,
+          JSON.stringify(template.variables),
+          template.contentHash,
+          template.createdAt,
+        ]);
+      } catch (error) {
+        // Served from memory regardless; the version is only missing from history
+        loggerUtils.dbLogger.warn('Failed to store prompt version', {
+          templateId: template.id,
+          version: template.version,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    this.addVersion(template);
+    loggerUtils.aiLogger.info('Prompt version registered', {
+      templateId: template.id,
+      version: template.version,
+    });
+
+    return template;
+  }
+
+  private addVersion(template: PromptTemplate): void {
+    const versions = this.templates.get(template.id) || [];
+    versions.push(template);
+    this.templates.set(template.id, versions);
+  }
+
+  private assign(experiment: PromptExperiment, assignmentKey: string): number {
+    const totalWeight = experiment.variants.reduce((sum, variant) => sum + variant.weight, 0);
+    const hash = createHash('md5').update(`${experiment.templateId}:${assignmentKey}`).digest('hex');
+    let point = (parseInt(hash.substring(0, 8), 16) / 0x100000000) * totalWeight;
+
+    for (const variant of experiment.variants) {
+      point -= variant.weight;
+      if (point < 0) return variant.version;
+    }
+    return experiment.variants[experiment.variants.length - 1].version;
+  }
+}
+
+// Export singleton instance
+export const promptRegistry = new PromptRegistry();
+
+export default promptRegistry;
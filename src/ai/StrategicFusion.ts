@@ -1,12 +1,16 @@
 /**
  * Strategic Fusion Engine
- * Uses GPT-4o for multi-modal synthesis and complex reasoning across all AI modules
+ * Uses an advanced-tier model for multi-modal synthesis and complex reasoning across all AI modules
  */
 
-import { openAIClient } from '../config/openai.js';
+import { modelRouter } from './llm/ModelRouter.js';
+import { parseModelJson } from './llm/LLMProvider.js';
+import { promptRegistry } from './PromptRegistry.js';
 import { redisClientInstance as redisClient } from '../config/redis.js';
 import { loggerUtils } from '../config/logger.js';
 import { DataHub } from '../api/DataHub.js';
+import { DataTaint, LineageSource } from '../types/data.js';
+import { carryTaint, getTaint, markSynthetic, mergeTaints } from '../core/SyntheticData.js';
 
 // Import all AI module types
 import { SectorAnalysisOutput } from './modules/SectorIntelligence.js';
@@ -129,6 +133,10 @@ export interface TradeCard {
     module_contributions: Record<string, number>;
     fusion_confidence: number;
   };
+
+  lineage?: LineageSource[]; // Provider fetches behind the module outputs fused into this card
+  prompt_versions?: Record<string, string>; // Registry prompt each module ran with, by module
+  taint?: DataTaint[]; // Synthetic inputs the card rests on; see SyntheticDataPolicy
 }
 
 export interface StrategicFusionInput {
@@ -141,6 +149,7 @@ export interface StrategicFusionInput {
     timeOfDay: 'pre_market' | 'market_open' | 'mid_day' | 'market_close' | 'after_hours';
   };
   moduleOutputs: ModuleInputs;
+  lineage?: LineageSource[];
   requestedAnalysis?: {
     timeHorizon?: 'intraday' | 'swing' | 'position';
     riskTolerance?: 'conservative' | 'moderate' | 'aggressive';
@@ -190,7 +199,7 @@ export class StrategicFusion {
     veryHigh: 0.85, // Very high confidence threshold
   };
 
-  // OpenAI function calling schema for trade synthesis
+  // Function calling schema for trade synthesis
   private readonly strategicFusionSchema = {
     name: "synthesize_trade_narrative",
     description: "Synthesize multiple AI module outputs into coherent trade narrative",
@@ -381,7 +390,7 @@ export class StrategicFusion {
           total_symbols_analyzed: inputs.length,
           processing_time: Date.now() - startTime,
           fusion_quality_score: this.calculateFusionQuality(finalTradeCards),
-          model_used: 'gpt-4o',
+          model_used: Array.from(new Set(finalTradeCards.map(card => card.metadata.model_used))).join(', ') || 'none',
         }
       };
 
@@ -422,7 +431,7 @@ export class StrategicFusion {
       const counterSignals = this.detectCounterSignals(input.moduleOutputs);
       
       // Generate AI narrative
-      const narrative = await this.generateAINarrative(input, signalComposition);
+      const { narrative, model } = await this.generateAINarrative(input, signalComposition);
       
       // Calculate execution parameters
       const execution = this.calculateExecutionParameters(input, narrative);
@@ -440,14 +449,25 @@ export class StrategicFusion {
         counter_signals: counterSignals,
         execution,
         metadata: {
-          model_used: 'gpt-4o',
+          model_used: model,
           processing_time: Date.now() - startTime,
           data_quality_score: this.calculateDataQuality(input.moduleOutputs),
           module_contributions: this.calculateModuleContributions(input.moduleOutputs),
           fusion_confidence: signalComposition.composite_score,
-        }
+        },
+        lineage: input.lineage || [],
       };
 
+      const taint = mergeTaints(
+        getTaint(input),
+        getTaint(narrative),
+        ...(input.lineage || []).map(source => source.taint),
+        ...Object.values(input.moduleOutputs || {}).map(output => getTaint(output))
+      );
+      if (taint.length > 0) {
+        tradeCard.taint = taint;
+      }
+
       return tradeCard;
     } catch (error) {
       loggerUtils.aiLogger.error('Trade card generation failed', {
@@ -461,32 +481,30 @@ export class StrategicFusion {
   /**
    * Generate AI-powered trade narrative
    */
-  private async generateAINarrative(input: StrategicFusionInput, signals: any): Promise<TradeNarrative> {
-    const systemPrompt = this.buildSystemPrompt();
-    const userPrompt = this.buildUserPrompt(input, signals);
-
+  private async generateAINarrative(input: StrategicFusionInput, signals: any): Promise<{ narrative: TradeNarrative; model: string }> {
     try {
-      const response = await openAIClient.chat.completions.create({
-        model: 'gpt-4o',
+      // The code prompt is the registry's current version; an experiment may serve another
+      const systemPrompt = await promptRegistry.render(
+        { id: 'fusion.system', module: 'fusion', template: this.buildSystemPrompt() },
+        {},
+        input.symbol
+      );
+      const userPrompt = this.buildUserPrompt(input, signals);
+
+      const response = await modelRouter.complete({
+        useCase: 'strategic_insights',
+        promptVersion: systemPrompt.ref,
         messages: [
-          { role: 'system', content: systemPrompt },
+          { role: 'system', content: systemPrompt.text },
           { role: 'user', content: userPrompt }
         ],
-        tools: [{
-          type: 'function',
-          function: this.strategicFusionSchema
-        }],
-        tool_choice: { type: 'function', function: { name: 'synthesize_trade_narrative' } },
+        tool: this.strategicFusionSchema,
         temperature: 0.15,
-        max_tokens: 2000,
+        maxTokens: 2000,
       });
 
-      if (response.choices[0]?.message?.tool_calls?.[0]?.function?.arguments) {
-        const narrative = JSON.parse(response.choices[0].message.tool_calls[0].function.arguments);
-        return this.validateAndEnhanceNarrative(narrative, input);
-      }
-
-      throw new Error('No function call response received');
+      const narrative = parseModelJson(response.toolArguments);
+      return { narrative: carryTaint(response, this.validateAndEnhanceNarrative(narrative, input)), model: response.model };
     } catch (error) {
       loggerUtils.aiLogger.error('AI narrative generation failed', {
         symbol: input.symbol,
@@ -494,7 +512,7 @@ export class StrategicFusion {
       });
       
       // Return fallback narrative
-      return this.getFallbackNarrative(input);
+      return { narrative: this.getFallbackNarrative(input), model: 'fallback' };
     }
   }
 
@@ -1001,7 +1019,7 @@ Focus on the highest-conviction elements and explain how they work together to c
    * Fallback methods
    */
   private getFallbackNarrative(input: StrategicFusionInput): TradeNarrative {
-    return {
+    return markSynthetic<TradeNarrative>({
       summary: 'Conservative analysis due to limited data availability',
       setup: {
         type: 'Mean Reversion',
@@ -1031,7 +1049,7 @@ Focus on the highest-conviction elements and explain how they work together to c
         position_sizing: 0.02,
         stop_loss_strategy: 'Conservative 5% stop loss',
       },
-    };
+    }, { reason: 'fallback', origin: 'StrategicFusion.getFallbackNarrative' });
   }
 
   private getFallbackResult(inputs: StrategicFusionInput[], processingTime: number): StrategicFusionOutput {
@@ -1,9 +1,10 @@
 /**
  * Trade Validator AI Module
- * Uses GPT-4-turbo for consistency checking, hallucination detection, and trade logic validation
+ * Uses an advanced-tier model for consistency checking, hallucination detection, and trade logic validation
  */
 
-import { openAIClient } from '../config/openai.js';
+import { modelRouter } from './llm/ModelRouter.js';
+import { parseModelJson } from './llm/LLMProvider.js';
 import { redisClientInstance as redisClient } from '../config/redis.js';
 import { loggerUtils } from '../config/logger.js';
 import { DataHub } from '../api/DataHub.js';
@@ -140,7 +141,7 @@ export class TradeValidator {
     seasonalAdjustment: true, // Account for seasonal patterns
   };
 
-  // OpenAI function calling schema for validation
+  // Function calling schema for validation
   private readonly validationSchema = {
     name: "validate_trade_recommendation",
     description: "Comprehensive validation of trade recommendation logic and consistency",
@@ -304,7 +305,7 @@ export class TradeValidator {
       const riskAnalysis = this.analyzeRiskAssessment(input);
 
       // Perform AI-powered validation
-      const aiValidation = await this.performAIValidation(input, {
+      const { validation: aiValidation, model } = await this.performAIValidation(input, {
         priceAnalysis,
         timingAnalysis,
         riskAnalysis
@@ -342,7 +343,7 @@ export class TradeValidator {
         },
         improvement_suggestions: improvementSuggestions,
         metadata: {
-          model_used: 'gpt-4-turbo',
+          model_used: model,
           processing_time: Date.now() - startTime,
           validation_version: '1.0.0',
           cross_check_results: crossCheckResults,
@@ -369,34 +370,26 @@ export class TradeValidator {
   }
 
   /**
-   * Perform AI-powered validation using GPT-4-turbo
+   * Perform AI-powered validation on the routed model
    */
-  private async performAIValidation(input: ValidationInput, analysis: any): Promise<any> {
+  private async performAIValidation(input: ValidationInput, analysis: any): Promise<{ validation: any; model: string }> {
     const systemPrompt = this.buildValidationSystemPrompt();
     const userPrompt = this.buildValidationUserPrompt(input, analysis);
 
     try {
-      const response = await openAIClient.chat.completions.create({
-        model: 'gpt-4-turbo',
+      const response = await modelRouter.complete({
+        useCase: 'complex_reasoning',
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
         ],
-        tools: [{
-          type: 'function',
-          function: this.validationSchema
-        }],
-        tool_choice: { type: 'function', function: { name: 'validate_trade_recommendation' } },
+        tool: this.validationSchema,
         temperature: 0.05, // Very low temperature for consistent validation
-        max_tokens: 2000,
+        maxTokens: 2000,
       });
 
-      if (response.choices[0]?.message?.tool_calls?.[0]?.function?.arguments) {
-        const validation = JSON.parse(response.choices[0].message.tool_calls[0].function.arguments);
-        return this.validateAndEnhanceValidation(validation, input);
-      }
-
-      throw new Error('No function call response received');
+      const validation = parseModelJson(response.toolArguments);
+      return { validation: this.validateAndEnhanceValidation(validation, input), model: response.model };
     } catch (error) {
       loggerUtils.aiLogger.error('AI validation failed', {
         tradeId: input.tradeCard.id,
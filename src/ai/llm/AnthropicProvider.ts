@@ -0,0 +1,112 @@
+/**
+ * Anthropic Messages API adapter
+ * System messages move to the top-level system field and a forced function call becomes a
+ * forced tool_use block. JSON output is requested by prefilling the reply with an opening brace.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import {
+  LLMModelSpec,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  costOf,
+} from './LLMProvider.js';
+import env from '../../config/env.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export const ANTHROPIC_MODELS: Omit<LLMModelSpec, 'provider'>[] = [
+  {
+    id: 'claude-3-5-haiku-latest',
+    tier: 'fast',
+    capabilities: ['tools', 'json', 'vision'],
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    costPer1kTokens: { input: 0.0008, output: 0.004 },
+  },
+  {
+    id: 'claude-3-5-sonnet-latest',
+    tier: 'advanced',
+    capabilities: ['tools', 'json', 'vision'],
+    contextWindow: 200000,
+    maxOutputTokens: 8192,
+    costPer1kTokens: { input: 0.003, output: 0.015 },
+  },
+];
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private http: AxiosInstance | null;
+
+  constructor(apiKey: string | undefined = env.ANTHROPIC_API_KEY) {
+    this.http = apiKey ? axios.create({
+      baseURL: 'https://api.anthropic.com/v1',
+      timeout: 60000,
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'content-type': 'application/json',
+      },
+    }) : null;
+  }
+
+  isConfigured(): boolean {
+    return this.http !== null;
+  }
+
+  models(): LLMModelSpec[] {
+    return ANTHROPIC_MODELS.map(model => ({ ...model, provider: this.name }));
+  }
+
+  async complete(model: LLMModelSpec, request: LLMRequest): Promise<LLMResponse> {
+    if (!this.http) {
+      throw new Error('Anthropic client not initialized');
+    }
+
+    const system = request.messages.filter(message => message.role === 'system').map(message => message.content);
+    const messages: Array<{ role: 'user' | 'assistant'; content: string }> = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({ role: message.role as 'user' | 'assistant', content: message.content }));
+
+    const prefill = request.responseFormat === 'json' && !request.tool ? '{' : '';
+    if (prefill) messages.push({ role: 'assistant', content: prefill });
+
+    const startTime = Date.now();
+    const { data } = await this.http.post('/messages', {
+      model: model.id,
+      max_tokens: Math.min(request.maxTokens ?? model.maxOutputTokens, model.maxOutputTokens),
+      ...(system.length > 0 ? { system: system.join('\n\n') } : {}),
+      messages,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.tool ? {
+        tools: [{
+          name: request.tool.name,
+          description: request.tool.description,
+          input_schema: request.tool.parameters,
+        }],
+        tool_choice: { type: 'tool', name: request.tool.name },
+      } : {}),
+    });
+
+    const blocks: any[] = data?.content || [];
+    const text = blocks.filter(block => block.type === 'text').map(block => block.text).join('');
+    const toolUse = blocks.find(block => block.type === 'tool_use');
+    const usage = {
+      inputTokens: data?.usage?.input_tokens || 0,
+      outputTokens: data?.usage?.output_tokens || 0,
+    };
+
+    return {
+      provider: this.name,
+      model: data?.model || model.id,
+      content: (text || prefill) ? prefill + text : null,
+      toolArguments: toolUse ? JSON.stringify(toolUse.input) : null,
+      usage,
+      cost: costOf(model, usage),
+      latencyMs: Date.now() - startTime,
+    };
+  }
+}
+
+export default AnthropicProvider;
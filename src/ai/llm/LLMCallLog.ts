@@ -0,0 +1,28 @@
+/**
+ * LLM call log
+ * Collects the requests ModelRouter serves inside a scope, with the responses they got, so
+ * the prompt orchestrator can store the exact exchange behind each module execution.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { LLMRequest, LLMResponse } from './LLMProvider.js';
+
+export interface LLMCallRecord {
+  requestHash: string;
+  request: LLMRequest;
+  response: LLMResponse | null; // Null when every candidate model failed
+  error?: string;
+}
+
+const activeLogs = new AsyncLocalStorage<LLMCallRecord[]>();
+
+/**
+ * Run an operation, appending every LLM call it makes to the given log
+ */
+export function withLLMCallLog<T>(log: LLMCallRecord[], operation: () => Promise<T>): Promise<T> {
+  return activeLogs.run(log, operation);
+}
+
+export function recordLLMCall(record: LLMCallRecord): void {
+  activeLogs.getStore()?.push(record);
+}
@@ -0,0 +1,130 @@
+/**
+ * LLM provider contract
+ * Modules describe what they need — messages, an optional function schema to fill, JSON
+ * output, a capability tier — and ModelRouter picks a model from whichever providers are
+ * configured. Adapters translate the neutral request into their own API and back.
+ */
+
+import { createHash } from 'crypto';
+
+export type LLMTier = 'fast' | 'advanced';
+
+export type LLMCapability = 'tools' | 'json' | 'vision';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// JSON Schema function definition, the shape the modules already keep for OpenAI tool calls
+export interface LLMToolSchema {
+  name: string;
+  description?: string;
+  parameters: Record<string, any>;
+}
+
+export interface LLMRequest {
+  messages: LLMMessage[];
+  tool?: LLMToolSchema; // The model must call this function; its arguments come back in toolArguments
+  responseFormat?: 'text' | 'json';
+  temperature?: number;
+  maxTokens?: number;
+  useCase?: string; // Maps onto a tier when none is given, e.g. 'risk_assessment'
+  tier?: LLMTier;
+  model?: string; // Preferred model id; tried first when available, routing still fails over
+  requiresVision?: boolean;
+  budget?: 'low' | 'medium' | 'high'; // High prefers the most capable model over the cheapest
+  promptVersion?: string; // Registry version of the system prompt, e.g. 'risk.system@v2'; not sent
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  provider: string;
+  model: string;
+  content: string | null;
+  toolArguments: string | null; // Raw JSON arguments of the forced function call
+  usage: LLMUsage;
+  cost: number;
+  latencyMs: number;
+}
+
+export interface LLMModelSpec {
+  id: string; // Model name the provider's API expects
+  provider: string;
+  tier: LLMTier;
+  capabilities: LLMCapability[];
+  contextWindow: number;
+  maxOutputTokens: number;
+  costPer1kTokens: { input: number; output: number };
+}
+
+export interface LLMProvider {
+  name: string;
+  isConfigured(): boolean;
+  models(): LLMModelSpec[];
+  complete(model: LLMModelSpec, request: LLMRequest): Promise<LLMResponse>;
+  // Providers that only hold answers for some requests, such as replay, report misses here
+  // so the router moves on without counting them against the provider's circuit
+  canServe?(request: LLMRequest): Promise<boolean>;
+  // Stand-ins that answer without a model; ranked after every real provider that is enabled
+  offline?: boolean;
+}
+
+export const LLM_TIERS: LLMTier[] = ['fast', 'advanced'];
+
+export function isLLMTier(value: any): value is LLMTier {
+  return LLM_TIERS.includes(value);
+}
+
+/**
+ * Capabilities a request cannot be served without
+ */
+export function requiredCapabilities(request: LLMRequest): LLMCapability[] {
+  const required: LLMCapability[] = [];
+  if (request.tool) required.push('tools');
+  if (request.responseFormat === 'json') required.push('json');
+  if (request.requiresVision) required.push('vision');
+  return required;
+}
+
+/**
+ * Rough prompt size, about four characters per token, for budgeting and context checks
+ */
+export function estimateInputTokens(request: LLMRequest): number {
+  const characters = request.messages.reduce((sum, message) => sum + message.content.length, 0)
+    + (request.tool ? JSON.stringify(request.tool.parameters).length : 0);
+  return Math.ceil(characters / 4);
+}
+
+/**
+ * Stable key for a request's prompt: messages, function schema and output format. Sampling
+ * settings are left out so a replay still matches after tuning temperature or max tokens.
+ */
+export function hashLLMRequest(request: LLMRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify({
+      messages: request.messages,
+      tool: request.tool || null,
+      responseFormat: request.responseFormat || 'text',
+    }))
+    .digest('hex')
+    .substring(0, 32);
+}
+
+export function costOf(model: LLMModelSpec, usage: LLMUsage): number {
+  return (usage.inputTokens / 1000) * model.costPer1kTokens.input
+    + (usage.outputTokens / 1000) * model.costPer1kTokens.output;
+}
+
+/**
+ * Parse the JSON a model returned, tolerating a markdown fence around it
+ */
+export function parseModelJson(text: string | null): any {
+  if (!text) throw new Error('Model returned no content');
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return JSON.parse(fenced ? fenced[1] : text);
+}
@@ -0,0 +1,73 @@
+/**
+ * Self-hosted model adapter
+ * Talks to an OpenAI-compatible server such as llama.cpp or Ollama (LOCAL_LLM_BASE_URL).
+ * Servers or models without tool calling get the function schema in the prompt and JSON
+ * mode instead, and the JSON they return is passed back as the call's arguments.
+ */
+
+import OpenAI from 'openai';
+import { OpenAIProvider } from './OpenAIProvider.js';
+import { LLMModelSpec, LLMRequest, LLMResponse, LLMTier } from './LLMProvider.js';
+import env from '../../config/env.js';
+
+export interface LocalProviderConfig {
+  baseURL?: string;
+  model?: string;
+  apiKey: string;
+  tier: LLMTier; // Highest tier of request the model is trusted with
+  contextWindow: number;
+  nativeToolCalls: boolean;
+}
+
+export class LocalProvider extends OpenAIProvider {
+  private config: LocalProviderConfig;
+
+  constructor(config: Partial<LocalProviderConfig> = {}) {
+    const resolved: LocalProviderConfig = {
+      baseURL: env.LOCAL_LLM_BASE_URL,
+      model: env.LOCAL_LLM_MODEL,
+      apiKey: env.LOCAL_LLM_API_KEY,
+      tier: env.LOCAL_LLM_TIER,
+      contextWindow: env.LOCAL_LLM_CONTEXT_WINDOW,
+      nativeToolCalls: env.LOCAL_LLM_TOOL_CALLS,
+      ...config,
+    };
+
+    const client = resolved.baseURL && resolved.model
+      ? new OpenAI({ baseURL: resolved.baseURL, apiKey: resolved.apiKey, timeout: 120000, maxRetries: 1 })
+      : null;
+
+    const catalog: LLMModelSpec[] = resolved.model ? [{
+      id: resolved.model,
+      provider: 'local',
+      tier: resolved.tier,
+      capabilities: ['tools', 'json'],
+      contextWindow: resolved.contextWindow,
+      maxOutputTokens: Math.min(4096, Math.floor(resolved.contextWindow / 2)),
+      costPer1kTokens: { input: 0, output: 0 },
+    }] : [];
+
+    super('local', client, catalog);
+    this.config = resolved;
+  }
+
+  async complete(model: LLMModelSpec, request: LLMRequest): Promise<LLMResponse> {
+    if (!request.tool || this.config.nativeToolCalls) {
+      return super.complete(model, request);
+    }
+
+    const { tool, ...rest } = request;
+    const instruction = `Respond only with a JSON object holding the arguments for the function "${tool.name}"`
+      + `${tool.description ? ` (${tool.description})` : ''}, matching this JSON Schema:\n${JSON.stringify(tool.parameters)}`;
+
+    const response = await super.complete(model, {
+      ...rest,
+      messages: [...request.messages, { role: 'system', content: instruction }],
+      responseFormat: 'json',
+    });
+
+    return { ...response, toolArguments: response.content, content: null };
+  }
+}
+
+export default LocalProvider;
@@ -0,0 +1,321 @@
+/**
+ * Model router
+ * Picks a model for each request from the configured LLM providers: it must have the
+ * capabilities the request needs (function calling, JSON, vision), sit at or above the
+ * requested tier, fit the prompt in its context window and belong to a provider whose circuit
+ * is closed. The cheapest such model is tried first, with offline stand-ins (replay, scripted)
+ * after every real model; when a call fails the next candidate is tried, and a provider that
+ * keeps failing is skipped until its circuit resets.
+ */
+
+import { CircuitBreaker, CircuitBreakerFactory } from '../../core/CircuitBreaker.js';
+import { loggerUtils } from '../../config/logger.js';
+import env from '../../config/env.js';
+import {
+  LLMCapability,
+  LLMModelSpec,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMTier,
+  costOf,
+  estimateInputTokens,
+  hashLLMRequest,
+  requiredCapabilities,
+} from './LLMProvider.js';
+import { recordLLMCall } from './LLMCallLog.js';
+import { OpenAIProvider } from './OpenAIProvider.js';
+import { AnthropicProvider } from './AnthropicProvider.js';
+import { LocalProvider } from './LocalProvider.js';
+import { ReplayProvider } from './ReplayProvider.js';
+import { ScriptedProvider } from './ScriptedProvider.js';
+
+export interface ModelSelectionOptions {
+  complexity?: 'low' | 'medium' | 'high';
+  budget?: 'low' | 'medium' | 'high';
+  requiresVision?: boolean;
+  requiresTools?: boolean;
+  requiresJson?: boolean;
+  maxTokens?: number;
+}
+
+export interface ProviderHealth {
+  provider: string;
+  enabled: boolean;
+  configured: boolean;
+  healthy: boolean;
+  models: string[];
+}
+
+export interface ModelUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+// Use cases the modules pass, and the tier of model each needs
+export const USE_CASE_TIERS: Record<string, LLMTier> = {
+  quick_analysis: 'fast',
+  sentiment_analysis: 'fast',
+  news_tagging: 'fast',
+  technical_analysis: 'fast',
+  basic_insights: 'fast',
+  data_processing: 'fast',
+  cost_effective_analysis: 'fast',
+  high_volume_processing: 'fast',
+  deep_analysis: 'advanced',
+  complex_reasoning: 'advanced',
+  strategic_insights: 'advanced',
+  risk_assessment: 'advanced',
+  portfolio_optimization: 'advanced',
+  multimodal_analysis: 'advanced',
+  comprehensive: 'advanced',
+};
+
+interface RankCriteria {
+  required: LLMCapability[];
+  tier: LLMTier;
+  promptTokens: number;
+  outputTokens: number;
+  preferred?: string;
+  budget?: LLMRequest['budget'];
+}
+
+const TIER_RANK: Record<LLMTier, number> = { fast: 0, advanced: 1 };
+const DEFAULT_OUTPUT_TOKENS = 1000;
+
+export class ModelRouter {
+  private providers: Map<string, LLMProvider> = new Map();
+  private enabled: string[];
+  private usage: Map<string, ModelUsage> = new Map();
+
+  constructor(providers: LLMProvider[] = [], enabled: string[] = parseProviderList(env.LLM_PROVIDERS)) {
+    this.enabled = enabled;
+    providers.forEach(provider => this.register(provider));
+  }
+
+  /**
+   * Register a provider, replacing any provider of the same name
+   */
+  register(provider: LLMProvider): void {
+    if (!provider?.name || typeof provider.complete !== 'function' || typeof provider.models !== 'function') {
+      throw new Error('LLM providers need a name, models() and complete()');
+    }
+
+    if (this.providers.has(provider.name)) {
+      loggerUtils.aiLogger.info('Replacing LLM provider', { provider: provider.name });
+    }
+    this.providers.set(provider.name, provider);
+  }
+
+  unregister(name: string): boolean {
+    return this.providers.delete(name);
+  }
+
+  get(name: string): LLMProvider | null {
+    return this.providers.get(name) || null;
+  }
+
+  list(): LLMProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Whether any enabled, configured provider can take requests right now
+   */
+  isAvailable(): boolean {
+    return this.availableProviders().length > 0;
+  }
+
+  /**
+   * Every model that could serve the request, best candidate first
+   */
+  rankModels(request: LLMRequest): LLMModelSpec[] {
+    return this.rank({
+      required: requiredCapabilities(request),
+      tier: this.resolveTier(request),
+      promptTokens: estimateInputTokens(request),
+      outputTokens: request.maxTokens ?? DEFAULT_OUTPUT_TOKENS,
+      preferred: request.model,
+      budget: request.budget,
+    });
+  }
+
+  /**
+   * Best available model for a use case, or null when nothing configured can serve it
+   */
+  selectModel(useCase: string, options: ModelSelectionOptions = {}): LLMModelSpec | null {
+    const required: LLMCapability[] = [];
+    if (options.requiresTools) required.push('tools');
+    if (options.requiresJson) required.push('json');
+    if (options.requiresVision) required.push('vision');
+
+    let tier = this.resolveTier({ messages: [], useCase });
+    if (options.complexity === 'high') tier = 'advanced';
+    else if (options.complexity === 'low') tier = 'fast';
+
+    return this.rank({
+      required,
+      tier,
+      promptTokens: 0,
+      outputTokens: options.maxTokens ?? DEFAULT_OUTPUT_TOKENS,
+      budget: options.budget,
+    })[0] || null;
+  }
+
+  /**
+   * Run a request on the best available model, failing over to the next candidate on error
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const candidates = this.rankModels(request);
+    if (candidates.length === 0) {
+      throw new Error(`No configured LLM model can serve ${request.useCase || 'this request'} `
+        + `(tier ${this.resolveTier(request)}, needs ${requiredCapabilities(request).join(', ') || 'chat'})`);
+    }
+
+    const requestHash = hashLLMRequest(request);
+    let lastError: Error | null = null;
+    for (const model of candidates) {
+      const provider = this.providers.get(model.provider)!;
+      const breaker = this.breaker(model.provider);
+      if (!breaker.isHealthy()) continue;
+      if (provider.canServe && !(await provider.canServe(request))) continue;
+
+      try {
+        const response = await breaker.execute(async () => {
+          const result = await provider.complete(model, request);
+          if (request.tool && !result.toolArguments) {
+            throw new Error(`${model.provider}/${model.id} did not call ${request.tool.name}`);
+          }
+          return result;
+        });
+
+        this.trackUsage(response);
+        recordLLMCall({ requestHash, request, response });
+        if (lastError) {
+          loggerUtils.aiLogger.info('LLM request served after failover', {
+            useCase: request.useCase,
+            provider: response.provider,
+            model: response.model,
+          });
+        }
+        return response;
+      } catch (error) {
+        lastError = error as Error;
+        loggerUtils.aiLogger.warn('LLM call failed, trying next model', {
+          useCase: request.useCase,
+          provider: model.provider,
+          model: model.id,
+          error: lastError.message,
+        });
+      }
+    }
+
+    const message = `All LLM providers failed for ${request.useCase || 'request'}: `
+      + (lastError?.message || 'no candidate model could take the request');
+    recordLLMCall({ requestHash, request, response: null, error: message });
+    throw new Error(message);
+  }
+
+  /**
+   * Estimated cost of a call on a catalog model
+   */
+  estimateCost(modelId: string, inputTokens: number, outputTokens: number = 0): number {
+    const model = this.list().flatMap(provider => provider.models()).find(spec => spec.id === modelId);
+    return model ? costOf(model, { inputTokens, outputTokens }) : 0;
+  }
+
+  /**
+   * Requests, tokens and cost per provider/model since startup
+   */
+  getUsageStats(): Record<string, ModelUsage> {
+    return Object.fromEntries(Array.from(this.usage.entries()).map(([key, usage]) => [key, { ...usage }]));
+  }
+
+  getHealth(): ProviderHealth[] {
+    return this.list().map(provider => ({
+      provider: provider.name,
+      enabled: this.enabled.includes(provider.name),
+      configured: provider.isConfigured(),
+      healthy: this.breaker(provider.name).isHealthy(),
+      models: provider.models().map(model => model.id),
+    }));
+  }
+
+  private rank(criteria: RankCriteria): LLMModelSpec[] {
+    const { required, tier, promptTokens, outputTokens, preferred, budget } = criteria;
+    const providers = this.availableProviders();
+    const providerOrder = providers.map(provider => provider.name);
+    const offline = (model: LLMModelSpec) => !!this.providers.get(model.provider)?.offline;
+
+    const expectedCost = (model: LLMModelSpec) =>
+      (promptTokens / 1000) * model.costPer1kTokens.input + (outputTokens / 1000) * model.costPer1kTokens.output;
+
+    return providers
+      .flatMap(provider => provider.models())
+      .filter(model => required.every(capability => model.capabilities.includes(capability)))
+      .filter(model => TIER_RANK[model.tier] >= TIER_RANK[tier])
+      .filter(model => promptTokens + Math.min(outputTokens, model.maxOutputTokens) <= model.contextWindow)
+      .sort((a, b) => {
+        if (preferred && (a.id === preferred) !== (b.id === preferred)) {
+          return a.id === preferred ? -1 : 1;
+        }
+        // Stand-ins cost nothing, so cost alone would put them ahead of every real model
+        if (offline(a) !== offline(b)) {
+          return offline(a) ? 1 : -1;
+        }
+        if (budget === 'high' && a.tier !== b.tier) {
+          return TIER_RANK[b.tier] - TIER_RANK[a.tier];
+        }
+        return expectedCost(a) - expectedCost(b)
+          || providerOrder.indexOf(a.provider) - providerOrder.indexOf(b.provider);
+      });
+  }
+
+  private availableProviders(): LLMProvider[] {
+    return this.enabled
+      .map(name => this.providers.get(name))
+      .filter((provider): provider is LLMProvider =>
+        !!provider && provider.isConfigured() && this.breaker(provider.name).isHealthy());
+  }
+
+  private resolveTier(request: LLMRequest): LLMTier {
+    return request.tier || USE_CASE_TIERS[request.useCase || ''] || 'fast';
+  }
+
+  private breaker(provider: string): CircuitBreaker {
+    // Trip on the failure count alone: the breaker's rate check divides by lifetime requests,
+    // so the default rate would open a fresh provider's circuit on its first failure
+    return CircuitBreakerFactory.getOrCreate(`llm_${provider}`, {
+      failureThreshold: env.LLM_FAILURE_THRESHOLD,
+      resetTimeout: 60000,
+      expectedErrorRate: 1,
+    });
+  }
+
+  private trackUsage(response: LLMResponse): void {
+    const key = `${response.provider}/${response.model}`;
+    const usage = this.usage.get(key) || { requests: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+    usage.requests += 1;
+    usage.inputTokens += response.usage.inputTokens;
+    usage.outputTokens += response.usage.outputTokens;
+    usage.cost += response.cost;
+    this.usage.set(key, usage);
+  }
+}
+
+function parseProviderList(value: string): string[] {
+  return (value || '').split(',').map(name => name.trim()).filter(Boolean);
+}
+
+// Export singleton instance
+export const modelRouter = new ModelRouter([
+  new OpenAIProvider(),
+  new AnthropicProvider(),
+  new LocalProvider(),
+  new ReplayProvider(),
+  new ScriptedProvider(),
+]);
+
+export default modelRouter;
@@ -0,0 +1,87 @@
+/**
+ * OpenAI chat completions adapter
+ * Also speaks to any server exposing the OpenAI chat API; LocalProvider builds on it.
+ */
+
+import OpenAI from 'openai';
+import { modelConfigs, openAIClient } from '../../config/openai.js';
+import {
+  LLMCapability,
+  LLMModelSpec,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  costOf,
+} from './LLMProvider.js';
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  protected client: OpenAI | null;
+  private catalog: LLMModelSpec[];
+
+  constructor(name: string = 'openai', client: OpenAI | null = openAIClient, catalog?: LLMModelSpec[]) {
+    this.name = name;
+    this.client = client;
+    this.catalog = catalog || Object.entries(modelConfigs).map(([id, config]: [string, any]) => ({
+      id,
+      provider: name,
+      tier: config.tier,
+      capabilities: [
+        config.capabilities.functionCalling && 'tools',
+        config.capabilities.jsonMode && 'json',
+        config.capabilities.vision && 'vision',
+      ].filter(Boolean) as LLMCapability[],
+      contextWindow: config.contextWindow,
+      maxOutputTokens: config.maxTokens,
+      costPer1kTokens: config.costPer1kTokens,
+    }));
+  }
+
+  isConfigured(): boolean {
+    return this.client !== null;
+  }
+
+  models(): LLMModelSpec[] {
+    return this.catalog;
+  }
+
+  async complete(model: LLMModelSpec, request: LLMRequest): Promise<LLMResponse> {
+    if (!this.client) {
+      throw new Error(`${this.name} client not initialized`);
+    }
+
+    const startTime = Date.now();
+    const response = await this.client.chat.completions.create(this.buildParams(model, request));
+    const message: any = response.choices[0]?.message;
+    const usage = {
+      inputTokens: response.usage?.prompt_tokens || 0,
+      outputTokens: response.usage?.completion_tokens || 0,
+    };
+
+    return {
+      provider: this.name,
+      model: response.model || model.id,
+      content: message?.content ?? null,
+      toolArguments: message?.tool_calls?.[0]?.function?.arguments ?? null,
+      usage,
+      cost: costOf(model, usage),
+      latencyMs: Date.now() - startTime,
+    };
+  }
+
+  protected buildParams(model: LLMModelSpec, request: LLMRequest): OpenAI.Chat.ChatCompletionCreateParamsNonStreaming {
+    return {
+      model: model.id,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: Math.min(request.maxTokens ?? model.maxOutputTokens, model.maxOutputTokens),
+      ...(request.tool ? {
+        tools: [{ type: 'function' as const, function: request.tool }],
+        tool_choice: { type: 'function' as const, function: { name: request.tool.name } },
+      } : {}),
+      ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' as const } } : {}),
+    };
+  }
+}
+
+export default OpenAIProvider;
@@ -0,0 +1,113 @@
+/**
+ * Replay adapter
+ * Answers from the prompt audit database: a request whose hash matches an LLM call stored
+ * with a past execution gets that call's recorded response back, so a run can be reproduced
+ * without a model. Requests never seen before are reported as misses and the router moves on.
+ */
+
+import sqlite3 from 'sqlite3';
+import { Database, open } from 'sqlite';
+import path from 'path';
+import { loggerUtils } from '../../config/logger.js';
+import {
+  LLMModelSpec,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  hashLLMRequest,
+} from './LLMProvider.js';
+import env from '../../config/env.js';
+
+export class ReplayProvider implements LLMProvider {
+  readonly name = 'replay';
+  readonly offline = true;
+  private database: Database | null = null;
+  private ready: Promise<void> | null = null;
+  private dbPath: string;
+
+  constructor(dbPath: string = env.LLM_REPLAY_DB_PATH || path.join(process.cwd(), 'data', 'prompt_audit.db')) {
+    this.dbPath = dbPath;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  models(): LLMModelSpec[] {
+    return [{
+      id: 'replay',
+      provider: this.name,
+      tier: 'advanced',
+      capabilities: ['tools', 'json', 'vision'],
+      contextWindow: Number.MAX_SAFE_INTEGER,
+      maxOutputTokens: Number.MAX_SAFE_INTEGER,
+      costPer1kTokens: { input: 0, output: 0 },
+    }];
+  }
+
+  async canServe(request: LLMRequest): Promise<boolean> {
+    return (await this.lookup(hashLLMRequest(request))) !== null;
+  }
+
+  async complete(_model: LLMModelSpec, request: LLMRequest): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const requestHash = hashLLMRequest(request);
+    const recorded = await this.lookup(requestHash);
+    if (!recorded) {
+      throw new Error(`No recorded response for request ${requestHash}`);
+    }
+
+    // The recorded model stays on the response so outputs match the original run
+    return { ...recorded, provider: this.name, cost: 0, latencyMs: Date.now() - startTime };
+  }
+
+  async close(): Promise<void> {
+    if (this.ready) await this.ready;
+    if (this.database) {
+      await this.database.close();
+      this.database = null;
+    }
+  }
+
+  private async lookup(requestHash: string): Promise<LLMResponse | null> {
+    // Opened on first use, since most runs never enable replay
+    this.ready = this.ready || this.initializeDatabase();
+    await this.ready;
+    if (!this.database) return null;
+
+    try {
+      const row = await this.database.get(`
+        SELECT response FROM prompt_llm_calls
+        WHERE request_hash = ? AND response IS NOT NULL
+        ORDER BY id DESC LIMIT 1
+      `, [requestHash]);
+
+      return row ? JSON.parse(row.response) : null;
+    } catch (error) {
+      // Audit databases written before requests were stored have nothing to replay
+      loggerUtils.dbLogger.warn('Replay lookup failed', {
+        requestHash,
+        error: (error as Error).message,
+      });
+      return null;
+    }
+  }
+
+  private async initializeDatabase(): Promise<void> {
+    try {
+      this.database = await open({
+        filename: this.dbPath,
+        driver: sqlite3.Database,
+        mode: sqlite3.OPEN_READONLY,
+      });
+    } catch (error) {
+      loggerUtils.dbLogger.error('Failed to open prompt audit database for replay', {
+        dbPath: this.dbPath,
+        error: (error as Error).message,
+      });
+      this.database = null;
+    }
+  }
+}
+
+export default ReplayProvider;
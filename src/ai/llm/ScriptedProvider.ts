@@ -0,0 +1,161 @@
+/**
+ * Scripted adapter
+ * A deterministic stand-in for a model, so the AI modules can run end to end with no API
+ * key. Forced function calls are answered with an instance of the function's own JSON
+ * Schema; JSON and text requests are answered by a script keyed by use case. Values are
+ * seeded from the request hash, so the same prompt always gets the same answer. Responses
+ * are marked synthetic so nothing built on them passes as model output.
+ */
+
+import { createHash } from 'crypto';
+import { markSynthetic } from '../../core/SyntheticData.js';
+import {
+  LLMModelSpec,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  estimateInputTokens,
+  hashLLMRequest,
+} from './LLMProvider.js';
+
+export type LLMScript = (request: LLMRequest, seed: string) => any;
+
+const SCRIPTED_MODEL = 'scripted';
+
+// Outputs for the requests that carry no schema, keyed by use case
+export const DEFAULT_SCRIPTS: Record<string, LLMScript> = {
+  technical_analysis: (request) => {
+    const prompt = request.messages.map(message => message.content).join('\n');
+    const price = Number(prompt.match(/Price: current: ([\d.]+)/)?.[1]) || 100;
+    return {
+      entry_price: round(price),
+      entry_timing: 'On a close above the prior session high',
+      primary_exit: round(price * 1.06),
+      secondary_exit: round(price * 1.09),
+      stop_loss: round(price * 0.97),
+      time_horizon: '3-5 days',
+      confidence: 0.6,
+      setup_type: 'Breakout',
+      key_levels: [`Support at ${round(price * 0.97)}`, `Resistance at ${round(price * 1.06)}`],
+      invalidation: `Close below ${round(price * 0.97)}`,
+    };
+  },
+  news_tagging: () => ({
+    sentiment: { score: 0.2, label: 'positive', confidence: 0.6 },
+    tags: [{ type: 'analyst', confidence: 0.5, reasoning: 'Scripted tag' }],
+  }),
+  sentiment_analysis: () => ({
+    sentiment: 'neutral',
+    score: 0,
+    magnitude: 0.3,
+    keywords: [],
+  }),
+  default: (request) => ({
+    symbol: request.messages.map(message => message.content).join('\n').match(/Analyze (\S+) stock/)?.[1] || 'UNKNOWN',
+    recommendation: 'hold',
+    confidence: 0.5,
+    risks: ['Scripted response'],
+    opportunities: ['Scripted response'],
+    summary: 'Scripted response',
+  }),
+};
+
+export class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted';
+  readonly offline = true;
+  private scripts: Map<string, LLMScript>;
+
+  constructor(scripts: Record<string, LLMScript> = DEFAULT_SCRIPTS) {
+    this.scripts = new Map(Object.entries(scripts));
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  models(): LLMModelSpec[] {
+    return [{
+      id: SCRIPTED_MODEL,
+      provider: this.name,
+      tier: 'advanced',
+      capabilities: ['tools', 'json', 'vision'],
+      contextWindow: Number.MAX_SAFE_INTEGER,
+      maxOutputTokens: Number.MAX_SAFE_INTEGER,
+      costPer1kTokens: { input: 0, output: 0 },
+    }];
+  }
+
+  /**
+   * Answer a function name or use case with a fixed output or a script, replacing any default
+   */
+  script(key: string, output: any): void {
+    this.scripts.set(key, typeof output === 'function' ? output : () => output);
+  }
+
+  async complete(_model: LLMModelSpec, request: LLMRequest): Promise<LLMResponse> {
+    const seed = hashLLMRequest(request);
+    const script = (request.tool && this.scripts.get(request.tool.name))
+      || this.scripts.get(request.useCase || '')
+      || (request.tool ? null : this.scripts.get('default'));
+
+    const output = script ? script(request, seed) : fromSchema(request.tool!.parameters, seed, request.tool!.name);
+    const text = JSON.stringify(output);
+
+    return markSynthetic({
+      provider: this.name,
+      model: SCRIPTED_MODEL,
+      content: request.tool ? null : text,
+      toolArguments: request.tool ? text : null,
+      usage: { inputTokens: estimateInputTokens(request), outputTokens: Math.ceil(text.length / 4) },
+      cost: 0,
+      latencyMs: 0,
+    }, { reason: 'generated', origin: 'ScriptedProvider' });
+  }
+}
+
+/**
+ * An instance of a JSON Schema with every property filled in; enums, bounds and item
+ * types are respected, everything else is derived from the seed and the property path
+ */
+export function fromSchema(schema: any, seed: string, path: string): any {
+  if (!schema || typeof schema !== 'object') return null;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[Math.floor(fraction(seed, path) * schema.enum.length)];
+  }
+
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties || {})
+        .map(([key, property]) => [key, fromSchema(property, seed, `${path}.${key}`)]));
+    case 'array': {
+      const count = Math.max(schema.minItems ?? 2, 1);
+      return Array.from({ length: Math.min(count, schema.maxItems ?? count) },
+        (_, index) => fromSchema(schema.items || { type: 'string' }, seed, `${path}[${index}]`));
+    }
+    case 'number':
+    case 'integer': {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? min + 1;
+      const value = min + fraction(seed, path) * (max - min);
+      return schema.type === 'integer' ? Math.round(value) : round(value, 3);
+    }
+    case 'boolean':
+      return fraction(seed, path) < 0.5;
+    case 'string':
+      return `Scripted ${path.split('.').pop()!.replace(/\[\d+\]$/, '').replace(/_/g, ' ')}`;
+    default:
+      return null;
+  }
+}
+
+// Deterministic value in [0, 1) for a position in the output
+function fraction(seed: string, path: string): number {
+  return parseInt(createHash('md5').update(`${seed}:${path}`).digest('hex').substring(0, 8), 16) / 0x100000000;
+}
+
+function round(value: number, decimals: number = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export default ScriptedProvider;
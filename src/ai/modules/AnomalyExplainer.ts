@@ -1,9 +1,10 @@
 /**
  * Anomaly Explainer AI Module
- * Uses GPT-4-turbo for complex pattern investigation and hidden catalyst detection
+ * Uses an advanced-tier model for complex pattern investigation and hidden catalyst detection
  */
 
-import { openAIClient } from '../../config/openai.js';
+import { modelRouter } from '../llm/ModelRouter.js';
+import { parseModelJson } from '../llm/LLMProvider.js';
 import { redisClientInstance as redisClient } from '../../config/redis.js';
 import { loggerUtils } from '../../config/logger.js';
 import { DataHub } from '../../api/DataHub.js';
@@ -200,7 +201,7 @@ export class AnomalyExplainer {
     }
   };
 
-  // OpenAI function calling schema
+  // Function calling schema
   private readonly anomalyExplanationSchema = {
     name: "explain_market_anomaly",
     description: "Investigate and explain unexplained price movements and volume spikes",
@@ -358,7 +359,7 @@ export class AnomalyExplainer {
   }
 
   /**
-   * Perform AI-powered analysis using GPT-4-turbo
+   * Perform AI-powered analysis on the routed model
    */
   private async performAIAnalysis(
     anomaly: PriceAnomaly, 
@@ -369,33 +370,21 @@ export class AnomalyExplainer {
     const userPrompt = this.buildUserPrompt(anomaly, correlationData);
 
     try {
-      if (!openAIClient) {
-        throw new Error('OpenAI client not initialized');
-      }
-      
-      const response = await openAIClient.chat.completions.create({
-        model: 'gpt-4-turbo',
+      const response = await modelRouter.complete({
+        useCase: 'complex_reasoning',
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
         ],
-        tools: [{
-          type: 'function',
-          function: this.anomalyExplanationSchema
-        }],
-        tool_choice: { type: 'function', function: { name: 'explain_market_anomaly' } },
+        tool: this.anomalyExplanationSchema,
         temperature: 0.1,
-        max_tokens: 2000,
+        maxTokens: 2000,
       });
 
-      if (response.choices[0]?.message?.tool_calls?.[0]?.function?.arguments) {
-        const analysis = JSON.parse(response.choices[0].message.tool_calls[0].function.arguments);
-        return this.validateAndEnhanceAnalysis(analysis, anomaly, correlationData);
-      }
-
-      throw new Error('No function call response received');
+      const analysis = parseModelJson(response.toolArguments);
+      return this.validateAndEnhanceAnalysis(analysis, anomaly, correlationData);
     } catch (error) {
-      loggerUtils.aiLogger.error('OpenAI anomaly analysis failed', {
+      loggerUtils.aiLogger.error('Anomaly analysis model call failed', {
         symbol: anomaly.symbol,
         error: (error as Error).message,
       });
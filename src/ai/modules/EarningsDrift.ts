@@ -1,12 +1,16 @@
 /**
  * Earnings Drift Tracker AI Module
- * Uses GPT-4-turbo for historical pattern recognition and post-earnings behavior prediction
+ * Uses an advanced-tier model for historical pattern recognition and post-earnings behavior prediction
  */
 
-import { openAIClient } from '../../config/openai.js';
+import { modelRouter } from '../llm/ModelRouter.js';
+import { parseModelJson } from '../llm/LLMProvider.js';
 import { redisClientInstance as redisClient } from '../../config/redis.js';
 import { loggerUtils } from '../../config/logger.js';
 import { DataHub } from '../../api/DataHub.js';
+import { EarningsReport, OptionImpliedMove } from '../../types/data.js';
+import { getImpliedMove } from '../../preprocessing/OptionChainNormalizer.js';
+import { earningsCalendar } from '../../market/EarningsCalendar.js';
 
 export interface EarningsEvent {
   date: string;
@@ -52,7 +56,7 @@ export interface PostEarningsPrice {
     volumeRatio: number; // earningsDayVolume / avgVolume20d
   };
   marketContext: {
-    vixLevel: number;
+    vixLevel?: number; // VIX close the day before the report, when index history is available
     marketMove: number; // SPY % move over same period
     sectorMove: number; // Sector ETF % move over same period
   };
@@ -76,6 +80,7 @@ export interface EarningsDriftInput {
   currentVolume: number;
   avgVolume20d: number;
   impliedVolatility?: number;
+  impliedMove?: OptionImpliedMove; // ATM straddle through the first expiry after the report
   optionsActivity?: {
     callVolume: number;
     putVolume: number;
@@ -111,6 +116,7 @@ export interface EarningsDriftOutput {
     confidence: number; // 0-1 confidence in prediction
     peak_drift_timing: '6h' | '24h' | '48h' | '72h' | '1week';
     fade_risk: number; // 0-1 probability that initial move will fade
+    implied_move: number | null; // Options-implied % move through the report, either direction
   };
   
   historical_patterns: {
@@ -172,7 +178,7 @@ export class EarningsDrift {
     significantMove: 0.02, // 2% minimum move to be considered significant
   };
 
-  // OpenAI function calling schema
+  // Function calling schema
   private readonly earningsDriftSchema = {
     name: "analyze_earnings_drift",
     description: "Analyze historical earnings patterns and predict post-earnings drift behavior",
@@ -250,6 +256,27 @@ export class EarningsDrift {
         };
       }
 
+      // Read reported quarters and the upcoming estimates from the earnings calendar when the caller has none
+      if ((input.historicalEarnings || []).length === 0) {
+        input = await this.withEarningsHistory(input);
+      }
+
+      // Derive post-earnings price windows from stored history when the caller has none
+      if ((input.historicalPriceData || []).length === 0 && (input.historicalEarnings || []).length > 0) {
+        input = {
+          ...input,
+          historicalPriceData: await this.buildPostEarningsPrices(
+            input.symbol,
+            input.historicalEarnings.map(e => e.date)
+          ),
+        };
+      }
+
+      // Read the options market's expectations when the caller has none
+      if (!input.impliedMove) {
+        input = await this.withOptionsContext(input);
+      }
+
       // Analyze historical patterns
       const historicalPatterns = this.analyzeHistoricalPatterns(input);
       
@@ -257,7 +284,7 @@ export class EarningsDrift {
       const riskFactors = this.calculateRiskFactors(input);
       
       // Perform AI-powered drift analysis
-      const aiAnalysis = await this.performAIDriftAnalysis(input, historicalPatterns);
+      const { analysis: aiAnalysis, model } = await this.performAIDriftAnalysis(input, historicalPatterns);
       
       // Generate scenario analysis
       const scenarios = this.generateScenarios(input, historicalPatterns, aiAnalysis);
@@ -270,12 +297,12 @@ export class EarningsDrift {
         symbol: input.symbol,
         nextEarningsDate: input.nextEarningsDate,
         timestamp: Date.now(),
-        analysis: aiAnalysis,
+        analysis: { ...aiAnalysis, implied_move: input.impliedMove?.movePercent ?? null },
         historical_patterns: historicalPatterns,
         risk_factors: riskFactors,
         scenarios,
         metadata: {
-          model_used: 'gpt-4-turbo',
+          model_used: model,
           processing_time: Date.now() - startTime,
           cache_hit: false,
           historical_data_quality: dataQuality,
@@ -303,36 +330,28 @@ export class EarningsDrift {
   }
 
   /**
-   * Perform AI-powered drift analysis using GPT-4-turbo
+   * Perform AI-powered drift analysis on the routed model
    */
-  private async performAIDriftAnalysis(input: EarningsDriftInput, patterns: any): Promise<any> {
+  private async performAIDriftAnalysis(input: EarningsDriftInput, patterns: any): Promise<{ analysis: any; model: string }> {
     const systemPrompt = this.buildSystemPrompt();
     const userPrompt = this.buildUserPrompt(input, patterns);
 
     try {
-      const response = await openAIClient.chat.completions.create({
-        model: 'gpt-4-turbo',
+      const response = await modelRouter.complete({
+        useCase: 'deep_analysis',
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
         ],
-        tools: [{
-          type: 'function',
-          function: this.earningsDriftSchema
-        }],
-        tool_choice: { type: 'function', function: { name: 'analyze_earnings_drift' } },
+        tool: this.earningsDriftSchema,
         temperature: 0.1,
-        max_tokens: 1200,
+        maxTokens: 1200,
       });
 
-      if (response.choices[0]?.message?.tool_calls?.[0]?.function?.arguments) {
-        const analysis = JSON.parse(response.choices[0].message.tool_calls[0].function.arguments);
-        return this.validateAndEnhanceAnalysis(analysis, input);
-      }
-
-      throw new Error('No function call response received');
+      const analysis = parseModelJson(response.toolArguments);
+      return { analysis: this.validateAndEnhanceAnalysis(analysis, input), model: response.model };
     } catch (error) {
-      loggerUtils.aiLogger.error('OpenAI earnings drift analysis failed', {
+      loggerUtils.aiLogger.error('Earnings drift model call failed', {
         symbol: input.symbol,
         error: (error as Error).message,
       });
@@ -425,6 +444,7 @@ UPCOMING EARNINGS:
 - Expected Revenue: ${input.expectedRevenue ? (input.expectedRevenue/1e6).toFixed(0) + 'M' : 'Unknown'}
 - Current Price: $${input.currentPrice.toFixed(2)}
 - Implied Volatility: ${input.impliedVolatility ? (input.impliedVolatility * 100).toFixed(1) + '%' : 'Unknown'}
+- Options-Implied Move: ${input.impliedMove ? `±${(input.impliedMove.movePercent * 100).toFixed(1)}% through ${input.impliedMove.expiration}` : 'Unknown'}
 
 ANALYST CONSENSUS:
 ${input.analystConsensus ? `- Strong Buy: ${input.analystConsensus.strongBuy}, Buy: ${input.analystConsensus.buy}, Hold: ${input.analystConsensus.hold}, Sell: ${input.analystConsensus.sell}, Strong Sell: ${input.analystConsensus.strongSell}` : '- Not available'}
@@ -455,6 +475,82 @@ Based on this historical pattern analysis and current market conditions, predict
 Consider the current market environment (VIX ${input.marketContext.vixLevel.toFixed(1)}) and sector performance in your analysis.`;
   }
 
+  /**
+   * Build post-earnings price windows from the shared daily bar store.
+   * Day 1 is the first session on or after the report date. Prices are total-return
+   * adjusted so splits and ex-dividend drops inside a window do not read as drift.
+   */
+  async buildPostEarningsPrices(symbol: string, earningsDates: string[]): Promise<PostEarningsPrice[]> {
+    if (earningsDates.length === 0) return [];
+
+    const times = earningsDates.map(date => Date.parse(`${date}T00:00:00Z`)).filter(t => !isNaN(t));
+    if (times.length === 0) return [];
+
+    const dayMs = 24 * 60 * 60 * 1000;
+    const from = Math.min(...times) - 45 * dayMs;
+    const to = Math.min(Math.max(...times) + 12 * dayMs, Date.now());
+
+    const [bars, marketBars, vixBars] = await Promise.all([
+      this.dataHub.getPriceHistory(symbol, { interval: '1d', from, to, adjustment: 'total_return' }),
+      this.dataHub.getPriceHistory('SPY', { interval: '1d', from, to, adjustment: 'total_return' }).catch(() => []),
+      this.dataHub.getPriceHistory('^VIX', { interval: '1d', from, to }).catch(() => []),
+    ]);
+
+    const windows: PostEarningsPrice[] = [];
+
+    for (const date of earningsDates) {
+      const reportTime = Date.parse(`${date}T00:00:00Z`);
+      const day1Index = bars.findIndex(bar => bar.timestamp >= reportTime);
+      if (day1Index < 1 || day1Index + 2 >= bars.length) continue;
+
+      const before = bars[day1Index - 1];
+      const day1 = bars[day1Index];
+      const day2 = bars[day1Index + 1];
+      const day3 = bars[day1Index + 2];
+      const week = bars[Math.min(day1Index + 4, bars.length - 1)];
+      const prior20 = bars.slice(Math.max(0, day1Index - 20), day1Index);
+      const avgVolume20d = prior20.reduce((sum, bar) => sum + bar.volume, 0) / prior20.length;
+      const move = (price: number): number => (price - before.close) / before.close;
+
+      const marketBefore = marketBars.filter(bar => bar.timestamp <= before.timestamp).pop();
+      const marketAfter = marketBars.filter(bar => bar.timestamp <= day3.timestamp).pop();
+      const vixBefore = vixBars.filter(bar => bar.timestamp <= before.timestamp).pop();
+
+      windows.push({
+        earningsDate: date,
+        priceData: {
+          beforeEarnings: before.close,
+          afterHoursMove: move(day1.open),
+          day1Open: day1.open,
+          day1Close: day1.close,
+          day1Move: move(day1.close),
+          day2Close: day2.close,
+          day2Move: move(day2.close),
+          day3Close: day3.close,
+          day3Move: move(day3.close),
+          weekMove: move(week.close),
+        },
+        volume: {
+          avgVolume20d,
+          earningsDayVolume: day1.volume,
+          day1Volume: day1.volume,
+          day2Volume: day2.volume,
+          day3Volume: day3.volume,
+          volumeRatio: avgVolume20d > 0 ? day1.volume / avgVolume20d : 1,
+        },
+        marketContext: {
+          vixLevel: vixBefore?.close,
+          marketMove: marketBefore && marketAfter
+            ? (marketAfter.close - marketBefore.close) / marketBefore.close
+            : 0,
+          sectorMove: 0,
+        },
+      });
+    }
+
+    return windows;
+  }
+
   /**
    * Analyze historical patterns from earnings data
    */
@@ -667,13 +763,95 @@ Consider the current market environment (VIX ${input.marketContext.vixLevel.toFi
 
     return {
       market_environment_risk: marketRisk,
-      options_expiry_impact: false, // Would need to check options expiry calendar
+      options_expiry_impact: this.expiresInDriftWindow(input),
       sector_rotation_risk: sectorRisk,
       institutional_positioning: positioning,
       earnings_season_fatigue: 0.3, // Default - would need earnings calendar data
     };
   }
 
+  /**
+   * Options expiring within a week of the report pin or amplify the post-earnings move
+   */
+  private expiresInDriftWindow(input: EarningsDriftInput): boolean {
+    if (!input.impliedMove) return false;
+    const daysAfterReport = (Date.parse(input.impliedMove.expiration) - Date.parse(input.nextEarningsDate)) / 86400000;
+    return daysAfterReport >= 0 && daysAfterReport <= 7;
+  }
+
+  /**
+   * Add the last eight reported quarters and the upcoming report's consensus
+   */
+  private async withEarningsHistory(input: EarningsDriftInput): Promise<EarningsDriftInput> {
+    try {
+      await earningsCalendar.refreshIfStale(input.symbol);
+    } catch (error) {
+      loggerUtils.aiLogger.warn('Earnings calendar refresh failed', {
+        symbol: input.symbol,
+        error: (error as Error).message,
+      });
+    }
+
+    const upcoming = earningsCalendar.getReports(input.symbol).find(report => report.reportDate === input.nextEarningsDate);
+    return {
+      ...input,
+      historicalEarnings: earningsCalendar.getLastSurprises(input.symbol, 8)
+        .filter(report => report.reportDate < input.nextEarningsDate)
+        .reverse()
+        .map(report => this.toEarningsEvent(report)),
+      expectedEPS: input.expectedEPS ?? upcoming?.epsEstimate ?? undefined,
+      expectedRevenue: input.expectedRevenue ?? upcoming?.revenueEstimate ?? undefined,
+    };
+  }
+
+  private toEarningsEvent(report: EarningsReport): EarningsEvent {
+    const epsSurprise = report.epsSurprisePercent ?? 0;
+    const revenueSurprise = report.revenueSurprisePercent ?? 0;
+
+    return {
+      date: report.reportDate,
+      quarter: report.fiscalQuarter !== null ? `Q${report.fiscalQuarter}` : report.fiscalPeriodEnd || report.reportDate,
+      fiscalYear: report.fiscalYear ?? Number((report.fiscalPeriodEnd || report.reportDate).slice(0, 4)),
+      expectedEPS: report.epsEstimate ?? 0,
+      actualEPS: report.epsActual ?? 0,
+      surprise: epsSurprise / 100,
+      surprisePercent: epsSurprise,
+      revenue: {
+        expected: report.revenueEstimate ?? 0,
+        actual: report.revenueActual ?? 0,
+        surprise: revenueSurprise / 100,
+        surprisePercent: revenueSurprise,
+      },
+      guidance: { provided: false, sentiment: 'neutral', change: 'none' },
+    };
+  }
+
+  /**
+   * Add implied move, ATM volatility and flow from the live option chain
+   */
+  private async withOptionsContext(input: EarningsDriftInput): Promise<EarningsDriftInput> {
+    const chain = await this.dataHub.getOptionChain(input.symbol);
+    if (!chain) return input;
+
+    const impliedMove = getImpliedMove(chain, input.nextEarningsDate);
+    const slice = impliedMove ? chain.expirations.find(s => s.expiration === impliedMove.expiration) : undefined;
+    const callVolume = chain.expirations.reduce((sum, s) => sum + s.callVolume, 0);
+    const putVolume = chain.expirations.reduce((sum, s) => sum + s.putVolume, 0);
+    const openInterest = chain.expirations.reduce((sum, s) => sum + s.callOpenInterest + s.putOpenInterest, 0);
+
+    return {
+      ...input,
+      impliedMove: impliedMove || undefined,
+      impliedVolatility: input.impliedVolatility ?? slice?.atmIv ?? undefined,
+      optionsActivity: input.optionsActivity ?? (callVolume > 0 ? {
+        callVolume,
+        putVolume,
+        putCallRatio: putVolume / callVolume,
+        unusualActivity: openInterest > 0 && (callVolume + putVolume) / openInterest > 0.5, // Day's volume above half of open interest
+      } : undefined),
+    };
+  }
+
   /**
    * Generate scenario analysis
    */
@@ -848,6 +1026,7 @@ Consider the current market environment (VIX ${input.marketContext.vixLevel.toFi
         confidence: 0.2, // Low confidence
         peak_drift_timing: '48h',
         fade_risk: 0.6, // High fade risk due to uncertainty
+        implied_move: input.impliedMove?.movePercent ?? null,
       },
       historical_patterns: {
         last_3_earnings: {
@@ -1019,18 +1198,28 @@ Consider the current market environment (VIX ${input.marketContext.vixLevel.toFi
 
     for (const symbol of symbols) {
       try {
-        // Get earnings date (would normally fetch from earnings calendar API)
-        const earningsDate = '2024-01-15'; // Placeholder
-        
+        await earningsCalendar.refreshIfStale(symbol);
+        const next = earningsCalendar.getNextEarnings(symbol, dateRange.start);
+        if (!next || next.reportDate > dateRange.end) continue;
+        const earningsDate = next.reportDate;
+
+        // Current price and volume from stored daily history
+        const bars = await this.dataHub.getPriceHistory(symbol, { interval: '1d', lookbackDays: 45 });
+        const lastBar = bars[bars.length - 1];
+        const recentBars = bars.slice(-21, -1);
+        const avgVolume20d = recentBars.length > 0
+          ? recentBars.reduce((sum, bar) => sum + bar.volume, 0) / recentBars.length
+          : 800000;
+
         // Create minimal input for analysis
         const input: EarningsDriftInput = {
           symbol,
           nextEarningsDate: earningsDate,
-          historicalEarnings: [], // Would fetch from data source
+          historicalEarnings: [], // Filled from the earnings calendar
           historicalPriceData: [],
-          currentPrice: 100, // Would fetch current price
-          currentVolume: 1000000,
-          avgVolume20d: 800000,
+          currentPrice: lastBar?.close || 100,
+          currentVolume: lastBar?.volume || 1000000,
+          avgVolume20d,
           marketContext: {
             vixLevel: 20,
             sectorPerformance: 0.02,
@@ -1,12 +1,14 @@
 /**
  * Reddit/NLP Analyzer AI Module
- * Uses GPT-3.5-turbo for basic sentiment and GPT-4-turbo for authenticity detection
+ * Uses a fast-tier model for basic sentiment and an advanced-tier model for authenticity detection
  */
 
-import { openAIClient } from '../../config/openai.js';
+import { modelRouter } from '../llm/ModelRouter.js';
+import { LLMTier, parseModelJson } from '../llm/LLMProvider.js';
 import { redisClientInstance as redisClient } from '../../config/redis.js';
 import { loggerUtils } from '../../config/logger.js';
 import { DataHub } from '../../api/DataHub.js';
+import { NormalizedShortData } from '../../types/data.js';
 
 export interface RedditPostData {
   id: string;
@@ -74,6 +76,7 @@ export interface RedditNLPInput {
     telegramMentions: number;
     syncScore: number; // 0-1, how synchronized mentions are
   };
+  shortData?: NormalizedShortData; // Filled from the short interest service when omitted
 }
 
 export interface RedditNLPOutput {
@@ -108,6 +111,7 @@ export interface RedditNLPOutput {
       unusual_upvote_patterns: boolean;
       external_coordination: boolean;
       low_quality_engagement: boolean;
+      squeeze_setup: boolean; // Heavily shorted name being hyped, the classic meme squeeze
     };
   };
   
@@ -137,7 +141,7 @@ export interface RedditNLPOutput {
   };
   
   metadata: {
-    model_used: 'gpt-3.5-turbo' | 'gpt-4-turbo';
+    model_used: string;
     total_posts_analyzed: number;
     unique_authors: number;
     subreddit_count: number;
@@ -181,9 +185,10 @@ export class RedditNLP {
     velocitySpike: 5.0,   // >5x normal velocity is suspicious
     lowEngagement: 0.3,   // <30% engagement quality is suspicious
     crossPlatformSync: 0.8, // >80% sync across platforms is suspicious
+    squeezeScore: 0.5,    // High squeeze risk from short interest, FTDs and borrow
   };
 
-  // OpenAI function calling schema
+  // Function calling schema
   private readonly redditNLPSchema = {
     name: "analyze_reddit_sentiment",
     description: "Analyze Reddit mentions for authenticity, sentiment trends, and pump detection",
@@ -270,14 +275,16 @@ export class RedditNLP {
         };
       }
 
-      // Determine model based on complexity
-      const model = this.selectModel(input);
+      input = await this.withShortData(input);
+
+      // Determine model tier based on complexity
+      const tier = this.selectTier(input);
       
       // Perform authenticity analysis
       const authenticityAnalysis = this.analyzeAuthenticity(input);
       
       // Perform sentiment analysis using AI
-      const sentimentAnalysis = await this.performSentimentAnalysis(input, model);
+      const { analysis: sentimentAnalysis, model } = await this.performSentimentAnalysis(input, tier);
       
       // Analyze mention velocity
       const velocityAnalysis = this.analyzeVelocity(input);
@@ -330,53 +337,46 @@ export class RedditNLP {
   }
 
   /**
-   * Select model based on analysis complexity
+   * Select model tier based on analysis complexity
    */
-  private selectModel(input: RedditNLPInput): 'gpt-3.5-turbo' | 'gpt-4-turbo' {
-    // Use GPT-4-turbo for authenticity detection and complex patterns
+  private selectTier(input: RedditNLPInput): LLMTier {
+    // Use an advanced model for authenticity detection and complex patterns
     if (input.accountMetrics.newAccountRatio > 0.3 || 
         input.languagePatterns.repeatContentRatio > 0.2 ||
         (input.crossPlatformData?.syncScore && input.crossPlatformData.syncScore > 0.7)) {
-      return 'gpt-4-turbo';
+      return 'advanced';
     }
     
-    // Use GPT-3.5-turbo for basic sentiment analysis
-    return 'gpt-3.5-turbo';
+    // Use a fast model for basic sentiment analysis
+    return 'fast';
   }
 
   /**
    * Perform sentiment analysis using AI
    */
-  private async performSentimentAnalysis(input: RedditNLPInput, model: 'gpt-3.5-turbo' | 'gpt-4-turbo'): Promise<any> {
-    const systemPrompt = this.buildSystemPrompt(model);
+  private async performSentimentAnalysis(input: RedditNLPInput, tier: LLMTier): Promise<{ analysis: any; model: string }> {
+    const systemPrompt = this.buildSystemPrompt(tier);
     const userPrompt = this.buildUserPrompt(input);
 
     try {
-      const response = await openAIClient.chat.completions.create({
-        model: model,
+      const response = await modelRouter.complete({
+        useCase: 'sentiment_analysis',
+        tier,
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
         ],
-        tools: [{
-          type: 'function',
-          function: this.redditNLPSchema
-        }],
-        tool_choice: { type: 'function', function: { name: 'analyze_reddit_sentiment' } },
-        temperature: model === 'gpt-3.5-turbo' ? 0.2 : 0.1,
-        max_tokens: model === 'gpt-3.5-turbo' ? 1000 : 1500,
+        tool: this.redditNLPSchema,
+        temperature: tier === 'fast' ? 0.2 : 0.1,
+        maxTokens: tier === 'fast' ? 1000 : 1500,
       });
 
-      if (response.choices[0]?.message?.tool_calls?.[0]?.function?.arguments) {
-        const analysis = JSON.parse(response.choices[0].message.tool_calls[0].function.arguments);
-        return this.validateAndEnhanceAnalysis(analysis, input);
-      }
-
-      throw new Error('No function call response received');
+      const analysis = parseModelJson(response.toolArguments);
+      return { analysis: this.validateAndEnhanceAnalysis(analysis, input), model: response.model };
     } catch (error) {
-      loggerUtils.aiLogger.error('OpenAI Reddit analysis failed', {
+      loggerUtils.aiLogger.error('Reddit analysis model call failed', {
         symbol: input.symbol,
-        model,
+        tier,
         error: (error as Error).message,
       });
       throw error;
@@ -384,9 +384,9 @@ export class RedditNLP {
   }
 
   /**
-   * Build system prompt based on model
+   * Build system prompt based on model tier
    */
-  private buildSystemPrompt(model: 'gpt-3.5-turbo' | 'gpt-4-turbo'): string {
+  private buildSystemPrompt(tier: LLMTier): string {
     const basePrompt = `You are an expert social media analyst specializing in Reddit sentiment analysis and authenticity detection for financial discussions.
 
 CORE ANALYSIS AREAS:
@@ -423,7 +423,7 @@ ANALYSIS PRINCIPLES:
 - Flag coordinated manipulation attempts
 - Assess narrative strength and backing`;
 
-    if (model === 'gpt-4-turbo') {
+    if (tier === 'advanced') {
       return basePrompt + `
 
 ADVANCED DETECTION CAPABILITIES:
@@ -499,6 +499,13 @@ ${input.crossPlatformData ? `CROSS-PLATFORM DATA:
 - Discord mentions: ${input.crossPlatformData.discordMentions}
 - Platform sync score: ${(input.crossPlatformData.syncScore * 100).toFixed(0)}%` : ''}
 
+${input.shortData ? `SHORT INTEREST:
+- Short % of float: ${input.shortData.shortPercentOfFloat !== null ? (input.shortData.shortPercentOfFloat * 100).toFixed(1) + '%' : 'Unknown'}
+- Days to cover: ${input.shortData.daysToCover !== null ? input.shortData.daysToCover.toFixed(1) : 'Unknown'}
+- Change since last settlement: ${input.shortData.shortInterestChange !== null ? (input.shortData.shortInterestChange * 100).toFixed(1) + '%' : 'Unknown'}
+- Avg daily fails-to-deliver (${input.shortData.failsToDeliver.latestDate ? 'recent' : 'none reported'}): ${Math.round(input.shortData.failsToDeliver.averageQuantity)} shares
+- Squeeze risk: ${(input.shortData.squeeze.score * 100).toFixed(0)}% (${input.shortData.squeeze.level})` : ''}
+
 Analyze for:
 1. Authenticity (organic vs manufactured sentiment)
 2. Narrative strength and consistency
@@ -643,9 +650,28 @@ Provide comprehensive analysis focusing on distinguishing genuine community inte
       unusual_upvote_patterns: this.detectUnusualUpvotePatterns(input.posts),
       external_coordination: (input.crossPlatformData?.syncScore || 0) > this.pumpThresholds.crossPlatformSync,
       low_quality_engagement: languagePatterns.sophisticationScore < this.pumpThresholds.lowEngagement,
+      squeeze_setup: (input.shortData?.squeeze.score ?? 0) >= this.pumpThresholds.squeezeScore,
     };
   }
 
+  /**
+   * Attach stored short interest and squeeze risk unless the caller supplied them
+   */
+  private async withShortData(input: RedditNLPInput): Promise<RedditNLPInput> {
+    if (input.shortData) return input;
+
+    try {
+      const shortData = await this.dataHub.shortInterest.getShortData(input.symbol);
+      return shortData ? { ...input, shortData } : input;
+    } catch (error) {
+      loggerUtils.aiLogger.warn('Short interest lookup failed', {
+        symbol: input.symbol,
+        error: (error as Error).message,
+      });
+      return input;
+    }
+  }
+
   /**
    * Detect unusual upvote patterns
    */
@@ -941,7 +967,7 @@ Provide comprehensive analysis focusing on distinguishing genuine community inte
         warning_signs: ['Limited analysis available']
       },
       metadata: {
-        model_used: 'gpt-3.5-turbo',
+        model_used: 'conservative_fallback',
         total_posts_analyzed: input.posts.length,
         unique_authors: new Set(input.posts.map(p => p.author)).size,
         subreddit_count: new Set(input.posts.map(p => p.subreddit)).size,
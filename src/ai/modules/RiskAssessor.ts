@@ -1,12 +1,16 @@
 /**
  * Risk Assessor AI Module
- * Uses GPT-4-turbo for multi-dimensional risk classification
+ * Uses an advanced-tier model for multi-dimensional risk classification
  */
 
-import { openAIClient } from '../../config/openai.js';
+import { modelRouter } from '../llm/ModelRouter.js';
+import { parseModelJson } from '../llm/LLMProvider.js';
+import { promptRegistry } from '../PromptRegistry.js';
 import { redisClientInstance as redisClient } from '../../config/redis.js';
 import { loggerUtils } from '../../config/logger.js';
 import { DataHub } from '../../api/DataHub.js';
+import { economicCalendar } from '../../market/EconomicCalendar.js';
+import { earningsCalendar } from '../../market/EarningsCalendar.js';
 
 export interface RiskAssessmentInput {
   symbol: string;
@@ -45,7 +49,9 @@ export interface RiskAssessmentInput {
   // Sentiment data
   retailInterest?: number; // 0-1 scale
   institutionalFlow?: number; // Net institutional buying/selling
-  shortInterest?: number;
+  shortInterest?: number; // Fraction of float
+  daysToCover?: number;
+  squeezeRisk?: number; // 0-1, from the short interest service
   socialSentiment?: number; // -1 to 1
   
   // Market context
@@ -112,7 +118,7 @@ export class RiskAssessor {
     }
   };
 
-  // OpenAI function calling schema
+  // Function calling schema
   private readonly riskAssessmentSchema = {
     name: "assess_trading_risk",
     description: "Comprehensive multi-dimensional risk analysis for short-term trades",
@@ -221,8 +227,13 @@ export class RiskAssessor {
         };
       }
 
+      // Fill macro events inside the trade window from the economic calendar
+      input = this.withMacroEvents(input);
+      input = await this.withEarningsDate(input);
+      input = await this.withShortData(input);
+
       // Perform fresh risk assessment
-      const assessment = await this.performRiskAssessment(input);
+      const { assessment, model } = await this.performRiskAssessment(input);
       
       // Generate alerts
       const alerts = this.generateRiskAlerts(assessment, input);
@@ -241,7 +252,7 @@ export class RiskAssessor {
         },
         alerts,
         metadata: {
-          model_used: 'gpt-4-turbo',
+          model_used: model,
           processing_time: Date.now() - startTime,
           multi_factor_risk: multiFactor,
           escalation_triggered: escalation,
@@ -269,36 +280,34 @@ export class RiskAssessor {
   }
 
   /**
-   * Perform risk assessment using GPT-4-turbo
+   * Perform risk assessment on the routed model
    */
-  private async performRiskAssessment(input: RiskAssessmentInput): Promise<any> {
-    const systemPrompt = this.buildSystemPrompt();
+  private async performRiskAssessment(input: RiskAssessmentInput): Promise<{ assessment: any; model: string }> {
+    // The code prompt is the registry's current version; an experiment may serve another
+    const systemPrompt = await promptRegistry.render(
+      { id: 'risk.system', module: 'risk', template: this.buildSystemPrompt() },
+      {},
+      input.symbol
+    );
     const userPrompt = this.buildUserPrompt(input);
 
     try {
-      const response = await openAIClient.chat.completions.create({
-        model: 'gpt-4-turbo',
+      const response = await modelRouter.complete({
+        useCase: 'risk_assessment',
+        promptVersion: systemPrompt.ref,
         messages: [
-          { role: 'system', content: systemPrompt },
+          { role: 'system', content: systemPrompt.text },
           { role: 'user', content: userPrompt }
         ],
-        tools: [{
-          type: 'function',
-          function: this.riskAssessmentSchema
-        }],
-        tool_choice: { type: 'function', function: { name: 'assess_trading_risk' } },
+        tool: this.riskAssessmentSchema,
         temperature: 0.1,
-        max_tokens: 1500,
+        maxTokens: 1500,
       });
 
-      if (response.choices[0]?.message?.tool_calls?.[0]?.function?.arguments) {
-        const assessment = JSON.parse(response.choices[0].message.tool_calls[0].function.arguments);
-        return this.validateAndEnhanceAssessment(assessment, input);
-      }
-
-      throw new Error('No function call response received');
+      const assessment = parseModelJson(response.toolArguments);
+      return { assessment: this.validateAndEnhanceAssessment(assessment, input), model: response.model };
     } catch (error) {
-      loggerUtils.aiLogger.error('OpenAI risk assessment failed', {
+      loggerUtils.aiLogger.error('Risk assessment model call failed', {
         symbol: input.symbol,
         error: (error as Error).message,
       });
@@ -399,6 +408,97 @@ MARKET CONTEXT:
 Provide comprehensive risk analysis with specific risk scores for each category, primary risk factors, and actionable mitigation strategies. Consider the interaction between different risk factors and flag any unusual risk combinations.`;
   }
 
+  /**
+   * Add scheduled US macro releases inside the holding period unless the caller supplied them
+   */
+  private withMacroEvents(input: RiskAssessmentInput): RiskAssessmentInput {
+    if (input.fedMeetingDate && input.otherEvents) return input;
+
+    const now = Date.now();
+    const events = economicCalendar.getEventsInWindow(
+      now,
+      now + this.horizonDays(input.timeHorizon) * 24 * 60 * 60 * 1000,
+      { minImpact: 'medium', countries: ['US'] }
+    );
+    const fomc = events.find(event => event.category === 'fomc');
+    const isoDate = (timestamp: number) => new Date(timestamp).toISOString().split('T')[0];
+    const format = (value: number | null, unit: string | null) => value === null ? 'n/a' : `${value}${unit || ''}`;
+
+    return {
+      ...input,
+      fedMeetingDate: input.fedMeetingDate ?? (fomc ? isoDate(fomc.scheduledAt) : undefined),
+      otherEvents: input.otherEvents ?? events
+        .filter(event => event.category !== 'fomc')
+        .map(event => ({
+          event: event.consensus !== null
+            ? `${event.event} (consensus ${format(event.consensus, event.unit)}, prior ${format(event.previous, event.unit)})`
+            : event.event,
+          date: isoDate(event.scheduledAt),
+          importance: event.impact,
+        })),
+    };
+  }
+
+  /**
+   * Add the next report date from the earnings calendar unless the caller supplied one
+   */
+  private async withEarningsDate(input: RiskAssessmentInput): Promise<RiskAssessmentInput> {
+    if (input.earningsDate) return input;
+
+    try {
+      await earningsCalendar.refreshIfStale(input.symbol);
+    } catch (error) {
+      loggerUtils.aiLogger.warn('Earnings calendar refresh failed', {
+        symbol: input.symbol,
+        error: (error as Error).message,
+      });
+    }
+
+    const next = earningsCalendar.getNextEarnings(input.symbol);
+    return next ? { ...input, earningsDate: next.reportDate } : input;
+  }
+
+  /**
+   * Add short interest, days to cover and squeeze risk unless the caller supplied them
+   */
+  private async withShortData(input: RiskAssessmentInput): Promise<RiskAssessmentInput> {
+    if (input.shortInterest !== undefined && input.squeezeRisk !== undefined) return input;
+
+    try {
+      const shortData = await this.dataHub.shortInterest.getShortData(input.symbol);
+      if (!shortData) return input;
+
+      return {
+        ...input,
+        shortInterest: input.shortInterest ?? shortData.shortPercentOfFloat ?? undefined,
+        daysToCover: input.daysToCover ?? shortData.daysToCover ?? undefined,
+        squeezeRisk: input.squeezeRisk ?? shortData.squeeze.score,
+      };
+    } catch (error) {
+      loggerUtils.aiLogger.warn('Short interest lookup failed', {
+        symbol: input.symbol,
+        error: (error as Error).message,
+      });
+      return input;
+    }
+  }
+
+  /**
+   * Longest span named in a horizon such as "1-3 days" or "1-2 weeks", in days
+   */
+  private horizonDays(timeHorizon: string): number {
+    const match = timeHorizon?.match(/(\d+(?:\.\d+)?)\s*(hour|day|week|month)/i);
+    if (!match) return 5;
+
+    const value = parseFloat(match[1]);
+    switch (match[2].toLowerCase()) {
+      case 'hour': return Math.max(1, Math.ceil(value / 24));
+      case 'week': return value * 7;
+      case 'month': return value * 30;
+      default: return value;
+    }
+  }
+
   /**
    * Format events data for prompt
    */
@@ -483,6 +583,17 @@ Provide comprehensive risk analysis with specific risk scores for each category,
       data.push(`- Short Interest: ${(input.shortInterest * 100).toFixed(1)}% of float`);
     }
     
+    if (input.daysToCover !== undefined) {
+      data.push(`- Days to Cover: ${input.daysToCover.toFixed(1)}`);
+    }
+    
+    if (input.squeezeRisk !== undefined) {
+      const squeezeDesc = input.squeezeRisk >= 0.75 ? 'Extreme' :
+                         input.squeezeRisk >= 0.5 ? 'High' :
+                         input.squeezeRisk >= 0.3 ? 'Elevated' : 'Low';
+      data.push(`- Short Squeeze Risk: ${(input.squeezeRisk * 100).toFixed(0)}% (${squeezeDesc})`);
+    }
+    
     if (input.socialSentiment !== undefined) {
       const sentimentDesc = input.socialSentiment > 0.3 ? 'Bullish' : 
                            input.socialSentiment < -0.3 ? 'Bearish' : 'Neutral';
@@ -614,6 +725,28 @@ Provide comprehensive risk analysis with specific risk scores for each category,
       }
     }
 
+    if (input.fedMeetingDate) {
+      const daysToFed = this.daysBetween(new Date(), new Date(input.fedMeetingDate));
+      if (daysToFed <= 1) {
+        alerts.push({
+          type: 'warning',
+          message: `FOMC decision in ${daysToFed} day(s) - Rate-driven volatility expected`,
+          category: 'event'
+        });
+      }
+    }
+
+    // Short squeeze alerts: crowded shorts are the risk for shorts and the fuel for longs
+    if (input.squeezeRisk !== undefined && input.squeezeRisk >= 0.5) {
+      alerts.push({
+        type: input.tradeDirection === 'short' ? 'critical' : 'warning',
+        message: input.tradeDirection === 'short'
+          ? `Short squeeze risk ${(input.squeezeRisk * 100).toFixed(0)}% - Heavily shorted with limited exit liquidity`
+          : `Short squeeze risk ${(input.squeezeRisk * 100).toFixed(0)}% - Expect squeeze-driven volatility in both directions`,
+        category: 'sentiment'
+      });
+    }
+
     // Position size alerts
     if (input.positionSize && input.positionSize > assessment.max_position_size) {
       alerts.push({
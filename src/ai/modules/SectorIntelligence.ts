@@ -1,9 +1,11 @@
 /**
  * Sector Intelligence AI Module
- * Uses GPT-4-turbo for sector-specific analysis with detailed prompt templates
+ * Uses an advanced-tier model for sector-specific analysis with detailed prompt templates
  */
 
-import { openAIClient } from '../../config/openai.js';
+import { modelRouter } from '../llm/ModelRouter.js';
+import { parseModelJson } from '../llm/LLMProvider.js';
+import { promptRegistry } from '../PromptRegistry.js';
 import { redisClientInstance as redisClient } from '../../config/redis.js';
 import { loggerUtils } from '../../config/logger.js';
 import { DataHub } from '../../api/DataHub.js';
@@ -64,6 +66,7 @@ export interface SectorAnalysisOutput {
 }
 
 export interface SectorPromptTemplate {
+  id: string; // Prompt registry id of the system prompt
   system_prompt: string;
   user_prompt: string;
   examples: Array<{
@@ -91,7 +94,7 @@ export class SectorIntelligence {
     real_estate: ['XLRE', 'AMT', 'PLD', 'CCI', 'EQIX', 'SPG', 'O', 'PSA', 'WELL', 'AVB'],
   };
 
-  // OpenAI function calling schema
+  // Function calling schema
   private readonly sectorAnalysisSchema = {
     name: "analyze_sector_intelligence",
     description: "Analyze sector-specific drivers and trends for a stock",
@@ -179,7 +182,7 @@ export class SectorIntelligence {
       }
 
       // Perform fresh analysis
-      const analysis = await this.performSectorAnalysis(input);
+      const { analysis, model } = await this.performSectorAnalysis(input);
       
       // Cache the result
       await this.cacheAnalysis(cacheKey, analysis);
@@ -190,7 +193,7 @@ export class SectorIntelligence {
         timestamp: Date.now(),
         analysis,
         metadata: {
-          model_used: 'gpt-4-turbo',
+          model_used: model,
           processing_time: Date.now() - startTime,
           cache_hit: false,
           degraded_mode: false,
@@ -214,40 +217,37 @@ export class SectorIntelligence {
   }
 
   /**
-   * Perform sector-specific analysis using GPT-4-turbo
+   * Perform sector-specific analysis on the routed model
    */
-  private async performSectorAnalysis(input: SectorAnalysisInput): Promise<any> {
+  private async performSectorAnalysis(input: SectorAnalysisInput): Promise<{ analysis: any; model: string }> {
     const sector = this.normalizeSectorName(input.sector_classification);
     const promptTemplate = this.getSectorPromptTemplate(sector);
     
-    // Prepare the analysis prompt
-    const systemPrompt = promptTemplate.system_prompt;
+    // Prepare the analysis prompt; an experiment on the sector's template may serve another version
+    const systemPrompt = await promptRegistry.render(
+      { id: promptTemplate.id, module: 'sector', template: promptTemplate.system_prompt },
+      {},
+      input.symbol
+    );
     const userPrompt = this.buildUserPrompt(input, promptTemplate);
 
     try {
-      const response = await openAIClient.chat.completions.create({
-        model: 'gpt-4-turbo',
+      const response = await modelRouter.complete({
+        useCase: 'deep_analysis',
+        promptVersion: systemPrompt.ref,
         messages: [
-          { role: 'system', content: systemPrompt },
+          { role: 'system', content: systemPrompt.text },
           { role: 'user', content: userPrompt }
         ],
-        tools: [{
-          type: 'function',
-          function: this.sectorAnalysisSchema
-        }],
-        tool_choice: { type: 'function', function: { name: 'analyze_sector_intelligence' } },
+        tool: this.sectorAnalysisSchema,
         temperature: 0.1,
-        max_tokens: 1000,
+        maxTokens: 1000,
       });
 
-      if (response.choices[0]?.message?.tool_calls?.[0]?.function?.arguments) {
-        const analysis = JSON.parse(response.choices[0].message.tool_calls[0].function.arguments);
-        return this.validateAndEnhanceAnalysis(analysis, input);
-      }
-
-      throw new Error('No function call response received');
+      const analysis = parseModelJson(response.toolArguments);
+      return { analysis: this.validateAndEnhanceAnalysis(analysis, input), model: response.model };
     } catch (error) {
-      loggerUtils.aiLogger.error('OpenAI API call failed', {
+      loggerUtils.aiLogger.error('Sector analysis model call failed', {
         symbol: input.symbol,
         error: (error as Error).message,
       });
@@ -261,6 +261,7 @@ export class SectorIntelligence {
   private getSectorPromptTemplate(sector: string): SectorPromptTemplate {
     const templates: Record<string, SectorPromptTemplate> = {
       semiconductors: {
+        id: 'sector.semiconductors.system',
         system_prompt: `You are a semiconductor sector specialist AI. Focus on:
 - Chip cycles and demand patterns (AI, datacenter, mobile, automotive)
 - Supply chain constraints and geopolitical impacts
@@ -291,6 +292,7 @@ Provide precise, actionable insights with confidence scoring.`,
       },
 
       biotech: {
+        id: 'sector.biotech.system',
         system_prompt: `You are a biotech sector specialist AI. Focus on:
 - FDA approval timelines and PDUFA dates
 - Clinical trial results and statistical significance
@@ -322,6 +324,7 @@ Provide precise, actionable insights with confidence scoring.`,
       },
 
       financials: {
+        id: 'sector.financials.system',
         system_prompt: `You are a financial sector specialist AI. Focus on:
 - Interest rate sensitivity and net interest margin expansion/compression
 - Credit conditions and loan loss provisions
@@ -353,6 +356,7 @@ Provide precise, actionable insights with confidence scoring.`,
       },
 
       energy: {
+        id: 'sector.energy.system',
         system_prompt: `You are an energy sector specialist AI. Focus on:
 - Oil and gas price dynamics and supply/demand balance
 - Renewable energy transition and capex allocation
@@ -384,6 +388,7 @@ Provide precise, actionable insights with confidence scoring.`,
       },
 
       technology: {
+        id: 'sector.technology.system',
         system_prompt: `You are a technology sector specialist AI. Focus on:
 - Cloud computing growth and market share dynamics
 - Software-as-a-Service adoption and pricing power
@@ -601,6 +606,7 @@ Analyze this stock within its sector context and provide structured insights usi
    */
   private getGenericPromptTemplate(): SectorPromptTemplate {
     return {
+      id: 'sector.generic.system',
       system_prompt: `You are a financial sector analysis AI. Analyze the given stock within its sector context, focusing on:
 - Key sector-specific drivers and trends
 - Peer performance comparison
@@ -1,12 +1,15 @@
 /**
  * Technical Timing AI Module
- * Uses GPT-3.5-turbo for fast analysis and GPT-4-turbo for complex patterns
+ * Uses a fast-tier model for clear setups and an advanced-tier model for complex patterns
  */
 
-import { openAIClient } from '../../config/openai.js';
+import { modelRouter } from '../llm/ModelRouter.js';
+import { LLMTier, parseModelJson } from '../llm/LLMProvider.js';
 import { redisClientInstance as redisClient } from '../../config/redis.js';
 import { loggerUtils } from '../../config/logger.js';
 import { DataHub } from '../../api/DataHub.js';
+import { AssetClass } from '../../types/data.js';
+import { classifySymbol, indicatorDefaults } from '../../market/AssetClasses.js';
 
 export interface TechnicalIndicators {
   // RSI data
@@ -56,6 +59,11 @@ export interface TechnicalIndicators {
   higherLows: boolean;
   lowerHighs: boolean;
   lowerLows: boolean;
+
+  // Asset context; RSI bands default to 70/30 when absent
+  assetClass?: AssetClass;
+  rsiOverbought?: number;
+  rsiOversold?: number;
 }
 
 export interface TechnicalTimingInput {
@@ -106,7 +114,7 @@ export interface TechnicalTimingOutput {
   };
   
   metadata: {
-    model_used: 'gpt-3.5-turbo' | 'gpt-4-turbo';
+    model_used: string;
     signal_clarity: number;
     pattern_complexity: number;
     processing_time: number;
@@ -131,7 +139,7 @@ export class TechnicalTiming {
     position: 2.5,  // 1:2.5 for position trades
   };
 
-  // OpenAI function calling schema
+  // Function calling schema
   private readonly technicalTimingSchema = {
     name: "analyze_technical_timing",
     description: "Determine optimal entry/exit timing for short-term trades based on technical analysis",
@@ -225,11 +233,11 @@ export class TechnicalTiming {
       const signalClarity = this.calculateSignalClarity(input.indicators);
       const patternComplexity = this.calculatePatternComplexity(input.indicators);
       
-      // Select appropriate model
-      const model = this.selectModel(signalClarity, patternComplexity);
+      // Select appropriate model tier
+      const tier = this.selectTier(signalClarity, patternComplexity);
       
       // Perform technical analysis
-      const analysis = await this.performTechnicalAnalysis(input, model);
+      const { analysis, model } = await this.performTechnicalAnalysis(input, tier);
       
       // Extract technical signals
       const technicalSignals = this.extractTechnicalSignals(input.indicators);
@@ -276,15 +284,15 @@ export class TechnicalTiming {
   }
 
   /**
-   * Select model based on signal clarity and pattern complexity
+   * Select model tier based on signal clarity and pattern complexity
    */
-  private selectModel(signalClarity: number, patternComplexity: number): 'gpt-3.5-turbo' | 'gpt-4-turbo' {
-    // Use GPT-3.5-turbo for straightforward technical analysis
+  private selectTier(signalClarity: number, patternComplexity: number): LLMTier {
+    // Use a fast model for straightforward technical analysis
     if (signalClarity > this.modelThresholds.signalClarity && patternComplexity < this.modelThresholds.patternComplexity) {
-      return 'gpt-3.5-turbo';
+      return 'fast';
     } else {
-      // Use GPT-4-turbo for complex patterns or conflicting signals
-      return 'gpt-4-turbo';
+      // Use an advanced model for complex patterns or conflicting signals
+      return 'advanced';
     }
   }
 
@@ -296,7 +304,9 @@ export class TechnicalTiming {
     let factors = 0;
     
     // RSI clarity
-    if (indicators.rsi > 70 || indicators.rsi < 30) {
+    const overbought = indicators.rsiOverbought ?? 70;
+    const oversold = indicators.rsiOversold ?? 30;
+    if (indicators.rsi > overbought || indicators.rsi < oversold) {
       clarity += 0.8; // Clear overbought/oversold
     } else if (indicators.rsi > 60 || indicators.rsi < 40) {
       clarity += 0.4; // Moderate signal
@@ -373,29 +383,30 @@ export class TechnicalTiming {
   }
 
   /**
-   * Perform technical analysis using selected model
+   * Perform technical analysis on a model of the selected tier
    */
-  private async performTechnicalAnalysis(input: TechnicalTimingInput, model: 'gpt-3.5-turbo' | 'gpt-4-turbo'): Promise<any> {
-    const systemPrompt = this.buildSystemPrompt(model);
+  private async performTechnicalAnalysis(input: TechnicalTimingInput, tier: LLMTier): Promise<{ analysis: any; model: string }> {
+    const systemPrompt = this.buildSystemPrompt(tier);
     const userPrompt = this.buildUserPrompt(input);
 
     try {
-      const response = await openAIClient.chat.completions.create({
-        model: model,
+      const response = await modelRouter.complete({
+        useCase: 'technical_analysis',
+        tier,
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
         ],
         temperature: 0.2,
-        response_format: { type: "json_object" }
+        responseFormat: 'json',
       });
 
-      const analysis = JSON.parse(response.choices[0].message.content);
-      return this.validateAndEnhanceAnalysis(analysis, input);
+      const analysis = parseModelJson(response.content);
+      return { analysis: this.validateAndEnhanceAnalysis(analysis, input), model: response.model };
     } catch (error) {
-      loggerUtils.aiLogger.error('OpenAI technical analysis failed', {
+      loggerUtils.aiLogger.error('Technical analysis model call failed', {
         symbol: input.symbol,
-        model,
+        tier,
         error: (error as Error).message,
       });
       throw error;
@@ -403,9 +414,9 @@ export class TechnicalTiming {
   }
 
   /**
-   * Build system prompt based on model
+   * Build system prompt based on model tier
    */
-  private buildSystemPrompt(model: 'gpt-3.5-turbo' | 'gpt-4-turbo'): string {
+  private buildSystemPrompt(tier: LLMTier): string {
     const basePrompt = `You are an expert technical analyst specializing in short-term trading setups. Your role is to identify optimal entry and exit points for swing trades using technical indicators and price action.
 
 KEY TECHNICAL INDICATORS TO ANALYZE:
@@ -453,7 +464,7 @@ SETUP REQUIREMENTS:
 - Specific entry timing conditions
 - Multiple timeframe confirmation`;
 
-    if (model === 'gpt-4-turbo') {
+    if (tier === 'advanced') {
       return basePrompt + `
 
 ADVANCED PATTERN ANALYSIS:
@@ -480,6 +491,7 @@ Prioritize clear, high-probability setups with strong signal convergence. Avoid
     return `Analyze ${input.symbol} for optimal ${input.timeframe} ${input.tradeType} trade entry/exit:
 
 TECHNICAL DATA:
+- Asset class: ${indicators.assetClass || 'equity'}, RSI bands: ${indicators.rsiOverbought ?? 70}/${indicators.rsiOversold ?? 30}
 - RSI (14): current: ${indicators.rsi.toFixed(1)}, trend: ${indicators.rsiTrend}, divergence: ${indicators.rsiDivergence || 'none'}
 - MACD: line: ${indicators.macdLine.toFixed(3)}, signal: ${indicators.macdSignal.toFixed(3)}, histogram: ${indicators.macdHistogram.toFixed(3)}, crossover: ${indicators.macdCrossover || 'none'}
 - Bollinger Bands: upper: ${indicators.bbUpper.toFixed(2)}, middle: ${indicators.bbMiddle.toFixed(2)}, lower: ${indicators.bbLower.toFixed(2)}, squeeze: ${indicators.bbSqueeze}, width: ${indicators.bbWidth.toFixed(2)}
@@ -515,7 +527,7 @@ Ensure minimum ${this.riskRewardMinimums[input.tradeType]}:1 risk/reward ratio.`
    */
   private extractTechnicalSignals(indicators: TechnicalIndicators): any {
     return {
-      rsi_signal: this.getRSISignal(indicators.rsi, indicators.rsiDivergence),
+      rsi_signal: this.getRSISignal(indicators.rsi, indicators.rsiDivergence, indicators.rsiOverbought, indicators.rsiOversold),
       macd_signal: this.getMACDSignal(indicators.macdLine, indicators.macdSignal, indicators.macdHistogram, indicators.macdCrossover),
       bb_signal: this.getBollingerSignal(indicators),
       volume_signal: this.getVolumeSignal(indicators.volumeSpike, indicators.volumeRatio),
@@ -526,12 +538,12 @@ Ensure minimum ${this.riskRewardMinimums[input.tradeType]}:1 risk/reward ratio.`
   /**
    * Get RSI signal
    */
-  private getRSISignal(rsi: number, divergence?: string): string {
+  private getRSISignal(rsi: number, divergence?: string, overbought: number = 70, oversold: number = 30): string {
     if (divergence && divergence !== 'none') {
       return 'divergence';
     }
-    if (rsi > 70) return 'overbought';
-    if (rsi < 30) return 'oversold';
+    if (rsi > overbought) return 'overbought';
+    if (rsi < oversold) return 'oversold';
     return 'neutral';
   }
 
@@ -757,7 +769,7 @@ Ensure minimum ${this.riskRewardMinimums[input.tradeType]}:1 risk/reward ratio.`
         pattern_completion: 0,
       },
       metadata: {
-        model_used: 'gpt-3.5-turbo',
+        model_used: 'conservative_fallback',
         signal_clarity: 0.3,
         pattern_complexity: 0.3,
         processing_time: processingTime,
@@ -844,7 +856,7 @@ Ensure minimum ${this.riskRewardMinimums[input.tradeType]}:1 risk/reward ratio.`
     
     for (const symbol of symbols) {
       try {
-        // Get basic indicators (would normally come from real-time data)
+        // Indicators computed from stored daily history
         const indicators: TechnicalIndicators = await this.getBasicIndicators(symbol);
         
         const input: TechnicalTimingInput = {
@@ -873,38 +885,151 @@ Ensure minimum ${this.riskRewardMinimums[input.tradeType]}:1 risk/reward ratio.`
   }
 
   /**
-   * Get basic indicators (placeholder - would integrate with real data)
+   * Build indicators from the shared daily bar store, with parameters suited to the asset class
    */
   private async getBasicIndicators(symbol: string): Promise<TechnicalIndicators> {
-    // This would integrate with your DataHub to get real technical indicators
-    // For now, return placeholder data
+    const assetClass = classifySymbol(symbol);
+    const defaults = indicatorDefaults(assetClass);
+    const bars = await this.dataHub.getPriceHistory(symbol, { interval: '1d', lookbackDays: defaults.lookbackDays });
+    if (bars.length < 30) {
+      throw new Error(`Insufficient price history for ${symbol}: ${bars.length} bars`);
+    }
+
+    const closes = bars.map(bar => bar.close);
+    const volumes = bars.map(bar => bar.volume);
+    const currentPrice = closes[closes.length - 1];
+
+    // RSI now and five sessions ago for the trend
+    const rsi = this.computeRSI(closes);
+    const rsiPrior = this.computeRSI(closes.slice(0, -5));
+
+    // MACD from full EMA series
+    const ema12Series = this.computeEMASeries(closes, 12);
+    const ema26Series = this.computeEMASeries(closes, 26);
+    const macdSeries = ema12Series.map((value, i) => value - ema26Series[i]);
+    const signalSeries = this.computeEMASeries(macdSeries.slice(25), 9);
+    const macdLine = macdSeries[macdSeries.length - 1];
+    const macdSignal = signalSeries[signalSeries.length - 1];
+    const prevHistogram = macdSeries[macdSeries.length - 2] - signalSeries[signalSeries.length - 2];
+    const macdHistogram = macdLine - macdSignal;
+    let macdCrossover: 'bullish' | 'bearish' | 'none' = 'none';
+    if (prevHistogram <= 0 && macdHistogram > 0) macdCrossover = 'bullish';
+    else if (prevHistogram >= 0 && macdHistogram < 0) macdCrossover = 'bearish';
+
+    // Bollinger bands (20, k)
+    const bandWidth = 2 * defaults.bollingerStdDev;
+    const window20 = closes.slice(-20);
+    const sma20 = this.mean(window20);
+    const stdDev = Math.sqrt(this.mean(window20.map(c => Math.pow(c - sma20, 2))));
+    const bbWidth = sma20 > 0 ? (bandWidth * stdDev) / sma20 : 0;
+    const historicalWidths: number[] = [];
+    for (let end = 20; end <= closes.length; end++) {
+      const slice = closes.slice(end - 20, end);
+      const mid = this.mean(slice);
+      const sd = Math.sqrt(this.mean(slice.map(c => Math.pow(c - mid, 2))));
+      if (mid > 0) historicalWidths.push((bandWidth * sd) / mid);
+    }
+    const sortedWidths = [...historicalWidths].sort((a, b) => a - b);
+    const squeezeThreshold = sortedWidths[Math.floor(sortedWidths.length * defaults.squeezePercentile)] ?? bbWidth;
+
+    // Volume; FX carries none, so it neither confirms nor contradicts
+    const currentVolume = defaults.usesVolume ? volumes[volumes.length - 1] : 0;
+    const avgVolume10d = defaults.usesVolume ? this.mean(volumes.slice(-11, -1)) : 0;
+    const volumeRatio = avgVolume10d > 0 ? currentVolume / avgVolume10d : 1;
+
+    // Structure from the last two 10-session swings
+    const recent = bars.slice(-10);
+    const prior = bars.slice(-20, -10);
+    const recentHigh = Math.max(...recent.map(bar => bar.high));
+    const recentLow = Math.min(...recent.map(bar => bar.low));
+    const priorHigh = Math.max(...prior.map(bar => bar.high));
+    const priorLow = Math.min(...prior.map(bar => bar.low));
+
+    const sma50 = this.mean(closes.slice(-50));
+    const sma200 = closes.length >= 200 ? this.mean(closes.slice(-200)) : undefined;
+
+    let trendDirection: 'uptrend' | 'downtrend' | 'sideways' = 'sideways';
+    if (currentPrice > sma20 && sma20 > sma50) trendDirection = 'uptrend';
+    else if (currentPrice < sma20 && sma20 < sma50) trendDirection = 'downtrend';
+
+    const swingLows = bars.slice(-60).map(bar => bar.low).filter(low => low < currentPrice);
+    const swingHighs = bars.slice(-60).map(bar => bar.high).filter(high => high > currentPrice);
+
     return {
-      rsi: 45,
-      rsiTrend: 'neutral',
-      macdLine: 0.1,
-      macdSignal: 0.05,
-      macdHistogram: 0.05,
-      bbUpper: 155,
-      bbMiddle: 150,
-      bbLower: 145,
-      bbSqueeze: false,
-      bbWidth: 10,
-      currentPrice: 150,
-      sma20: 149,
-      sma50: 148,
-      currentVolume: 1000000,
-      avgVolume10d: 800000,
-      volumeSpike: false,
-      volumeRatio: 1.25,
-      supportLevels: [148, 145],
-      resistanceLevels: [152, 155],
-      trendDirection: 'sideways',
-      higherHighs: false,
-      higherLows: false,
-      lowerHighs: false,
-      lowerLows: false,
+      rsi,
+      rsiTrend: rsi - rsiPrior > 2 ? 'rising' : rsi - rsiPrior < -2 ? 'falling' : 'neutral',
+      macdLine,
+      macdSignal,
+      macdHistogram,
+      macdCrossover,
+      bbUpper: sma20 + defaults.bollingerStdDev * stdDev,
+      bbMiddle: sma20,
+      bbLower: sma20 - defaults.bollingerStdDev * stdDev,
+      bbSqueeze: bbWidth <= squeezeThreshold,
+      bbWidth,
+      currentPrice,
+      sma20,
+      sma50,
+      sma200,
+      ema12: ema12Series[ema12Series.length - 1],
+      ema26: ema26Series[ema26Series.length - 1],
+      currentVolume,
+      avgVolume10d,
+      volumeSpike: volumeRatio >= defaults.volumeSpikeRatio,
+      volumeRatio,
+      supportLevels: [recentLow, ...swingLows.sort((a, b) => b - a).slice(0, 2)]
+        .filter((level, i, arr) => arr.indexOf(level) === i),
+      resistanceLevels: [recentHigh, ...swingHighs.sort((a, b) => a - b).slice(0, 2)]
+        .filter((level, i, arr) => arr.indexOf(level) === i),
+      trendDirection,
+      higherHighs: recentHigh > priorHigh,
+      higherLows: recentLow > priorLow,
+      lowerHighs: recentHigh < priorHigh,
+      lowerLows: recentLow < priorLow,
+      assetClass,
+      rsiOverbought: defaults.rsiOverbought,
+      rsiOversold: defaults.rsiOversold,
     };
   }
+
+  /**
+   * Wilder RSI over the whole series
+   */
+  private computeRSI(closes: number[], period: number = 14): number {
+    if (closes.length <= period) return 50;
+
+    let avgGain = 0;
+    let avgLoss = 0;
+    for (let i = 1; i <= period; i++) {
+      const change = closes[i] - closes[i - 1];
+      if (change > 0) avgGain += change;
+      else avgLoss -= change;
+    }
+    avgGain /= period;
+    avgLoss /= period;
+
+    for (let i = period + 1; i < closes.length; i++) {
+      const change = closes[i] - closes[i - 1];
+      avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+      avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    }
+
+    if (avgLoss === 0) return 100;
+    return 100 - 100 / (1 + avgGain / avgLoss);
+  }
+
+  private computeEMASeries(values: number[], period: number): number[] {
+    const multiplier = 2 / (period + 1);
+    const series: number[] = [];
+    values.forEach((value, i) => {
+      series.push(i === 0 ? value : value * multiplier + series[i - 1] * (1 - multiplier));
+    });
+    return series;
+  }
+
+  private mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+  }
 }
 
 export default TechnicalTiming;
\ No newline at end of file
@@ -8,6 +8,7 @@ import sqlite3 from 'sqlite3';
 import { Database, open } from 'sqlite';
 import { loggerUtils } from '../config/logger.js';
 import { DataHub } from '../api/DataHub.js';
+import { NormalizedQuote } from '../types/data.js';
 import path from 'path';
 
 // Import types and services
@@ -156,6 +157,7 @@ export interface AlertManagerConfig {
   monitoringInterval: number;              // How often to check for alerts (ms)
   maxConcurrentAnalysis: number;           // Max parallel analysis sessions
   alertRetentionDays: number;              // How long to keep alert history
+  streamSymbols?: string[];                // Symbols streamed for real-time price alerts
   notificationConfig: {
     email?: {
       enabled: boolean;
@@ -196,6 +198,9 @@ export class AlertManager extends EventEmitter {
   private monitoringTimer: NodeJS.Timeout | null = null;
   private analysisQueue: Array<{ alert: Alert; priority: number }> = [];
   private runningAnalysis: Set<string> = new Set();
+  private streamQuoteListener: ((quote: NormalizedQuote) => void) | null = null;
+  private streamEvaluatedAt: Map<string, number> = new Map();
+  private averageVolumes: Map<string, { value: number; loadedAt: number }> = new Map();
 
   // Default alert thresholds
   private defaultThresholds: Record<AlertType, AlertThreshold> = {
@@ -380,6 +385,7 @@ export class AlertManager extends EventEmitter {
     this.initializeDatabase();
     this.loadAlertRules();
     this.startMonitoring();
+    this.attachQuoteStream();
   }
 
   /**
@@ -536,6 +542,39 @@ export class AlertManager extends EventEmitter {
     });
   }
 
+  /**
+   * React to streamed quotes immediately instead of waiting for the next monitoring pass
+   */
+  private attachQuoteStream(): void {
+    this.streamQuoteListener = (quote: NormalizedQuote) => {
+      // Evaluate each symbol at most once a second; cooldowns handle repeated triggers
+      const lastEvaluated = this.streamEvaluatedAt.get(quote.symbol) || 0;
+      if (quote.timestamp - lastEvaluated < 1000) return;
+      this.streamEvaluatedAt.set(quote.symbol, quote.timestamp);
+
+      this.buildPriceAnomalyData(quote)
+        .then(data => this.evaluatePriceAnomaly(data, this.getPriceAnomalyRules()))
+        .catch(error => {
+          loggerUtils.aiLogger.error('Error evaluating streamed quote', {
+            symbol: quote.symbol,
+            error: (error as Error).message,
+          });
+        });
+    };
+
+    this.dataHub.quoteStream.on('quote', this.streamQuoteListener);
+
+    const symbols = this.config.streamSymbols || [];
+    if (symbols.length > 0) {
+      this.dataHub.streamQuotes(symbols).catch(error => {
+        loggerUtils.aiLogger.error('Failed to stream quotes for alerts', {
+          symbols,
+          error: (error as Error).message,
+        });
+      });
+    }
+  }
+
   /**
    * Main alert checking method
    */
@@ -706,37 +745,77 @@ export class AlertManager extends EventEmitter {
    * Check for price anomalies
    */
   private async checkPriceAnomalies(): Promise<void> {
-    const rules = Array.from(this.alertRules.values()).filter(
+    const rules = this.getPriceAnomalyRules();
+    if (rules.length === 0) return;
+
+    try {
+      const priceData = await this.getPriceAnomalies();
+
+      for (const data of priceData) {
+        await this.evaluatePriceAnomaly(data, rules);
+      }
+    } catch (error) {
+      loggerUtils.aiLogger.error('Error checking price anomalies', {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private getPriceAnomalyRules(): AlertRule[] {
+    return Array.from(this.alertRules.values()).filter(
       rule => rule.enabled && rule.threshold.alertType === 'price_anomaly'
     );
+  }
 
+  private async evaluatePriceAnomaly(data: any, rules: AlertRule[]): Promise<void> {
     for (const rule of rules) {
-      try {
-        const priceData = await this.getPriceAnomalies();
-        
-        for (const data of priceData) {
-          if (this.evaluatePriceConditions(data, rule.threshold)) {
-            await this.triggerAlert({
-              type: 'price_anomaly',
-              severity: rule.threshold.severity,
-              symbol: data.symbol,
-              title: `Price Anomaly: ${data.symbol}`,
-              description: `${data.priceChange > 0 ? '+' : ''}${data.priceChangePercent.toFixed(1)}% move to $${data.currentPrice.toFixed(2)} with ${data.volumeRatio.toFixed(1)}x volume`,
-              triggerData: data,
-              source: 'price_monitor',
-              confidence: 0.85,
-              rule,
-            });
-          }
-        }
-      } catch (error) {
-        loggerUtils.aiLogger.error('Error checking price anomalies', {
-          error: (error as Error).message,
+      if (this.evaluatePriceConditions(data, rule.threshold)) {
+        await this.triggerAlert({
+          type: 'price_anomaly',
+          severity: rule.threshold.severity,
+          symbol: data.symbol,
+          title: `Price Anomaly: ${data.symbol}`,
+          description: `${data.priceChange > 0 ? '+' : ''}${data.priceChangePercent.toFixed(1)}% move to $${data.currentPrice.toFixed(2)} with ${data.volumeRatio.toFixed(1)}x volume`,
+          triggerData: data,
+          source: data.source || 'price_monitor',
+          confidence: 0.85,
+          rule,
         });
       }
     }
   }
 
+  /**
+   * Shape a quote for price rule evaluation; volume is compared with the 20-day average
+   */
+  private async buildPriceAnomalyData(quote: NormalizedQuote): Promise<any> {
+    const avgVolume = await this.getAverageVolume(quote.symbol);
+
+    return {
+      symbol: quote.symbol,
+      currentPrice: quote.price,
+      previousClose: quote.previousClose,
+      priceChange: quote.change,
+      priceChangePercent: quote.changePercent,
+      volume: quote.volume,
+      volumeRatio: avgVolume > 0 ? quote.volume / avgVolume : 1,
+      timestamp: quote.timestamp,
+      source: quote.source.endpoint === 'websocket' ? 'quote_stream' : 'price_monitor',
+    };
+  }
+
+  private async getAverageVolume(symbol: string): Promise<number> {
+    const cached = this.averageVolumes.get(symbol);
+    if (cached && Date.now() - cached.loadedAt < 3600000) return cached.value;
+
+    const bars = await this.dataHub.getPriceHistory(symbol, { interval: '1d', lookbackDays: 35, localOnly: true });
+    const recent = bars.slice(-20);
+    const value = recent.length > 0 ? recent.reduce((sum, bar) => sum + bar.volume, 0) / recent.length : 0;
+
+    this.averageVolumes.set(symbol, { value, loadedAt: Date.now() });
+    return value;
+  }
+
   /**
    * Check for breaking news
    */
@@ -1266,8 +1345,9 @@ export class AlertManager extends EventEmitter {
   }
 
   private async getPriceAnomalies(): Promise<any[]> {
-    // Placeholder - would fetch from price monitoring
-    return [];
+    // Sweep the streamed last-quote table so a missed tick still gets evaluated
+    const quotes = this.dataHub.quoteStream.getLastQuotes().filter(quote => quote.previousClose > 0);
+    return await Promise.all(quotes.map(quote => this.buildPriceAnomalyData(quote)));
   }
 
   private async getBreakingNews(): Promise<any[]> {
@@ -1537,6 +1617,12 @@ export class AlertManager extends EventEmitter {
    * Stop monitoring and cleanup
    */
   cleanup(): void {
+    if (this.streamQuoteListener) {
+      this.dataHub.quoteStream.off('quote', this.streamQuoteListener);
+      this.dataHub.quoteStream.unsubscribe(this.config.streamSymbols || []);
+      this.streamQuoteListener = null;
+    }
+
     if (this.monitoringTimer) {
       clearInterval(this.monitoringTimer);
       this.monitoringTimer = null;
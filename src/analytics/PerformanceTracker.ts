@@ -7,6 +7,7 @@ import sqlite3 from 'sqlite3';
 import { Database, open } from 'sqlite';
 import { loggerUtils } from '../config/logger.js';
 import { DataHub } from '../api/DataHub.js';
+import { calendarForSymbol } from '../market/SessionCalendars.js';
 import path from 'path';
 
 // Import types from other modules
@@ -70,6 +71,13 @@ export interface SignalCombination {
   avgHoldingHours: number;
 }
 
+export interface PromptVersionOutcome {
+  promptVersion: string; // Registry ref, e.g. 'risk.system@v2'
+  closedTrades: number;
+  winners: number;
+  averagePnLPercent: number | null;
+}
+
 export interface UserInteraction {
   userId: string;
   sessionId: string;
@@ -264,6 +272,16 @@ export class PerformanceTracker {
           UNIQUE(combination_hash)
         );
 
+        -- Registry prompts each module ran with for a trade
+        CREATE TABLE IF NOT EXISTS trade_prompt_versions (
+          trade_id TEXT NOT NULL,
+          module TEXT NOT NULL,
+          prompt_version TEXT NOT NULL,
+          
+          PRIMARY KEY (trade_id, module),
+          FOREIGN KEY (trade_id) REFERENCES trade_outcomes (trade_id)
+        );
+
         -- Performance reports archive
         CREATE TABLE IF NOT EXISTS performance_reports (
           id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -299,6 +317,7 @@ export class PerformanceTracker {
         CREATE INDEX IF NOT EXISTS idx_user_interactions_user ON user_interactions(user_id);
         CREATE INDEX IF NOT EXISTS idx_user_interactions_type ON user_interactions(interaction_type);
         CREATE INDEX IF NOT EXISTS idx_signal_combinations_hash ON signal_combinations(combination_hash);
+        CREATE INDEX IF NOT EXISTS idx_trade_prompt_versions_version ON trade_prompt_versions(prompt_version);
       `);
 
       loggerUtils.aiLogger.info('Performance tracking database initialized');
@@ -336,7 +355,7 @@ export class PerformanceTracker {
         tradeCard.exits.primary.price,
         tradeCard.exits.stop.price,
         tradeCard.confidenceScore,
-        this.parseHoldingHours(tradeCard.timeToHold.optimal),
+        this.parseHoldingHours(tradeCard.timeToHold.optimal, tradeCard.symbol),
       ]);
 
       // Store module-specific predictions
@@ -345,6 +364,14 @@ export class PerformanceTracker {
       // Track signal combination
       await this.trackSignalCombination(fusionCard.signal_composition);
 
+      // Remember which prompt variants produced the card
+      for (const [module, promptVersion] of Object.entries(fusionCard.prompt_versions || {})) {
+        await this.database.run(`
+          INSERT OR REPLACE INTO trade_prompt_versions (trade_id, module, prompt_version)
+          VALUES (?, ?, ?)
+        `, [tradeCard.id, module, promptVersion]);
+      }
+
       loggerUtils.aiLogger.info('Trade recommendation tracked', {
         tradeId: tradeCard.id,
         symbol: tradeCard.symbol,
@@ -365,6 +392,14 @@ export class PerformanceTracker {
   async updateTradeOutcome(outcome: TradeOutcome): Promise<void> {
     if (!this.database) return;
 
+    // Holding periods are measured in the symbol's trading hours, the unit predicted holds use
+    if (outcome.holdingPeriodHours === undefined && outcome.entryTime && outcome.exitTime) {
+      outcome = {
+        ...outcome,
+        holdingPeriodHours: calendarForSymbol(outcome.symbol).tradingHoursBetween(outcome.entryTime, outcome.exitTime),
+      };
+    }
+
     try {
       await this.database.run(`
         UPDATE trade_outcomes SET
@@ -634,6 +669,46 @@ export class PerformanceTracker {
     }
   }
 
+  /**
+   * Realized outcomes of the trades built with each prompt version, for comparing variants
+   */
+  async getPromptVersionOutcomes(
+    promptVersions: string[],
+    days: number = 30
+  ): Promise<Record<string, PromptVersionOutcome>> {
+    if (!this.database || promptVersions.length === 0) return {};
+
+    const cutoffTime = Date.now() - (days * 24 * 60 * 60 * 1000);
+
+    try {
+      const rows = await this.database.all(`
+        SELECT 
+          v.prompt_version,
+          COUNT(*) as closed_trades,
+          SUM(CASE WHEN t.outcome = 'winner' THEN 1 ELSE 0 END) as winners,
+          AVG(t.actual_pnl_percent) as avg_pnl_percent
+        FROM trade_prompt_versions v
+        JOIN trade_outcomes t ON t.trade_id = v.trade_id
+        WHERE v.prompt_version IN (${promptVersions.map(() => '?').join(', ')})
+          AND t.outcome NOT IN ('active', 'not_taken')
+          AND t.created_at > datetime(?, 'unixepoch')
+        GROUP BY v.prompt_version
+      `, [...promptVersions, cutoffTime / 1000]);
+
+      return Object.fromEntries(rows.map(row => [row.prompt_version, {
+        promptVersion: row.prompt_version,
+        closedTrades: row.closed_trades,
+        winners: row.winners,
+        averagePnLPercent: row.avg_pnl_percent,
+      }]));
+    } catch (error) {
+      loggerUtils.aiLogger.error('Failed to get prompt version outcomes', {
+        error: (error as Error).message,
+      });
+      return {};
+    }
+  }
+
   /**
    * Generate feedback loops for continuous improvement
    */
@@ -885,7 +960,7 @@ export class PerformanceTracker {
 
         case 'timing':
           actualValue = (outcome.holdingPeriodHours || 0).toString();
-          const predictedHours = this.parseHoldingHours(prediction.predicted_value);
+          const predictedHours = this.parseHoldingHours(prediction.predicted_value, outcome.symbol);
           const timingDeviation = Math.abs((outcome.holdingPeriodHours || 0) - predictedHours);
           accuracy = Math.max(0, 1 - (timingDeviation / predictedHours));
           break;
@@ -1092,18 +1167,10 @@ export class PerformanceTracker {
     ]);
   }
 
-  private parseHoldingHours(holdingTime: string): number {
-    // Parse strings like "1-2 days", "4 hours", etc.
-    const hourMatch = holdingTime.match(/(\d+)\s*hour/i);
-    if (hourMatch) return parseInt(hourMatch[1]);
-    
-    const dayMatch = holdingTime.match(/(\d+)(?:-(\d+))?\s*day/i);
-    if (dayMatch) {
-      const days = dayMatch[2] ? (parseInt(dayMatch[1]) + parseInt(dayMatch[2])) / 2 : parseInt(dayMatch[1]);
-      return days * 24;
-    }
-    
-    return 24; // Default to 1 day
+  private parseHoldingHours(holdingTime: string, symbol: string): number {
+    // Parse strings like "1-2 days", "4 hours", etc. into trading hours of the symbol's calendar
+    const calendar = calendarForSymbol(symbol);
+    return calendar.holdingPeriodHours(holdingTime) ?? calendar.regularSessionHours(); // Default to 1 session
   }
 
   private hashSignalCombination(signals: any): string {
@@ -9,6 +9,9 @@ import { ResilientDataCollector, DataCollectionStrategy } from '../core/Resilien
 import { DetailedAnalysisEngine, DetailedAnalysisResult } from '../core/DetailedAnalysisEngine.js';
 import { serviceContainer } from '../core/ServiceContainer.js';
 import { DataHub } from './DataHub.js';
+import { cassetteStore, CassetteMode } from './Cassette.js';
+import { securityMaster } from '../market/SecurityMaster.js';
+import { syntheticDataPolicy, SyntheticDataDecision } from '../trading/SyntheticDataPolicy.js';
 import { loggerUtils } from '../config/logger.js';
 
 export interface AnalysisRequest {
@@ -20,6 +23,10 @@ export interface AnalysisRequest {
     timeHorizon?: 'intraday' | 'swing' | 'position';
   };
   priority?: 'low' | 'normal' | 'high';
+  cassette?: {
+    mode: CassetteMode;
+    name: string;
+  };
 }
 
 export interface AnalysisStatus {
@@ -145,8 +152,12 @@ export class AnalysisController extends EventEmitter {
         estimatedDuration: this.estimateAnalysisDuration(analysisRequest)
       });
 
-      // Start analysis in background
-      this.runAnalysisAsync(analysisRequest).catch(error => {
+      // Start analysis in background, under the requested cassette if any
+      const analysisRun = analysisRequest.cassette
+        ? cassetteStore.run(analysisRequest.cassette, () => this.runAnalysisAsync(analysisRequest))
+        : this.runAnalysisAsync(analysisRequest);
+
+      analysisRun.catch(error => {
         loggerUtils.aiLogger.error('Analysis failed unexpectedly', {
           analysisId,
           error: error.message,
@@ -291,17 +302,26 @@ export class AnalysisController extends EventEmitter {
       // Run detailed analysis using the new engine
       const detailedResult = await this.analysisEngine!.runDetailedAnalysis(symbol, analysisDepth);
 
-      // Generate trade cards from detailed analysis
-      const tradeCards = this.generateTradeCardsFromDetailedAnalysis(detailedResult);
+      // Generate trade cards from detailed analysis, unless they would rest on synthetic data the policy blocks
+      const syntheticData = syntheticDataPolicy.review(detailedResult.id, symbol, detailedResult.taint);
+      const tradeCards = syntheticData.action === 'block'
+        ? []
+        : this.generateTradeCardsFromDetailedAnalysis(detailedResult, syntheticData);
+
+      const warnings: string[] = [];
+      if (detailedResult.dataQuality.missingData.length > 0) {
+        warnings.push(`Some data sources failed: ${detailedResult.dataQuality.missingData.join(', ')}`);
+      }
+      if (syntheticData.action === 'block') {
+        warnings.push(`Trade cards held back, synthetic data: ${syntheticData.reasons.join('; ')}`);
+      }
 
       // Complete successfully
       this.completeAnalysis(analysisId, {
         success: true,
         qualityScore: detailedResult.dataQuality.overall,
         tradeCards,
-        warnings: detailedResult.dataQuality.missingData.length > 0 
-          ? [`Some data sources failed: ${detailedResult.dataQuality.missingData.join(', ')}`] 
-          : [],
+        warnings,
         metadata: {
           duration: Date.now() - startTime,
           sourcesUsed: detailedResult.dataQuality.reliableData,
@@ -348,11 +368,11 @@ export class AnalysisController extends EventEmitter {
   /**
    * Generate trade cards from detailed analysis
    */
-  private generateTradeCardsFromDetailedAnalysis(analysis: DetailedAnalysisResult): any[] {
+  private generateTradeCardsFromDetailedAnalysis(analysis: DetailedAnalysisResult, syntheticData: SyntheticDataDecision): any[] {
     const tradeCards = [];
 
     for (const recommendation of analysis.recommendations) {
-      const confidence = Math.round(recommendation.confidence * 100);
+      const confidence = Math.round(recommendation.confidence * syntheticData.confidenceMultiplier * 100);
       
       tradeCards.push({
         id: `trade_${analysis.id}_${tradeCards.length + 1}`,
@@ -360,6 +380,9 @@ export class AnalysisController extends EventEmitter {
         category: this.getTradeCategory(recommendation, analysis),
         confidence,
         strategyType: this.getStrategyType(analysis.tradingSignals),
+        syntheticData: syntheticData.watermark
+          ? { action: syntheticData.action, watermark: syntheticData.watermark, taint: syntheticData.taint }
+          : undefined,
         entry: { 
           price: recommendation.priceTarget * 0.98, // Slightly below target for entry
           reasoning: 'Entry based on technical and fundamental analysis'
@@ -527,15 +550,7 @@ export class AnalysisController extends EventEmitter {
    * Get representative symbol for sector
    */
   private getSectorSymbol(sector: string): string {
-    const sectorMap: Record<string, string> = {
-      technology: 'AAPL',
-      healthcare: 'JNJ',
-      finance: 'JPM',
-      energy: 'XOM',
-      consumer: 'AMZN'
-    };
-
-    return sectorMap[sector] || 'SPY'; // Default to SPY
+    return securityMaster.getRepresentativeSymbol(sector);
   }
 
   /**
@@ -666,6 +681,20 @@ export class AnalysisController extends EventEmitter {
       throw new Error('Sectors must be an array');
     }
 
+    // Recording writes to disk, so HTTP callers may only replay or bypass a cassette
+    if (body.cassette) {
+      if (!['replay', 'passthrough'].includes(body.cassette.mode)) {
+        throw new Error('Cassette mode must be replay or passthrough');
+      }
+      if (typeof body.cassette.name !== 'string' || !body.cassette.name.trim()) {
+        throw new Error('Cassette name is required');
+      }
+      request.cassette = {
+        mode: body.cassette.mode,
+        name: body.cassette.name.trim(),
+      };
+    }
+
     return request;
   }
 
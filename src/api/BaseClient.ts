@@ -3,9 +3,14 @@
  */
 
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { AsyncLocalStorage } from 'async_hooks';
 import { logHelpers, loggerUtils } from '../config/logger.js';
-import { cacheUtils } from '../config/redis.js';
+import { cassetteStore, CassetteEntry, CassetteSettings } from './Cassette.js';
+import { quotaManager, RequestPriority } from './QuotaManager.js';
+import { TieredCache, CachePolicy, CacheTier, ResolvedCachePolicy, CACHE_TIERS } from './TieredCache.js';
 import { createHash } from 'crypto';
+import path from 'path';
+import env from '../config/env.js';
 
 // Extend Axios config to include metadata
 declare module 'axios' {
@@ -17,6 +22,40 @@ declare module 'axios' {
   }
 }
 
+// Query/body fields carrying credentials; excluded from cache keys and recordings
+const CREDENTIAL_PARAMS = ['apikey', 'api_key', 'apiKey', 'token', 'access_token'];
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 };
+
+// Short-lived responses are not worth a disk write
+const DISK_MIN_TTL = 600;
+
+// Passthrough GETs in flight across every client instance, keyed by cache key, so identical calls share one request
+const inFlightRequests: Map<string, Promise<StoredResponse<any>>> = new Map();
+
+// Origins of the GET responses served inside a traceResponses call
+const responseTrace = new AsyncLocalStorage<ResponseOrigin[]>();
+
+interface StoredResponse<T> {
+  value: T;
+  storedAt: number;
+}
+
+export interface ResponseOrigin {
+  cacheKey: string;
+  storedAt: number; // When the provider answered; earlier than now for cache hits
+}
+
+/**
+ * Run a task and collect where every GET response it was served came from, so callers
+ * can date data by when the provider answered rather than when the cache did
+ */
+export async function traceResponses<T>(task: () => Promise<T>): Promise<{ result: T; origins: ResponseOrigin[] }> {
+  const origins: ResponseOrigin[] = [];
+  const result = await responseTrace.run(origins, task);
+  return { result, origins };
+}
+
 export interface RetryConfig {
   maxRetries: number;
   baseDelay: number;
@@ -37,6 +76,8 @@ export interface CacheConfig {
   defaultTTL: number;
   maxSize: number;
   keyPrefix: string;
+  staleTTL?: number; // Seconds an expired response may still be served while it refreshes; none by default
+  policies?: Record<string, CachePolicy>; // Keyed by endpoint substring; the longest match wins
 }
 
 export interface BaseClientConfig {
@@ -62,6 +103,8 @@ export interface RequestQueue {
     reject: (error: any) => void;
     timestamp: number;
     retryCount: number;
+    priority: RequestPriority;
+    cassette: CassetteSettings;
   }>;
   processing: boolean;
   lastRequestTime: number;
@@ -80,6 +123,12 @@ export abstract class BaseClient {
   protected requestQueue: RequestQueue;
   protected circuitBreaker: CircuitBreakerState;
   protected rateLimitCounters: Map<string, number[]>;
+  protected cache: TieredCache;
+  private cacheStats = {
+    coalesced: 0,
+    revalidations: 0,
+    revalidationFailures: 0,
+  };
 
   constructor(config: BaseClientConfig) {
     this.config = config;
@@ -98,6 +147,13 @@ export abstract class BaseClient {
 
     this.rateLimitCounters = new Map();
 
+    this.cache = new TieredCache({
+      name: config.name,
+      keyPrefix: config.cache.keyPrefix,
+      maxSize: config.cache.maxSize,
+      directory: path.resolve(env.API_CACHE_DIR),
+    });
+
     // Initialize axios client
     this.client = axios.create({
       baseURL: config.baseURL,
@@ -109,6 +165,7 @@ export abstract class BaseClient {
     });
 
     this.setupInterceptors();
+    this.setupCassetteAdapter();
     this.startQueueProcessor();
 
     loggerUtils.apiLogger.info(`${config.name} client initialized`, {
@@ -189,6 +246,119 @@ export abstract class BaseClient {
     );
   }
 
+  /**
+   * Wrap the axios adapter so every request made through this.client, including
+   * direct calls that bypass get()/post(), can be recorded to or replayed from a cassette
+   */
+  private setupCassetteAdapter(): void {
+    const liveAdapter = axios.getAdapter(this.client.defaults.adapter);
+
+    this.client.defaults.adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      if (cassetteStore.mode === 'passthrough') {
+        return liveAdapter(config);
+      }
+
+      const method = (config.method || 'get').toUpperCase();
+      const body = this.parseRequestBody(config.data);
+      const key = this.generateCacheKey(method, config.url || '', method === 'GET' ? config.params : body);
+
+      if (cassetteStore.mode === 'replay') {
+        const entry = await cassetteStore.load(this.config.name, key);
+        if (!entry) {
+          throw new Error(
+            `No cassette entry for ${this.config.name} ${method} ${config.url} (${key}) in cassette "${cassetteStore.getSettings().name}"`
+          );
+        }
+        return this.replayResponse(entry, config);
+      }
+
+      try {
+        const response = await liveAdapter(config);
+        await cassetteStore.save(this.buildCassetteEntry(key, method, config, body, response));
+        return response;
+      } catch (error) {
+        // Record HTTP error responses too so failures replay the same way
+        if (axios.isAxiosError(error) && error.response) {
+          await cassetteStore.save(this.buildCassetteEntry(key, method, config, body, error.response));
+        }
+        throw error;
+      }
+    };
+  }
+
+  /**
+   * Rebuild an axios response from a cassette entry, rejecting as axios would for error statuses
+   */
+  private replayResponse(entry: CassetteEntry, config: InternalAxiosRequestConfig): AxiosResponse {
+    const response: AxiosResponse = {
+      data: entry.encoding === 'base64' ? Buffer.from(entry.response, 'base64') : entry.response,
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: entry.headers,
+      config,
+      request: { replayed: true, recordedAt: entry.recordedAt },
+    };
+
+    if (config.validateStatus && !config.validateStatus(entry.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${entry.status}`,
+        entry.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+
+    return response;
+  }
+
+  private buildCassetteEntry(
+    key: string,
+    method: string,
+    config: InternalAxiosRequestConfig,
+    body: any,
+    response: AxiosResponse
+  ): CassetteEntry {
+    const isBinary = Buffer.isBuffer(response.data);
+    const headers = response.headers && typeof (response.headers as any).toJSON === 'function'
+      ? (response.headers as any).toJSON()
+      : { ...response.headers };
+
+    return {
+      key,
+      client: this.config.name,
+      method,
+      url: config.url || '',
+      params: this.normalizeParams(config.params),
+      body: method === 'GET' ? undefined : this.normalizeParams(body),
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      response: isBinary ? response.data.toString('base64') : response.data,
+      encoding: isBinary ? 'base64' : undefined,
+      recordedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Request bodies reach the adapter already serialized; decode JSON so keys match post()
+   */
+  private parseRequestBody(data: any): any {
+    if (typeof data !== 'string') return data;
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+
+  /**
+   * Provider name used for quota accounting, matching DataHub's client keys
+   */
+  protected get providerKey(): string {
+    return this.config.name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+
   /**
    * Make a GET request with full retry and caching logic
    */
@@ -204,25 +374,59 @@ export abstract class BaseClient {
     }
   ): Promise<T> {
     const cacheKey = this.generateCacheKey('GET', endpoint, params);
-    const cacheTTL = options?.cacheTTL || this.config.cache.defaultTTL;
-
-    // Check cache first unless explicitly skipped
-    if (!options?.skipCache) {
-      try {
-        const cached = await cacheUtils.get(cacheKey);
-        if (cached) {
-          logHelpers.logCacheOperation('get', cacheKey, true, cacheTTL);
-          return cached;
+    const policy = this.resolveCachePolicy(endpoint, options?.cacheTTL);
+    // Cassette runs must see every request, so the shared cache is bypassed
+    const useCache = !options?.skipCache && cassetteStore.mode === 'passthrough';
+
+    // Check cache first unless explicitly skipped; stale hits are answered at once and refreshed behind
+    if (useCache) {
+      const cached = await this.cache.get<T>(cacheKey, policy);
+      if (cached) {
+        logHelpers.logCacheOperation('get', cacheKey, true, policy.ttl, { tier: cached.tier, state: cached.state });
+        if (cached.state === 'stale') {
+          this.revalidate(cacheKey, endpoint, params, options, policy);
         }
-      } catch (error) {
-        loggerUtils.cacheLogger.warn('Cache get failed', {
-          client: this.config.name,
-          cacheKey,
-          error: error.message,
-        });
+        responseTrace.getStore()?.push({ cacheKey, storedAt: cached.storedAt });
+        return cached.value;
       }
     }
 
+    const priority = options?.priority || quotaManager.currentPriority();
+    const request = () => this.fetchAndCache<T>(cacheKey, endpoint, params, options, policy, useCache, priority);
+    // A recording or replaying run must get its own response, never a live one shared from another run
+    const response = cassetteStore.mode === 'passthrough'
+      ? await this.singleflight(cacheKey, request)
+      : await request();
+    responseTrace.getStore()?.push({ cacheKey, storedAt: response.storedAt });
+    return response.value;
+  }
+
+  /**
+   * Send a GET to the provider and store the response in the tiers its policy names
+   */
+  private async fetchAndCache<T>(
+    cacheKey: string,
+    endpoint: string,
+    params: Record<string, any> | undefined,
+    options: { timeout?: number } | undefined,
+    policy: ResolvedCachePolicy,
+    useCache: boolean,
+    priority: RequestPriority
+  ): Promise<StoredResponse<T>> {
+    const requestConfig: AxiosRequestConfig = {
+      method: 'GET',
+      url: endpoint,
+      params,
+      timeout: options?.timeout || this.config.timeout,
+    };
+
+    // Replayed responses never touch the network, so skip the rate-limited queue; they date from their recording
+    if (cassetteStore.mode === 'replay') {
+      const replayed = await this.executeRequest(requestConfig);
+      const recordedAt = Date.parse(replayed.request?.recordedAt);
+      return { value: replayed.data, storedAt: Number.isFinite(recordedAt) ? recordedAt : Date.now() };
+    }
+
     // Check circuit breaker
     if (this.circuitBreaker.state === 'open') {
       if (Date.now() < this.circuitBreaker.nextAttemptTime) {
@@ -232,31 +436,79 @@ export abstract class BaseClient {
       }
     }
 
-    // Make the request
-    const requestConfig: AxiosRequestConfig = {
-      method: 'GET',
-      url: endpoint,
-      params,
-      timeout: options?.timeout || this.config.timeout,
-    };
+    // Only requests that reach the provider count against its budget
+    quotaManager.assertAvailable(this.providerKey, priority);
 
-    const response = await this.executeWithRetry<T>(requestConfig, options?.priority);
+    // Make the request
+    const response = await this.executeWithRetry<T>(requestConfig, priority);
+    const storedAt = Date.now();
 
     // Cache successful response
-    if (!options?.skipCache && response) {
-      try {
-        await cacheUtils.set(cacheKey, response, cacheTTL);
-        logHelpers.logCacheOperation('set', cacheKey, false, cacheTTL);
-      } catch (error) {
-        loggerUtils.cacheLogger.warn('Cache set failed', {
+    if (useCache && response) {
+      await this.cache.set(cacheKey, response, policy, storedAt);
+      logHelpers.logCacheOperation('set', cacheKey, false, policy.ttl, { tiers: policy.tiers });
+    }
+
+    return { value: response, storedAt };
+  }
+
+  /**
+   * Share one in-flight request between every caller asking for the same key
+   */
+  private singleflight<T>(cacheKey: string, request: () => Promise<StoredResponse<T>>): Promise<StoredResponse<T>> {
+    const pending = inFlightRequests.get(cacheKey);
+    if (pending) {
+      this.cacheStats.coalesced++;
+      return pending;
+    }
+
+    const promise = request().finally(() => inFlightRequests.delete(cacheKey));
+    inFlightRequests.set(cacheKey, promise);
+    return promise;
+  }
+
+  /**
+   * Refresh a stale entry in the background at low priority, so it never eats reserved budget
+   */
+  private revalidate(
+    cacheKey: string,
+    endpoint: string,
+    params: Record<string, any> | undefined,
+    options: { timeout?: number } | undefined,
+    policy: ResolvedCachePolicy
+  ): void {
+    if (inFlightRequests.has(cacheKey)) return;
+
+    this.cacheStats.revalidations++;
+    this.singleflight(cacheKey, () => this.fetchAndCache(cacheKey, endpoint, params, options, policy, true, 'low'))
+      .catch(error => {
+        this.cacheStats.revalidationFailures++;
+        loggerUtils.cacheLogger.debug('Background revalidation failed', {
           client: this.config.name,
-          cacheKey,
-          error: error.message,
+          endpoint,
+          error: (error as Error).message,
         });
-      }
-    }
+      });
+  }
 
-    return response;
+  /**
+   * TTLs and tiers for an endpoint: call-site TTL, then the endpoint policy, then client defaults
+   */
+  protected resolveCachePolicy(endpoint: string, cacheTTL?: number): ResolvedCachePolicy {
+    const policies = this.config.cache.policies || {};
+    const match = Object.keys(policies)
+      .filter(key => endpoint.includes(key))
+      .sort((a, b) => b.length - a.length)[0];
+    const policy: CachePolicy = match ? policies[match] : {};
+
+    const ttl = cacheTTL || policy.ttl || this.config.cache.defaultTTL;
+    const tiers: CacheTier[] = policy.tiers || (ttl >= DISK_MIN_TTL ? CACHE_TIERS : ['memory', 'redis']);
+
+    return {
+      ttl,
+      staleTTL: policy.staleTTL ?? this.config.cache.staleTTL ?? 0,
+      tiers,
+    };
   }
 
   /**
@@ -270,6 +522,17 @@ export abstract class BaseClient {
       timeout?: number;
     }
   ): Promise<T> {
+    const requestConfig: AxiosRequestConfig = {
+      method: 'POST',
+      url: endpoint,
+      data,
+      timeout: options?.timeout || this.config.timeout,
+    };
+
+    if (cassetteStore.mode === 'replay') {
+      return (await this.executeRequest(requestConfig)).data;
+    }
+
     // Check circuit breaker
     if (this.circuitBreaker.state === 'open') {
       if (Date.now() < this.circuitBreaker.nextAttemptTime) {
@@ -279,14 +542,10 @@ export abstract class BaseClient {
       }
     }
 
-    const requestConfig: AxiosRequestConfig = {
-      method: 'POST',
-      url: endpoint,
-      data,
-      timeout: options?.timeout || this.config.timeout,
-    };
+    const priority = options?.priority || quotaManager.currentPriority();
+    quotaManager.assertAvailable(this.providerKey, priority);
 
-    return await this.executeWithRetry<T>(requestConfig, options?.priority);
+    return await this.executeWithRetry<T>(requestConfig, priority);
   }
 
   /**
@@ -294,7 +553,7 @@ export abstract class BaseClient {
    */
   private async executeWithRetry<T>(
     config: AxiosRequestConfig,
-    priority: 'high' | 'normal' | 'low' = 'normal'
+    priority: RequestPriority = 'normal'
   ): Promise<T> {
     return new Promise((resolve, reject) => {
       const requestId = this.generateRequestId();
@@ -306,13 +565,19 @@ export abstract class BaseClient {
         reject: (error: any) => reject(error),
         timestamp: Date.now(),
         retryCount: 0,
+        priority,
+        // The queue drains in whichever context started it, so carry the caller's cassette
+        cassette: cassetteStore.getSettings(),
       };
 
-      // Add to queue based on priority
-      if (priority === 'high') {
-        this.requestQueue.requests.unshift(queueItem);
-      } else {
+      // Add to queue behind every request of the same or higher priority
+      const insertAt = this.requestQueue.requests.findIndex(
+        request => PRIORITY_RANK[request.priority] > PRIORITY_RANK[priority]
+      );
+      if (insertAt === -1) {
         this.requestQueue.requests.push(queueItem);
+      } else {
+        this.requestQueue.requests.splice(insertAt, 0, queueItem);
       }
 
       // Limit queue size
@@ -352,11 +617,12 @@ export abstract class BaseClient {
       if (!request) break;
 
       try {
-        // Record request for rate limiting
+        // Record request for rate limiting and quota accounting
         this.recordRequest();
+        quotaManager.recordUsage(this.providerKey);
         
         // Execute the actual HTTP request
-        const response = await this.executeRequest(request.config);
+        const response = await cassetteStore.run(request.cassette, () => this.executeRequest(request.config));
         request.resolve(response.data);
 
         // Update last request time
@@ -571,20 +837,43 @@ export abstract class BaseClient {
   }
 
   /**
-   * Generate cache key for requests
+   * Generate cache key for requests. Params are normalized (sorted, undefined and
+   * credential fields dropped) so keys are stable across runs and API keys.
    */
   protected generateCacheKey(method: string, endpoint: string, params?: any): string {
     const key = {
       client: this.config.name,
-      method,
+      method: method.toUpperCase(),
       endpoint,
-      params: params || {},
+      params: this.normalizeParams(params) || {},
     };
     
     const hash = createHash('md5').update(JSON.stringify(key)).digest('hex');
     return `${this.config.cache.keyPrefix}:${hash}`;
   }
 
+  /**
+   * Sort object keys recursively and strip undefined values and credentials
+   */
+  protected normalizeParams(params: any): any {
+    if (Array.isArray(params)) {
+      return params.map(value => this.normalizeParams(value));
+    }
+    if (params instanceof URLSearchParams) {
+      return this.normalizeParams(Object.fromEntries(params.entries()));
+    }
+    if (!params || typeof params !== 'object' || params instanceof Date) {
+      return params;
+    }
+
+    const normalized: Record<string, any> = {};
+    for (const name of Object.keys(params).sort()) {
+      if (params[name] === undefined || CREDENTIAL_PARAMS.includes(name)) continue;
+      normalized[name] = this.normalizeParams(params[name]);
+    }
+    return normalized;
+  }
+
   /**
    * Generate unique request ID
    */
@@ -626,6 +915,14 @@ export abstract class BaseClient {
         currentHour: this.rateLimitCounters.get(Math.floor(now / 3600000).toString())?.length || 0,
       },
       limits: this.config.rateLimit,
+      quota: quotaManager.getReport().find(report => report.provider === this.providerKey) || null,
+      cache: {
+        ...this.cache.getStatistics(),
+        ...this.cacheStats,
+        inFlight: Array.from(inFlightRequests.keys())
+          .filter(key => key.startsWith(`${this.config.cache.keyPrefix}:`)).length,
+      },
+      cassette: cassetteStore.mode,
     };
   }
 
@@ -664,7 +961,7 @@ export abstract class BaseClient {
       `${this.config.cache.keyPrefix}:*${pattern}*` : 
       `${this.config.cache.keyPrefix}:*`;
     
-    return await cacheUtils.clearPattern(fullPattern);
+    return await this.cache.clear(fullPattern);
   }
 
   /**
@@ -0,0 +1,158 @@
+/**
+ * Cassette store for recording and replaying BaseClient HTTP traffic.
+ * Each request/response pair is written to its own JSON file, keyed by the
+ * client's normalized cache key, so a pipeline run can be replayed offline.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs/promises';
+import path from 'path';
+import { loggerUtils } from '../config/logger.js';
+import env from '../config/env.js';
+
+export type CassetteMode = 'record' | 'replay' | 'passthrough';
+
+export interface CassetteSettings {
+  mode: CassetteMode;
+  name: string;
+  directory: string;
+}
+
+export interface CassetteEntry {
+  key: string;
+  client: string;
+  method: string;
+  url: string;
+  params?: Record<string, any>;
+  body?: any;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  response: any;
+  encoding?: 'base64';
+  recordedAt: string;
+}
+
+export class CassetteStore {
+  private settings: CassetteSettings;
+  private scopedSettings = new AsyncLocalStorage<CassetteSettings>();
+  private stats = {
+    recorded: 0,
+    replayed: 0,
+    misses: 0,
+  };
+
+  constructor(settings: CassetteSettings) {
+    this.settings = settings;
+  }
+
+  get mode(): CassetteMode {
+    return this.current.mode;
+  }
+
+  getSettings(): CassetteSettings {
+    return { ...this.current };
+  }
+
+  /**
+   * Switch the process-wide default cassette mode and/or name for all clients
+   */
+  use(settings: Partial<CassetteSettings>): CassetteSettings {
+    const previous = this.getSettings();
+    this.settings = { ...this.settings, ...settings };
+
+    if (this.settings.mode !== previous.mode || this.settings.name !== previous.name) {
+      loggerUtils.apiLogger.info('Cassette mode changed', {
+        mode: this.settings.mode,
+        cassette: this.settings.name,
+      });
+    }
+
+    return previous;
+  }
+
+  /**
+   * Run a task under the given cassette settings. The settings only apply within the
+   * task's async context, so concurrent runs each see their own cassette.
+   */
+  async run<T>(settings: Partial<CassetteSettings>, task: () => Promise<T>): Promise<T> {
+    return await this.scopedSettings.run({ ...this.current, ...settings }, task);
+  }
+
+  /**
+   * Load a recorded entry, or null when the cassette has no such request
+   */
+  async load(client: string, key: string): Promise<CassetteEntry | null> {
+    try {
+      const content = await fs.readFile(this.entryPath(client, key), 'utf8');
+      this.stats.replayed++;
+      return JSON.parse(content);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        loggerUtils.apiLogger.warn('Failed to read cassette entry', {
+          client,
+          key,
+          cassette: this.current.name,
+          error: (error as Error).message,
+        });
+      }
+      this.stats.misses++;
+      return null;
+    }
+  }
+
+  /**
+   * Persist a request/response pair, overwriting any earlier recording of the same key
+   */
+  async save(entry: CassetteEntry): Promise<void> {
+    const filePath = this.entryPath(entry.client, entry.key);
+
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, JSON.stringify(entry, null, 2));
+      this.stats.recorded++;
+    } catch (error) {
+      loggerUtils.apiLogger.error('Failed to write cassette entry', {
+        client: entry.client,
+        key: entry.key,
+        cassette: this.current.name,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  getStatistics(): Record<string, any> {
+    return {
+      ...this.current,
+      ...this.stats,
+    };
+  }
+
+  // Settings of the run in progress, falling back to the process-wide default
+  private get current(): CassetteSettings {
+    return this.scopedSettings.getStore() || this.settings;
+  }
+
+  private entryPath(client: string, key: string): string {
+    const settings = this.current;
+    const fileName = `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`;
+    return path.join(
+      settings.directory,
+      this.sanitize(settings.name),
+      this.sanitize(client),
+      fileName
+    );
+  }
+
+  private sanitize(segment: string): string {
+    return segment.replace(/[^a-zA-Z0-9._-]/g, '_');
+  }
+}
+
+export const cassetteStore = new CassetteStore({
+  mode: env.API_CASSETTE_MODE,
+  name: env.API_CASSETTE_NAME,
+  directory: path.resolve(env.API_CASSETTE_DIR),
+});
+
+export default cassetteStore;
@@ -3,7 +3,11 @@
  * Coordinates all data sources with intelligent fallbacks and caching
  */
 
-import { BaseClient, BaseClientConfig } from './BaseClient.js';
+import { BaseClient, ResponseOrigin, traceResponses } from './BaseClient.js';
+import { quotaManager } from './QuotaManager.js';
+import { lineageStore } from './LineageStore.js';
+import { providerRegistry } from './ProviderRegistry.js';
+import { builtinProviders } from './providers/BuiltinProviders.js';
 import { FinnhubClient } from './clients/FinnhubClient.js';
 import { PolygonClient } from './clients/PolygonClient.js';
 import { AlphaVantageClient } from './clients/AlphaVantageClient.js';
@@ -13,11 +17,41 @@ import { GoogleTrendsClient } from './clients/GoogleTrendsClient.js';
 import { SECEdgarClient } from './clients/SECEdgarClient.js';
 import { NewsScraperClient } from './clients/NewsScraperClient.js';
 import { BackupDataClient } from './clients/BackupDataClient.js';
+import { OpenFigiClient } from './clients/OpenFigiClient.js';
+import { BlsClient } from './clients/BlsClient.js';
 import { processingService } from '../preprocessing/ProcessingService.js';
-import { ProcessingResult, ProcessedDataPoint } from '../types/data.js';
+import { ConsensusBuilder, ConsensusCandidate } from '../preprocessing/ConsensusBuilder.js';
+import { XbrlFinancialsNormalizer } from '../preprocessing/XbrlFinancialsNormalizer.js';
+import {
+  ProcessingResult,
+  ProcessedDataPoint,
+  PriceBar,
+  PriceAdjustment,
+  NormalizedQuote,
+  ConsensusRecord,
+  SourceReliability,
+  FinancialStatements,
+  NormalizedOptionChain,
+  AssetClass,
+  LineageSource,
+} from '../types/data.js';
 import { logHelpers, loggerUtils } from '../config/logger.js';
 import { cacheUtils } from '../config/redis.js';
 import DataQualityValidator, { DataQualityMetrics } from '../core/DataQualityValidator.js';
+import { BarStore, BarQuery } from '../market/BarStore.js';
+import { CorporateActionsService } from '../market/CorporateActions.js';
+import { InstitutionalHoldingsService } from '../market/InstitutionalHoldings.js';
+import { ShortInterestService } from '../market/ShortInterest.js';
+import { CurrencyConverter } from '../market/CurrencyConverter.js';
+import { classifySymbol, getAssetInfo, supportsDataType } from '../market/AssetClasses.js';
+import { securityMaster } from '../market/SecurityMaster.js';
+import { economicCalendar } from '../market/EconomicCalendar.js';
+import { earningsCalendar } from '../market/EarningsCalendar.js';
+import { tradingCalendar } from '../market/TradingCalendar.js';
+import { QuoteStream, QuoteStreamFeedConfig } from './streaming/QuoteStream.js';
+import { polygonProtocol, finnhubProtocol } from './streaming/StreamProtocols.js';
+import { feedIngestor } from './feeds/FeedIngestor.js';
+import { carryTaint, getTaint, mergeTaints } from '../core/SyntheticData.js';
 import env from '../config/env.js';
 
 export interface DataRequest {
@@ -28,6 +62,7 @@ export interface DataRequest {
     maxAge?: number; // Maximum age of cached data in milliseconds
     sources?: string[]; // Specific sources to use
     fallbackEnabled?: boolean;
+    consensus?: boolean; // Query primary sources in parallel for quotes and financials (default true)
     processingOptions?: any;
   };
 }
@@ -40,6 +75,9 @@ export type DataType =
   | 'earnings'
   | 'insider' 
   | 'congressional'
+  | 'institutional'
+  | 'short'
+  | 'onchain'
   | 'options'
   | 'technical'
   | 'trends'
@@ -72,6 +110,14 @@ export class DataHub {
   private healthCheckInterval: number = 300000; // 5 minutes
   private qualityValidator: DataQualityValidator = new DataQualityValidator();
   private qualityMetrics: Map<string, DataQualityMetrics[]> = new Map();
+  private consensusBuilder: ConsensusBuilder = new ConsensusBuilder();
+  private xbrlNormalizer: XbrlFinancialsNormalizer = new XbrlFinancialsNormalizer();
+  private priceBarStore: BarStore = new BarStore(this);
+  private corporateActionsService: CorporateActionsService = new CorporateActionsService(this);
+  private institutionalHoldingsService: InstitutionalHoldingsService = new InstitutionalHoldingsService(this);
+  private shortInterestService: ShortInterestService = new ShortInterestService(this);
+  private currencyConverter: CurrencyConverter = new CurrencyConverter(this);
+  private quoteStreamService: QuoteStream | null = null;
   
   // Public client accessors
   public get finnhubClient(): FinnhubClient | null {
@@ -99,7 +145,7 @@ export class DataHub {
   }
   
   public get secEdgarClient(): SECEdgarClient | null {
-    return this.clients.get('secedgar') as SECEdgarClient || null;
+    return this.clients.get('sec') as SECEdgarClient || null;
   }
   
   public get googleTrendsClient(): GoogleTrendsClient | null {
@@ -110,20 +156,80 @@ export class DataHub {
     return this.clients.get('backup') as BackupDataClient || null;
   }
 
+  public get openFigiClient(): OpenFigiClient | null {
+    return this.clients.get('openfigi') as OpenFigiClient || null;
+  }
+
+  public get blsClient(): BlsClient | null {
+    return this.clients.get('bls') as BlsClient || null;
+  }
+
+  /**
+   * Client for any registered provider, including plugins
+   */
+  public getClient(name: string): BaseClient | null {
+    return this.clients.get(name) || null;
+  }
+
   constructor() {
+    for (const plugin of builtinProviders) {
+      if (!providerRegistry.get(plugin.name)) {
+        providerRegistry.register(plugin);
+      }
+    }
+
     this.initializeClients();
     this.setupSourcePriorities();
     this.startHealthMonitoring();
+
+    // Rebuild priorities whenever a provider runs out of budget or gets it back
+    quotaManager.on('budgetChange', () => this.setupSourcePriorities());
+    securityMaster.attach(this);
+    economicCalendar.attach(this);
+    earningsCalendar.attach(this);
+    tradingCalendar.attach(this);
   }
   
   /**
    * Public initialization method for external use
    */
   public async initialize(): Promise<void> {
+    const plugins = await providerRegistry.loadFromConfig(
+      env.DATA_PROVIDER_PLUGINS.split(',').map(entry => entry.trim()).filter(Boolean)
+    );
     await this.initializeClients();
+
+    if (plugins.length > 0) {
+      this.setupSourcePriorities();
+      this.performHealthCheck().catch(error => {
+        loggerUtils.apiLogger.warn('Plugin health check failed', { error: error.message });
+      });
+    }
     
     // Initialize the processing service
     await processingService.initialize();
+
+    // Reference data refresh is slow and quota-bound, so it runs in the background
+    securityMaster.refreshIfStale().catch(error => {
+      loggerUtils.apiLogger.warn('Security master refresh failed', {
+        error: (error as Error).message,
+      });
+    });
+    economicCalendar.syncIfStale().catch(error => {
+      loggerUtils.apiLogger.warn('Economic calendar sync failed', {
+        error: (error as Error).message,
+      });
+    });
+    earningsCalendar.syncIfStale().catch(error => {
+      loggerUtils.apiLogger.warn('Earnings calendar sync failed', {
+        error: (error as Error).message,
+      });
+    });
+    tradingCalendar.syncIfStale().catch(error => {
+      loggerUtils.apiLogger.warn('Trading calendar sync failed', {
+        error: (error as Error).message,
+      });
+    });
     
     loggerUtils.apiLogger.info('DataHub initialized successfully');
   }
@@ -135,278 +241,15 @@ export class DataHub {
     loggerUtils.apiLogger.info('Initializing DataHub clients');
 
     try {
-      // Paid API clients
-      // Temporarily disable Finnhub due to SSL errors
-      /*
-      if (env.FINNHUB_API_KEY) {
-        this.clients.set('finnhub', new FinnhubClient({
-          name: 'Finnhub',
-          baseURL: 'https://finnhub.io/api/v1',
-          timeout: 10000,
-          headers: {},
-          retry: {
-            maxRetries: 3,
-            baseDelay: 1000,
-            maxDelay: 10000,
-            backoffMultiplier: 2,
-            retryableStatusCodes: [429, 500, 502, 503, 504],
-          },
-          rateLimit: {
-            requestsPerSecond: 1,
-            requestsPerMinute: 60,
-            requestsPerHour: 3600,
-            burstLimit: 5,
-            queueLimit: 100,
-          },
-          cache: {
-            defaultTTL: 300,
-            maxSize: 1000,
-            keyPrefix: 'finnhub',
-          },
-          circuitBreaker: {
-            failureThreshold: 5,
-            resetTimeout: 60000,
-            monitoringPeriod: 300000,
-          },
-        }));
-      }
-      */
-
-      if (env.POLYGON_API_KEY) {
-        this.clients.set('polygon', new PolygonClient({
-          name: 'Polygon',
-          baseURL: 'https://api.polygon.io',
-          timeout: 15000,
-          headers: {},
-          retry: {
-            maxRetries: 2,
-            baseDelay: 2000,
-            maxDelay: 15000,
-            backoffMultiplier: 2,
-            retryableStatusCodes: [429, 500, 502, 503, 504],
-          },
-          rateLimit: {
-            requestsPerSecond: 0.1, // 5 per minute for free tier
-            requestsPerMinute: 5,
-            requestsPerHour: 300,
-            burstLimit: 2,
-            queueLimit: 50,
-          },
-          cache: {
-            defaultTTL: 600,
-            maxSize: 500,
-            keyPrefix: 'polygon',
-          },
-          circuitBreaker: {
-            failureThreshold: 3,
-            resetTimeout: 120000,
-            monitoringPeriod: 300000,
-          },
-        }));
-      }
-
-      if (env.ALPHA_VANTAGE_API_KEY) {
-        this.clients.set('alphavantage', new AlphaVantageClient({
-          name: 'AlphaVantage',
-          baseURL: 'https://www.alphavantage.co/query',
-          timeout: 5000, // Reduced from 20000ms for faster pipeline execution
-          headers: {},
-          retry: {
-            maxRetries: 2,
-            baseDelay: 3000,
-            maxDelay: 20000,
-            backoffMultiplier: 2,
-            retryableStatusCodes: [429, 500, 502, 503, 504],
-          },
-          rateLimit: {
-            requestsPerSecond: 0.08, // 5 per minute for free tier
-            requestsPerMinute: 5,
-            requestsPerHour: 500,
-            burstLimit: 1,
-            queueLimit: 25,
-          },
-          cache: {
-            defaultTTL: 1800,
-            maxSize: 300,
-            keyPrefix: 'alphavantage',
-          },
-          circuitBreaker: {
-            failureThreshold: 3,
-            resetTimeout: 300000,
-            monitoringPeriod: 600000,
-          },
-        }));
-      }
+      this.clients.clear();
 
-      if (env.QUIVER_API_KEY) {
-        this.clients.set('quiver', new QuiverClient({
-          name: 'Quiver',
-          baseURL: 'https://api.quiverquant.com/beta',
-          timeout: 15000,
-          headers: {},
-          retry: {
-            maxRetries: 3,
-            baseDelay: 1000,
-            maxDelay: 10000,
-            backoffMultiplier: 2,
-            retryableStatusCodes: [429, 500, 502, 503, 504],
-          },
-          rateLimit: {
-            requestsPerSecond: 5,
-            requestsPerMinute: 300,
-            requestsPerHour: 18000,
-            burstLimit: 10,
-            queueLimit: 200,
-          },
-          cache: {
-            defaultTTL: 3600,
-            maxSize: 1000,
-            keyPrefix: 'quiver',
-          },
-          circuitBreaker: {
-            failureThreshold: 5,
-            resetTimeout: 60000,
-            monitoringPeriod: 300000,
-          },
-        }));
+      for (const plugin of providerRegistry.list()) {
+        const client = plugin.createClient();
+        if (client) {
+          this.clients.set(plugin.name, client);
+        }
       }
 
-      // Free data sources - always available
-      this.clients.set('yahoo', new YahooFinanceClient({
-        name: 'YahooFinance',
-        baseURL: 'https://query1.finance.yahoo.com',
-        timeout: 10000,
-        headers: {},
-        retry: {
-          maxRetries: 3,
-          baseDelay: 2000,
-          maxDelay: 15000,
-          backoffMultiplier: 2,
-          retryableStatusCodes: [429, 500, 502, 503, 504],
-        },
-        rateLimit: {
-          requestsPerSecond: 2,
-          requestsPerMinute: 120,
-          requestsPerHour: 7200,
-          burstLimit: 5,
-          queueLimit: 100,
-        },
-        cache: {
-          defaultTTL: 300,
-          maxSize: 1000,
-          keyPrefix: 'yahoo',
-        },
-      }));
-
-      this.clients.set('trends', new GoogleTrendsClient({
-        name: 'GoogleTrends',
-        baseURL: 'https://trends.google.com',
-        timeout: 15000,
-        headers: {},
-        retry: {
-          maxRetries: 2,
-          baseDelay: 5000,
-          maxDelay: 30000,
-          backoffMultiplier: 2,
-          retryableStatusCodes: [429, 500, 502, 503, 504],
-        },
-        rateLimit: {
-          requestsPerSecond: 0.1,
-          requestsPerMinute: 6,
-          requestsPerHour: 360,
-          burstLimit: 1,
-          queueLimit: 20,
-        },
-        cache: {
-          defaultTTL: 7200, // 2 hours for trends data
-          maxSize: 200,
-          keyPrefix: 'trends',
-        },
-      }));
-
-      this.clients.set('sec', new SECEdgarClient({
-        name: 'SEC_EDGAR',
-        baseURL: 'https://data.sec.gov',
-        timeout: 30000,
-        headers: {
-          'User-Agent': 'StockGenius info@stockgenius.com',
-        },
-        retry: {
-          maxRetries: 2,
-          baseDelay: 10000,
-          maxDelay: 60000,
-          backoffMultiplier: 2,
-          retryableStatusCodes: [429, 500, 502, 503, 504],
-        },
-        rateLimit: {
-          requestsPerSecond: 0.1, // Be very respectful to SEC
-          requestsPerMinute: 6,
-          requestsPerHour: 360,
-          burstLimit: 1,
-          queueLimit: 10,
-        },
-        cache: {
-          defaultTTL: 86400, // 24 hours for SEC filings
-          maxSize: 100,
-          keyPrefix: 'sec',
-        },
-      }));
-
-      this.clients.set('newsscraper', new NewsScraperClient({
-        name: 'NewsScraper',
-        baseURL: '', // Multiple URLs
-        timeout: 15000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; StockGenius/1.0)',
-        },
-        retry: {
-          maxRetries: 2,
-          baseDelay: 3000,
-          maxDelay: 20000,
-          backoffMultiplier: 2,
-          retryableStatusCodes: [429, 500, 502, 503, 504],
-        },
-        rateLimit: {
-          requestsPerSecond: 0.2,
-          requestsPerMinute: 12,
-          requestsPerHour: 720,
-          burstLimit: 2,
-          queueLimit: 30,
-        },
-        cache: {
-          defaultTTL: 1800, // 30 minutes for scraped news
-          maxSize: 500,
-          keyPrefix: 'newsscraper',
-        },
-      }));
-
-      // Always add backup data client as last resort
-      this.clients.set('backup', new BackupDataClient({
-        name: 'BackupData',
-        baseURL: '', // Multiple URLs
-        timeout: 10000,
-        headers: {},
-        retry: {
-          maxRetries: 1,
-          baseDelay: 1000,
-          maxDelay: 5000,
-          backoffMultiplier: 1.5,
-          retryableStatusCodes: [429, 500, 502, 503, 504],
-        },
-        rateLimit: {
-          requestsPerSecond: 1,
-          requestsPerMinute: 60,
-          requestsPerHour: 3600,
-          burstLimit: 3,
-          queueLimit: 50,
-        },
-        cache: {
-          defaultTTL: 900, // 15 minutes for backup data
-          maxSize: 200,
-          keyPrefix: 'backup',
-        },
-      }));
-
       loggerUtils.apiLogger.info('DataHub clients initialized', {
         clientCount: this.clients.size,
         clients: Array.from(this.clients.keys()),
@@ -424,78 +267,13 @@ export class DataHub {
    * Setup source priorities for different data types
    */
   private setupSourcePriorities(): void {
-    // Define priority orders for each data type
-    this.sourcePriorities.set('quote', {
-      primary: ['finnhub', 'polygon'],
-      fallback: ['alphavantage'],
-      free: ['yahoo', 'backup'],
-    });
-
-    this.sourcePriorities.set('profile', {
-      primary: ['finnhub', 'alphavantage'],
-      fallback: ['polygon'],
-      free: ['yahoo', 'backup'],
-    });
-
-    this.sourcePriorities.set('news', {
-      primary: ['finnhub', 'polygon'],
-      fallback: ['alphavantage'],
-      free: ['newsscraper', 'yahoo', 'backup'],
-    });
-
-    this.sourcePriorities.set('financials', {
-      primary: ['alphavantage', 'polygon'],
-      fallback: ['finnhub'],
-      free: ['sec', 'yahoo'],
-    });
-
-    this.sourcePriorities.set('earnings', {
-      primary: ['finnhub', 'alphavantage'],
-      fallback: ['polygon'],
-      free: ['yahoo'],
-    });
-
-    this.sourcePriorities.set('insider', {
-      primary: ['quiver'],
-      fallback: [],
-      free: ['sec'],
-    });
-
-    this.sourcePriorities.set('congressional', {
-      primary: ['quiver'],
-      fallback: [],
-      free: [],
-    });
-
-    this.sourcePriorities.set('options', {
-      primary: ['polygon', 'alphavantage'],
-      fallback: ['finnhub'],
-      free: [],
-    });
-
-    this.sourcePriorities.set('technical', {
-      primary: ['alphavantage', 'finnhub'],
-      fallback: ['polygon'],
-      free: ['yahoo'],
-    });
-
-    this.sourcePriorities.set('trends', {
-      primary: [],
-      fallback: [],
-      free: ['trends'],
-    });
+    // Providers out of budget sit out until their quota resets, leaving the free sources
+    const exhausted = quotaManager.getExhaustedProviders();
+    this.sourcePriorities = providerRegistry.derivePriorities(Array.from(this.clients.keys()), exhausted);
 
-    this.sourcePriorities.set('filings', {
-      primary: [],
-      fallback: [],
-      free: ['sec'],
-    });
-
-    this.sourcePriorities.set('sentiment', {
-      primary: ['quiver'],
-      fallback: [],
-      free: ['newsscraper', 'trends', 'backup'],
-    });
+    if (exhausted.length > 0) {
+      loggerUtils.apiLogger.warn('Source priorities restricted by API budgets', { exhausted });
+    }
   }
 
   /**
@@ -503,7 +281,9 @@ export class DataHub {
    */
   async fetchData(request: DataRequest): Promise<DataResponse> {
     const startTime = Date.now();
-    const { symbol, dataTypes, options = {} } = request;
+    const { dataTypes, options = {} } = request;
+    const asset = getAssetInfo(request.symbol);
+    const symbol = asset.symbol;
 
     logHelpers.logApiRequest('DataHub', 'fetchData', symbol, {
       dataTypes,
@@ -522,10 +302,20 @@ export class DataHub {
       },
     };
 
+    // Crypto has no filings and FX no earnings; skip what the asset class cannot have
+    const unsupported = dataTypes.filter(dataType => !supportsDataType(asset.assetClass, dataType));
+    if (unsupported.length > 0) {
+      response.metadata.warnings.push(`Not available for ${asset.assetClass}: ${unsupported.join(', ')}`);
+    }
+
     // Process each data type
-    const promises = dataTypes.map(async (dataType) => {
+    const promises = dataTypes.filter(dataType => !unsupported.includes(dataType)).map(async (dataType) => {
       try {
-        const result = await this.fetchDataType(symbol, dataType, options);
+        const result = await quotaManager.runWithPriority(
+          options.priority || 'normal',
+          () => this.fetchDataType(symbol, dataType, { ...options, assetClass: asset.assetClass })
+        );
+        await this.applyAssetContext(result.processedData, asset.assetClass);
         response.data[dataType] = result.processedData;
         response.metadata.sources[dataType] = result.source;
         response.metadata.cachingInfo[dataType] = result.cacheInfo;
@@ -597,8 +387,46 @@ export class DataHub {
       ];
     }
 
-    // Filter to only available clients
-    sourcesToTry = sourcesToTry.filter(source => this.clients.has(source));
+    // Filter to only available clients serving this asset class with budget left for this caller's priority
+    const assetClass: AssetClass = options.assetClass || classifySymbol(symbol);
+    sourcesToTry = sourcesToTry.filter(source =>
+      this.clients.has(source) && providerRegistry.servesAssetClass(source, dataType, assetClass)
+    );
+    const affordable = sourcesToTry.filter(source => quotaManager.check(source).allowed);
+    if (affordable.length < sourcesToTry.length) {
+      loggerUtils.apiLogger.info('Skipping sources without budget', {
+        dataType,
+        symbol,
+        priority: quotaManager.currentPriority(),
+        skipped: sourcesToTry.filter(source => !affordable.includes(source)),
+      });
+    }
+    sourcesToTry = affordable;
+
+    // Consensus legs are extra calls, so only primary sources with budget left even for
+    // low-priority work are fanned out to; fallbacks are still tried below if consensus fails
+    const consensusSources = sourcesToTry.filter(source =>
+      priorities.primary.includes(source) &&
+      this.healthStatus.get(source) &&
+      quotaManager.check(source, 'low').allowed
+    );
+
+    if (
+      (dataType === 'quote' || dataType === 'financials') &&
+      options.consensus !== false &&
+      consensusSources.length > 1
+    ) {
+      try {
+        return await this.fetchWithConsensus(symbol, dataType, consensusSources, options);
+      } catch (error) {
+        loggerUtils.apiLogger.warn('Consensus failed, trying remaining sources', {
+          dataType,
+          symbol,
+          error: (error as Error).message,
+        });
+        sourcesToTry = sourcesToTry.filter(source => !consensusSources.includes(source));
+      }
+    }
 
     let lastError: Error | null = null;
     
@@ -615,7 +443,9 @@ export class DataHub {
         }
 
         const client = this.clients.get(source)!;
-        const rawData = await this.fetchFromSource(client, symbol, dataType, { maxAge });
+        const { result: rawData, origins } = await traceResponses(() =>
+          this.fetchFromSource(source, symbol, dataType, { maxAge })
+        );
 
         if (!rawData || (Array.isArray(rawData) && rawData.length === 0)) {
           loggerUtils.apiLogger.warn('No data returned from source', {
@@ -646,10 +476,19 @@ export class DataHub {
         }
 
         // Process the raw data
-        const processedData = await this.processData(rawData, dataType, symbol, options.processingOptions);
+        const processedData = await this.processData(
+          this.normalizeFromSource(source, rawData, dataType, symbol),
+          dataType,
+          symbol,
+          options.processingOptions
+        );
         
         // Add quality info to metadata
         processedData.quality = qualityMetrics;
+        const lineage = this.recordLineage(
+          source, dataType, symbol, rawData, origins, processedData, qualityMetrics.reliability / 100
+        );
+        this.attachLineage(processedData, lineage, [lineage]);
 
         return {
           processedData,
@@ -680,101 +519,411 @@ export class DataHub {
     throw lastError || new Error(`No available sources for ${dataType}`);
   }
 
+  /**
+   * Query the given sources in parallel and merge them into a consensus result
+   */
+  private async fetchWithConsensus(
+    symbol: string,
+    dataType: 'quote' | 'financials',
+    sourcesToTry: string[],
+    options: any
+  ): Promise<{
+    processedData: ProcessingResult;
+    source: string;
+    cacheInfo: any;
+  }> {
+    let lastError: Error | null = null;
+
+    const results = await Promise.all(sourcesToTry.map(async source => {
+      const startTime = Date.now();
+      try {
+        const { result: rawData, origins } = await traceResponses(() =>
+          this.fetchFromSource(source, symbol, dataType, { maxAge: options.maxAge })
+        );
+        if (!rawData || (Array.isArray(rawData) && rawData.length === 0)) {
+          return null;
+        }
+
+        const qualityMetrics = this.validateDataQuality(rawData, dataType, symbol, source);
+        this.storeQualityMetrics(symbol, qualityMetrics);
+        this.qualityValidator.updateSourceReliability(source, qualityMetrics.reliability > 50);
+
+        return {
+          source,
+          rawData,
+          origins,
+          qualityMetrics,
+          reliability: this.buildSourceReliability(source, qualityMetrics, Date.now() - startTime),
+        };
+      } catch (error) {
+        lastError = error;
+        // One failed leg leaves health alone; the client's circuit breaker handles repeated failures
+        loggerUtils.apiLogger.warn('Consensus source failed', {
+          source,
+          dataType,
+          symbol,
+          error: error.message,
+        });
+        return null;
+      }
+    }));
+
+    const fetched = results.filter(Boolean);
+    // Poor-quality answers only count when nothing better came back
+    const usable = fetched.some(result => result.qualityMetrics.reliability >= 30)
+      ? fetched.filter(result => result.qualityMetrics.reliability >= 30)
+      : fetched;
+
+    if (usable.length === 0) {
+      throw lastError || new Error(`No available sources for ${dataType}`);
+    }
+
+    const candidates: ConsensusCandidate[] = usable.map(result => ({
+      source: result.source,
+      rawData: result.rawData,
+      reliability: result.reliability,
+    }));
+    const consensus = this.consensusBuilder.build(dataType, candidates);
+
+    // The most reliable agreeing source supplies the fields consensus does not cover
+    const base = usable
+      .filter(result => !consensus || consensus.sourcesUsed.includes(result.source))
+      .sort((a, b) => b.reliability.score - a.reliability.score)[0] || usable[0];
+
+    const processedData = await this.processData(
+      this.normalizeFromSource(base.source, base.rawData, dataType, symbol),
+      dataType,
+      symbol,
+      options.processingOptions
+    );
+    processedData.quality = base.qualityMetrics;
+
+    if (consensus) {
+      this.applyConsensus(processedData, consensus);
+      processedData.consensus = consensus;
+    }
+
+    // Every source consensus drew on is an input to the merged values
+    const contributing = usable.filter(result =>
+      result === base || (consensus ? consensus.sourcesUsed.includes(result.source) : false)
+    );
+    const lineage = contributing.map(result =>
+      this.recordLineage(
+        result.source, dataType, symbol, result.rawData, result.origins, processedData, result.reliability.score
+      )
+    );
+    this.attachLineage(processedData, lineage[contributing.indexOf(base)], lineage);
+
+    return {
+      processedData,
+      source: consensus && consensus.sourcesUsed.length > 0 ? consensus.sourcesUsed.join(',') : base.source,
+      cacheInfo: {
+        cached: false,
+        ttl: 'fresh',
+        quality: base.qualityMetrics.reliability,
+        consensusSources: consensus?.sourcesUsed.length || 1,
+      },
+    };
+  }
+
+  /**
+   * Turn quality metrics, response time and track record into a source weight
+   */
+  private buildSourceReliability(
+    source: string,
+    metrics: DataQualityMetrics,
+    responseTimeMs: number
+  ): SourceReliability {
+    const factors = {
+      freshness: metrics.freshness / 100,
+      consistency: (metrics.consistency + this.qualityValidator.getSourceReliability(source)) / 200,
+      coverage: metrics.completeness / 100,
+      latency: Math.max(0.5, 1 - Math.max(0, responseTimeMs - 1000) / 18000),
+    };
+    const score = factors.freshness * 0.3 + factors.consistency * 0.3 + factors.coverage * 0.25 + factors.latency * 0.15;
+
+    return {
+      score,
+      factors,
+      lastUpdated: Date.now(),
+      dataQuality: score >= 0.8 ? 'high' : score >= 0.5 ? 'medium' : 'low',
+    };
+  }
+
+  /**
+   * Overwrite normalized values with their consensus counterparts
+   */
+  private applyConsensus(processedData: ProcessingResult, consensus: ConsensusRecord): void {
+    const normalized = processedData.data?.[0]?.normalized as any;
+    if (!normalized) return;
+
+    for (const [field, provenance] of Object.entries(consensus.fields)) {
+      if (field in normalized) {
+        normalized[field] = provenance.value;
+      }
+    }
+  }
+
   /**
    * Fetch data from a specific source
    */
   private async fetchFromSource(
-    client: BaseClient,
+    source: string,
     symbol: string,
     dataType: DataType,
     options: any
   ): Promise<any> {
-    const clientName = client.constructor.name.toLowerCase();
-
-    switch (dataType) {
-      case 'quote':
-        if (clientName.includes('finnhub')) {
-          return await (client as FinnhubClient).getQuote(symbol);
-        } else if (clientName.includes('polygon')) {
-          return await (client as PolygonClient).getLastTrade(symbol);
-        } else if (clientName.includes('alphavantage')) {
-          return await (client as AlphaVantageClient).getGlobalQuote(symbol);
-        } else if (clientName.includes('yahoo')) {
-          return await (client as YahooFinanceClient).getQuote(symbol);
-        } else if (clientName.includes('backup')) {
-          return await (client as BackupDataClient).getStockData(symbol);
-        }
-        break;
-
-      case 'profile':
-        if (clientName.includes('finnhub')) {
-          return await (client as FinnhubClient).getCompanyProfile(symbol);
-        } else if (clientName.includes('alphavantage')) {
-          return await (client as AlphaVantageClient).getCompanyOverview(symbol);
-        } else if (clientName.includes('yahoo')) {
-          return await (client as YahooFinanceClient).getCompanyInfo(symbol);
-        }
-        break;
-
-      case 'news':
-        if (clientName.includes('finnhub')) {
-          return await (client as FinnhubClient).getCompanyNews(symbol);
-        } else if (clientName.includes('newsscraper')) {
-          return await (client as NewsScraperClient).scrapeSymbolNews(symbol);
-        } else if (clientName.includes('backup')) {
-          return await (client as BackupDataClient).getNewsData(symbol);
-        }
-        break;
-
-      case 'financials':
-        if (clientName.includes('alphavantage')) {
-          return await (client as AlphaVantageClient).getIncomeStatement(symbol);
-        } else if (clientName.includes('sec')) {
-          return await (client as SECEdgarClient).getCompanyFilings(symbol, ['10-K', '10-Q']);
-        } else if (clientName.includes('backup')) {
-          return await (client as BackupDataClient).getFinancialMetrics(symbol);
-        }
-        break;
+    const client = this.clients.get(source);
+    const capability = providerRegistry.capability(source, dataType);
+    if (!client || !capability) {
+      throw new Error(`No method found for ${dataType} on ${source}`);
+    }
 
-      case 'insider':
-        if (clientName.includes('quiver')) {
-          return await (client as QuiverClient).getInsiderTrading(symbol);
-        } else if (clientName.includes('sec')) {
-          return await (client as SECEdgarClient).getInsiderTransactions(symbol);
-        }
-        break;
+    return await capability.fetch(client, providerRegistry.symbolFor(source, symbol), { dataHub: this, options });
+  }
 
-      case 'congressional':
-        if (clientName.includes('quiver')) {
-          return await (client as QuiverClient).getCongressionalTrading(symbol);
-        }
-        break;
+  /**
+   * Stamp the asset class on processed points and add reporting-currency fields to quotes
+   */
+  private async applyAssetContext(result: ProcessingResult, assetClass: AssetClass): Promise<void> {
+    for (const point of result.data || []) {
+      point.normalized = { ...point.normalized, assetClass };
+      if (point.normalized.type === 'quote') {
+        point.normalized = await this.currencyConverter.annotateQuote(point.normalized);
+      }
+    }
+  }
 
-      case 'trends':
-        if (clientName.includes('trends')) {
-          return await (client as GoogleTrendsClient).getSymbolTrends(symbol);
-        }
-        break;
+  /**
+   * Keep the raw payload of a fetch the result was built from and describe where it came from.
+   * Cached responses are dated by when the provider answered, and the same responses map to
+   * the same lineage source, so repeat cache hits do not store the payload again
+   */
+  private recordLineage(
+    source: string,
+    dataType: DataType,
+    symbol: string,
+    rawData: any,
+    origins: ResponseOrigin[],
+    processedData: ProcessingResult,
+    reliability: number
+  ): LineageSource {
+    const normalized = processedData.data?.find(point => point.normalized.source?.provider === source)?.normalized
+      || processedData.data?.[0]?.normalized;
+    const timestamps = (processedData.data || [])
+      .map(point => point.normalized.timestamp)
+      .filter(timestamp => Number.isFinite(timestamp));
+    const taint = mergeTaints(getTaint(rawData), processedData.taint);
+
+    return lineageStore.record({
+      provider: source,
+      endpoint: normalized?.source?.endpoint || dataType,
+      dataType,
+      symbol,
+      fetchedAt: origins.length > 0 ? Math.min(...origins.map(origin => origin.storedAt)) : undefined,
+      asOf: timestamps.length > 0 ? Math.max(...timestamps) : undefined,
+      reliability: Math.max(0, Math.min(1, reliability)),
+      taint: taint.length > 0 ? taint : undefined,
+    }, rawData, origins.map(origin => `${origin.cacheKey}@${origin.storedAt}`));
+  }
 
-      case 'filings':
-        if (clientName.includes('sec')) {
-          return await (client as SECEdgarClient).getCompanyFilings(symbol);
-        }
-        break;
+  private attachLineage(processedData: ProcessingResult, primary: LineageSource, all: LineageSource[]): void {
+    processedData.lineage = all;
+    (processedData.data || []).forEach(point => {
+      point.lineage = primary;
+    });
+  }
 
-      case 'sentiment':
-        if (clientName.includes('quiver')) {
-          return await (client as QuiverClient).getSentimentData(symbol);
-        } else if (clientName.includes('newsscraper')) {
-          return await (client as NewsScraperClient).analyzeSentiment(symbol);
-        }
-        break;
+  /**
+   * Apply the provider's normalizer, if it declares one, before processing.
+   * Synthetic payloads stay marked so the processor can flag them.
+   */
+  private normalizeFromSource(source: string, rawData: any, dataType: DataType, symbol: string): any {
+    const normalize = providerRegistry.capability(source, dataType)?.normalize;
+    if (!normalize) return rawData;
+
+    return Array.isArray(rawData)
+      ? rawData.map(item => carryTaint(item, normalize(item, symbol)))
+      : carryTaint(rawData, normalize(rawData, symbol));
+  }
 
-      default:
-        throw new Error(`Unsupported data type: ${dataType} for client: ${clientName}`);
+  /**
+   * Annual, quarterly and TTM statements built from SEC XBRL company facts
+   */
+  async getFinancialStatements(symbol: string): Promise<FinancialStatements | null> {
+    const client = this.secEdgarClient;
+    if (!client) return null;
+
+    try {
+      const facts = await client.getCompanyFacts(symbol.toUpperCase());
+      return this.xbrlNormalizer.normalize(symbol, facts);
+    } catch (error) {
+      loggerUtils.apiLogger.warn('Financial statements unavailable', {
+        symbol,
+        error: (error as Error).message,
+      });
+      return null;
     }
+  }
 
-    throw new Error(`No method found for ${dataType} on ${clientName}`);
+  /**
+   * Option chain with locally computed IV, Greeks, smile and implied moves
+   */
+  async getOptionChain(symbol: string): Promise<NormalizedOptionChain | null> {
+    const priorities = this.sourcePriorities.get('options')!;
+    const sources = [...priorities.primary, ...priorities.fallback, ...priorities.free]
+      .filter(source => this.clients.has(source) && quotaManager.check(source).allowed);
+
+    for (const source of sources) {
+      try {
+        const chain = await this.fetchFromSource(source, symbol.toUpperCase(), 'options', {});
+        return this.normalizeFromSource(source, chain, 'options', symbol.toUpperCase());
+      } catch (error) {
+        loggerUtils.apiLogger.warn('Option chain source failed', {
+          symbol,
+          source,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get stored OHLCV history, backfilling whatever the bar store is missing.
+   * Bars are split-adjusted unless another adjustment is requested.
+   */
+  async getPriceHistory(
+    symbol: string,
+    query: BarQuery & { adjustment?: PriceAdjustment } = {}
+  ): Promise<PriceBar[]> {
+    const asset = getAssetInfo(symbol);
+    const bars = await this.priceBarStore.getBars(asset.symbol, query);
+
+    // Splits and dividends only exist for listed securities
+    if (asset.assetClass !== 'equity' && asset.assetClass !== 'etf') return bars;
+    return await this.corporateActionsService.adjustSeries(asset.symbol, bars, query.adjustment || 'split');
+  }
+
+  /**
+   * Direct access to the shared bar store (unadjusted prices)
+   */
+  public get barStore(): BarStore {
+    return this.priceBarStore;
+  }
+
+  /**
+   * Direct access to stored splits and dividends
+   */
+  public get corporateActions(): CorporateActionsService {
+    return this.corporateActionsService;
+  }
+
+  /**
+   * Direct access to stored 13F holdings and position changes
+   */
+  public get institutionalHoldings(): InstitutionalHoldingsService {
+    return this.institutionalHoldingsService;
+  }
+
+  /**
+   * Direct access to stored short interest, FTDs and squeeze scores
+   */
+  public get shortInterest(): ShortInterestService {
+    return this.shortInterestService;
+  }
+
+  /**
+   * Conversion into the reporting currency
+   */
+  public get currency(): CurrencyConverter {
+    return this.currencyConverter;
+  }
+
+  /**
+   * Shared streaming quote feed; created on first use, connects once symbols are streamed
+   */
+  public get quoteStream(): QuoteStream {
+    if (!this.quoteStreamService) {
+      const feeds: QuoteStreamFeedConfig[] = [];
+
+      if (env.POLYGON_API_KEY) {
+        feeds.push({ name: 'polygon', protocol: polygonProtocol, url: env.POLYGON_STREAM_URL, apiKey: env.POLYGON_API_KEY });
+      }
+      if (env.FINNHUB_API_KEY) {
+        feeds.push({ name: 'finnhub', protocol: finnhubProtocol, url: env.FINNHUB_STREAM_URL, apiKey: env.FINNHUB_API_KEY });
+      }
+
+      this.quoteStreamService = new QuoteStream({
+        feeds,
+        heartbeatInterval: env.QUOTE_STREAM_HEARTBEAT_MS,
+        heartbeatTimeout: env.QUOTE_STREAM_HEARTBEAT_MS * 3,
+      });
+    }
+    return this.quoteStreamService;
+  }
+
+  /**
+   * Subscribe symbols to the streaming feed, seeding previous closes from stored daily bars.
+   * Callers release the symbols with quoteStream.unsubscribe when they stop listening.
+   */
+  async streamQuotes(symbols: string[]): Promise<QuoteStream> {
+    const stream = this.quoteStream;
+    const today = new Date().toISOString().split('T')[0];
+
+    await Promise.all(symbols.map(async symbol => {
+      if (stream.getLastQuote(symbol)) return;
+
+      try {
+        const bars = await this.getPriceHistory(symbol, { interval: '1d', lookbackDays: 10 });
+        const previous = bars.filter(bar => new Date(bar.timestamp).toISOString().split('T')[0] < today).pop();
+        if (!previous) return;
+
+        stream.seedQuote({
+          type: 'quote',
+          symbol: symbol.toUpperCase(),
+          timestamp: previous.timestamp,
+          source: {
+            provider: 'polygon',
+            endpoint: 'bar_store',
+            reliability: {
+              score: 0.8,
+              factors: { freshness: 0.5, consistency: 0.9, coverage: 0.9, latency: 1 },
+              lastUpdated: Date.now(),
+              dataQuality: 'medium',
+            },
+          },
+          reliability: 0.8,
+          price: previous.close,
+          change: 0,
+          changePercent: 0,
+          volume: previous.volume,
+          high: previous.high,
+          low: previous.low,
+          open: previous.open,
+          previousClose: previous.close,
+          currency: 'USD',
+          exchange: 'UNKNOWN',
+        });
+      } catch (error) {
+        loggerUtils.apiLogger.warn('Could not seed streaming quote', {
+          symbol,
+          error: (error as Error).message,
+        });
+      }
+    }));
+
+    stream.subscribe(symbols);
+    stream.start();
+    return stream;
+  }
+
+  /**
+   * Latest streamed quote, if the symbol is being streamed
+   */
+  getLastQuote(symbol: string): NormalizedQuote | null {
+    return this.quoteStreamService?.getLastQuote(symbol) || null;
   }
 
   /**
@@ -796,7 +945,10 @@ export class DataHub {
         earnings: 'financials',
         insider: 'insider',
         congressional: 'congressional',
-        options: 'quote', // Process as quote-like data
+        institutional: 'institutional',
+        short: 'short',
+        onchain: 'onchain',
+        options: 'options',
         technical: 'quote',
         trends: 'news', // Process trends as news-like data
         filings: 'news', // Process filings as news-like data
@@ -852,6 +1004,34 @@ export class DataHub {
             processingOptions
           );
 
+        case 'options':
+          return await processingService.processOptionChains(
+            Array.isArray(rawData) ? rawData : [rawData],
+            symbol,
+            processingOptions
+          );
+
+        case 'institutional':
+          return await processingService.processInstitutional(
+            Array.isArray(rawData) ? rawData : [rawData],
+            symbol,
+            processingOptions
+          );
+
+        case 'short':
+          return await processingService.processShortData(
+            Array.isArray(rawData) ? rawData : [rawData],
+            symbol,
+            processingOptions
+          );
+
+        case 'onchain':
+          return await processingService.processOnChainData(
+            Array.isArray(rawData) ? rawData : [rawData],
+            symbol,
+            processingOptions
+          );
+
         default:
           throw new Error(`Unsupported processing type: ${processType}`);
       }
@@ -980,6 +1160,7 @@ export class DataHub {
       healthStatus: Object.fromEntries(this.healthStatus),
       lastHealthCheck: this.lastHealthCheck,
       totalClients: this.clients.size,
+      newsFeeds: feedIngestor.getHealth(),
     };
   }
 
@@ -1107,6 +1288,12 @@ export class DataHub {
     // Most HTTP clients don't need explicit cleanup, but if using persistent connections
     // or websockets, you'd close them here
     
+    this.quoteStreamService?.stop();
+    await this.priceBarStore.close();
+    await this.corporateActionsService.close();
+    await this.institutionalHoldingsService.close();
+    await this.shortInterestService.close();
+
     this.clients.clear();
     this.healthStatus.clear();
   }
@@ -0,0 +1,291 @@
+/**
+ * Lineage Store
+ * Keeps the raw payload behind every provider fetch the pipeline used, keyed by the lineage
+ * id that travels with the data through preprocessing, the AI modules and fusion. Trade
+ * cards are linked to the sources they were built from, so a card can be traced back to
+ * the exact responses behind its numbers.
+ */
+
+import sqlite3 from 'sqlite3';
+import { Database, open } from 'sqlite';
+import { createHash, randomBytes } from 'crypto';
+import path from 'path';
+import { loggerUtils } from '../config/logger.js';
+import { LineageSource } from '../types/data.js';
+
+export interface LineageStoreConfig {
+  dbPath: string;
+  retentionDays: number; // Payloads no card refers to are dropped after this
+  cardRetentionDays: number; // Payloads behind trade cards are kept longer
+  maxPayloadBytes: number;
+  pruneIntervalHours: number;
+}
+
+export interface LineageRecord extends LineageSource {
+  payload: any;
+  payloadBytes: number;
+  truncated: boolean; // Payload exceeded maxPayloadBytes and was not kept
+}
+
+export class LineageStore {
+  private database: Database | null = null;
+  private ready: Promise<void>;
+  private config: LineageStoreConfig;
+  private stored: Set<string> = new Set(); // Ids written since the last prune
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: Partial<LineageStoreConfig> = {}) {
+    this.config = {
+      dbPath: path.join(process.cwd(), 'data', 'lineage.db'),
+      retentionDays: 7,
+      cardRetentionDays: 180,
+      maxPayloadBytes: 2 * 1024 * 1024,
+      pruneIntervalHours: 6,
+      ...config,
+    };
+    this.ready = this.initializeDatabase();
+
+    this.pruneTimer = setInterval(() => {
+      this.ready.then(() => this.prune()).catch(error => {
+        loggerUtils.dbLogger.warn('Failed to prune lineage store', { error: (error as Error).message });
+      });
+    }, this.config.pruneIntervalHours * 3600000);
+    this.pruneTimer.unref();
+  }
+
+  /**
+   * Initialize SQLite database for source payloads and card links
+   */
+  private async initializeDatabase(): Promise<void> {
+    try {
+      this.database = await open({
+        filename: this.config.dbPath,
+        driver: sqlite3.Database
+      });
+
+      await this.database.exec(`
+        CREATE TABLE IF NOT EXISTS lineage_sources (
+          id TEXT PRIMARY KEY,
+          provider TEXT NOT NULL,
+          endpoint TEXT NOT NULL,
+          data_type TEXT NOT NULL,
+          symbol TEXT NOT NULL,
+          fetched_at INTEGER NOT NULL,
+          as_of INTEGER,
+          reliability REAL NOT NULL,
+          taint TEXT,
+          payload TEXT,
+          payload_bytes INTEGER NOT NULL,
+          truncated BOOLEAN NOT NULL DEFAULT FALSE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_lineage_sources_symbol ON lineage_sources(symbol, data_type);
+        CREATE INDEX IF NOT EXISTS idx_lineage_sources_fetched ON lineage_sources(fetched_at);
+
+        CREATE TABLE IF NOT EXISTS card_sources (
+          card_id TEXT NOT NULL,
+          source_id TEXT NOT NULL,
+          used_by TEXT,
+          linked_at INTEGER NOT NULL,
+          PRIMARY KEY (card_id, source_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_card_sources_source ON card_sources(source_id);
+      `);
+
+      await this.prune();
+
+      loggerUtils.dbLogger.info('Lineage store initialized', {
+        retentionDays: this.config.retentionDays,
+        cardRetentionDays: this.config.cardRetentionDays,
+      });
+    } catch (error) {
+      loggerUtils.dbLogger.error('Failed to initialize lineage store', {
+        error: (error as Error).message,
+      });
+      this.database = null;
+    }
+  }
+
+  /**
+   * Register a fetch and keep its payload; the returned source is usable before the write lands.
+   * Fetches identified by the same response keys (cached responses served again) share one
+   * source and its payload is only stored once
+   */
+  record(
+    source: Omit<LineageSource, 'id' | 'fetchedAt'> & { fetchedAt?: number },
+    payload: any,
+    responseKeys: string[] = []
+  ): LineageSource {
+    const fetchedAt = source.fetchedAt ?? Date.now();
+    const suffix = responseKeys.length > 0
+      ? createHash('sha256')
+        .update([source.dataType, source.symbol, ...[...responseKeys].sort()].join('|'))
+        .digest('hex')
+        .substring(0, 16)
+      : randomBytes(4).toString('hex');
+    const lineage: LineageSource = {
+      ...source,
+      id: `${source.provider}_${fetchedAt.toString(36)}_${suffix}`,
+      fetchedAt,
+    };
+
+    if (this.stored.has(lineage.id)) return lineage;
+    this.stored.add(lineage.id);
+
+    this.store(lineage, payload).catch(error => {
+      this.stored.delete(lineage.id);
+      loggerUtils.dbLogger.warn('Failed to store lineage payload', {
+        id: lineage.id,
+        error: (error as Error).message,
+      });
+    });
+
+    return lineage;
+  }
+
+  /**
+   * Link a trade card to the sources behind it
+   */
+  async linkCard(cardId: string, sources: LineageSource[]): Promise<void> {
+    await this.ready;
+    if (!this.database || sources.length === 0) return;
+
+    const linkedAt = Date.now();
+    for (const source of sources) {
+      await this.database.run(
+        `INSERT OR REPLACE INTO card_sources (card_id, source_id, used_by, linked_at) VALUES (?, ?, ?, ?)`,
+        [cardId, source.id, JSON.stringify(source.usedBy || []), linkedAt]
+      );
+    }
+  }
+
+  /**
+   * Sources linked to a card, oldest data first
+   */
+  async getCardSources(cardId: string): Promise<LineageSource[]> {
+    await this.ready;
+    if (!this.database) return [];
+
+    const rows = await this.database.all(`
+      SELECT s.*, c.used_by FROM card_sources c
+      JOIN lineage_sources s ON s.id = c.source_id
+      WHERE c.card_id = ?
+      ORDER BY COALESCE(s.as_of, s.fetched_at)
+    `, [cardId]);
+
+    return rows.map(row => this.toSource(row));
+  }
+
+  /**
+   * A source with its raw payload, or null when unknown or already pruned
+   */
+  async getRecord(id: string): Promise<LineageRecord | null> {
+    await this.ready;
+    if (!this.database) return null;
+
+    const row = await this.database.get(`SELECT * FROM lineage_sources WHERE id = ?`, [id]);
+    if (!row) return null;
+
+    return {
+      ...this.toSource(row),
+      payload: row.payload ? JSON.parse(row.payload) : null,
+      payloadBytes: row.payload_bytes,
+      truncated: !!row.truncated,
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+    await this.ready;
+    if (this.database) {
+      await this.database.close();
+      this.database = null;
+    }
+  }
+
+  private async store(source: LineageSource, payload: any): Promise<void> {
+    await this.ready;
+    if (!this.database) return;
+
+    const serialized = JSON.stringify(payload ?? null);
+    const bytes = Buffer.byteLength(serialized);
+    const truncated = bytes > this.config.maxPayloadBytes;
+
+    // An id stored before a restart keeps its first row
+    await this.database.run(`
+      INSERT OR IGNORE INTO lineage_sources (
+        id, provider, endpoint, data_type, symbol, fetched_at, as_of,
+        reliability, taint, payload, payload_bytes, truncated
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      source.id,
+      source.provider,
+      source.endpoint,
+      source.dataType,
+      source.symbol,
+      source.fetchedAt,
+      source.asOf ?? null,
+      source.reliability,
+      source.taint?.length ? JSON.stringify(source.taint) : null,
+      truncated ? null : serialized,
+      bytes,
+      truncated,
+    ]);
+  }
+
+  private async prune(): Promise<void> {
+    if (!this.database) return;
+
+    const now = Date.now();
+    const unlinkedCutoff = now - this.config.retentionDays * 86400000;
+    const cardCutoff = now - this.config.cardRetentionDays * 86400000;
+
+    // Expired card links release their payloads to the shorter retention
+    await this.database.run(`DELETE FROM card_sources WHERE linked_at < ?`, [cardCutoff]);
+    await this.database.run(`
+      DELETE FROM lineage_sources WHERE fetched_at < ?
+        AND id NOT IN (SELECT source_id FROM card_sources)
+    `, [unlinkedCutoff]);
+    this.stored.clear();
+  }
+
+  private toSource(row: any): LineageSource {
+    return {
+      id: row.id,
+      provider: row.provider,
+      endpoint: row.endpoint,
+      dataType: row.data_type,
+      symbol: row.symbol,
+      fetchedAt: row.fetched_at,
+      asOf: row.as_of ?? undefined,
+      reliability: row.reliability,
+      usedBy: row.used_by ? JSON.parse(row.used_by) : undefined,
+      taint: row.taint ? JSON.parse(row.taint) : undefined,
+    };
+  }
+}
+
+/**
+ * Combine source lists, keeping one entry per fetch and every module that used it
+ */
+export function mergeLineage(...lists: LineageSource[][]): LineageSource[] {
+  const merged = new Map<string, LineageSource>();
+
+  for (const source of lists.flat()) {
+    if (!source?.id) continue;
+    const existing = merged.get(source.id);
+    const usedBy = Array.from(new Set([...(existing?.usedBy || []), ...(source.usedBy || [])]));
+    merged.set(source.id, { ...(existing || source), usedBy: usedBy.length > 0 ? usedBy : undefined });
+  }
+
+  return Array.from(merged.values());
+}
+
+// Export singleton instance
+export const lineageStore = new LineageStore();
+
+export default lineageStore;
@@ -0,0 +1,199 @@
+/**
+ * Data provider plugin registry
+ * Each provider declares the data types it serves, its cost tier and its normalizers;
+ * DataHub builds its clients, source priorities and fallbacks from what is registered here.
+ */
+
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { BaseClient } from './BaseClient.js';
+import { DataHub, DataType, SourcePriority } from './DataHub.js';
+import { AssetClass, DataSource } from '../types/data.js';
+import { providerSymbol } from '../market/AssetClasses.js';
+import { loggerUtils } from '../config/logger.js';
+
+export type ProviderCostTier = 'free' | 'paid' | 'premium';
+export type ProviderRole = 'primary' | 'fallback' | 'free';
+
+export interface ProviderFetchContext {
+  dataHub: DataHub;
+  options: any;
+}
+
+export interface ProviderCapability {
+  fetch: (client: BaseClient, symbol: string, context: ProviderFetchContext) => Promise<any>;
+  // Maps one fetched item onto a shape DataProcessor understands, usually a NormalizedData
+  // whose source comes from providerRegistry.describe(); omit when DataProcessor maps the payload itself
+  normalize?: (item: any, symbol: string) => any;
+  role?: ProviderRole; // Defaults to 'free' for free providers and 'primary' otherwise
+  rank?: number; // Lower is tried first within a role; ties keep registration order
+  assetClasses?: AssetClass[]; // Defaults to equities and ETFs
+}
+
+export interface ProviderPlugin {
+  name: string; // Source key used in priorities, quotas and health checks
+  costTier: ProviderCostTier;
+  createClient: () => BaseClient | null; // Null when the provider is not configured
+  dataTypes: Partial<Record<DataType, ProviderCapability>>;
+  sourceId?: string; // DataSource.provider stamped on normalized data; defaults to name
+  reliability?: number; // Prior 0-1 score for data this provider normalizes
+  symbolFor?: (symbol: string) => string; // Provider ticker for a canonical symbol; defaults to providerSymbol()
+}
+
+const DEFAULT_RANK = 100;
+const DEFAULT_ASSET_CLASSES: AssetClass[] = ['equity', 'etf'];
+
+export class ProviderRegistry {
+  private plugins: Map<string, ProviderPlugin> = new Map();
+  private loadedModules: Set<string> = new Set();
+
+  /**
+   * Register a provider, replacing any plugin of the same name
+   */
+  register(plugin: ProviderPlugin): void {
+    if (!plugin?.name || typeof plugin.createClient !== 'function' || !plugin.dataTypes) {
+      throw new Error('Provider plugins need a name, createClient() and dataTypes');
+    }
+
+    if (this.plugins.has(plugin.name)) {
+      loggerUtils.apiLogger.info('Replacing data provider plugin', { provider: plugin.name });
+    }
+    this.plugins.set(plugin.name, plugin);
+  }
+
+  unregister(name: string): boolean {
+    return this.plugins.delete(name);
+  }
+
+  get(name: string): ProviderPlugin | null {
+    return this.plugins.get(name) || null;
+  }
+
+  list(): ProviderPlugin[] {
+    return Array.from(this.plugins.values());
+  }
+
+  /**
+   * What a provider can do for a data type, or null when it does not serve it
+   */
+  capability(name: string, dataType: DataType): ProviderCapability | null {
+    return this.plugins.get(name)?.dataTypes[dataType] || null;
+  }
+
+  /**
+   * Whether a provider serves a data type for symbols of an asset class
+   */
+  servesAssetClass(name: string, dataType: DataType, assetClass: AssetClass): boolean {
+    const capability = this.capability(name, dataType);
+    return !!capability && (capability.assetClasses || DEFAULT_ASSET_CLASSES).includes(assetClass);
+  }
+
+  /**
+   * The ticker a provider expects for a canonical symbol, e.g. X:BTCUSD on Polygon for BTC-USD
+   */
+  symbolFor(name: string, symbol: string): string {
+    const plugin = this.plugins.get(name);
+    return plugin?.symbolFor ? plugin.symbolFor(symbol) : providerSymbol(name, symbol);
+  }
+
+  /**
+   * Load plugin modules listed in config. A module default-exports a plugin or an array
+   * of plugins; relative paths resolve against the working directory.
+   */
+  async loadFromConfig(modulePaths: string[]): Promise<ProviderPlugin[]> {
+    const loaded: ProviderPlugin[] = [];
+
+    for (const modulePath of modulePaths) {
+      if (this.loadedModules.has(modulePath)) continue;
+
+      const specifier = modulePath.startsWith('.') || path.isAbsolute(modulePath)
+        ? pathToFileURL(path.resolve(process.cwd(), modulePath)).href
+        : modulePath;
+
+      try {
+        const module = await import(specifier);
+        const exported = module.default ?? module.plugins;
+        const plugins: ProviderPlugin[] = Array.isArray(exported) ? exported : [exported];
+
+        for (const plugin of plugins) {
+          this.register(plugin);
+          loaded.push(plugin);
+        }
+        this.loadedModules.add(modulePath);
+
+        loggerUtils.apiLogger.info('Loaded data provider plugins', {
+          module: modulePath,
+          providers: plugins.map(plugin => plugin.name),
+        });
+      } catch (error) {
+        loggerUtils.apiLogger.error('Failed to load data provider plugin', {
+          module: modulePath,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Source priorities for every data type, limited to providers with a live client.
+   * Providers out of budget drop out of primary and fallback until their quota resets.
+   */
+  derivePriorities(available: string[], exhausted: string[] = []): Map<DataType, SourcePriority> {
+    const order = this.list().map(plugin => plugin.name);
+    const entries: Array<{ dataType: DataType; name: string; role: ProviderRole; rank: number }> = [];
+
+    for (const plugin of this.list()) {
+      if (!available.includes(plugin.name)) continue;
+
+      for (const [dataType, capability] of Object.entries(plugin.dataTypes)) {
+        if (!capability) continue;
+        entries.push({
+          dataType: dataType as DataType,
+          name: plugin.name,
+          role: capability.role || (plugin.costTier === 'free' ? 'free' : 'primary'),
+          rank: capability.rank ?? DEFAULT_RANK,
+        });
+      }
+    }
+
+    entries.sort((a, b) => a.rank - b.rank || order.indexOf(a.name) - order.indexOf(b.name));
+
+    const priorities = new Map<DataType, SourcePriority>();
+    for (const entry of entries) {
+      if (entry.role !== 'free' && exhausted.includes(entry.name)) continue;
+
+      if (!priorities.has(entry.dataType)) {
+        priorities.set(entry.dataType, { primary: [], fallback: [], free: [] });
+      }
+      priorities.get(entry.dataType)![entry.role].push(entry.name);
+    }
+
+    return priorities;
+  }
+
+  /**
+   * DataSource stamped on data a provider normalizes
+   */
+  describe(name: string, endpoint: string): DataSource {
+    const plugin = this.plugins.get(name);
+    const score = plugin?.reliability ?? 0.7;
+
+    return {
+      provider: plugin?.sourceId || name,
+      endpoint,
+      tier: plugin?.costTier || 'free',
+      reliability: {
+        score,
+        factors: { freshness: score, consistency: score, coverage: score, latency: score },
+        lastUpdated: Date.now(),
+        dataQuality: score >= 0.8 ? 'high' : score >= 0.5 ? 'medium' : 'low',
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const providerRegistry = new ProviderRegistry();
+export default providerRegistry;
@@ -0,0 +1,453 @@
+/**
+ * API quota and cost budget manager
+ * Tracks daily/monthly request counts and spend per provider, forecasts exhaustion
+ * and holds back budget from lower-priority callers.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { EventEmitter } from 'events';
+import sqlite3 from 'sqlite3';
+import { Database, open } from 'sqlite';
+import path from 'path';
+import { loggerUtils } from '../config/logger.js';
+import env from '../config/env.js';
+
+export type RequestPriority = 'high' | 'normal' | 'low';
+export type BudgetPeriod = 'day' | 'month';
+
+export interface ProviderBudget {
+  provider: string;
+  dailyRequests?: number;
+  monthlyRequests?: number;
+  monthlyCost?: number; // USD
+  costPerRequest: number; // USD
+}
+
+export interface QuotaManagerConfig {
+  dbPath: string;
+  budgets: ProviderBudget[];
+  reserve: Record<RequestPriority, number>; // Share of each budget a priority may not touch
+  minForecastWindowMs: number; // Ignore usage rates measured over less than this
+  historyDays: number;
+}
+
+export interface BudgetLimitStatus {
+  limit: 'dailyRequests' | 'monthlyRequests' | 'monthlyCost';
+  period: BudgetPeriod;
+  used: number;
+  max: number;
+  remaining: number;
+  projected: number; // Usage at period end at the current rate
+  exhaustsAt: number | null; // Forecast timestamp, null when the budget lasts the period
+  exhausted: boolean;
+}
+
+export interface ProviderQuotaReport {
+  provider: string;
+  today: { requests: number; cost: number };
+  month: { requests: number; cost: number };
+  limits: BudgetLimitStatus[];
+  exhausted: boolean;
+  atRisk: boolean;
+  denied: number;
+}
+
+export interface QuotaDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+interface UsageCounter {
+  requests: number;
+  cost: number;
+}
+
+/**
+ * Parse "provider:value,provider:value" settings into a lookup
+ */
+const parseProviderValues = (setting: string | undefined): Record<string, number> => {
+  const values: Record<string, number> = {};
+  (setting || '').split(',').forEach(pair => {
+    const [provider, value] = pair.split(':').map(part => part.trim());
+    if (provider && value && Number.isFinite(parseFloat(value))) {
+      values[provider.toLowerCase()] = parseFloat(value);
+    }
+  });
+  return values;
+};
+
+const buildDefaultBudgets = (): ProviderBudget[] => {
+  const costs = parseProviderValues(env.API_COST_PER_REQUEST);
+  const monthlyCost = parseProviderValues(env.API_MONTHLY_COST_BUDGET);
+
+  return ['alphavantage', 'finnhub', 'polygon', 'quiver'].map(provider => ({
+    provider,
+    dailyRequests: {
+      alphavantage: env.ALPHA_VANTAGE_DAILY_QUOTA,
+      finnhub: env.FINNHUB_DAILY_QUOTA,
+      polygon: env.POLYGON_DAILY_QUOTA,
+    }[provider],
+    monthlyRequests: provider === 'quiver' ? env.QUIVER_MONTHLY_QUOTA : undefined,
+    monthlyCost: monthlyCost[provider],
+    costPerRequest: costs[provider] || 0,
+  }));
+};
+
+export class QuotaManager extends EventEmitter {
+  private database: Database | null = null;
+  private ready: Promise<void>;
+  private config: QuotaManagerConfig;
+  private budgets: Map<string, ProviderBudget> = new Map();
+  private usage: Map<string, UsageCounter> = new Map();
+  private denied: Map<string, number> = new Map();
+  private exhausted: Set<string> = new Set();
+  private priorityContext = new AsyncLocalStorage<RequestPriority>();
+  private periodKeys = { day: '', month: '' };
+  private rolloverTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: Partial<QuotaManagerConfig> = {}) {
+    super();
+    this.config = {
+      dbPath: path.join(process.cwd(), 'data', 'api_usage.db'),
+      budgets: buildDefaultBudgets(),
+      reserve: { high: 0, normal: 0.1, low: 0.25 },
+      minForecastWindowMs: 3600000,
+      historyDays: 30,
+      ...config,
+    };
+    this.config.budgets.forEach(budget => this.budgets.set(budget.provider, budget));
+    this.periodKeys = this.currentPeriodKeys();
+    this.ready = this.initializeDatabase();
+
+    // Budgets come back at midnight UTC and at the start of each month
+    this.rolloverTimer = setInterval(() => this.rollPeriods(), 60000);
+    this.rolloverTimer.unref();
+  }
+
+  /**
+   * Initialize SQLite database for usage counters
+   */
+  private async initializeDatabase(): Promise<void> {
+    try {
+      this.database = await open({
+        filename: this.config.dbPath,
+        driver: sqlite3.Database
+      });
+
+      await this.database.exec(`
+        CREATE TABLE IF NOT EXISTS api_usage (
+          provider TEXT NOT NULL,
+          period_type TEXT NOT NULL,
+          period_key TEXT NOT NULL,
+          requests INTEGER NOT NULL DEFAULT 0,
+          cost REAL NOT NULL DEFAULT 0,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (provider, period_type, period_key)
+        );
+      `);
+
+      const rows = await this.database.all(
+        `SELECT provider, period_type, period_key, requests, cost FROM api_usage
+         WHERE (period_type = 'day' AND period_key = ?) OR (period_type = 'month' AND period_key = ?)`,
+        [this.periodKeys.day, this.periodKeys.month]
+      );
+
+      // Requests made before the load finished are already counted in memory
+      rows.forEach(row => {
+        const counter = this.getCounter(row.provider, row.period_type);
+        counter.requests += row.requests;
+        counter.cost += row.cost;
+      });
+      this.budgets.forEach((budget, provider) => this.updateExhaustion(provider));
+
+      loggerUtils.apiLogger.info('API usage store initialized', {
+        providers: Array.from(this.budgets.keys()),
+        restoredRows: rows.length,
+      });
+    } catch (error) {
+      loggerUtils.apiLogger.error('Failed to initialize API usage store', {
+        error: (error as Error).message,
+      });
+      this.database = null;
+    }
+  }
+
+  /**
+   * Run a task with every API call inside it made at the given priority
+   */
+  async runWithPriority<T>(priority: RequestPriority, task: () => Promise<T>): Promise<T> {
+    return await this.priorityContext.run(priority, task);
+  }
+
+  currentPriority(): RequestPriority {
+    return this.priorityContext.getStore() || 'normal';
+  }
+
+  /**
+   * Decide whether a caller at this priority may spend one more request
+   */
+  check(provider: string, priority: RequestPriority = this.currentPriority()): QuotaDecision {
+    this.rollPeriods();
+
+    const budget = this.budgets.get(provider);
+    if (!budget) return { allowed: true };
+
+    const reserve = this.config.reserve[priority] ?? 0;
+    for (const status of this.getLimitStatus(budget)) {
+      const step = status.limit === 'monthlyCost' ? budget.costPerRequest : 1;
+      if (status.used + step > status.max * (1 - reserve)) {
+        return {
+          allowed: false,
+          reason: status.exhausted
+            ? `${status.limit} budget exhausted (${status.used}/${status.max})`
+            : `${status.limit} remainder reserved for higher-priority callers`,
+        };
+      }
+
+      // Low-priority work yields as soon as the forecast says the budget will not last
+      if (priority === 'low' && status.exhaustsAt !== null) {
+        return {
+          allowed: false,
+          reason: `${status.limit} forecast to run out at ${new Date(status.exhaustsAt).toISOString()}`,
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Throw when a request would break the provider's budget
+   */
+  assertAvailable(provider: string, priority: RequestPriority = this.currentPriority()): void {
+    const decision = this.check(provider, priority);
+    if (decision.allowed) return;
+
+    this.denied.set(provider, (this.denied.get(provider) || 0) + 1);
+    loggerUtils.apiLogger.warn('API request denied by quota', {
+      provider,
+      priority,
+      reason: decision.reason,
+    });
+    throw new Error(`Quota exceeded for ${provider}: ${decision.reason}`);
+  }
+
+  /**
+   * Count one request that actually went out to the provider
+   */
+  recordUsage(provider: string, requests: number = 1): void {
+    this.rollPeriods();
+
+    const cost = (this.budgets.get(provider)?.costPerRequest || 0) * requests;
+    (['day', 'month'] as BudgetPeriod[]).forEach(period => {
+      const counter = this.getCounter(provider, period);
+      counter.requests += requests;
+      counter.cost += cost;
+    });
+    this.updateExhaustion(provider);
+
+    this.persistUsage(provider, requests, cost).catch(error => {
+      loggerUtils.apiLogger.warn('Failed to persist API usage', {
+        provider,
+        error: (error as Error).message,
+      });
+    });
+  }
+
+  isExhausted(provider: string): boolean {
+    this.rollPeriods();
+    return this.exhausted.has(provider);
+  }
+
+  getExhaustedProviders(): string[] {
+    this.rollPeriods();
+    return Array.from(this.exhausted);
+  }
+
+  /**
+   * Usage, limits and forecasts for every tracked provider
+   */
+  getReport(): ProviderQuotaReport[] {
+    this.rollPeriods();
+
+    const providers = new Set([
+      ...this.budgets.keys(),
+      ...Array.from(this.usage.keys()).map(key => key.split('|')[0]),
+    ]);
+
+    return Array.from(providers).sort().map(provider => {
+      const budget = this.budgets.get(provider);
+      const limits = budget ? this.getLimitStatus(budget) : [];
+      const today = this.getCounter(provider, 'day');
+      const month = this.getCounter(provider, 'month');
+
+      return {
+        provider,
+        today: { requests: today.requests, cost: today.cost },
+        month: { requests: month.requests, cost: month.cost },
+        limits,
+        exhausted: this.exhausted.has(provider),
+        atRisk: limits.some(status => status.exhaustsAt !== null),
+        denied: this.denied.get(provider) || 0,
+      };
+    });
+  }
+
+  /**
+   * Daily usage per provider for the last few weeks
+   */
+  async getUsageHistory(days: number = this.config.historyDays): Promise<Array<{
+    provider: string;
+    date: string;
+    requests: number;
+    cost: number;
+  }>> {
+    await this.ready;
+    if (!this.database) return [];
+
+    const since = new Date(Date.now() - days * 86400000).toISOString().slice(0, 10);
+    const rows = await this.database.all(
+      `SELECT provider, period_key, requests, cost FROM api_usage
+       WHERE period_type = 'day' AND period_key >= ?
+       ORDER BY period_key, provider`,
+      [since]
+    );
+
+    return rows.map(row => ({
+      provider: row.provider,
+      date: row.period_key,
+      requests: row.requests,
+      cost: row.cost,
+    }));
+  }
+
+  async close(): Promise<void> {
+    if (this.rolloverTimer) {
+      clearInterval(this.rolloverTimer);
+      this.rolloverTimer = null;
+    }
+    await this.ready;
+    if (this.database) {
+      await this.database.close();
+      this.database = null;
+    }
+  }
+
+  private getLimitStatus(budget: ProviderBudget): BudgetLimitStatus[] {
+    const statuses: BudgetLimitStatus[] = [];
+    const now = Date.now();
+    const day = this.getCounter(budget.provider, 'day');
+    const month = this.getCounter(budget.provider, 'month');
+
+    const add = (limit: BudgetLimitStatus['limit'], period: BudgetPeriod, used: number, max?: number) => {
+      if (max === undefined || max === null) return;
+
+      const { start, end } = this.periodBounds(period, now);
+      const elapsed = Math.max(now - start, this.config.minForecastWindowMs);
+      const rate = used / elapsed;
+      const projected = used + rate * (end - now);
+      const exhaustsAt = used >= max
+        ? now
+        : projected > max && rate > 0 ? Math.round(now + (max - used) / rate) : null;
+
+      statuses.push({
+        limit,
+        period,
+        used,
+        max,
+        remaining: Math.max(0, max - used),
+        projected: Math.round(projected * 100) / 100,
+        exhaustsAt,
+        exhausted: used >= max,
+      });
+    };
+
+    add('dailyRequests', 'day', day.requests, budget.dailyRequests);
+    add('monthlyRequests', 'month', month.requests, budget.monthlyRequests);
+    add('monthlyCost', 'month', Math.round(month.cost * 10000) / 10000, budget.monthlyCost);
+
+    return statuses;
+  }
+
+  private updateExhaustion(provider: string): void {
+    const budget = this.budgets.get(provider);
+    if (!budget) return;
+
+    const exhausted = this.getLimitStatus(budget).some(status => status.exhausted);
+    if (exhausted === this.exhausted.has(provider)) return;
+
+    if (exhausted) {
+      this.exhausted.add(provider);
+      loggerUtils.apiLogger.warn('API budget exhausted', { provider });
+    } else {
+      this.exhausted.delete(provider);
+      loggerUtils.apiLogger.info('API budget available again', { provider });
+    }
+    this.emit('budgetChange', provider, exhausted);
+  }
+
+  /**
+   * Drop counters from finished periods
+   */
+  private rollPeriods(): void {
+    const keys = this.currentPeriodKeys();
+    if (keys.day === this.periodKeys.day && keys.month === this.periodKeys.month) return;
+
+    const rolled: BudgetPeriod[] = keys.month !== this.periodKeys.month ? ['day', 'month'] : ['day'];
+    this.periodKeys = keys;
+    for (const key of Array.from(this.usage.keys())) {
+      if (rolled.includes(key.split('|')[1] as BudgetPeriod)) {
+        this.usage.delete(key);
+      }
+    }
+    this.denied.clear();
+    this.budgets.forEach((budget, provider) => this.updateExhaustion(provider));
+  }
+
+  private async persistUsage(provider: string, requests: number, cost: number): Promise<void> {
+    await this.ready;
+    if (!this.database) return;
+
+    const now = Date.now();
+    for (const period of ['day', 'month'] as BudgetPeriod[]) {
+      await this.database.run(
+        `INSERT INTO api_usage (provider, period_type, period_key, requests, cost, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(provider, period_type, period_key) DO UPDATE SET
+           requests = requests + excluded.requests,
+           cost = cost + excluded.cost,
+           updated_at = excluded.updated_at`,
+        [provider, period, this.periodKeys[period], requests, cost, now]
+      );
+    }
+  }
+
+  private getCounter(provider: string, period: BudgetPeriod): UsageCounter {
+    const key = `${provider}|${period}`;
+    if (!this.usage.has(key)) {
+      this.usage.set(key, { requests: 0, cost: 0 });
+    }
+    return this.usage.get(key)!;
+  }
+
+  private currentPeriodKeys(): { day: string; month: string } {
+    const today = new Date().toISOString().slice(0, 10);
+    return { day: today, month: today.slice(0, 7) };
+  }
+
+  private periodBounds(period: BudgetPeriod, now: number): { start: number; end: number } {
+    const date = new Date(now);
+    if (period === 'day') {
+      const start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+      return { start, end: start + 86400000 };
+    }
+    return {
+      start: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+      end: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+    };
+  }
+}
+
+export const quotaManager = new QuotaManager();
+
+export default quotaManager;
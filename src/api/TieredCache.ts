@@ -0,0 +1,269 @@
+/**
+ * Tiered response cache for BaseClient: process memory, then Redis, then disk.
+ * Entries stay fresh for their TTL and may then be served stale for a further
+ * window while the caller refreshes them in the background.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { cacheUtils } from '../config/redis.js';
+import { loggerUtils } from '../config/logger.js';
+
+export type CacheTier = 'memory' | 'redis' | 'disk';
+
+export interface CachePolicy {
+  ttl?: number; // Seconds served as fresh
+  staleTTL?: number; // Further seconds served stale while revalidating
+  tiers?: CacheTier[];
+}
+
+export interface ResolvedCachePolicy {
+  ttl: number;
+  staleTTL: number;
+  tiers: CacheTier[];
+}
+
+export interface TieredCacheConfig {
+  name: string;
+  keyPrefix: string;
+  maxSize: number; // Entries kept in memory
+  directory: string;
+}
+
+export interface CacheLookup<T = any> {
+  value: T;
+  state: 'fresh' | 'stale';
+  tier: CacheTier;
+  age: number; // Seconds since the response was stored
+  storedAt: number;
+}
+
+interface CacheEnvelope {
+  value: any;
+  storedAt: number;
+  ttl: number;
+  staleTTL: number;
+}
+
+export const CACHE_TIERS: CacheTier[] = ['memory', 'redis', 'disk'];
+
+export class TieredCache {
+  private config: TieredCacheConfig;
+  private memory: Map<string, CacheEnvelope> = new Map();
+  private stats = {
+    hits: { memory: 0, redis: 0, disk: 0 } as Record<CacheTier, number>,
+    misses: 0,
+    staleHits: 0,
+    writes: 0,
+    evictions: 0,
+    diskErrors: 0,
+  };
+
+  constructor(config: TieredCacheConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Look a key up tier by tier, promoting hits into the faster tiers of the policy
+   */
+  async get<T = any>(key: string, policy: ResolvedCachePolicy): Promise<CacheLookup<T> | null> {
+    for (const tier of CACHE_TIERS) {
+      if (!policy.tiers.includes(tier)) continue;
+
+      const envelope = await this.read(tier, key);
+      if (!envelope) continue;
+
+      const age = (Date.now() - envelope.storedAt) / 1000;
+      if (age >= envelope.ttl + envelope.staleTTL) {
+        this.remove(tier, key);
+        continue;
+      }
+
+      const state = age < envelope.ttl ? 'fresh' : 'stale';
+      this.stats.hits[tier]++;
+      if (state === 'stale') this.stats.staleHits++;
+
+      const faster = CACHE_TIERS.slice(0, CACHE_TIERS.indexOf(tier)).filter(t => policy.tiers.includes(t));
+      await Promise.all(faster.map(t => this.write(t, key, envelope)));
+
+      return { value: envelope.value, state, tier, age, storedAt: envelope.storedAt };
+    }
+
+    this.stats.misses++;
+    return null;
+  }
+
+  /**
+   * Store a response in every tier the policy names
+   */
+  async set(key: string, value: any, policy: ResolvedCachePolicy, storedAt: number = Date.now()): Promise<void> {
+    const envelope: CacheEnvelope = {
+      value,
+      storedAt,
+      ttl: policy.ttl,
+      staleTTL: policy.staleTTL,
+    };
+
+    await Promise.all(policy.tiers.map(tier => this.write(tier, key, envelope)));
+    this.stats.writes++;
+  }
+
+  /**
+   * Drop entries whose key matches a glob pattern from every tier
+   */
+  async clear(pattern: string): Promise<number> {
+    const matcher = new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`);
+    let cleared = 0;
+
+    for (const key of Array.from(this.memory.keys())) {
+      if (matcher.test(key)) {
+        this.memory.delete(key);
+        cleared++;
+      }
+    }
+
+    try {
+      const files = await fs.readdir(this.diskDirectory());
+      for (const file of files) {
+        const key = this.keyFromFile(file);
+        if (matcher.test(key)) {
+          await fs.rm(path.join(this.diskDirectory(), file), { force: true });
+          cleared++;
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.diskError('clear', pattern, error as Error);
+      }
+    }
+
+    return cleared + await cacheUtils.clearPattern(pattern);
+  }
+
+  getStatistics(): Record<string, any> {
+    const hits = this.stats.hits.memory + this.stats.hits.redis + this.stats.hits.disk;
+    const lookups = hits + this.stats.misses;
+
+    return {
+      ...this.stats,
+      hits: { ...this.stats.hits, total: hits },
+      hitRate: lookups > 0 ? hits / lookups : 0,
+      memoryEntries: this.memory.size,
+      memoryLimit: this.config.maxSize,
+    };
+  }
+
+  private async read(tier: CacheTier, key: string): Promise<CacheEnvelope | null> {
+    switch (tier) {
+      case 'memory': {
+        const envelope = this.memory.get(key);
+        if (envelope) {
+          // Re-insert to keep the map in least-recently-used order
+          this.memory.delete(key);
+          this.memory.set(key, envelope);
+        }
+        return envelope || null;
+      }
+
+      case 'redis': {
+        try {
+          const envelope = await cacheUtils.get(key);
+          return this.isEnvelope(envelope) ? envelope : null;
+        } catch (error) {
+          loggerUtils.cacheLogger.warn('Cache get failed', {
+            client: this.config.name,
+            cacheKey: key,
+            error: (error as Error).message,
+          });
+          return null;
+        }
+      }
+
+      case 'disk': {
+        try {
+          const envelope = JSON.parse(await fs.readFile(this.diskPath(key), 'utf8'));
+          return this.isEnvelope(envelope) ? envelope : null;
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            this.diskError('read', key, error as Error);
+          }
+          return null;
+        }
+      }
+    }
+  }
+
+  private async write(tier: CacheTier, key: string, envelope: CacheEnvelope): Promise<void> {
+    switch (tier) {
+      case 'memory':
+        this.memory.delete(key);
+        this.memory.set(key, envelope);
+        while (this.memory.size > this.config.maxSize) {
+          this.memory.delete(this.memory.keys().next().value);
+          this.stats.evictions++;
+        }
+        return;
+
+      case 'redis': {
+        // Redis expires the entry once it can no longer be served stale
+        const remaining = Math.ceil(envelope.ttl + envelope.staleTTL - (Date.now() - envelope.storedAt) / 1000);
+        if (remaining <= 0) return;
+        try {
+          await cacheUtils.set(key, envelope, remaining);
+        } catch (error) {
+          loggerUtils.cacheLogger.warn('Cache set failed', {
+            client: this.config.name,
+            cacheKey: key,
+            error: (error as Error).message,
+          });
+        }
+        return;
+      }
+
+      case 'disk':
+        try {
+          await fs.mkdir(this.diskDirectory(), { recursive: true });
+          await fs.writeFile(this.diskPath(key), JSON.stringify(envelope));
+        } catch (error) {
+          this.diskError('write', key, error as Error);
+        }
+        return;
+    }
+  }
+
+  private remove(tier: CacheTier, key: string): void {
+    if (tier === 'memory') {
+      this.memory.delete(key);
+    } else if (tier === 'disk') {
+      fs.rm(this.diskPath(key), { force: true }).catch(error => this.diskError('delete', key, error));
+    }
+    // Redis expires entries itself
+  }
+
+  private isEnvelope(value: any): value is CacheEnvelope {
+    return !!value && typeof value === 'object' && typeof value.storedAt === 'number' && 'value' in value;
+  }
+
+  private diskDirectory(): string {
+    return path.join(this.config.directory, this.config.keyPrefix.replace(/[^a-zA-Z0-9._-]/g, '_'));
+  }
+
+  private diskPath(key: string): string {
+    return path.join(this.diskDirectory(), `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+
+  private keyFromFile(file: string): string {
+    // Keys are "<prefix>:<md5>", so the only substituted character is the separator
+    return file.replace(/\.json$/, '').replace(`${this.config.keyPrefix}_`, `${this.config.keyPrefix}:`);
+  }
+
+  private diskError(operation: string, key: string, error: Error): void {
+    this.stats.diskErrors++;
+    loggerUtils.cacheLogger.warn('Disk cache operation failed', {
+      client: this.config.name,
+      operation,
+      cacheKey: key,
+      error: error.message,
+    });
+  }
+}
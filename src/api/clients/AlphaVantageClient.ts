@@ -163,6 +163,19 @@ export class AlphaVantageClient extends BaseClient {
     });
   }
 
+  /**
+   * Get upcoming earnings for all symbols, or one (CSV: symbol,name,reportDate,fiscalDateEnding,
+   * estimate,currency,timeOfTheDay)
+   */
+  async getEarningsCalendar(horizon: '3month' | '6month' | '12month' = '3month', symbol?: string): Promise<any> {
+    const params: any = { function: 'EARNINGS_CALENDAR', horizon };
+    if (symbol) params.symbol = symbol.toUpperCase();
+
+    return await this.get('/', params, {
+      cacheTTL: 43200, // 12 hours cache
+    });
+  }
+
   /**
    * Get listing status
    */
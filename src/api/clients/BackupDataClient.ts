@@ -4,6 +4,8 @@
 
 import { BaseClient, BaseClientConfig } from '../BaseClient.js';
 import { loggerUtils } from '../../config/logger.js';
+import { feedIngestor } from '../feeds/FeedIngestor.js';
+import { carryTaint, markSynthetic } from '../../core/SyntheticData.js';
 
 export interface BackupStockData {
   symbol: string;
@@ -120,7 +122,7 @@ export class BackupDataClient extends BaseClient {
       const sma20 = this.calculateSMA(historicalPrices, 20);
       const rsi = this.calculateRSI(historicalPrices, 14);
       
-      return {
+      const metrics = carryTaint(stockData, {
         symbol: symbol.toUpperCase(),
         currentPrice: stockData.price,
         change: stockData.change,
@@ -135,7 +137,14 @@ export class BackupDataClient extends BaseClient {
         },
         timestamp: new Date().toISOString(),
         source: 'backup-calculated'
-      };
+      });
+
+      // The indicators come from a random walk, not from price history
+      return markSynthetic(metrics, {
+        reason: 'estimated',
+        origin: 'BackupDataClient.getFinancialMetrics',
+        fields: ['technicals'],
+      });
     } catch (error) {
       loggerUtils.apiLogger.error('Financial metrics calculation failed', {
         symbol,
@@ -268,7 +277,7 @@ export class BackupDataClient extends BaseClient {
     const changePercent = ((hash % 21) - 10) / 10; // -10% to +10%
     const change = basePrice * (changePercent / 100);
     
-    return {
+    return markSynthetic({
       symbol: symbol.toUpperCase(),
       price: Math.round((basePrice + change) * 100) / 100,
       change: Math.round(change * 100) / 100,
@@ -277,75 +286,29 @@ export class BackupDataClient extends BaseClient {
       marketCap: Math.round(basePrice * ((hash % 50) + 10) * 1000000), // Varied market cap
       timestamp: new Date().toISOString(),
       source: 'fallback-generated'
-    };
+    }, { reason: 'generated', origin: 'BackupDataClient.generateFallbackStockData' });
   }
 
   /**
-   * Get news from RSS feeds
+   * Get news from the backup-scoped feeds, first feed with items wins
    */
   private async getNewsFromRSS(symbol?: string): Promise<BackupNewsArticle[]> {
-    try {
-      const rssFeeds = [
-        'https://feeds.finance.yahoo.com/rss/2.0/headline',
-        'https://feeds.marketwatch.com/marketwatch/MarketPulse/',
-      ];
-
-      for (const feedUrl of rssFeeds) {
-        try {
-          const response = await this.client.get(feedUrl, {
-            timeout: 8000,
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (compatible; NewsBot/1.0)',
-              'Accept': 'application/rss+xml',
-            },
-          });
-
-          const articles = this.parseRSSFeed(response.data);
-          if (articles.length > 0) {
-            return articles;
-          }
-        } catch (error) {
-          continue;
-        }
+    for (const feed of feedIngestor.list('backup')) {
+      const result = await feedIngestor.fetchFeed(feed.id, { symbol: feed.symbolUrl ? symbol : undefined, limit: 20 });
+      if (result.items.length > 0) {
+        return result.items.map(item => ({
+          title: item.title,
+          url: item.url,
+          description: item.summary || item.title,
+          publishedAt: item.publishedAt || new Date().toISOString(),
+          source: feed.source,
+          symbols: symbol && feed.symbolUrl ? [symbol.toUpperCase()] : undefined,
+          category: feed.category || 'market-news',
+        }));
       }
-
-      return [];
-    } catch (error) {
-      return [];
     }
-  }
 
-  /**
-   * Parse RSS feed
-   */
-  private parseRSSFeed(xmlData: string): BackupNewsArticle[] {
-    const articles: BackupNewsArticle[] = [];
-    
-    try {
-      const itemMatches = xmlData.match(/<item[^>]*>([\s\S]*?)<\/item>/gi) || [];
-      
-      itemMatches.slice(0, 20).forEach((item) => {
-        const titleMatch = item.match(/<title>(?:<!\[CDATA\[)?([^\]]+?)(?:\]\]>)?<\/title>/);
-        const linkMatch = item.match(/<link>([^<]+)<\/link>/);
-        const descMatch = item.match(/<description>(?:<!\[CDATA\[)?([^\]]+?)(?:\]\]>)?<\/description>/);
-        const dateMatch = item.match(/<pubDate>([^<]+)<\/pubDate>/);
-        
-        if (titleMatch && linkMatch) {
-          articles.push({
-            title: titleMatch[1].trim(),
-            url: linkMatch[1].trim(),
-            description: descMatch ? descMatch[1].trim() : titleMatch[1].trim(),
-            publishedAt: dateMatch ? new Date(dateMatch[1]).toISOString() : new Date().toISOString(),
-            source: 'RSS Feed',
-            category: 'market-news',
-          });
-        }
-      });
-    } catch (error) {
-      // Return empty array on parse error
-    }
-    
-    return articles;
+    return [];
   }
 
   /**
@@ -382,7 +345,7 @@ export class BackupDataClient extends BaseClient {
       'Earnings Season Highlights and Lowlights',
     ];
 
-    return templates.slice(0, limit).map((title, index) => ({
+    const articles = templates.slice(0, limit).map((title, index) => ({
       title,
       url: `https://example.com/news/${symbol || 'market'}/${index}`,
       description: `${title} - Latest analysis and market insights.`,
@@ -391,6 +354,8 @@ export class BackupDataClient extends BaseClient {
       symbols: symbol ? [symbol.toUpperCase()] : undefined,
       category: symbol ? 'stock-analysis' : 'market-news',
     }));
+
+    return markSynthetic(articles, { reason: 'generated', origin: 'BackupDataClient.generateFallbackNews' });
   }
 
   /**
@@ -0,0 +1,56 @@
+/**
+ * Bureau of Labor Statistics API client - Free seasonally adjusted macro series for the
+ * economic calendar. Keyless requests use API v1; a registration key moves to v2 limits.
+ */
+
+import { BaseClient, BaseClientConfig } from '../BaseClient.js';
+import env from '../../config/env.js';
+
+export const BLS_SERIES = {
+  cpiSeasonallyAdjusted: 'CUSR0000SA0', // CPI-U all items, seasonally adjusted
+};
+
+export class BlsClient extends BaseClient {
+  constructor(config: BaseClientConfig) {
+    super(config);
+
+    if (env.BLS_API_KEY) {
+      this.client.interceptors.request.use((config) => {
+        config.params = config.params || {};
+        config.params.registrationkey = env.BLS_API_KEY;
+        return config;
+      });
+    }
+  }
+
+  /**
+   * Monthly observations of a series as YYYY-MM-01 dates, annual averages dropped
+   */
+  async getSeries(seriesId: string): Promise<Array<{ date: string; value: number }>> {
+    const version = env.BLS_API_KEY ? 'v2' : 'v1';
+    const response = await this.get(`/publicAPI/${version}/timeseries/data/${seriesId}`, {}, {
+      cacheTTL: 86400, // 24 hours cache
+    });
+
+    if (response?.status !== 'REQUEST_SUCCEEDED') {
+      throw new Error(response?.message?.[0] || `BLS request for ${seriesId} failed`);
+    }
+
+    const series = response.Results?.series?.find((entry: any) => entry.seriesID === seriesId);
+    return (series?.data || [])
+      .filter((point: any) => /^M(0[1-9]|1[0-2])$/.test(point.period))
+      .map((point: any) => ({ date: `${point.year}-${point.period.slice(1)}-01`, value: parseFloat(point.value) }))
+      .filter((point: { date: string; value: number }) => Number.isFinite(point.value));
+  }
+
+  async validateConnection(): Promise<boolean> {
+    try {
+      await this.getSeries(BLS_SERIES.cpiSeasonallyAdjusted);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+export default BlsClient;
@@ -177,8 +177,12 @@ export class FinnhubClient extends BaseClient {
   /**
    * Get economic calendar
    */
-  async getEconomicCalendar(): Promise<any> {
-    return await this.get('/calendar/economic', {}, {
+  async getEconomicCalendar(from?: string, to?: string): Promise<any> {
+    const params: any = {};
+    if (from) params.from = from;
+    if (to) params.to = to;
+
+    return await this.get('/calendar/economic', params, {
       cacheTTL: 3600, // 1 hour cache for economic calendar
     });
   }
@@ -186,14 +190,13 @@ export class FinnhubClient extends BaseClient {
   /**
    * Get earnings calendar
    */
-  async getEarningsCalendar(from?: string, to?: string): Promise<any> {
+  async getEarningsCalendar(from?: string, to?: string, symbol?: string): Promise<any> {
     const fromDate = from || new Date().toISOString().split('T')[0];
     const toDate = to || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const params: any = { from: fromDate, to: toDate };
+    if (symbol) params.symbol = symbol.toUpperCase();
     
-    return await this.get('/calendar/earnings', {
-      from: fromDate,
-      to: toDate,
-    }, {
+    return await this.get('/calendar/earnings', params, {
       cacheTTL: 3600, // 1 hour cache for earnings calendar
     });
   }
@@ -4,6 +4,7 @@
 
 import { BaseClient, BaseClientConfig } from '../BaseClient.js';
 import { loggerUtils } from '../../config/logger.js';
+import { carryTaint, markSynthetic } from '../../core/SyntheticData.js';
 
 export class GoogleTrendsClient extends BaseClient {
   constructor(config: BaseClientConfig) {
@@ -146,7 +147,7 @@ export class GoogleTrendsClient extends BaseClient {
       
       // Return mock trending searches  
       const searchDate = date || new Date().toISOString().split('T')[0];
-      return {
+      return markSynthetic({
         date: searchDate,
         geo,
         searches: [
@@ -155,7 +156,7 @@ export class GoogleTrendsClient extends BaseClient {
           { title: 'Economic News', traffic: 50000 },
         ],
         source: 'fallback'
-      };
+      }, { reason: 'generated', origin: 'GoogleTrendsClient.getTrendingSearches' });
     }
   }
 
@@ -195,7 +196,7 @@ export class GoogleTrendsClient extends BaseClient {
       });
       
       // Return basic keyword suggestions
-      return {
+      return markSynthetic({
         keyword,
         suggestions: [
           { mid: '/m/123', title: `${keyword} stock`, type: 'Topic' },
@@ -203,7 +204,7 @@ export class GoogleTrendsClient extends BaseClient {
           { mid: '/m/125', title: `${keyword} news`, type: 'Topic' },
         ],
         source: 'fallback'
-      };
+      }, { reason: 'generated', origin: 'GoogleTrendsClient.getSuggestions' });
     }
   }
 
@@ -234,13 +235,15 @@ export class GoogleTrendsClient extends BaseClient {
         })
       );
 
-      return {
+      const trends = results
+        .filter(result => result.status === 'fulfilled')
+        .map(result => result.value);
+
+      return carryTaint(trends.flatMap(trend => [trend.interest, trend.related]), {
         symbol: symbol.toUpperCase(),
-        trends: results
-          .filter(result => result.status === 'fulfilled')
-          .map(result => result.value),
+        trends,
         timestamp: Date.now(),
-      };
+      });
     } catch (error) {
       loggerUtils.apiLogger.error('Google Trends symbol trends error', {
         symbol,
@@ -271,11 +274,11 @@ export class GoogleTrendsClient extends BaseClient {
         geo,
       });
 
-      return {
+      return carryTaint(response, {
         keywords,
         comparison: this.parseTrendsResponse(response, 'comparison'),
         timestamp: Date.now(),
-      };
+      });
     } catch (error) {
       loggerUtils.apiLogger.error('Google Trends comparison error', {
         keywords,
@@ -307,17 +310,19 @@ export class GoogleTrendsClient extends BaseClient {
         )
       );
 
-      return {
+      const fulfilled = trends
+        .filter(trend => trend.status === 'fulfilled')
+        .map((trend, index) => ({
+          keyword: financialKeywords[index],
+          data: trend.value,
+        }));
+
+      return carryTaint(fulfilled.map(trend => trend.data), {
         category: 'financial',
         timeframe,
-        trends: trends
-          .filter(trend => trend.status === 'fulfilled')
-          .map((trend, index) => ({
-            keyword: financialKeywords[index],
-            data: trend.value,
-          })),
+        trends: fulfilled,
         timestamp: Date.now(),
-      };
+      });
     } catch (error) {
       loggerUtils.apiLogger.error('Google Trends financial trends error', {
         timeframe,
@@ -382,9 +387,13 @@ export class GoogleTrendsClient extends BaseClient {
   }
 
   /**
-   * Parse trends response based on type
+   * Parse trends response based on type; mock responses keep their taint
    */
   private parseTrendsResponse(response: any, type: string): any {
+    return carryTaint(response, this.parseTrendsPayload(response, type));
+  }
+
+  private parseTrendsPayload(response: any, type: string): any {
     switch (type) {
       case 'timeseries':
         return {
@@ -447,7 +456,7 @@ export class GoogleTrendsClient extends BaseClient {
       formattedTime: `Month ${i + 1}`,
     }));
 
-    return {
+    return markSynthetic({
       default: {
         timelineData: mockTimeline,
         geoMapData: [
@@ -470,7 +479,7 @@ export class GoogleTrendsClient extends BaseClient {
           },
         ],
       },
-    };
+    }, { reason: 'generated', origin: 'GoogleTrendsClient.generateMockTrendsData' });
   }
 
   /**
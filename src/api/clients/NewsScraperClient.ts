@@ -5,6 +5,11 @@
 import { BaseClient, BaseClientConfig } from '../BaseClient.js';
 import { loggerUtils } from '../../config/logger.js';
 import { load } from 'cheerio';
+import { ArticleTextExtractor, ExtractedArticle } from '../../preprocessing/ArticleTextExtractor.js';
+import { NewsClusterer } from '../../preprocessing/NewsClusterer.js';
+import { feedIngestor, FeedDefinition } from '../feeds/FeedIngestor.js';
+import { FeedItem } from '../feeds/FeedParser.js';
+import { markSynthetic } from '../../core/SyntheticData.js';
 
 export interface NewsArticle {
   title: string;
@@ -16,6 +21,11 @@ export interface NewsArticle {
   sentiment?: 'positive' | 'negative' | 'neutral';
   symbols?: string[];
   category?: string;
+  cluster?: {
+    id: string;
+    size: number; // Copies of the story across sources, this one included
+    sources: string[];
+  };
 }
 
 export class NewsScraperClient extends BaseClient {
@@ -27,6 +37,8 @@ export class NewsScraperClient extends BaseClient {
     reuters: 'https://www.reuters.com',
     bloomberg: 'https://www.bloomberg.com',
   };
+  private readonly extractor = new ArticleTextExtractor();
+  private readonly clusterer = new NewsClusterer();
 
   constructor(config: BaseClientConfig) {
     super(config);
@@ -113,14 +125,10 @@ export class NewsScraperClient extends BaseClient {
     try {
       const allArticles: NewsArticle[] = [];
       
-      const sources = [
-        this.scrapeGeneralNews('marketwatch', limit / 6),
-        this.scrapeGeneralNews('cnbc', limit / 6),
-        this.scrapeGeneralNews('yahoo', limit / 6),
-        this.scrapeGeneralNews('reuters', limit / 6),
-        this.scrapeGeneralNews('bloomberg', limit / 6),
-        this.scrapeGeneralNews('seekingalpha', limit / 6),
-      ];
+      // Bloomberg and Seeking Alpha publish no public feed; scrapeGeneralNews falls back for them
+      const sourceIds = [...feedIngestor.list('market').map(feed => feed.id), 'bloomberg', 'seekingalpha'];
+      const perSource = Math.ceil(limit / sourceIds.length);
+      const sources = sourceIds.map(source => this.scrapeGeneralNews(source, perSource));
 
       const results = await Promise.allSettled(sources);
       
@@ -196,45 +204,17 @@ export class NewsScraperClient extends BaseClient {
    */
   private async scrapeYahooFinance(symbol: string, limit: number): Promise<NewsArticle[]> {
     try {
-      // Use RSS feed instead of scraping HTML to avoid header overflow
-      const rssUrl = `https://feeds.finance.yahoo.com/rss/2.0/headline?s=${symbol.toUpperCase()}&region=US&lang=en-US`;
-      
-      const response = await this.client.get(rssUrl, {
-        timeout: 10000,
-        maxContentLength: 2 * 1024 * 1024, // 2MB limit
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; NewsBot/1.0)',
-          'Accept': 'application/rss+xml, application/xml, text/xml',
-        },
-      });
-
-      const articles: NewsArticle[] = [];
-      
-      if (response.data && typeof response.data === 'string') {
-        // Parse RSS/XML response
-        const itemMatches = response.data.match(/<item[^>]*>([\s\S]*?)<\/item>/gi) || [];
-        
-        itemMatches.slice(0, limit).forEach((item) => {
-          const titleMatch = item.match(/<title><!\[CDATA\[([^\]]+)\]\]><\/title>/) || item.match(/<title>([^<]+)<\/title>/);
-          const linkMatch = item.match(/<link>([^<]+)<\/link>/);
-          const descMatch = item.match(/<description><!\[CDATA\[([^\]]+)\]\]><\/description>/) || item.match(/<description>([^<]+)<\/description>/);
-          const dateMatch = item.match(/<pubDate>([^<]+)<\/pubDate>/);
-          
-          if (titleMatch && linkMatch) {
-            articles.push({
-              title: titleMatch[1].trim(),
-              url: linkMatch[1].trim(),
-              description: descMatch ? descMatch[1].trim() : titleMatch[1].trim(),
-              publishedAt: dateMatch ? new Date(dateMatch[1]).toISOString() : new Date().toISOString(),
-              source: 'Yahoo Finance',
-              symbols: [symbol.toUpperCase()],
-              category: 'financial-news',
-            });
-          }
-        });
+      // Use the RSS feed instead of scraping HTML to avoid header overflow
+      const result = await feedIngestor.fetchFeed('yahoo', { symbol, limit });
+      if (result.items.length === 0 && result.error) {
+        throw new Error(result.error || 'Yahoo Finance feed unavailable');
       }
 
-      return articles;
+      const feed = result.feed;
+      return result.items.map(item => ({
+        ...this.fromFeedItem(item, feed, feed.symbolCategory || feed.category),
+        symbols: [symbol.toUpperCase()],
+      }));
     } catch (error) {
       loggerUtils.apiLogger.warn('Yahoo Finance RSS scraping failed, trying fallback', {
         symbol,
@@ -350,97 +330,42 @@ export class NewsScraperClient extends BaseClient {
   }
 
   /**
-   * Scrape general financial news from various sources
+   * Read general financial news from a configured feed
    */
   private async scrapeGeneralNews(source: string, limit: number): Promise<NewsArticle[]> {
-    try {
-      let url: string;
-      let isRss = false;
-      
-      // Use RSS feeds where possible to avoid header overflow
-      switch (source) {
-        case 'marketwatch':
-          url = 'https://feeds.marketwatch.com/marketwatch/MarketPulse/';
-          isRss = true;
-          break;
-        case 'cnbc':
-          url = 'https://search.cnbc.com/rs/search/combinedcms/view.xml?partnerId=wrss01&id=15839069';
-          isRss = true;
-          break;
-        case 'yahoo':
-          url = 'https://feeds.finance.yahoo.com/rss/2.0/headline?s=^GSPC&region=US&lang=en-US';
-          isRss = true;
-          break;
-        case 'reuters':
-          url = 'https://www.reuters.com/arc/outboundfeeds/rss/business/?outputType=xml';
-          isRss = true;
-          break;
-        case 'bloomberg':
-          // Bloomberg doesn't have public RSS, use fallback
-          return this.generateFallbackNews(source, limit);
-        case 'seekingalpha':
-          // SeekingAlpha has limited RSS, use fallback
-          return this.generateFallbackNews(source, limit);
-        default:
-          return [];
-      }
-
-      const response = await this.client.get(url, {
-        timeout: 10000,
-        maxContentLength: 3 * 1024 * 1024, // 3MB limit
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; NewsBot/1.0)',
-          'Accept': isRss ? 'application/rss+xml, application/xml' : 'text/html',
-        },
-      });
-
-      if (isRss && response.data) {
-        return this.parseRSSFeed(response.data, source, limit);
-      }
-
+    const feed = feedIngestor.get(source);
+    if (!feed || feed.enabled === false) {
       return this.generateFallbackNews(source, limit);
-    } catch (error) {
-      loggerUtils.apiLogger.warn('General news scraping failed, using fallback', {
+    }
+
+    const result = await feedIngestor.fetchFeed(feed.id, { limit });
+    if (result.items.length === 0) {
+      loggerUtils.apiLogger.warn('General news feed empty, using fallback', {
         source,
-        error: error.message,
+        status: result.status,
+        error: result.error,
       });
       return this.generateFallbackNews(source, limit);
     }
+
+    return result.items.map(item => this.fromFeedItem(item, feed, feed.category));
   }
-  
+
   /**
-   * Parse RSS feed to extract articles
+   * Map a feed item onto an article credited to the feed's source
    */
-  private parseRSSFeed(xmlData: string, source: string, limit: number): NewsArticle[] {
-    const articles: NewsArticle[] = [];
-    
-    try {
-      const itemMatches = xmlData.match(/<item[^>]*>([\s\S]*?)<\/item>/gi) || [];
-      
-      itemMatches.slice(0, limit).forEach((item) => {
-        const titleMatch = item.match(/<title><!\[CDATA\[([^\]]+)\]\]><\/title>/) || item.match(/<title>([^<]+)<\/title>/);
-        const linkMatch = item.match(/<link>([^<]+)<\/link>/);
-        const descMatch = item.match(/<description><!\[CDATA\[([^\]]+)\]\]><\/description>/) || item.match(/<description>([^<]+)<\/description>/);
-        const dateMatch = item.match(/<pubDate>([^<]+)<\/pubDate>/);
-        
-        if (titleMatch && linkMatch) {
-          articles.push({
-            title: titleMatch[1].trim(),
-            url: linkMatch[1].trim(),
-            description: descMatch ? descMatch[1].trim() : titleMatch[1].trim(),
-            publishedAt: dateMatch ? new Date(dateMatch[1]).toISOString() : new Date().toISOString(),
-            source: this.capitalizeSource(source),
-            category: 'market-news',
-          });
-        }
-      });
-    } catch (error) {
-      loggerUtils.apiLogger.warn('RSS parsing failed', { source, error: error.message });
-    }
-    
-    return articles;
+  private fromFeedItem(item: FeedItem, feed: FeedDefinition, category?: string): NewsArticle {
+    return {
+      title: item.title,
+      url: item.url,
+      description: item.summary || item.title,
+      publishedAt: item.publishedAt || new Date().toISOString(),
+      source: feed.source,
+      author: item.author,
+      category: category || 'market-news',
+    };
   }
-  
+
   /**
    * Generate fallback news when scraping fails
    */
@@ -456,7 +381,7 @@ export class NewsScraperClient extends BaseClient {
       'Consumer Spending Data Shows Economic Resilience',
     ];
     
-    return sampleNews.slice(0, limit).map((title, index) => ({
+    const articles = sampleNews.slice(0, limit).map((title, index) => ({
       title,
       url: `https://example.com/news/${index}`,
       description: `${title} - Latest market analysis and insights.`,
@@ -464,21 +389,25 @@ export class NewsScraperClient extends BaseClient {
       source: `${this.capitalizeSource(source)} (Fallback)`,
       category: 'market-news',
     }));
+
+    return markSynthetic(articles, { reason: 'generated', origin: 'NewsScraperClient.generateFallbackNews' });
   }
 
   /**
-   * Remove duplicate articles based on title similarity
+   * Collapse syndicated copies of a story into its canonical article
    */
   private removeDuplicates(articles: NewsArticle[]): NewsArticle[] {
-    const seen = new Set<string>();
-    return articles.filter(article => {
-      const key = article.title.toLowerCase().replace(/[^a-z0-9]/g, '').substring(0, 50);
-      if (seen.has(key)) {
-        return false;
-      }
-      seen.add(key);
-      return true;
-    });
+    const clusters = this.clusterer.cluster(articles, article => ({
+      text: `${article.title}\n${article.description}`,
+      url: article.url,
+      source: article.source,
+      publishedAt: Date.parse(article.publishedAt) || undefined,
+    }));
+
+    return clusters.map(cluster => ({
+      ...cluster.canonical,
+      cluster: { id: cluster.id, size: cluster.size, sources: cluster.sources },
+    }));
   }
 
   /**
@@ -630,6 +559,28 @@ export class NewsScraperClient extends BaseClient {
     }
   }
   
+  /**
+   * Fetch an article page and extract its readable text
+   */
+  async fetchArticle(url: string): Promise<ExtractedArticle | null> {
+    try {
+      const html = await this.get(url, {}, {
+        cacheTTL: 86400, // Published articles rarely change
+        parseHtml: true,
+        priority: 'low',
+      });
+
+      if (typeof html !== 'string' || !html) return null;
+      return this.extractor.extract(url, html);
+    } catch (error) {
+      loggerUtils.apiLogger.warn('Article text extraction failed', {
+        url,
+        error: error.message,
+      });
+      return null;
+    }
+  }
+
   /**
    * Alias for getNewsForSymbol to match DataHub expectations
    */
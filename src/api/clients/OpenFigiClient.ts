@@ -0,0 +1,64 @@
+/**
+ * OpenFIGI API client - Free identifier mapping, used to turn 13F CUSIPs into tickers
+ */
+
+import { BaseClient, BaseClientConfig } from '../BaseClient.js';
+
+export interface CusipMapping {
+  cusip: string;
+  ticker: string | null; // Null when OpenFIGI knows no US listing for the CUSIP
+  name: string | null;
+  securityType: string | null;
+}
+
+export class OpenFigiClient extends BaseClient {
+  private jobsPerRequest: number;
+
+  constructor(config: BaseClientConfig, jobsPerRequest: number) {
+    super(config);
+    this.jobsPerRequest = jobsPerRequest;
+  }
+
+  get batchSize(): number {
+    return this.jobsPerRequest;
+  }
+
+  /**
+   * Map up to batchSize CUSIPs to their US composite listing in one request
+   */
+  async mapCusips(cusips: string[]): Promise<CusipMapping[]> {
+    if (cusips.length > this.jobsPerRequest) {
+      throw new Error(`OpenFIGI takes at most ${this.jobsPerRequest} identifiers per request`);
+    }
+
+    const jobs = cusips.map(cusip => ({ idType: 'ID_CUSIP', idValue: cusip, exchCode: 'US' }));
+    const results: any[] = await this.post('/v3/mapping', jobs);
+
+    return cusips.map((cusip, index) => {
+      const result = results?.[index];
+      if (result?.error) {
+        throw new Error(`OpenFIGI mapping failed for ${cusip}: ${result.error}`);
+      }
+
+      const match = result?.data?.[0];
+      return {
+        cusip,
+        // Share classes come back as BRK/B
+        ticker: match?.ticker ? String(match.ticker).toUpperCase().replace('/', '.') : null,
+        name: match?.name || null,
+        securityType: match?.securityType || null,
+      };
+    });
+  }
+
+  async validateConnection(): Promise<boolean> {
+    try {
+      await this.mapCusips(['037833100']);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+}
+
+export default OpenFigiClient;
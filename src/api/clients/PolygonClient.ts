@@ -3,6 +3,7 @@
  */
 
 import { BaseClient, BaseClientConfig } from '../BaseClient.js';
+import { loggerUtils } from '../../config/logger.js';
 import env from '../../config/env.js';
 
 export class PolygonClient extends BaseClient {
@@ -34,10 +35,11 @@ export class PolygonClient extends BaseClient {
     multiplier: number = 1,
     timespan: string = 'day',
     from: string,
-    to: string
+    to: string,
+    adjusted: boolean = true
   ): Promise<any> {
     return await this.get(`/v2/aggs/ticker/${symbol.toUpperCase()}/range/${multiplier}/${timespan}/${from}/${to}`, {
-      adjusted: true,
+      adjusted,
       sort: 'desc',
       limit: 50000,
     }, {
@@ -142,6 +144,49 @@ export class PolygonClient extends BaseClient {
     });
   }
 
+  /**
+   * Get an options chain snapshot (quotes, open interest and underlying price), following
+   * next_url until the chain is complete or maxPages pages have been read
+   */
+  async getOptionChainSnapshot(
+    symbol: string,
+    expirationDateLte?: string,
+    limit: number = 250,
+    maxPages: number = 10
+  ): Promise<any> {
+    const endpoint = `/v3/snapshot/options/${symbol.toUpperCase()}`;
+    const params: any = { limit };
+    if (expirationDateLte) params['expiration_date.lte'] = expirationDateLte;
+
+    const first = await this.get(endpoint, params, {
+      cacheTTL: 300, // 5 minutes cache
+    });
+    const results: any[] = [...(first?.results || [])];
+    let nextUrl: string | undefined = first?.next_url;
+    let pages = 1;
+
+    // The cursor in next_url encodes the rest of the query; the API key is added per request
+    while (nextUrl && pages < maxPages) {
+      const cursor = new URL(nextUrl).searchParams.get('cursor');
+      if (!cursor) break;
+
+      const page = await this.get(endpoint, { cursor }, { cacheTTL: 300 });
+      results.push(...(page?.results || []));
+      nextUrl = page?.next_url;
+      pages++;
+    }
+
+    if (nextUrl) {
+      loggerUtils.apiLogger.warn('Option chain truncated at page limit', {
+        symbol,
+        pages,
+        contracts: results.length,
+      });
+    }
+
+    return { ...first, results, next_url: nextUrl };
+  }
+
   /**
    * Get stock splits
    */
@@ -36,11 +36,80 @@ export interface ParsedFiling {
   url: string;
 }
 
+export interface Form4Transaction {
+  accessionNumber: string;
+  form: string; // '4' or '4/A'
+  filingDate: string;
+  issuerCik: string;
+  issuerSymbol: string;
+  reporterName: string;
+  reporterCik: string;
+  officerTitle: string;
+  relationship: string; // e.g. 'Director, Officer', '10% Owner'
+  table: 'non_derivative' | 'derivative';
+  securityTitle: string;
+  transactionDate: string;
+  transactionCode: string; // See FORM4_TRANSACTION_CODES
+  transactionType: 'buy' | 'sell' | 'other'; // Only open-market purchases and sales count as buy/sell
+  acquiredDisposed: 'A' | 'D';
+  shares: number;
+  price: number | null;
+  value: number;
+  sharesOwnedAfter: number | null;
+  directOwnership: boolean;
+  ownershipNature: string | null; // How indirect holdings are held, e.g. 'By Trust'
+  isPlannedTrade: boolean; // Made under a Rule 10b5-1 trading plan
+  exercisePrice?: number | null;
+  expirationDate?: string | null;
+  underlyingSecurity?: string | null;
+  underlyingShares?: number | null;
+  footnotes: string[];
+}
+
+export const FORM4_TRANSACTION_CODES: Record<string, string> = {
+  P: 'Open market or private purchase',
+  S: 'Open market or private sale',
+  A: 'Grant or award from the issuer',
+  M: 'Exercise or conversion of derivative security exempt under Rule 16b-3',
+  X: 'Exercise of in-the-money or at-the-money derivative security',
+  C: 'Conversion of derivative security',
+  F: 'Payment of exercise price or tax liability by withholding securities',
+  G: 'Bona fide gift',
+  D: 'Disposition to the issuer',
+  J: 'Other acquisition or disposition',
+};
+
+export interface ThirteenFHolding {
+  cusip: string;
+  issuerName: string;
+  titleOfClass: string;
+  value: number; // USD
+  shares: number;
+  shareType: 'SH' | 'PRN';
+  putCall: 'put' | 'call' | null;
+  investmentDiscretion: string;
+  votingAuthority: { sole: number; shared: number; none: number };
+}
+
+export interface ThirteenFReport {
+  accessionNumber: string;
+  filerCik: string;
+  filerName: string;
+  form: string; // '13F-HR' or '13F-HR/A'
+  period: string; // Quarter end the holdings are reported for
+  filingDate: string;
+  amendmentType: 'restatement' | 'new_holdings' | null;
+  holdings: ThirteenFHolding[];
+}
+
+// Information table values switched from thousands to whole dollars for filings from this date
+const THIRTEEN_F_DOLLAR_VALUES_FROM = '2023-01-03';
+
 export class SECEdgarClient extends BaseClient {
   private readonly companyTickersUrl = '/files/company_tickers.json';
   private readonly companyTickersExchangeUrl = '/files/company_tickers_exchange.json';
   private readonly submissionsBaseUrl = '/submissions';
-  private readonly archivesBaseUrl = '/Archives/edgar/data';
+  private readonly archivesBaseUrl = 'https://www.sec.gov/Archives/edgar/data';
   private readonly factsBaseUrl = '/api/xbrl/companyfacts';
 
   constructor(config: BaseClientConfig) {
@@ -103,6 +172,34 @@ export class SECEdgarClient extends BaseClient {
     }
   }
 
+  /**
+   * Get every ticker currently registered to a CIK (share classes, renamed tickers)
+   */
+  async getTickersForCIK(cik: string): Promise<Array<{ ticker: string; name: string; exchange: string | null }>> {
+    try {
+      const cikNumber = parseInt(cik, 10);
+      const tickers = await this.get(this.companyTickersExchangeUrl, {}, {
+        cacheTTL: 86400 * 7, // Cache for 7 days
+        timeout: 15000,
+      });
+
+      // Exchange format rows: [cik, name, ticker, exchange]
+      return (tickers.data || [])
+        .filter((row: any[]) => Number(row[0]) === cikNumber)
+        .map((row: any[]) => ({
+          ticker: String(row[2]).toUpperCase(),
+          name: row[1],
+          exchange: row[3] || null,
+        }));
+    } catch (error) {
+      loggerUtils.apiLogger.error('Error fetching tickers for CIK', {
+        cik,
+        error: error.message,
+      });
+      return [];
+    }
+  }
+
   /**
    * Get company filings
    */
@@ -117,42 +214,7 @@ export class SECEdgarClient extends BaseClient {
         throw new Error(`CIK not found for ticker: ${ticker}`);
       }
 
-      const submissionsData = await this.get(`${this.submissionsBaseUrl}/CIK${cik}.json`, {}, {
-        cacheTTL: 3600, // 1 hour cache
-      });
-
-      const filings = submissionsData.filings?.recent;
-      if (!filings) {
-        return [];
-      }
-
-      const results: SECFiling[] = [];
-      const maxLength = Math.min(filings.accessionNumber?.length || 0, limit);
-
-      for (let i = 0; i < maxLength; i++) {
-        const form = filings.form[i];
-        
-        if (formTypes.includes(form)) {
-          results.push({
-            accessionNumber: filings.accessionNumber[i],
-            filingDate: filings.filingDate[i],
-            reportDate: filings.reportDate[i],
-            acceptanceDateTime: filings.acceptanceDateTime[i],
-            act: filings.act[i],
-            form: form,
-            fileNumber: filings.fileNumber[i],
-            filmNumber: filings.filmNumber[i],
-            items: filings.items[i] || '',
-            size: filings.size[i],
-            isXBRL: filings.isXBRL[i],
-            isInlineXBRL: filings.isInlineXBRL[i],
-            primaryDocument: filings.primaryDocument[i],
-            primaryDocumentDescription: filings.primaryDocumentDescription[i],
-          });
-        }
-      }
-
-      return results.slice(0, limit);
+      return await this.getFilingsByCIK(cik, formTypes, limit);
     } catch (error) {
       loggerUtils.apiLogger.error('Error fetching company filings', {
         ticker,
@@ -163,6 +225,49 @@ export class SECEdgarClient extends BaseClient {
     }
   }
 
+  /**
+   * Recent filings for any EDGAR filer, including managers without a ticker
+   */
+  async getFilingsByCIK(cik: string, formTypes: string[], limit: number = 20): Promise<SECFiling[]> {
+    const paddedCik = cik.padStart(10, '0');
+    const submissionsData = await this.get(`${this.submissionsBaseUrl}/CIK${paddedCik}.json`, {}, {
+      cacheTTL: 3600, // 1 hour cache
+    });
+
+    const filings = submissionsData.filings?.recent;
+    if (!filings) {
+      return [];
+    }
+
+    const results: SECFiling[] = [];
+    const maxLength = Math.min(filings.accessionNumber?.length || 0, limit);
+
+    for (let i = 0; i < maxLength; i++) {
+      const form = filings.form[i];
+      
+      if (formTypes.includes(form)) {
+        results.push({
+          accessionNumber: filings.accessionNumber[i],
+          filingDate: filings.filingDate[i],
+          reportDate: filings.reportDate[i],
+          acceptanceDateTime: filings.acceptanceDateTime[i],
+          act: filings.act[i],
+          form: form,
+          fileNumber: filings.fileNumber[i],
+          filmNumber: filings.filmNumber[i],
+          items: filings.items[i] || '',
+          size: filings.size[i],
+          isXBRL: filings.isXBRL[i],
+          isInlineXBRL: filings.isInlineXBRL[i],
+          primaryDocument: filings.primaryDocument[i],
+          primaryDocumentDescription: filings.primaryDocumentDescription[i],
+        });
+      }
+    }
+
+    return results.slice(0, limit);
+  }
+
   /**
    * Parse and extract content from a specific filing
    */
@@ -224,33 +329,33 @@ export class SECEdgarClient extends BaseClient {
   /**
    * Get insider transactions from SEC filings
    */
-  async getInsiderTransactions(ticker: string): Promise<any[]> {
+  async getInsiderTransactions(ticker: string): Promise<Form4Transaction[]> {
     try {
-      const filings = await this.getCompanyFilings(ticker, ['4'], 50);
-      
-      const transactions = [];
-      
+      const cik = await this.getCIKFromTicker(ticker);
+      if (!cik) {
+        throw new Error(`CIK not found for ticker: ${ticker}`);
+      }
+
+      const filings = await this.getCompanyFilings(ticker, ['4', '4/A'], 50);
+      const transactions: Form4Transaction[] = [];
+
       // Parse up to 10 recent Form 4 filings
       for (const filing of filings.slice(0, 10)) {
         try {
-          const parsed = await this.parseFiling(ticker, filing.accessionNumber);
-          if (parsed) {
-            const transaction = this.extractInsiderTransaction(parsed.documentText || '');
-            if (transaction) {
-              transactions.push({
-                ...transaction,
-                filingDate: filing.filingDate,
-                accessionNumber: filing.accessionNumber,
-              });
-            }
-          }
+          const xml = await this.getOwnershipDocument(cik, filing);
+          transactions.push(...this.parseForm4Xml(xml, filing));
         } catch (error) {
           // Continue with next filing if one fails
           continue;
         }
       }
 
-      return transactions;
+      // An amendment restates the original filing's rows
+      const amendmentKey = (tx: Form4Transaction) =>
+        `${tx.reporterCik}-${tx.table}-${tx.securityTitle}-${tx.transactionDate}-${tx.transactionCode}`;
+      const amended = new Set(transactions.filter(tx => tx.form === '4/A').map(amendmentKey));
+
+      return transactions.filter(tx => tx.form === '4/A' || !amended.has(amendmentKey(tx)));
     } catch (error) {
       loggerUtils.apiLogger.error('Error fetching insider transactions', {
         ticker,
@@ -261,18 +366,230 @@ export class SECEdgarClient extends BaseClient {
   }
 
   /**
-   * Get the actual filing document content
+   * Parse a Form 4 / 4/A ownership XML document into one row per reported transaction
+   */
+  parseForm4Xml(
+    xml: string,
+    filing: Pick<SECFiling, 'accessionNumber' | 'form' | 'filingDate'>
+  ): Form4Transaction[] {
+    const $ = load(xml, { xml: true });
+    const doc = $('ownershipDocument').first();
+    if (!doc.length) {
+      return [];
+    }
+
+    // Most fields wrap their content in <value>; coding fields do not
+    const read = (scope: any, selector: string): string => {
+      const node = scope.find(selector).first();
+      if (!node.length) return '';
+      const value = node.children('value');
+      return (value.length ? value.first().text() : node.text()).trim();
+    };
+    const readNumber = (scope: any, selector: string): number | null => {
+      const text = read(scope, selector);
+      return text ? this.parseNumber(text) : null;
+    };
+    const isSet = (text: string) => text === '1' || text.toLowerCase() === 'true';
+
+    const footnotes = new Map<string, string>();
+    doc.find('footnotes > footnote').each((_, node) => {
+      footnotes.set($(node).attr('id') || '', $(node).text().replace(/\s+/g, ' ').trim());
+    });
+
+    const owners = doc.find('reportingOwner').toArray().map(node => {
+      const owner = $(node);
+      const roles = [
+        isSet(read(owner, 'isDirector')) ? 'Director' : null,
+        isSet(read(owner, 'isOfficer')) ? 'Officer' : null,
+        isSet(read(owner, 'isTenPercentOwner')) ? '10% Owner' : null,
+        isSet(read(owner, 'isOther')) ? read(owner, 'otherText') || 'Other' : null,
+      ].filter(Boolean);
+
+      return {
+        name: read(owner, 'rptOwnerName'),
+        cik: read(owner, 'rptOwnerCik'),
+        title: read(owner, 'officerTitle'),
+        relationship: roles.join(', '),
+      };
+    });
+    const owner = owners[0] || { name: '', cik: '', title: '', relationship: '' };
+
+    // Newer filings flag 10b5-1 trades directly; older ones only say so in a footnote
+    const filingPlanFlag = isSet(read(doc, 'aff10b5One'));
+    const remarks = read(doc, 'remarks');
+
+    const rows: Form4Transaction[] = [];
+    const tables: Array<{ selector: string; table: Form4Transaction['table'] }> = [
+      { selector: 'nonDerivativeTable > nonDerivativeTransaction', table: 'non_derivative' },
+      { selector: 'derivativeTable > derivativeTransaction', table: 'derivative' },
+    ];
+
+    for (const { selector, table } of tables) {
+      doc.find(selector).each((_, node) => {
+        const row = $(node);
+        const code = read(row, 'transactionCoding > transactionCode').toUpperCase();
+        const shares = readNumber(row, 'transactionAmounts > transactionShares') ?? 0;
+        const price = readNumber(row, 'transactionAmounts > transactionPricePerShare');
+        const notes = Array.from(new Set(row.find('footnoteId').toArray().map(ref => $(ref).attr('id') || '')))
+          .map(id => footnotes.get(id))
+          .filter(Boolean);
+        const directIndirect = read(row, 'ownershipNature > directOrIndirectOwnership');
+
+        rows.push({
+          accessionNumber: filing.accessionNumber,
+          form: filing.form,
+          filingDate: filing.filingDate,
+          issuerCik: read(doc, 'issuer > issuerCik'),
+          issuerSymbol: read(doc, 'issuer > issuerTradingSymbol').toUpperCase(),
+          reporterName: owners.map(entry => entry.name).filter(Boolean).join('; ') || owner.name,
+          reporterCik: owner.cik,
+          officerTitle: owner.title,
+          relationship: owner.relationship,
+          table,
+          securityTitle: read(row, 'securityTitle'),
+          transactionDate: read(row, 'transactionDate').slice(0, 10),
+          transactionCode: code,
+          transactionType: code === 'P' ? 'buy' : code === 'S' ? 'sell' : 'other',
+          acquiredDisposed: read(row, 'transactionAmounts > transactionAcquiredDisposedCode') === 'D' ? 'D' : 'A',
+          shares,
+          price,
+          value: price ? shares * price : 0,
+          sharesOwnedAfter: readNumber(row, 'postTransactionAmounts > sharesOwnedFollowingTransaction'),
+          directOwnership: directIndirect !== 'I',
+          ownershipNature: read(row, 'ownershipNature > natureOfOwnership') || null,
+          isPlannedTrade: filingPlanFlag || notes.some(note => /10b5-1/i.test(note)) || /10b5-1/i.test(remarks),
+          ...(table === 'derivative' ? {
+            exercisePrice: readNumber(row, 'conversionOrExercisePrice'),
+            expirationDate: read(row, 'expirationDate') || null,
+            underlyingSecurity: read(row, 'underlyingSecurity > underlyingSecurityTitle') || null,
+            underlyingShares: readNumber(row, 'underlyingSecurity > underlyingSecurityShares'),
+          } : {}),
+          footnotes: notes,
+        });
+      });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Fetch the raw ownership XML for a Form 4; the primary document path points at an
+   * XSL-rendered view, the XML itself sits in the filing folder root
+   */
+  private async getOwnershipDocument(cik: string, filing: SECFiling): Promise<string> {
+    const folder = this.filingFolder(cik, filing.accessionNumber);
+    const extract = (content: string) => content.match(/<ownershipDocument>[\s\S]*?<\/ownershipDocument>/)?.[0] || null;
+
+    const documentName = (filing.primaryDocument || '').split('/').pop();
+    if (documentName && documentName.endsWith('.xml')) {
+      const xml = extract(await this.getFilingDocument(`${folder}/${documentName}`));
+      if (xml) return xml;
+    }
+
+    const xml = extract(await this.getFilingDocument(`${folder}/${filing.accessionNumber}.txt`));
+    if (!xml) {
+      throw new Error(`No ownership document in filing ${filing.accessionNumber}`);
+    }
+    return xml;
+  }
+
+  /**
+   * Recent 13F-HR holdings reports (and amendments) for an institutional manager, newest first
+   */
+  async get13FFilings(cik: string, limit: number = 8): Promise<SECFiling[]> {
+    // Large managers file plenty of other forms, so scan deep into the submission history
+    const filings = await this.getFilingsByCIK(cik, ['13F-HR', '13F-HR/A'], 1000);
+    return filings.slice(0, limit);
+  }
+
+  /**
+   * Read a 13F filing's cover page and information table
+   */
+  async get13FReport(cik: string, filing: SECFiling): Promise<ThirteenFReport> {
+    const folder = this.filingFolder(cik, filing.accessionNumber);
+    const index = await this.getFilingDocument(`${folder}/index.json`);
+    const items: Array<{ name: string }> = (typeof index === 'string' ? JSON.parse(index) : index)?.directory?.item || [];
+    const primaryName = (filing.primaryDocument || '').split('/').pop() || 'primary_doc.xml';
+
+    const tableName = items
+      .map(item => item.name)
+      .find(name => name.toLowerCase().endsWith('.xml') && name !== primaryName && !/primary_doc/i.test(name));
+    if (!tableName) {
+      throw new Error(`No information table in 13F filing ${filing.accessionNumber}`);
+    }
+
+    const cover = load(this.stripXmlPrefixes(await this.getFilingDocument(`${folder}/${primaryName}`)), { xml: true });
+    const amendmentType = cover('amendmentType').first().text().trim().toUpperCase();
+    const tableXml = await this.getFilingDocument(`${folder}/${tableName}`);
+
+    return {
+      accessionNumber: filing.accessionNumber,
+      filerCik: cik.padStart(10, '0'),
+      filerName: cover('filingManager > name').first().text().trim(),
+      form: filing.form,
+      period: filing.reportDate,
+      filingDate: filing.filingDate,
+      amendmentType: filing.form.endsWith('/A')
+        ? (amendmentType === 'NEW HOLDINGS' ? 'new_holdings' : 'restatement')
+        : null,
+      holdings: this.parseInformationTable(tableXml, filing.filingDate),
+    };
+  }
+
+  /**
+   * Parse a 13F information table; values are returned in dollars whichever unit the filing used
+   */
+  parseInformationTable(xml: string, filingDate: string): ThirteenFHolding[] {
+    const $ = load(this.stripXmlPrefixes(xml), { xml: true });
+    const scale = filingDate < THIRTEEN_F_DOLLAR_VALUES_FROM ? 1000 : 1;
+    const number = (scope: any, selector: string) => this.parseNumber(scope.find(selector).first().text() || '') || 0;
+
+    return $('infoTable').toArray().map((node): ThirteenFHolding => {
+      const row = $(node);
+      const putCall = row.find('putCall').first().text().trim().toLowerCase();
+
+      return {
+        cusip: row.find('cusip').first().text().trim().toUpperCase(),
+        issuerName: row.find('nameOfIssuer').first().text().trim(),
+        titleOfClass: row.find('titleOfClass').first().text().trim(),
+        value: number(row, 'value') * scale,
+        shares: number(row, 'shrsOrPrnAmt > sshPrnamt'),
+        shareType: row.find('shrsOrPrnAmt > sshPrnamtType').first().text().trim().toUpperCase() === 'PRN' ? 'PRN' : 'SH',
+        putCall: putCall === 'put' || putCall === 'call' ? putCall : null,
+        investmentDiscretion: row.find('investmentDiscretion').first().text().trim(),
+        votingAuthority: {
+          sole: number(row, 'votingAuthority > Sole'),
+          shared: number(row, 'votingAuthority > Shared'),
+          none: number(row, 'votingAuthority > None'),
+        },
+      };
+    }).filter(holding => holding.cusip);
+  }
+
+  /**
+   * Archive folders use the unpadded CIK and the accession number without dashes
+   */
+  private filingFolder(cik: string, accessionNumber: string): string {
+    return `${this.archivesBaseUrl}/${parseInt(cik, 10)}/${accessionNumber.replace(/-/g, '')}`;
+  }
+
+  /**
+   * Information tables are often namespace-prefixed (ns1:infoTable); selectors want bare names
+   */
+  private stripXmlPrefixes(xml: string): string {
+    return xml.replace(/<(\/?)[A-Za-z][\w.-]*:/g, '<$1');
+  }
+
+  /**
+   * Get the actual filing document content, through the rate-limited queue like every other
+   * EDGAR request. Filed documents never change, so they are cached for a week.
    */
   private async getFilingDocument(url: string): Promise<string> {
     try {
-      const response = await this.client.get(url, {
-        headers: {
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        },
+      return await this.get(url, {}, {
+        cacheTTL: 604800,
         timeout: 30000,
       });
-
-      return response.data;
     } catch (error) {
       throw new Error(`Failed to fetch filing document: ${error.message}`);
     }
@@ -411,29 +728,6 @@ export class SECEdgarClient extends BaseClient {
     return '';
   }
 
-  /**
-   * Extract insider transaction details from Form 4
-   */
-  private extractInsiderTransaction(content: string): any | null {
-    try {
-      // This is a simplified parser - Form 4 parsing can be complex
-      const nameMatch = content.match(/REPORTING\s+OWNER[^]*?NAME[^]*?([A-Z][A-Z\s,]+)/i);
-      const transactionMatch = content.match(/TRANSACTION[^]*?(\d+)[^]*?(BUY|SELL|ACQUIRED|DISPOSED)/i);
-      
-      if (nameMatch && transactionMatch) {
-        return {
-          reporterName: nameMatch[1].trim(),
-          shares: parseInt(transactionMatch[1]),
-          transactionType: transactionMatch[2].toLowerCase(),
-        };
-      }
-    } catch (error) {
-      // Return null if parsing fails
-    }
-    
-    return null;
-  }
-
   /**
    * Clean and normalize text content
    */
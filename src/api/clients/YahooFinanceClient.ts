@@ -131,6 +131,43 @@ export class YahooFinanceClient extends BaseClient {
     }
   }
 
+  /**
+   * Get the latest exchange-reported short interest statistics
+   */
+  async getShortStatistics(symbol: string): Promise<any> {
+    try {
+      const response = await this.get('/v10/finance/quoteSummary/' + symbol.toUpperCase(), {
+        modules: 'defaultKeyStatistics,summaryDetail',
+      }, {
+        cacheTTL: 43200, // 12 hours cache, short interest settles twice a month
+      });
+
+      const result = response.quoteSummary?.result?.[0];
+      const keyStats = result?.defaultKeyStatistics;
+      if (!keyStats?.sharesShort?.raw) {
+        throw new Error('No short interest statistics found');
+      }
+
+      return {
+        symbol: symbol.toUpperCase(),
+        sharesShort: keyStats.sharesShort.raw,
+        sharesShortPriorMonth: keyStats.sharesShortPriorMonth?.raw,
+        dateShortInterest: keyStats.dateShortInterest?.raw, // Unix seconds
+        sharesShortPreviousMonthDate: keyStats.sharesShortPreviousMonthDate?.raw,
+        shortRatio: keyStats.shortRatio?.raw, // Days to cover
+        shortPercentOfFloat: keyStats.shortPercentOfFloat?.raw,
+        floatShares: keyStats.floatShares?.raw,
+        averageVolume: result.summaryDetail?.averageVolume?.raw,
+      };
+    } catch (error) {
+      loggerUtils.apiLogger.error('Yahoo Finance short statistics error', {
+        symbol,
+        error: error.message,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get historical price data
    */
@@ -174,11 +211,22 @@ export class YahooFinanceClient extends BaseClient {
         volume: quote.volume?.[index],
       })).filter((item: any) => item.close !== null);
 
+      const splits = Object.values(result.events?.splits || {}).map((split: any) => ({
+        date: new Date(split.date * 1000).toISOString().split('T')[0],
+        numerator: split.numerator,
+        denominator: split.denominator,
+      }));
+      const dividends = Object.values(result.events?.dividends || {}).map((dividend: any) => ({
+        date: new Date(dividend.date * 1000).toISOString().split('T')[0],
+        amount: dividend.amount,
+      }));
+
       return {
         symbol: symbol.toUpperCase(),
         currency: result.meta?.currency,
         exchangeTimezoneName: result.meta?.exchangeTimezoneName,
         data: historicalData,
+        events: { splits, dividends },
       };
     } catch (error) {
       loggerUtils.apiLogger.error('Yahoo Finance historical data error', {
@@ -285,6 +333,11 @@ export class YahooFinanceClient extends BaseClient {
           },
         })),
         nextEarningsDate: calendar?.earnings?.earningsDate?.[0]?.raw,
+        // A two-date range means the company has not announced the day yet
+        nextEarningsDateEstimated: calendar?.earnings?.isEarningsDateEstimate
+          ?? (calendar?.earnings?.earningsDate?.length > 1),
+        nextEarningsEpsEstimate: calendar?.earnings?.earningsAverage?.raw,
+        nextEarningsRevenueEstimate: calendar?.earnings?.revenueAverage?.raw,
       };
     } catch (error) {
       loggerUtils.apiLogger.error('Yahoo Finance earnings error', {
@@ -312,6 +365,9 @@ export class YahooFinanceClient extends BaseClient {
         throw new Error('No options data found');
       }
 
+      // The options endpoint returns plain numbers; other Yahoo endpoints wrap them as { raw, fmt }
+      const value = (field: any) => (field && typeof field === 'object' ? field.raw : field);
+
       return {
         symbol: symbol.toUpperCase(),
         expirationDates: result.expirationDates,
@@ -323,34 +379,34 @@ export class YahooFinanceClient extends BaseClient {
           hasMiniOptions: option.hasMiniOptions,
           calls: option.calls?.map((call: any) => ({
             contractSymbol: call.contractSymbol,
-            strike: call.strike?.raw,
+            strike: value(call.strike),
             currency: call.currency,
-            lastPrice: call.lastPrice?.raw,
-            change: call.change?.raw,
-            percentChange: call.percentChange?.raw,
-            volume: call.volume?.raw,
-            openInterest: call.openInterest?.raw,
-            bid: call.bid?.raw,
-            ask: call.ask?.raw,
+            lastPrice: value(call.lastPrice),
+            change: value(call.change),
+            percentChange: value(call.percentChange),
+            volume: value(call.volume),
+            openInterest: value(call.openInterest),
+            bid: value(call.bid),
+            ask: value(call.ask),
             contractSize: call.contractSize,
-            lastTradeDate: call.lastTradeDate?.raw,
-            impliedVolatility: call.impliedVolatility?.raw,
+            lastTradeDate: value(call.lastTradeDate),
+            impliedVolatility: value(call.impliedVolatility),
             inTheMoney: call.inTheMoney,
           })),
           puts: option.puts?.map((put: any) => ({
             contractSymbol: put.contractSymbol,
-            strike: put.strike?.raw,
+            strike: value(put.strike),
             currency: put.currency,
-            lastPrice: put.lastPrice?.raw,
-            change: put.change?.raw,
-            percentChange: put.percentChange?.raw,
-            volume: put.volume?.raw,
-            openInterest: put.openInterest?.raw,
-            bid: put.bid?.raw,
-            ask: put.ask?.raw,
+            lastPrice: value(put.lastPrice),
+            change: value(put.change),
+            percentChange: value(put.percentChange),
+            volume: value(put.volume),
+            openInterest: value(put.openInterest),
+            bid: value(put.bid),
+            ask: value(put.ask),
             contractSize: put.contractSize,
-            lastTradeDate: put.lastTradeDate?.raw,
-            impliedVolatility: put.impliedVolatility?.raw,
+            lastTradeDate: value(put.lastTradeDate),
+            impliedVolatility: value(put.impliedVolatility),
             inTheMoney: put.inTheMoney,
           })),
         })),
@@ -0,0 +1,344 @@
+/**
+ * News feed ingestion
+ * Feeds come from config/news-feeds.json. Each fetch is conditional on the feed's last
+ * ETag/Last-Modified, so unchanged feeds cost a 304 and serve the items already held.
+ * Health and latency are tracked per feed, and failing feeds back off exponentially.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import fs from 'fs';
+import path from 'path';
+import { loggerUtils } from '../../config/logger.js';
+import { FeedItem, parseFeed } from './FeedParser.js';
+
+export type FeedScope = 'market' | 'symbol' | 'backup';
+
+export interface FeedDefinition {
+  id: string;
+  source: string; // Article source label, e.g. "Reuters"
+  url: string;
+  symbolUrl?: string; // Per-symbol variant with a {symbol} placeholder
+  credibility: number; // 0-1
+  category?: string;
+  symbolCategory?: string;
+  scopes: FeedScope[];
+  enabled?: boolean;
+}
+
+export interface FeedFetchOptions {
+  symbol?: string;
+  limit?: number;
+}
+
+export interface FeedFetchResult {
+  feed: FeedDefinition;
+  url: string;
+  status: 'fetched' | 'not_modified' | 'failed' | 'skipped';
+  items: FeedItem[]; // Last good items when the fetch failed or was skipped
+  latencyMs: number;
+  error?: string;
+}
+
+export interface FeedHealth {
+  id: string;
+  source: string;
+  status: 'healthy' | 'degraded' | 'failing' | 'unknown';
+  fetches: number;
+  notModified: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastSuccess: number | null;
+  lastFailure: number | null;
+  lastError: string | null;
+  lastItemCount: number;
+  latency: { avg: number; p95: number; samples: number };
+  backoffUntil: number | null;
+}
+
+export interface FeedIngestorConfig {
+  feedsPath: string;
+  timeoutMs: number;
+  maxContentLength: number;
+  failuresBeforeBackoff: number;
+  backoffMs: number; // Doubles with each further failure
+  maxBackoffMs: number;
+  latencySamples: number;
+  maxCachedFeeds: number; // Per-symbol URLs each hold validators and items
+}
+
+interface FeedCacheEntry {
+  etag?: string;
+  lastModified?: string;
+  items: FeedItem[];
+  fetchedAt: number;
+}
+
+interface FeedHealthState {
+  fetches: number;
+  notModified: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastSuccess: number | null;
+  lastFailure: number | null;
+  lastError: string | null;
+  lastItemCount: number;
+  latencies: number[];
+  backoffUntil: number | null;
+}
+
+export class FeedIngestor {
+  private config: FeedIngestorConfig;
+  private http: AxiosInstance;
+  private feeds: Map<string, FeedDefinition> = new Map();
+  private cache: Map<string, FeedCacheEntry> = new Map();
+  private health: Map<string, FeedHealthState> = new Map();
+
+  constructor(config: Partial<FeedIngestorConfig> = {}) {
+    this.config = {
+      feedsPath: path.join(process.cwd(), 'config', 'news-feeds.json'),
+      timeoutMs: 10000,
+      maxContentLength: 3 * 1024 * 1024,
+      failuresBeforeBackoff: 3,
+      backoffMs: 5 * 60 * 1000,
+      maxBackoffMs: 60 * 60 * 1000,
+      latencySamples: 50,
+      maxCachedFeeds: 500,
+      ...config,
+    };
+
+    this.http = axios.create({
+      timeout: this.config.timeoutMs,
+      maxContentLength: this.config.maxContentLength,
+      responseType: 'text',
+      transformResponse: [data => data],
+      validateStatus: status => (status >= 200 && status < 300) || status === 304,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; NewsBot/1.0)',
+        'Accept': 'application/rss+xml, application/atom+xml, application/rdf+xml, application/xml;q=0.9, text/xml;q=0.8',
+      },
+    });
+
+    this.reload();
+  }
+
+  /**
+   * Re-read the feeds file. Health and cached items survive for feeds that remain.
+   */
+  reload(): number {
+    try {
+      const file = JSON.parse(fs.readFileSync(this.config.feedsPath, 'utf8'));
+      const feeds = new Map<string, FeedDefinition>();
+
+      for (const feed of file.feeds || []) {
+        if (!feed?.id || !feed?.source || !feed?.url) {
+          loggerUtils.apiLogger.warn('Skipping news feed without id, source or url', { feed });
+          continue;
+        }
+        feeds.set(feed.id, {
+          ...feed,
+          credibility: Math.max(0, Math.min(1, Number(feed.credibility ?? 0.5))),
+          scopes: Array.isArray(feed.scopes) && feed.scopes.length > 0 ? feed.scopes : ['market'],
+        });
+      }
+
+      this.feeds = feeds;
+      loggerUtils.apiLogger.info('News feeds loaded', { feeds: feeds.size, path: this.config.feedsPath });
+    } catch (error) {
+      loggerUtils.apiLogger.warn('News feed config unavailable', {
+        path: this.config.feedsPath,
+        error: (error as Error).message,
+      });
+    }
+
+    return this.feeds.size;
+  }
+
+  get(id: string): FeedDefinition | null {
+    return this.feeds.get(id) || null;
+  }
+
+  /**
+   * Enabled feeds, optionally limited to a scope
+   */
+  list(scope?: FeedScope): FeedDefinition[] {
+    return Array.from(this.feeds.values())
+      .filter(feed => feed.enabled !== false && (!scope || feed.scopes.includes(scope)));
+  }
+
+  /**
+   * Credibility of the feed publishing under a source label, or null for unknown sources
+   */
+  credibilityFor(source: string): number | null {
+    if (!source) return null;
+    const label = source.toLowerCase();
+    const feed = Array.from(this.feeds.values())
+      .find(candidate => candidate.source.toLowerCase() === label || candidate.id === label);
+    return feed ? feed.credibility : null;
+  }
+
+  /**
+   * Fetch every enabled feed in a scope in parallel
+   */
+  async fetchScope(scope: FeedScope, options: FeedFetchOptions = {}): Promise<FeedFetchResult[]> {
+    const feeds = this.list(scope).filter(feed => scope !== 'symbol' || feed.symbolUrl);
+    return Promise.all(feeds.map(feed => this.fetchFeed(feed.id, options)));
+  }
+
+  /**
+   * Fetch one feed. Never throws: failures come back with the last good items.
+   */
+  async fetchFeed(id: string, options: FeedFetchOptions = {}): Promise<FeedFetchResult> {
+    const feed = this.feeds.get(id);
+    if (!feed) {
+      throw new Error(`Unknown news feed: ${id}`);
+    }
+
+    const url = options.symbol && feed.symbolUrl
+      ? feed.symbolUrl.replace('{symbol}', encodeURIComponent(options.symbol.toUpperCase()))
+      : feed.url;
+    const cached = this.cache.get(url);
+    const health = this.healthState(feed.id);
+    const limit = (items: FeedItem[]) => options.limit ? items.slice(0, options.limit) : items;
+
+    if (health.backoffUntil && Date.now() < health.backoffUntil) {
+      return { feed, url, status: 'skipped', items: limit(cached?.items || []), latencyMs: 0, error: health.lastError || undefined };
+    }
+
+    const startTime = Date.now();
+    try {
+      const headers: Record<string, string> = {};
+      if (cached?.etag) headers['If-None-Match'] = cached.etag;
+      if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+      const response = await this.http.get(url, { headers });
+      const latencyMs = Date.now() - startTime;
+
+      if (response.status === 304 && cached) {
+        cached.fetchedAt = Date.now();
+        this.recordSuccess(health, latencyMs, cached.items.length, true);
+        return { feed, url, status: 'not_modified', items: limit(cached.items), latencyMs };
+      }
+
+      const parsed = parseFeed(String(response.data || ''));
+      this.store(url, {
+        etag: response.headers['etag'],
+        lastModified: response.headers['last-modified'],
+        items: parsed.items,
+        fetchedAt: Date.now(),
+      });
+      this.recordSuccess(health, latencyMs, parsed.items.length, false);
+
+      return { feed, url, status: 'fetched', items: limit(parsed.items), latencyMs };
+    } catch (error) {
+      const latencyMs = Date.now() - startTime;
+      const message = (error as Error).message;
+      this.recordFailure(health, latencyMs, message);
+
+      loggerUtils.apiLogger.warn('News feed fetch failed', {
+        feed: feed.id,
+        url,
+        consecutiveFailures: health.consecutiveFailures,
+        error: message,
+      });
+
+      return { feed, url, status: 'failed', items: limit(cached?.items || []), latencyMs, error: message };
+    }
+  }
+
+  /**
+   * Health and latency per configured feed
+   */
+  getHealth(): FeedHealth[] {
+    return Array.from(this.feeds.values()).map(feed => {
+      const state = this.healthState(feed.id);
+      const sorted = [...state.latencies].sort((a, b) => a - b);
+      const avg = sorted.length > 0 ? sorted.reduce((sum, value) => sum + value, 0) / sorted.length : 0;
+      const p95 = sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : 0;
+
+      let status: FeedHealth['status'] = 'unknown';
+      if (state.fetches > 0 || state.failures > 0) {
+        if (state.consecutiveFailures >= this.config.failuresBeforeBackoff) status = 'failing';
+        else if (state.consecutiveFailures > 0) status = 'degraded';
+        else status = 'healthy';
+      }
+
+      return {
+        id: feed.id,
+        source: feed.source,
+        status,
+        fetches: state.fetches,
+        notModified: state.notModified,
+        failures: state.failures,
+        consecutiveFailures: state.consecutiveFailures,
+        lastSuccess: state.lastSuccess,
+        lastFailure: state.lastFailure,
+        lastError: state.lastError,
+        lastItemCount: state.lastItemCount,
+        latency: { avg: Math.round(avg), p95, samples: sorted.length },
+        backoffUntil: state.backoffUntil,
+      };
+    });
+  }
+
+  private healthState(id: string): FeedHealthState {
+    let state = this.health.get(id);
+    if (!state) {
+      state = {
+        fetches: 0,
+        notModified: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        lastSuccess: null,
+        lastFailure: null,
+        lastError: null,
+        lastItemCount: 0,
+        latencies: [],
+        backoffUntil: null,
+      };
+      this.health.set(id, state);
+    }
+    return state;
+  }
+
+  private recordSuccess(state: FeedHealthState, latencyMs: number, itemCount: number, notModified: boolean): void {
+    state.fetches++;
+    if (notModified) state.notModified++;
+    state.consecutiveFailures = 0;
+    state.backoffUntil = null;
+    state.lastSuccess = Date.now();
+    state.lastItemCount = itemCount;
+    this.recordLatency(state, latencyMs);
+  }
+
+  private recordFailure(state: FeedHealthState, latencyMs: number, message: string): void {
+    state.failures++;
+    state.consecutiveFailures++;
+    state.lastFailure = Date.now();
+    state.lastError = message;
+    this.recordLatency(state, latencyMs);
+
+    const excess = state.consecutiveFailures - this.config.failuresBeforeBackoff;
+    if (excess >= 0) {
+      state.backoffUntil = Date.now() + Math.min(this.config.backoffMs * 2 ** excess, this.config.maxBackoffMs);
+    }
+  }
+
+  private recordLatency(state: FeedHealthState, latencyMs: number): void {
+    state.latencies.push(latencyMs);
+    if (state.latencies.length > this.config.latencySamples) {
+      state.latencies.shift();
+    }
+  }
+
+  private store(url: string, entry: FeedCacheEntry): void {
+    this.cache.delete(url);
+    this.cache.set(url, entry);
+    while (this.cache.size > this.config.maxCachedFeeds) {
+      this.cache.delete(this.cache.keys().next().value);
+    }
+  }
+}
+
+// Export singleton instance
+export const feedIngestor = new FeedIngestor();
+export default feedIngestor;
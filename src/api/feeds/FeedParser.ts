@@ -0,0 +1,100 @@
+/**
+ * Syndication feed parser
+ * Reads RSS 2.0, Atom 1.0 and RSS 1.0 (RDF) documents into one item shape.
+ */
+
+import { load } from 'cheerio';
+
+export type FeedFormat = 'rss' | 'atom' | 'rdf';
+
+export interface FeedItem {
+  id: string; // guid/id when present, otherwise the link
+  title: string;
+  url: string;
+  summary: string; // Plain text; markup in descriptions is stripped
+  publishedAt?: string; // ISO, when the feed dates its items
+  author?: string;
+  categories: string[];
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title: string;
+  items: FeedItem[];
+}
+
+type Root = ReturnType<typeof load>;
+
+/**
+ * Parse a feed document, throwing when it is not a recognizable feed
+ */
+export function parseFeed(xml: string): ParsedFeed {
+  const $ = load(xml, { xml: true });
+
+  if ($('feed > entry').length > 0 || $('feed').length > 0) {
+    return { format: 'atom', title: text($, $('feed > title').first()), items: parseAtom($) };
+  }
+  if ($('rdf\\:RDF').length > 0) {
+    return { format: 'rdf', title: text($, $('channel > title').first()), items: parseItems($, 'rdf\\:RDF > item') };
+  }
+  if ($('rss').length > 0 || $('channel > item').length > 0) {
+    return { format: 'rss', title: text($, $('channel > title').first()), items: parseItems($, 'channel > item') };
+  }
+
+  throw new Error('Document is not an RSS, Atom or RDF feed');
+}
+
+// RSS 2.0 and RSS 1.0 share element names apart from dates and authors
+function parseItems($: Root, selector: string): FeedItem[] {
+  return $(selector).map((_, element) => {
+    const $item = $(element);
+    const url = text($, $item.children('link').first()) || $item.attr('rdf:about') || '';
+    const guid = text($, $item.children('guid').first());
+
+    return {
+      id: guid || url,
+      title: text($, $item.children('title').first()),
+      url,
+      summary: stripMarkup(text($, $item.children('description').first())
+        || text($, $item.children('content\\:encoded').first())),
+      publishedAt: toIso(text($, $item.children('pubDate').first()) || text($, $item.children('dc\\:date').first())),
+      author: text($, $item.children('dc\\:creator').first()) || text($, $item.children('author').first()) || undefined,
+      categories: $item.children('category, dc\\:subject').map((_, category) => text($, $(category))).get().filter(Boolean),
+    };
+  }).get().filter((item: FeedItem) => item.title && item.url);
+}
+
+function parseAtom($: Root): FeedItem[] {
+  return $('feed > entry').map((_, element) => {
+    const $entry = $(element);
+    const links = $entry.children('link');
+    const alternate = links.filter((_, link) => !$(link).attr('rel') || $(link).attr('rel') === 'alternate').first();
+    const url = (alternate.length > 0 ? alternate : links.first()).attr('href') || '';
+
+    return {
+      id: text($, $entry.children('id').first()) || url,
+      title: stripMarkup(text($, $entry.children('title').first())),
+      url,
+      summary: stripMarkup(text($, $entry.children('summary').first()) || text($, $entry.children('content').first())),
+      publishedAt: toIso(text($, $entry.children('published').first()) || text($, $entry.children('updated').first())),
+      author: text($, $entry.find('author > name').first()) || undefined,
+      categories: $entry.children('category').map((_, category) => $(category).attr('term') || '').get().filter(Boolean),
+    };
+  }).get().filter((item: FeedItem) => item.title && item.url);
+}
+
+function text($: Root, element: ReturnType<Root>): string {
+  return element.length > 0 ? element.text().replace(/\s+/g, ' ').trim() : '';
+}
+
+// Descriptions often carry escaped HTML (images, links, "Continue reading")
+function stripMarkup(value: string): string {
+  if (!value || !/[<&]/.test(value)) return value;
+  return load(value).root().text().replace(/\s+/g, ' ').trim();
+}
+
+function toIso(value: string): string | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
@@ -0,0 +1,632 @@
+/**
+ * Built-in data providers
+ * Client settings, supported data types and normalizers for every bundled API client.
+ * In-house feeds follow the same shape and are loaded through DATA_PROVIDER_PLUGINS.
+ */
+
+import { ProviderPlugin, providerRegistry } from '../ProviderRegistry.js';
+import { BaseClient } from '../BaseClient.js';
+import { DataHub } from '../DataHub.js';
+import { FinnhubClient } from '../clients/FinnhubClient.js';
+import { PolygonClient } from '../clients/PolygonClient.js';
+import { AlphaVantageClient } from '../clients/AlphaVantageClient.js';
+import { QuiverClient } from '../clients/QuiverClient.js';
+import { YahooFinanceClient } from '../clients/YahooFinanceClient.js';
+import { GoogleTrendsClient } from '../clients/GoogleTrendsClient.js';
+import { SECEdgarClient } from '../clients/SECEdgarClient.js';
+import { NewsScraperClient } from '../clients/NewsScraperClient.js';
+import { BackupDataClient } from '../clients/BackupDataClient.js';
+import { OpenFigiClient } from '../clients/OpenFigiClient.js';
+import { BlsClient } from '../clients/BlsClient.js';
+import { XbrlFinancialsNormalizer } from '../../preprocessing/XbrlFinancialsNormalizer.js';
+import { OptionChainNormalizer } from '../../preprocessing/OptionChainNormalizer.js';
+import { OnChainNormalizer } from '../../preprocessing/OnChainNormalizer.js';
+import { AssetClass, NormalizedQuote, NormalizedNews, NormalizedProfile, NormalizedShortData } from '../../types/data.js';
+import { getAssetInfo } from '../../market/AssetClasses.js';
+import { loggerUtils } from '../../config/logger.js';
+import env from '../../config/env.js';
+
+const OPTION_CHAIN_EXPIRIES = 4; // Expiries merged per Yahoo chain for term structure
+
+const xbrlNormalizer = new XbrlFinancialsNormalizer();
+const optionChainNormalizer = new OptionChainNormalizer();
+const onChainNormalizer = new OnChainNormalizer();
+
+const ALL_ASSET_CLASSES: AssetClass[] = ['equity', 'etf', 'crypto', 'fx', 'index'];
+
+/**
+ * Yahoo returns one expiry per request; merge the nearest few
+ */
+const fetchYahooOptionChain = async (client: YahooFinanceClient, symbol: string): Promise<any> => {
+  const chain = await client.getOptions(symbol);
+  const expirations: number[] = (chain.expirationDates || []).slice(1, OPTION_CHAIN_EXPIRIES);
+
+  for (const expiration of expirations) {
+    try {
+      const next = await client.getOptions(symbol, expiration);
+      chain.options = [...(chain.options || []), ...(next.options || [])];
+    } catch (error) {
+      loggerUtils.apiLogger.debug('Skipping option expiry', {
+        symbol,
+        expiration,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  return chain;
+};
+
+/**
+ * Short data is stored as history, so the latest snapshot is read back after ingesting
+ */
+const fetchShortData = async (provider: string, client: BaseClient, symbol: string, dataHub: DataHub): Promise<NormalizedShortData> => {
+  await dataHub.shortInterest.ingestFrom(provider, client, symbol);
+  const shortData = await dataHub.shortInterest.getShortData(symbol, { refresh: false });
+  if (!shortData) {
+    throw new Error(`No short interest available for ${symbol}`);
+  }
+  return shortData;
+};
+
+/**
+ * Scraped and backup articles share one shape; DataProcessor assigns the category
+ */
+const normalizeArticle = (provider: string) => (item: any, symbol: string): Omit<NormalizedNews, 'category'> => ({
+  type: 'news',
+  symbol: symbol || item.symbols?.[0] || '',
+  timestamp: Date.now(),
+  source: providerRegistry.describe(provider, 'news'),
+  reliability: providerRegistry.get(provider)?.reliability ?? 0.6,
+  headline: item.title || '',
+  summary: item.description || '',
+  url: item.url || '',
+  publishedAt: Date.parse(item.publishedAt) || Date.now(),
+  relevance: item.symbols?.includes(symbol) ? 0.8 : 0.6,
+  language: 'en',
+});
+
+export const finnhubProvider: ProviderPlugin = {
+  name: 'finnhub',
+  costTier: 'paid',
+  reliability: 0.9,
+  // Off unless FINNHUB_ENABLED is set, after SSL errors against finnhub.io
+  createClient: () => env.FINNHUB_ENABLED && env.FINNHUB_API_KEY ? new FinnhubClient({
+    name: 'Finnhub',
+    baseURL: 'https://finnhub.io/api/v1',
+    timeout: 10000,
+    headers: {},
+    retry: {
+      maxRetries: 3,
+      baseDelay: 1000,
+      maxDelay: 10000,
+      backoffMultiplier: 2,
+      retryableStatusCodes: [429, 500, 502, 503, 504],
+    },
+    rateLimit: {
+      requestsPerSecond: 1,
+      requestsPerMinute: 60,
+      requestsPerHour: 3600,
+      burstLimit: 5,
+      queueLimit: 100,
+    },
+    cache: {
+      defaultTTL: 300,
+      maxSize: 1000,
+      keyPrefix: 'finnhub',
+      policies: {
+        '/quote': { staleTTL: 30 },
+      },
+    },
+    circuitBreaker: {
+      failureThreshold: 5,
+      resetTimeout: 60000,
+      monitoringPeriod: 300000,
+    },
+  }) : null,
+  dataTypes: {
+    quote: { fetch: (client, symbol) => (client as FinnhubClient).getQuote(symbol) },
+    profile: { fetch: (client, symbol) => (client as FinnhubClient).getCompanyProfile(symbol) },
+    news: { fetch: (client, symbol) => (client as FinnhubClient).getCompanyNews(symbol) },
+  },
+};
+
+export const polygonProvider: ProviderPlugin = {
+  name: 'polygon',
+  costTier: 'paid',
+  reliability: 0.85,
+  createClient: () => env.POLYGON_API_KEY ? new PolygonClient({
+    name: 'Polygon',
+    baseURL: 'https://api.polygon.io',
+    timeout: 15000,
+    headers: {},
+    retry: {
+      maxRetries: 2,
+      baseDelay: 2000,
+      maxDelay: 15000,
+      backoffMultiplier: 2,
+      retryableStatusCodes: [429, 500, 502, 503, 504],
+    },
+    rateLimit: {
+      requestsPerSecond: 0.1, // 5 per minute for free tier
+      requestsPerMinute: 5,
+      requestsPerHour: 300,
+      burstLimit: 2,
+      queueLimit: 50,
+    },
+    cache: {
+      defaultTTL: 600,
+      maxSize: 500,
+      keyPrefix: 'polygon',
+      policies: {
+        '/v2/last/trade': { staleTTL: 30 },
+        '/v3/snapshot/options': { staleTTL: 120 },
+      },
+    },
+    circuitBreaker: {
+      failureThreshold: 3,
+      resetTimeout: 120000,
+      monitoringPeriod: 300000,
+    },
+  }) : null,
+  dataTypes: {
+    quote: { fetch: (client, symbol) => (client as PolygonClient).getLastTrade(symbol) },
+    financials: { fetch: (client, symbol) => (client as PolygonClient).getFinancials(symbol, 'annual', 1) },
+    options: {
+      fetch: (client, symbol) => {
+        const expiryLimit = new Date(Date.now() + 60 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+        return (client as PolygonClient).getOptionChainSnapshot(symbol, expiryLimit);
+      },
+      normalize: (snapshot, symbol) => optionChainNormalizer.normalize(symbol, snapshot),
+    },
+  },
+};
+
+export const alphaVantageProvider: ProviderPlugin = {
+  name: 'alphavantage',
+  costTier: 'paid',
+  sourceId: 'alpha_vantage',
+  reliability: 0.8,
+  createClient: () => env.ALPHA_VANTAGE_API_KEY ? new AlphaVantageClient({
+    name: 'AlphaVantage',
+    baseURL: 'https://www.alphavantage.co/query',
+    timeout: 5000, // Reduced from 20000ms for faster pipeline execution
+    headers: {},
+    retry: {
+      maxRetries: 2,
+      baseDelay: 3000,
+      maxDelay: 20000,
+      backoffMultiplier: 2,
+      retryableStatusCodes: [429, 500, 502, 503, 504],
+    },
+    rateLimit: {
+      requestsPerSecond: 0.08, // 5 per minute for free tier
+      requestsPerMinute: 5,
+      requestsPerHour: 500,
+      burstLimit: 1,
+      queueLimit: 25,
+    },
+    cache: {
+      defaultTTL: 1800,
+      maxSize: 300,
+      keyPrefix: 'alphavantage',
+    },
+    circuitBreaker: {
+      failureThreshold: 3,
+      resetTimeout: 300000,
+      monitoringPeriod: 600000,
+    },
+  }) : null,
+  dataTypes: {
+    quote: { fetch: (client, symbol) => (client as AlphaVantageClient).getGlobalQuote(symbol), role: 'fallback' },
+    profile: { fetch: (client, symbol) => (client as AlphaVantageClient).getCompanyOverview(symbol) },
+    // Statement detail beats Polygon's single filing
+    financials: { fetch: (client, symbol) => (client as AlphaVantageClient).getIncomeStatement(symbol), rank: 50 },
+  },
+};
+
+export const quiverProvider: ProviderPlugin = {
+  name: 'quiver',
+  costTier: 'paid',
+  reliability: 0.8,
+  createClient: () => env.QUIVER_API_KEY ? new QuiverClient({
+    name: 'Quiver',
+    baseURL: 'https://api.quiverquant.com/beta',
+    timeout: 15000,
+    headers: {},
+    retry: {
+      maxRetries: 3,
+      baseDelay: 1000,
+      maxDelay: 10000,
+      backoffMultiplier: 2,
+      retryableStatusCodes: [429, 500, 502, 503, 504],
+    },
+    rateLimit: {
+      requestsPerSecond: 5,
+      requestsPerMinute: 300,
+      requestsPerHour: 18000,
+      burstLimit: 10,
+      queueLimit: 200,
+    },
+    cache: {
+      defaultTTL: 3600,
+      maxSize: 1000,
+      keyPrefix: 'quiver',
+    },
+    circuitBreaker: {
+      failureThreshold: 5,
+      resetTimeout: 60000,
+      monitoringPeriod: 300000,
+    },
+  }) : null,
+  dataTypes: {
+    insider: { fetch: (client, symbol) => (client as QuiverClient).getInsiderTrading(symbol) },
+    congressional: { fetch: (client, symbol) => (client as QuiverClient).getCongressionalTrading(symbol) },
+    sentiment: { fetch: (client, symbol) => (client as QuiverClient).getSentimentData(symbol) },
+    short: { fetch: (client, symbol, { dataHub }) => fetchShortData('quiver', client, symbol, dataHub) },
+    // Quiver keys wallets by coin (BTC); the rows are summarized as one data point per asset
+    onchain: {
+      fetch: async (client, symbol) => onChainNormalizer.normalize(symbol, await (client as QuiverClient).getCryptoWallets(symbol)),
+      assetClasses: ['crypto'],
+    },
+  },
+};
+
+export const yahooProvider: ProviderPlugin = {
+  name: 'yahoo',
+  costTier: 'free',
+  reliability: 0.75,
+  createClient: () => new YahooFinanceClient({
+    name: 'YahooFinance',
+    baseURL: 'https://query1.finance.yahoo.com',
+    timeout: 10000,
+    headers: {},
+    retry: {
+      maxRetries: 3,
+      baseDelay: 2000,
+      maxDelay: 15000,
+      backoffMultiplier: 2,
+      retryableStatusCodes: [429, 500, 502, 503, 504],
+    },
+    rateLimit: {
+      requestsPerSecond: 2,
+      requestsPerMinute: 120,
+      requestsPerHour: 7200,
+      burstLimit: 5,
+      queueLimit: 100,
+    },
+    cache: {
+      defaultTTL: 300,
+      maxSize: 1000,
+      keyPrefix: 'yahoo',
+      policies: {
+        '/v8/finance/chart': { staleTTL: 30 },
+        '/v7/finance/options': { staleTTL: 120 },
+      },
+    },
+  }),
+  dataTypes: {
+    quote: {
+      fetch: (client, symbol) => (client as YahooFinanceClient).getQuote(symbol),
+      assetClasses: ALL_ASSET_CLASSES,
+      normalize: (item, symbol): NormalizedQuote => ({
+        type: 'quote',
+        symbol: symbol || item.symbol || '',
+        timestamp: item.timestamp ? item.timestamp * 1000 : Date.now(),
+        source: providerRegistry.describe('yahoo', 'chart'),
+        reliability: 0.75,
+        price: item.price || 0,
+        change: item.change || 0,
+        changePercent: item.changePercent || 0,
+        volume: item.volume || 0,
+        high: item.high || 0,
+        low: item.low || 0,
+        open: 0, // Chart metadata carries no session open
+        previousClose: item.previousClose || 0,
+        marketCap: item.marketCap,
+        currency: item.currency || 'USD',
+        exchange: item.exchange || 'UNKNOWN',
+      }),
+    },
+    profile: {
+      fetch: (client, symbol) => (client as YahooFinanceClient).getCompanyInfo(symbol),
+      normalize: (item, symbol): NormalizedProfile => ({
+        type: 'profile',
+        symbol: symbol || item.symbol || '',
+        timestamp: Date.now(),
+        source: providerRegistry.describe('yahoo', 'quoteSummary'),
+        reliability: 0.75,
+        name: item.name || '',
+        description: item.description || '',
+        sector: item.sector || '',
+        industry: item.industry || '',
+        country: item.country || '',
+        currency: 'USD',
+        exchange: 'UNKNOWN',
+        marketCap: item.marketCap || 0,
+        employees: item.employees,
+        website: item.website,
+      }),
+    },
+    options: {
+      fetch: (client, symbol) => fetchYahooOptionChain(client as YahooFinanceClient, symbol),
+      normalize: (chain, symbol) => optionChainNormalizer.normalize(symbol, chain),
+    },
+    short: { fetch: (client, symbol, { dataHub }) => fetchShortData('yahoo', client, symbol, dataHub) },
+  },
+};
+
+export const googleTrendsProvider: ProviderPlugin = {
+  name: 'trends',
+  costTier: 'free',
+  // People search for "BTC", not "BTC-USD"
+  symbolFor: symbol => {
+    const asset = getAssetInfo(symbol);
+    return asset.assetClass === 'crypto' ? asset.baseAsset : asset.symbol;
+  },
+  createClient: () => new GoogleTrendsClient({
+    name: 'GoogleTrends',
+    baseURL: 'https://trends.google.com',
+    timeout: 15000,
+    headers: {},
+    retry: {
+      maxRetries: 2,
+      baseDelay: 5000,
+      maxDelay: 30000,
+      backoffMultiplier: 2,
+      retryableStatusCodes: [429, 500, 502, 503, 504],
+    },
+    rateLimit: {
+      requestsPerSecond: 0.1,
+      requestsPerMinute: 6,
+      requestsPerHour: 360,
+      burstLimit: 1,
+      queueLimit: 20,
+    },
+    cache: {
+      defaultTTL: 7200, // 2 hours for trends data
+      maxSize: 200,
+      keyPrefix: 'trends',
+    },
+  }),
+  dataTypes: {
+    trends: {
+      fetch: (client, symbol) => (client as GoogleTrendsClient).getSymbolTrends(symbol),
+      assetClasses: ['equity', 'etf', 'crypto'],
+    },
+  },
+};
+
+export const secEdgarProvider: ProviderPlugin = {
+  name: 'sec',
+  costTier: 'free',
+  reliability: 0.9,
+  createClient: () => new SECEdgarClient({
+    name: 'SEC_EDGAR',
+    baseURL: 'https://data.sec.gov',
+    timeout: 30000,
+    headers: {
+      'User-Agent': 'StockGenius info@stockgenius.com',
+    },
+    retry: {
+      maxRetries: 2,
+      baseDelay: 10000,
+      maxDelay: 60000,
+      backoffMultiplier: 2,
+      retryableStatusCodes: [429, 500, 502, 503, 504],
+    },
+    rateLimit: {
+      requestsPerSecond: 0.1, // Be very respectful to SEC
+      requestsPerMinute: 6,
+      requestsPerHour: 360,
+      burstLimit: 1,
+      queueLimit: 10,
+    },
+    cache: {
+      defaultTTL: 86400, // 24 hours for SEC filings
+      maxSize: 100,
+      keyPrefix: 'sec',
+      // These change rarely or never; a week-old copy beats waiting on EDGAR's rate limit.
+      // Submissions stay fresh-only so new filings are never hidden behind a stale list.
+      policies: {
+        '/files/company_tickers': { staleTTL: 86400 * 7 },
+        '/api/xbrl/companyfacts': { staleTTL: 86400 * 7 },
+        '/Archives/edgar/data': { staleTTL: 86400 * 7 },
+      },
+    },
+  }),
+  dataTypes: {
+    // Consensus compares SEC figures as normalized statements, so they are built at fetch time
+    financials: {
+      fetch: async (client, symbol) => xbrlNormalizer.normalize(symbol, await (client as SECEdgarClient).getCompanyFacts(symbol)),
+    },
+    insider: { fetch: (client, symbol) => (client as SECEdgarClient).getInsiderTransactions(symbol) },
+    institutional: {
+      role: 'primary',
+      fetch: async (client, symbol, { dataHub }) => {
+        const ownership = await dataHub.institutionalHoldings.getSymbolOwnership(symbol);
+        if (!ownership) {
+          throw new Error(`No 13F holdings available for ${symbol}`);
+        }
+        return ownership;
+      },
+    },
+    filings: { fetch: (client, symbol) => (client as SECEdgarClient).getCompanyFilings(symbol) },
+  },
+};
+
+// Identifier mapping only; SecurityMaster uses it to resolve 13F CUSIPs to tickers
+export const openFigiProvider: ProviderPlugin = {
+  name: 'openfigi',
+  costTier: 'free',
+  createClient: () => new OpenFigiClient({
+    name: 'OpenFIGI',
+    baseURL: 'https://api.openfigi.com',
+    timeout: 15000,
+    headers: env.OPENFIGI_API_KEY ? { 'X-OPENFIGI-APIKEY': env.OPENFIGI_API_KEY } : {},
+    retry: {
+      maxRetries: 2,
+      baseDelay: 6000,
+      maxDelay: 60000,
+      backoffMultiplier: 2,
+      retryableStatusCodes: [429, 500, 502, 503, 504],
+    },
+    rateLimit: env.OPENFIGI_API_KEY
+      ? { requestsPerSecond: 4, requestsPerMinute: 250, requestsPerHour: 15000, burstLimit: 5, queueLimit: 50 }
+      : { requestsPerSecond: 0.4, requestsPerMinute: 25, requestsPerHour: 1500, burstLimit: 1, queueLimit: 50 },
+    cache: {
+      defaultTTL: 86400,
+      maxSize: 100,
+      keyPrefix: 'openfigi',
+    },
+  }, env.OPENFIGI_API_KEY ? 100 : 10),
+  dataTypes: {},
+};
+
+// Macro series only; the economic calendar takes seasonally adjusted CPI from it
+export const blsProvider: ProviderPlugin = {
+  name: 'bls',
+  costTier: 'free',
+  createClient: () => new BlsClient({
+    name: 'BLS',
+    baseURL: 'https://api.bls.gov',
+    timeout: 15000,
+    headers: {},
+    retry: {
+      maxRetries: 2,
+      baseDelay: 5000,
+      maxDelay: 30000,
+      backoffMultiplier: 2,
+      retryableStatusCodes: [429, 500, 502, 503, 504],
+    },
+    rateLimit: {
+      requestsPerSecond: 0.5,
+      requestsPerMinute: 10,
+      requestsPerHour: 20, // v1 allows 25 queries a day
+      burstLimit: 1,
+      queueLimit: 10,
+    },
+    cache: {
+      defaultTTL: 86400,
+      maxSize: 20,
+      keyPrefix: 'bls',
+    },
+  }),
+  dataTypes: {},
+};
+
+export const newsScraperProvider: ProviderPlugin = {
+  name: 'newsscraper',
+  costTier: 'free',
+  reliability: 0.6,
+  createClient: () => new NewsScraperClient({
+    name: 'NewsScraper',
+    baseURL: '', // Multiple URLs
+    timeout: 15000,
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (compatible; StockGenius/1.0)',
+    },
+    retry: {
+      maxRetries: 2,
+      baseDelay: 3000,
+      maxDelay: 20000,
+      backoffMultiplier: 2,
+      retryableStatusCodes: [429, 500, 502, 503, 504],
+    },
+    rateLimit: {
+      requestsPerSecond: 0.2,
+      requestsPerMinute: 12,
+      requestsPerHour: 720,
+      burstLimit: 2,
+      queueLimit: 30,
+    },
+    cache: {
+      defaultTTL: 1800, // 30 minutes for scraped news
+      maxSize: 500,
+      keyPrefix: 'newsscraper',
+    },
+  }),
+  dataTypes: {
+    news: {
+      fetch: (client, symbol) => (client as NewsScraperClient).scrapeSymbolNews(symbol),
+      normalize: normalizeArticle('newsscraper'),
+      assetClasses: ALL_ASSET_CLASSES,
+    },
+    sentiment: { fetch: (client, symbol) => (client as NewsScraperClient).analyzeSentiment(symbol) },
+  },
+};
+
+// Last resort for quotes and news
+export const backupProvider: ProviderPlugin = {
+  name: 'backup',
+  costTier: 'free',
+  reliability: 0.5,
+  createClient: () => new BackupDataClient({
+    name: 'BackupData',
+    baseURL: '', // Multiple URLs
+    timeout: 10000,
+    headers: {},
+    retry: {
+      maxRetries: 1,
+      baseDelay: 1000,
+      maxDelay: 5000,
+      backoffMultiplier: 1.5,
+      retryableStatusCodes: [429, 500, 502, 503, 504],
+    },
+    rateLimit: {
+      requestsPerSecond: 1,
+      requestsPerMinute: 60,
+      requestsPerHour: 3600,
+      burstLimit: 3,
+      queueLimit: 50,
+    },
+    cache: {
+      defaultTTL: 900, // 15 minutes for backup data
+      maxSize: 200,
+      keyPrefix: 'backup',
+    },
+  }),
+  dataTypes: {
+    quote: {
+      fetch: (client, symbol) => (client as BackupDataClient).getStockData(symbol),
+      normalize: (item, symbol): NormalizedQuote => ({
+        type: 'quote',
+        symbol: symbol || item.symbol || '',
+        timestamp: Date.parse(item.timestamp) || Date.now(),
+        source: providerRegistry.describe('backup', item.source || 'quote'),
+        reliability: 0.5,
+        price: item.price || 0,
+        change: item.change || 0,
+        changePercent: item.changePercent || 0,
+        volume: item.volume || 0,
+        // Only the last price is known
+        high: item.price || 0,
+        low: item.price || 0,
+        open: item.price || 0,
+        previousClose: (item.price || 0) - (item.change || 0),
+        marketCap: item.marketCap,
+        currency: 'USD',
+        exchange: 'UNKNOWN',
+      }),
+    },
+    news: {
+      fetch: (client, symbol) => (client as BackupDataClient).getNewsData(symbol),
+      normalize: normalizeArticle('backup'),
+    },
+  },
+};
+
+// Registration order breaks priority ties
+export const builtinProviders: ProviderPlugin[] = [
+  finnhubProvider,
+  polygonProvider,
+  alphaVantageProvider,
+  quiverProvider,
+  yahooProvider,
+  googleTrendsProvider,
+  secEdgarProvider,
+  openFigiProvider,
+  blsProvider,
+  newsScraperProvider,
+  backupProvider,
+];
@@ -0,0 +1,474 @@
+/**
+ * Streaming quote subsystem
+ * Keeps websocket subscriptions to trade/quote feeds alive (reconnect, resubscribe, heartbeats)
+ * and publishes NormalizedQuote updates backed by an in-memory last-quote table.
+ */
+
+import { EventEmitter } from 'events';
+import WebSocket from 'ws';
+import { loggerUtils } from '../../config/logger.js';
+import { DataSource, NormalizedQuote } from '../../types/data.js';
+import { exchangeDate } from '../../market/BarStore.js';
+import { StreamProtocol, StreamTick } from './StreamProtocols.js';
+
+export interface QuoteStreamFeedConfig {
+  name: string;
+  protocol: StreamProtocol;
+  url: string;
+  apiKey?: string;
+}
+
+export interface QuoteStreamConfig {
+  feeds: QuoteStreamFeedConfig[];
+  heartbeatInterval: number; // ms between pings
+  heartbeatTimeout: number; // ms without any traffic before the socket is considered dead
+  reconnectBaseDelay: number;
+  reconnectMaxDelay: number;
+}
+
+export type StreamState = 'idle' | 'connecting' | 'connected' | 'ready' | 'disconnected' | 'stopped';
+
+export interface StreamStatus {
+  feed: string;
+  state: StreamState;
+  subscriptions: number;
+  reconnectAttempts: number;
+  lastMessageAt: number | null;
+  lastError?: string;
+}
+
+export interface StreamHeartbeat {
+  feed: string;
+  timestamp: number;
+  latencyMs: number;
+}
+
+export interface QuoteStreamEvents {
+  quote: (quote: NormalizedQuote) => void;
+  heartbeat: (heartbeat: StreamHeartbeat) => void;
+  status: (status: StreamStatus) => void;
+}
+
+export declare interface QuoteStream {
+  on<E extends keyof QuoteStreamEvents>(event: E, listener: QuoteStreamEvents[E]): this;
+  once<E extends keyof QuoteStreamEvents>(event: E, listener: QuoteStreamEvents[E]): this;
+  off<E extends keyof QuoteStreamEvents>(event: E, listener: QuoteStreamEvents[E]): this;
+  emit<E extends keyof QuoteStreamEvents>(event: E, ...args: Parameters<QuoteStreamEvents[E]>): boolean;
+}
+
+/**
+ * One websocket feed with its own reconnect and heartbeat cycle
+ */
+class StreamConnection extends EventEmitter {
+  private feed: QuoteStreamFeedConfig;
+  private config: QuoteStreamConfig;
+  private socket: WebSocket | null = null;
+  private state: StreamState = 'idle';
+  private subscriptions: Set<string> = new Set();
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private lastMessageAt: number | null = null;
+  private lastPingAt = 0;
+  private lastError?: string;
+
+  constructor(feed: QuoteStreamFeedConfig, config: QuoteStreamConfig) {
+    super();
+    this.feed = feed;
+    this.config = config;
+  }
+
+  start(): void {
+    if (this.state !== 'idle' && this.state !== 'stopped') return;
+    this.connect();
+  }
+
+  stop(): void {
+    this.setState('stopped');
+    this.clearTimers();
+
+    if (this.socket) {
+      this.socket.removeAllListeners();
+      this.socket.on('error', () => undefined);
+      this.socket.terminate();
+      this.socket = null;
+    }
+  }
+
+  subscribe(symbols: string[]): void {
+    const added = symbols.filter(symbol => !this.subscriptions.has(symbol));
+    added.forEach(symbol => this.subscriptions.add(symbol));
+
+    if (this.state === 'ready') {
+      this.send(this.feed.protocol.subscribeMessages(added));
+    }
+  }
+
+  unsubscribe(symbols: string[]): void {
+    const removed = symbols.filter(symbol => this.subscriptions.delete(symbol));
+
+    if (this.state === 'ready') {
+      this.send(this.feed.protocol.unsubscribeMessages(removed));
+    }
+  }
+
+  isReady(): boolean {
+    return this.state === 'ready';
+  }
+
+  getStatus(): StreamStatus {
+    return {
+      feed: this.feed.name,
+      state: this.state,
+      subscriptions: this.subscriptions.size,
+      reconnectAttempts: this.reconnectAttempts,
+      lastMessageAt: this.lastMessageAt,
+      lastError: this.lastError,
+    };
+  }
+
+  private connect(): void {
+    this.setState('connecting');
+
+    const socket = new WebSocket(this.feed.protocol.buildUrl(this.feed.url, this.feed.apiKey));
+    this.socket = socket;
+
+    socket.on('open', () => {
+      this.lastMessageAt = Date.now();
+      this.setState('connected');
+      this.send(this.feed.protocol.openMessages(this.feed.apiKey));
+      this.startHeartbeat();
+
+      if (this.feed.protocol.readyOnOpen) {
+        this.onReady();
+      }
+    });
+
+    socket.on('message', (data: WebSocket.RawData) => {
+      this.lastMessageAt = Date.now();
+      this.handleMessage(data.toString());
+    });
+
+    socket.on('pong', () => {
+      this.lastMessageAt = Date.now();
+      this.emit('heartbeat', {
+        feed: this.feed.name,
+        timestamp: this.lastMessageAt,
+        latencyMs: this.lastMessageAt - this.lastPingAt,
+      });
+    });
+
+    socket.on('error', (error: Error) => {
+      this.lastError = error.message;
+      loggerUtils.apiLogger.warn('Quote stream socket error', {
+        feed: this.feed.name,
+        error: error.message,
+      });
+    });
+
+    socket.on('close', (code: number) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.clearTimers();
+
+      if (this.state === 'stopped') return;
+
+      loggerUtils.apiLogger.warn('Quote stream disconnected', {
+        feed: this.feed.name,
+        code,
+        reconnectAttempts: this.reconnectAttempts,
+      });
+      this.setState('disconnected');
+      this.scheduleReconnect();
+    });
+  }
+
+  private handleMessage(raw: string): void {
+    let parsed;
+    try {
+      parsed = this.feed.protocol.parse(raw);
+    } catch (error) {
+      loggerUtils.apiLogger.warn('Unparseable quote stream message', {
+        feed: this.feed.name,
+        error: (error as Error).message,
+      });
+      return;
+    }
+
+    if (parsed.error) {
+      this.lastError = parsed.error;
+      loggerUtils.apiLogger.error('Quote stream feed error', {
+        feed: this.feed.name,
+        error: parsed.error,
+      });
+    }
+
+    if (parsed.ready && this.state !== 'ready') {
+      this.onReady();
+    }
+
+    for (const tick of parsed.ticks) {
+      this.emit('tick', tick);
+    }
+  }
+
+  /**
+   * Resubscribe everything after (re)connecting
+   */
+  private onReady(): void {
+    this.reconnectAttempts = 0;
+    this.lastError = undefined;
+    this.setState('ready');
+    this.send(this.feed.protocol.subscribeMessages(Array.from(this.subscriptions)));
+  }
+
+  private startHeartbeat(): void {
+    this.heartbeatTimer = setInterval(() => {
+      if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return;
+
+      if (this.lastMessageAt && Date.now() - this.lastMessageAt > this.config.heartbeatTimeout) {
+        loggerUtils.apiLogger.warn('Quote stream heartbeat timed out', { feed: this.feed.name });
+        this.lastError = 'Heartbeat timeout';
+        this.socket.terminate();
+        return;
+      }
+
+      this.lastPingAt = Date.now();
+      this.socket.ping();
+    }, this.config.heartbeatInterval);
+  }
+
+  private scheduleReconnect(): void {
+    const delay = Math.min(
+      this.config.reconnectBaseDelay * Math.pow(2, this.reconnectAttempts),
+      this.config.reconnectMaxDelay
+    );
+    this.reconnectAttempts++;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.state !== 'stopped') this.connect();
+    }, delay + Math.random() * delay * 0.2);
+  }
+
+  private send(messages: any[]): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return;
+    for (const message of messages) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private setState(state: StreamState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.emit('status', this.getStatus());
+  }
+
+  private clearTimers(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+}
+
+export class QuoteStream extends EventEmitter {
+  private config: QuoteStreamConfig;
+  private connections: Map<string, StreamConnection> = new Map();
+  private lastQuotes: Map<string, NormalizedQuote> = new Map();
+  private subscriptions: Map<string, number> = new Map(); // Symbol -> subscriber count
+  private started = false;
+
+  constructor(config: Partial<QuoteStreamConfig> = {}) {
+    super();
+    this.config = {
+      feeds: [],
+      heartbeatInterval: 15000,
+      heartbeatTimeout: 45000,
+      reconnectBaseDelay: 1000,
+      reconnectMaxDelay: 30000,
+      ...config,
+    };
+
+    for (const feed of this.config.feeds) {
+      const connection = new StreamConnection(feed, this.config);
+      connection.on('tick', (tick: StreamTick) => this.applyTick(feed, tick));
+      connection.on('heartbeat', (heartbeat: StreamHeartbeat) => this.emit('heartbeat', heartbeat));
+      connection.on('status', (status: StreamStatus) => this.emit('status', status));
+      this.connections.set(feed.name, connection);
+    }
+  }
+
+  /**
+   * Open all feed connections; symbols subscribed earlier are sent once each feed is ready
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    if (this.connections.size === 0) {
+      loggerUtils.apiLogger.warn('Quote stream started without any configured feeds');
+    }
+
+    this.connections.forEach(connection => connection.start());
+    loggerUtils.apiLogger.info('Quote stream started', {
+      feeds: Array.from(this.connections.keys()),
+      symbols: this.subscriptions.size,
+    });
+  }
+
+  stop(): void {
+    if (!this.started) return;
+    this.started = false;
+    this.connections.forEach(connection => connection.stop());
+    loggerUtils.apiLogger.info('Quote stream stopped');
+  }
+
+  /**
+   * Subscriptions are counted per subscriber; a symbol is sent upstream on its first
+   * subscription and dropped from the feeds once every subscriber has unsubscribed
+   */
+  subscribe(symbols: string[]): void {
+    const added = this.normalize(symbols).filter(symbol => {
+      const count = this.subscriptions.get(symbol) || 0;
+      this.subscriptions.set(symbol, count + 1);
+      return count === 0;
+    });
+
+    if (added.length > 0) {
+      this.connections.forEach(connection => connection.subscribe(added));
+    }
+  }
+
+  unsubscribe(symbols: string[]): void {
+    const removed = this.normalize(symbols).filter(symbol => {
+      const count = this.subscriptions.get(symbol);
+      if (!count) return false;
+
+      if (count > 1) {
+        this.subscriptions.set(symbol, count - 1);
+        return false;
+      }
+      this.subscriptions.delete(symbol);
+      this.lastQuotes.delete(symbol);
+      return true;
+    });
+
+    if (removed.length > 0) {
+      this.connections.forEach(connection => connection.unsubscribe(removed));
+    }
+  }
+
+  getSubscriptions(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  getLastQuote(symbol: string): NormalizedQuote | null {
+    return this.lastQuotes.get(symbol.toUpperCase()) || null;
+  }
+
+  getLastQuotes(): NormalizedQuote[] {
+    return Array.from(this.lastQuotes.values());
+  }
+
+  /**
+   * Seed the table (previous close, session open) from a polled quote or stored bars
+   */
+  seedQuote(quote: NormalizedQuote): void {
+    const symbol = quote.symbol.toUpperCase();
+    const existing = this.lastQuotes.get(symbol);
+    if (existing && existing.timestamp > quote.timestamp) {
+      if (!existing.previousClose && quote.previousClose) {
+        existing.previousClose = quote.previousClose;
+        existing.change = existing.price - quote.previousClose;
+        existing.changePercent = (existing.change / quote.previousClose) * 100;
+      }
+      return;
+    }
+    this.lastQuotes.set(symbol, { ...quote, symbol });
+  }
+
+  getStatus(): StreamStatus[] {
+    return Array.from(this.connections.values()).map(connection => connection.getStatus());
+  }
+
+  isRunning(): boolean {
+    return this.started;
+  }
+
+  /**
+   * Fold a trade or NBBO tick into the last-quote table and publish the result
+   */
+  private applyTick(feed: QuoteStreamFeedConfig, tick: StreamTick): void {
+    const symbol = tick.symbol?.toUpperCase();
+    if (!symbol || !this.subscriptions.has(symbol)) return;
+
+    const existing = this.lastQuotes.get(symbol);
+    // A new exchange date rolls the session: yesterday's last price becomes the previous close
+    const sameSession = existing && exchangeDate(existing.timestamp) === exchangeDate(tick.timestamp);
+    const previousClose = sameSession ? existing.previousClose : existing?.price || 0;
+
+    // Every feed reports the same trades, so volume is only taken from one of them
+    const tradeSize = tick.kind === 'trade' && feed.name === this.volumeFeed() ? tick.size || 0 : 0;
+
+    const mid = tick.bid > 0 && tick.ask > 0 ? (tick.bid + tick.ask) / 2 : undefined;
+    const price = tick.kind === 'trade' ? tick.price : (sameSession && existing.price) || mid;
+    if (!(price > 0)) return;
+
+    const quote: NormalizedQuote = {
+      type: 'quote',
+      symbol,
+      timestamp: Math.max(tick.timestamp, existing?.timestamp || 0),
+      source: this.createDataSource(feed),
+      reliability: 0.95,
+      price,
+      change: previousClose ? price - previousClose : 0,
+      changePercent: previousClose ? ((price - previousClose) / previousClose) * 100 : 0,
+      volume: (sameSession ? existing.volume : 0) + tradeSize,
+      high: sameSession ? Math.max(existing.high || price, price) : price,
+      low: sameSession ? Math.min(existing.low || price, price) : price,
+      open: sameSession && existing.open ? existing.open : price,
+      previousClose,
+      bid: tick.kind === 'quote' ? tick.bid : existing?.bid,
+      ask: tick.kind === 'quote' ? tick.ask : existing?.ask,
+      marketCap: existing?.marketCap,
+      currency: existing?.currency || 'USD',
+      exchange: existing?.exchange || 'UNKNOWN',
+    };
+
+    this.lastQuotes.set(symbol, quote);
+    this.emit('quote', quote);
+  }
+
+  /**
+   * The first configured feed that is ready, falling back to the first feed
+   */
+  private volumeFeed(): string | undefined {
+    const ready = this.config.feeds.find(feed => this.connections.get(feed.name)?.isReady());
+    return (ready || this.config.feeds[0])?.name;
+  }
+
+  private normalize(symbols: string[]): string[] {
+    return Array.from(new Set(symbols.map(symbol => symbol.toUpperCase())));
+  }
+
+  private createDataSource(feed: QuoteStreamFeedConfig): DataSource {
+    return {
+      provider: feed.protocol.name,
+      endpoint: 'websocket',
+      tier: 'paid',
+      reliability: {
+        score: 0.95,
+        factors: { freshness: 1, consistency: 0.9, coverage: 0.9, latency: 1 },
+        lastUpdated: Date.now(),
+        dataQuality: 'high',
+      },
+    };
+  }
+}
+
+export default QuoteStream;
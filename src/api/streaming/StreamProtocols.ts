@@ -0,0 +1,150 @@
+/**
+ * Wire protocols for websocket market data feeds.
+ * Each protocol turns provider messages into normalized trade/quote ticks.
+ */
+
+export interface StreamTick {
+  kind: 'trade' | 'quote';
+  symbol: string;
+  timestamp: number; // ms
+  price?: number;
+  size?: number;
+  bid?: number;
+  ask?: number;
+  bidSize?: number;
+  askSize?: number;
+}
+
+export interface ParsedStreamMessage {
+  ticks: StreamTick[];
+  ready?: boolean; // Feed accepted our credentials and will take subscriptions
+  error?: string;
+}
+
+export interface StreamProtocol {
+  name: 'polygon' | 'finnhub';
+  buildUrl(baseUrl: string, apiKey?: string): string;
+  // Messages to send once the socket opens
+  openMessages(apiKey?: string): any[];
+  // True when the feed is usable as soon as the socket opens
+  readyOnOpen: boolean;
+  subscribeMessages(symbols: string[]): any[];
+  unsubscribeMessages(symbols: string[]): any[];
+  parse(raw: string): ParsedStreamMessage;
+}
+
+/**
+ * Polygon stocks cluster: authenticate, then subscribe to trades (T.*) and NBBO quotes (Q.*)
+ */
+export const polygonProtocol: StreamProtocol = {
+  name: 'polygon',
+  readyOnOpen: false,
+
+  buildUrl(baseUrl: string): string {
+    return baseUrl;
+  },
+
+  openMessages(apiKey?: string): any[] {
+    return [{ action: 'auth', params: apiKey || '' }];
+  },
+
+  subscribeMessages(symbols: string[]): any[] {
+    if (symbols.length === 0) return [];
+    return [{ action: 'subscribe', params: symbols.flatMap(s => [`T.${s}`, `Q.${s}`]).join(',') }];
+  },
+
+  unsubscribeMessages(symbols: string[]): any[] {
+    if (symbols.length === 0) return [];
+    return [{ action: 'unsubscribe', params: symbols.flatMap(s => [`T.${s}`, `Q.${s}`]).join(',') }];
+  },
+
+  parse(raw: string): ParsedStreamMessage {
+    const events = JSON.parse(raw);
+    const result: ParsedStreamMessage = { ticks: [] };
+
+    for (const event of Array.isArray(events) ? events : [events]) {
+      switch (event.ev) {
+        case 'status':
+          if (event.status === 'auth_success') result.ready = true;
+          if (event.status === 'auth_failed' || event.status === 'error') result.error = event.message || event.status;
+          break;
+
+        case 'T':
+          result.ticks.push({
+            kind: 'trade',
+            symbol: event.sym,
+            timestamp: event.t,
+            price: event.p,
+            size: event.s,
+          });
+          break;
+
+        case 'Q':
+          result.ticks.push({
+            kind: 'quote',
+            symbol: event.sym,
+            timestamp: event.t,
+            bid: event.bp,
+            ask: event.ap,
+            bidSize: event.bs,
+            askSize: event.as,
+          });
+          break;
+      }
+    }
+
+    return result;
+  },
+};
+
+/**
+ * Finnhub trades feed: token goes in the URL, one subscribe message per symbol
+ */
+export const finnhubProtocol: StreamProtocol = {
+  name: 'finnhub',
+  readyOnOpen: true,
+
+  buildUrl(baseUrl: string, apiKey?: string): string {
+    if (!apiKey) return baseUrl;
+    return `${baseUrl}${baseUrl.includes('?') ? '&' : '?'}token=${encodeURIComponent(apiKey)}`;
+  },
+
+  openMessages(): any[] {
+    return [];
+  },
+
+  subscribeMessages(symbols: string[]): any[] {
+    return symbols.map(symbol => ({ type: 'subscribe', symbol }));
+  },
+
+  unsubscribeMessages(symbols: string[]): any[] {
+    return symbols.map(symbol => ({ type: 'unsubscribe', symbol }));
+  },
+
+  parse(raw: string): ParsedStreamMessage {
+    const message = JSON.parse(raw);
+
+    if (message.type === 'error') {
+      return { ticks: [], error: message.msg || 'Feed error' };
+    }
+
+    if (message.type !== 'trade' || !Array.isArray(message.data)) {
+      return { ticks: [] };
+    }
+
+    return {
+      ticks: message.data.map((trade: any) => ({
+        kind: 'trade' as const,
+        symbol: trade.s,
+        timestamp: trade.t,
+        price: trade.p,
+        size: trade.v,
+      })),
+    };
+  },
+};
+
+export const streamProtocols: Record<string, StreamProtocol> = {
+  polygon: polygonProtocol,
+  finnhub: finnhubProtocol,
+};
@@ -6,13 +6,18 @@
 import cron from 'node-cron';
 import { loggerUtils } from '../config/logger.js';
 import { DataHub } from '../api/DataHub.js';
-import PromptOrchestrator, { OrchestrationInput, AIModuleName } from '../ai/PromptOrchestrator.js';
+import { cassetteStore, CassetteMode } from '../api/Cassette.js';
+import { securityMaster, sectorKey } from '../market/SecurityMaster.js';
+import { tradingCalendar } from '../market/TradingCalendar.js';
+import PromptOrchestrator, { OrchestrationInput, AIModuleName, ModuleLineage } from '../ai/PromptOrchestrator.js';
 import TradeCardGenerator from '../trading/TradeCardGenerator.js';
 import PerformanceTracker from '../analytics/PerformanceTracker.js';
 
 // Import data preprocessing services
 import { DataProcessor } from '../preprocessing/DataProcessor.js';
 import { DataType } from '../api/DataHub.js';
+import { LineageSource, NormalizedQuote, ProcessedDataPoint } from '../types/data.js';
+import { markSynthetic } from '../core/SyntheticData.js';
 
 // Import collectors
 import RedditCollector from '../collectors/RedditCollector.js';
@@ -51,12 +56,12 @@ export interface PipelineConfig {
     fallbackSymbols: string[]; // Backup symbols if primary watchlist fails
   };
   marketHours: {
-    timezone: string;
-    tradingHours: {
+    timezone: string; // Cron schedule timezone
+    tradingHours?: {
       start: string; // "09:30"
       end: string;   // "16:00"
-    };
-    holidays: string[]; // ISO date strings
+    }; // Superseded by the trading calendar's sessions, which handle early closes
+    holidays?: string[]; // Extra closures (ISO dates) on top of the trading calendar
   };
 }
 
@@ -281,6 +286,10 @@ export class DailyPipeline {
       skipDataCollection?: boolean;
       priority?: 'low' | 'normal' | 'high' | 'urgent';
       notifications?: boolean;
+      cassette?: {
+        mode: CassetteMode;
+        name: string;
+      };
     }
   ): Promise<PipelineExecution> {
     if (this.isRunning) {
@@ -293,6 +302,12 @@ export class DailyPipeline {
       options,
     });
 
+    if (options?.cassette) {
+      return cassetteStore.run(options.cassette, () =>
+        this.runPipeline('manual', 'full', symbols, modules, options)
+      );
+    }
+
     return this.runPipeline('manual', 'full', symbols, modules, options);
   }
 
@@ -533,6 +548,14 @@ export class DailyPipeline {
     const dataQualityScore = totalRecords > 0 ? successfulRecords / totalRecords : 0;
     const success = dataQualityScore >= this.config.failureHandling.partialAnalysisThreshold;
 
+    // Per-symbol data is kept so analysis can cite the fetches behind it
+    const symbolData: Record<string, any> = {};
+    results.forEach(result => {
+      if (result.status === 'fulfilled' && result.value?.success) {
+        symbolData[result.value.symbol] = result.value.data;
+      }
+    });
+
     this.currentExecution!.metrics.symbolsProcessed = symbolsCollected.length;
     this.currentExecution!.metrics.dataSourcesCollected = sourcesCollected.length;
 
@@ -554,6 +577,7 @@ export class DailyPipeline {
       symbolsCollected,
       symbolsFailed,
       dataQualityScore,
+      symbolData,
     };
   }
 
@@ -648,6 +672,7 @@ export class DailyPipeline {
           allowFallbacks: true, // Re-enabled after fixing DataHub timeout issues
           requireValidation: true,
           inputs: await this.prepareModuleInputs(symbol, dataCollectionResult),
+          lineage: this.buildModuleLineage(dataCollectionResult.symbolData?.[symbol]),
         };
 
         const result = await this.orchestrator.orchestrate(orchestrationInput);
@@ -931,27 +956,14 @@ export class DailyPipeline {
    * Market hours and schedule utilities
    */
   private isMarketDay(): boolean {
-    const now = new Date();
-    const day = now.getDay();
-    const dateString = now.toISOString().split('T')[0];
-    
-    // Check if it's a weekday (Monday = 1, Friday = 5)
-    const isWeekday = day >= 1 && day <= 5;
+    const now = Date.now();
+    const isExtraClosure = (this.config.marketHours.holidays || []).includes(tradingCalendar.getTradingDay(now).date);
     
-    // Check if it's not a holiday
-    const isNotHoliday = !this.config.marketHours.holidays.includes(dateString);
-    
-    return isWeekday && isNotHoliday;
+    return tradingCalendar.isTradingDay(now) && !isExtraClosure;
   }
 
   private isMarketOpen(): boolean {
-    if (!this.isMarketDay()) return false;
-    
-    const now = new Date();
-    const timeString = now.toTimeString().substring(0, 5); // "HH:MM"
-    
-    return timeString >= this.config.marketHours.tradingHours.start && 
-           timeString <= this.config.marketHours.tradingHours.end;
+    return this.isMarketDay() && tradingCalendar.isMarketOpen();
   }
 
   private getSymbolsForMode(mode: string): string[] {
@@ -1006,7 +1018,10 @@ export class DailyPipeline {
         historical: response.data.technical || null,
         news: response.data.news || [],
         timestamp: Date.now(),
-        sources: response.metadata.sources || {}
+        sources: response.metadata.sources || {},
+        lineage: Object.fromEntries(
+          Object.entries(response.data).map(([dataType, result]) => [dataType, result.lineage || []])
+        ),
       };
     } catch (error) {
       loggerUtils.aiLogger.warn(`Failed to collect data for ${symbol}`, { error: error.message });
@@ -1022,10 +1037,16 @@ export class DailyPipeline {
   }
 
   private async prepareModuleInputs(symbol: string, dataCollectionResult: any): Promise<any> {
-    const { quote, historical, news } = dataCollectionResult;
+    const { historical, news } = dataCollectionResult;
+    // Quotes arrive per symbol as a processing result; its first point is the quote used
+    const quotePoint: ProcessedDataPoint | undefined = dataCollectionResult.symbolData?.[symbol]?.quote?.data?.[0];
+    const quote = quotePoint?.normalized as NormalizedQuote & Record<string, any> | undefined;
+    const fusion = quote?.price ? { currentPrice: quote.price } : undefined;
+    // A synthetic quote keeps its mark, so cards priced off it are still flagged
+    (quotePoint?.taint || []).forEach(taint => markSynthetic(fusion, taint));
     
-    // Determine sector based on symbol mapping
-    const sectorMapping = this.getSectorForSymbol(symbol);
+    // Determine sector from the security master
+    const sectorMapping = await this.getSectorForSymbol(symbol);
     
     return {
       sector: {
@@ -1069,7 +1090,25 @@ export class DailyPipeline {
         symbol,
         earnings_data: [],
         price_data: historical || []
-      }
+      },
+      fusion,
+    };
+  }
+
+  /**
+   * Fetches behind each module's inputs, following the fields prepareModuleInputs hands out
+   */
+  private buildModuleLineage(symbolData: any): ModuleLineage {
+    const lineage: Record<string, LineageSource[]> = symbolData?.lineage || {};
+    const quote = lineage.quote || [];
+    const technical = lineage.technical || [];
+    const news = lineage.news || [];
+
+    return {
+      sector: [...quote, ...news],
+      risk: quote,
+      technical: [...quote, ...technical],
+      earningsDrift: technical,
     };
   }
 
@@ -1143,22 +1182,9 @@ export class DailyPipeline {
   /**
    * Get sector classification for a symbol
    */
-  private getSectorForSymbol(symbol: string): string {
-    const sectorMap: Record<string, string> = {
-      'AAPL': 'technology', 'MSFT': 'technology', 'GOOGL': 'technology', 'AMZN': 'technology', 
-      'META': 'technology', 'NVDA': 'technology', 'TSLA': 'technology', 'NFLX': 'technology',
-      'ADBE': 'technology', 'CRM': 'technology', 'ORCL': 'technology', 'INTC': 'technology', 'AMD': 'technology',
-      'JPM': 'finance', 'BAC': 'finance', 'WFC': 'finance', 'GS': 'finance', 'MS': 'finance', 
-      'C': 'finance', 'V': 'finance', 'MA': 'finance', 'AXP': 'finance', 'COF': 'finance', 'SCHW': 'finance',
-      'JNJ': 'healthcare', 'PFE': 'healthcare', 'UNH': 'healthcare', 'MRNA': 'healthcare', 'ABBV': 'healthcare',
-      'XOM': 'energy', 'CVX': 'energy', 'COP': 'energy', 'EOG': 'energy', 'SLB': 'energy',
-      'HD': 'consumer_discretionary', 'NKE': 'consumer_discretionary', 'MCD': 'consumer_discretionary', 'SBUX': 'consumer_discretionary',
-      'PG': 'consumer_staples', 'KO': 'consumer_staples', 'PEP': 'consumer_staples', 'WMT': 'consumer_staples',
-      'BA': 'industrials', 'CAT': 'industrials', 'GE': 'industrials', 'UNP': 'industrials',
-      'NEE': 'utilities', 'SO': 'utilities', 'DUK': 'utilities'
-    };
-    
-    return sectorMap[symbol] || 'technology'; // Default to technology
+  private async getSectorForSymbol(symbol: string): Promise<string> {
+    const security = await securityMaster.lookup(symbol);
+    return security?.gicsSector ? sectorKey(security.gicsSector) : 'unclassified';
   }
 
   /**
@@ -4,7 +4,8 @@
 
 import { BaseCollector as IBaseCollector, CollectorConfig, CollectorMetrics, CollectedData } from './types.js';
 import { loggerUtils } from '../config/logger.js';
-import { openAIClient } from '../config/openai.js';
+import { modelRouter } from '../ai/llm/ModelRouter.js';
+import { parseModelJson } from '../ai/llm/LLMProvider.js';
 
 export abstract class BaseCollector implements IBaseCollector {
   public name: string;
@@ -172,16 +173,16 @@ Respond with JSON only:
   "keywords": ["array", "of", "financial", "keywords"]
 }`;
 
-      const response = await openAIClient.chat.completions.create({
-        model: 'gpt-3.5-turbo',
+      const response = await modelRouter.complete({
+        useCase: 'sentiment_analysis',
         messages: [
           { role: 'user', content: prompt }
         ],
-        max_tokens: 200,
+        maxTokens: 200,
         temperature: 0.1,
       });
 
-      const analysis = JSON.parse(response.choices[0].message.content);
+      const analysis = parseModelJson(response.content);
       
       return {
         sentiment: analysis.sentiment || 'neutral',
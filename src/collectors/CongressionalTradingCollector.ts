@@ -6,6 +6,7 @@ import { BaseCollector } from './BaseCollector.js';
 import { CollectedData, CongressionalTrade, CollectorConfig } from './types.js';
 import { loggerUtils } from '../config/logger.js';
 import { DataHub } from '../api/DataHub.js';
+import { earningsCalendar } from '../market/EarningsCalendar.js';
 
 // Export the data type for use in other modules
 export type CongressionalTradingData = CongressionalTrade;
@@ -306,24 +307,17 @@ export class CongressionalTradingCollector extends BaseCollector {
    */
   private async checkEarningsProximity(symbol: string, tradeDate: Date): Promise<number> {
     try {
-      // Get recent earnings data
-      // Skip earnings check since Finnhub is disabled
-      // const earnings = await this.dataHub.finnhubClient.getEarningsCalendar(
-      //   new Date(tradeDate.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-      //   new Date(tradeDate.getTime() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]
-      // );
-      const earnings = null;
-      
-      if (!earnings?.earningsCalendar?.length) return 0;
+      // Report history and upcoming dates from the shared earnings calendar
+      await earningsCalendar.refreshIfStale(symbol);
+      const reports = earningsCalendar.getReports(symbol);
+      if (!reports.length) return 0;
       
       // Find closest earnings date
+      const tradeDay = Date.parse(tradeDate.toISOString().split('T')[0]);
       let minDays = Infinity;
-      earnings.earningsCalendar.forEach((earning: any) => {
-        if (earning.symbol === symbol) {
-          const earningsDate = new Date(earning.date);
-          const daysDiff = Math.abs((tradeDate.getTime() - earningsDate.getTime()) / (1000 * 60 * 60 * 24));
-          minDays = Math.min(minDays, daysDiff);
-        }
+      reports.forEach(report => {
+        const daysDiff = Math.abs((tradeDay - Date.parse(report.reportDate)) / (1000 * 60 * 60 * 24));
+        minDays = Math.min(minDays, daysDiff);
       });
       
       // Score based on proximity (closer = higher score)
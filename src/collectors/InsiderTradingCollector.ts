@@ -6,10 +6,14 @@ import { BaseCollector } from './BaseCollector.js';
 import { CollectedData, InsiderTransaction, CollectorConfig, TradingData } from './types.js';
 import { loggerUtils } from '../config/logger.js';
 import { DataHub } from '../api/DataHub.js';
+import { Form4Transaction } from '../api/clients/SECEdgarClient.js';
 
 // Export the data type for use in other modules
 export type InsiderTradingData = InsiderTransaction;
 
+// Form 4 codes for trades the insider chose to make with their own money
+const DISCRETIONARY_CODES = ['P', 'S'];
+
 export class InsiderTradingCollector extends BaseCollector {
   private dataHub: DataHub;
 
@@ -172,21 +176,25 @@ export class InsiderTradingCollector extends BaseCollector {
       return transactions;
     }
 
-    for (const item of data) {
+    for (const item of data as Form4Transaction[]) {
       try {
         const transaction = await this.createInsiderTransaction({
-          symbol: item.symbol || symbol,
+          symbol: item.issuerSymbol || symbol,
           insiderName: item.reporterName || 'Unknown',
-          insiderTitle: 'Unknown',
-          relationship: 'Unknown',
+          insiderTitle: item.officerTitle || item.relationship || 'Unknown',
+          relationship: item.relationship || 'Unknown',
           quantity: Math.abs(item.shares || 0),
-          value: Math.abs(item.shares * (item.price || 0)) || 0,
-          transactionType: this.normalizeTransactionType(item.transactionType),
+          price: item.price ?? undefined,
+          value: Math.abs(item.value || 0),
+          transactionType: item.transactionType === 'other' ? 'hold' : item.transactionType,
           filingDate: item.filingDate,
-          transactionDate: item.filingDate,
-          secForm: '4',
-          isDirectOwnership: true,
-          sharesOwnedAfter: 0,
+          transactionDate: item.transactionDate || item.filingDate,
+          secForm: item.form,
+          isDirectOwnership: item.directOwnership,
+          sharesOwnedAfter: item.sharesOwnedAfter || 0,
+          transactionCode: item.transactionCode,
+          isDerivative: item.table === 'derivative',
+          isPlannedTrade: item.isPlannedTrade,
           source: 'sec',
         });
         
@@ -219,6 +227,9 @@ export class InsiderTradingCollector extends BaseCollector {
     isDirectOwnership: boolean;
     sharesOwnedAfter: number;
     percentOwned?: number;
+    transactionCode?: string;
+    isDerivative?: boolean;
+    isPlannedTrade?: boolean;
     source: string;
   }): Promise<InsiderTransaction | null> {
     if (!data.symbol || data.quantity <= 0) {
@@ -235,6 +246,8 @@ export class InsiderTradingCollector extends BaseCollector {
       percentOwned: data.percentOwned,
       isDirectOwnership: data.isDirectOwnership,
       timingScore: await this.calculateTimingScore(data.symbol, data.transactionDate),
+      transactionCode: data.transactionCode,
+      isPlannedTrade: data.isPlannedTrade,
     });
 
     // Calculate confidence based on data quality and source
@@ -261,6 +274,9 @@ export class InsiderTradingCollector extends BaseCollector {
       isDirectOwnership: data.isDirectOwnership,
       sharesOwnedAfter: data.sharesOwnedAfter,
       percentOwned: data.percentOwned,
+      transactionCode: data.transactionCode,
+      isDerivative: data.isDerivative,
+      isPlannedTrade: data.isPlannedTrade,
       significance,
       timestamp: this.normalizeTimestamp(data.transactionDate),
       source: `insider-${data.source}`,
@@ -285,8 +301,12 @@ export class InsiderTradingCollector extends BaseCollector {
     percentOwned?: number;
     isDirectOwnership: boolean;
     timingScore: number;
+    transactionCode?: string;
+    isPlannedTrade?: boolean;
   }): Promise<number> {
     let score = 0;
+    // Grants, option exercises, tax withholding and gifts say little about the insider's view
+    const isRoutine = !!factors.transactionCode && !DISCRETIONARY_CODES.includes(factors.transactionCode);
 
     // Transaction value factor (0-0.3)
     if (factors.transactionValue > 0) {
@@ -302,7 +322,9 @@ export class InsiderTradingCollector extends BaseCollector {
     score += positionScore * 0.25;
 
     // Transaction type factor (0-0.2)
-    if (factors.transactionType === 'buy') {
+    if (isRoutine) {
+      // No credit for direction
+    } else if (factors.transactionType === 'buy') {
       score += 0.2; // Insider buying is more significant
     } else if (factors.transactionType === 'sell') {
       score += 0.1; // Selling can be for various reasons
@@ -324,6 +346,13 @@ export class InsiderTradingCollector extends BaseCollector {
     // Timing factor (0-0.05)
     score += factors.timingScore * 0.05;
 
+    if (isRoutine) {
+      score *= 0.4;
+    } else if (factors.isPlannedTrade) {
+      // Scheduled months ahead under a 10b5-1 plan
+      score *= 0.7;
+    }
+
     return this.clamp(score, 0, 1);
   }
 
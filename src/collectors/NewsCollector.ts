@@ -6,6 +6,8 @@ import { BaseCollector } from './BaseCollector.js';
 import { CollectedData, ProcessedNewsItem, CollectorConfig, NewsData } from './types.js';
 import { loggerUtils } from '../config/logger.js';
 import { DataHub } from '../api/DataHub.js';
+import { NewsClusterer } from '../preprocessing/NewsClusterer.js';
+import { feedIngestor } from '../api/feeds/FeedIngestor.js';
 
 // Re-export NewsData for use in other modules
 export type { NewsData };
@@ -38,6 +40,11 @@ export class NewsCollector extends BaseCollector {
     'PR Newswire': 0.60,
   };
 
+  // Article bodies fetched per collection run; the rest cluster on headline and summary
+  private readonly maxBodyFetches = 8;
+  private readonly bodyFetchDeadlineMs = 20000;
+  private readonly clusterer = new NewsClusterer();
+
   constructor(config: CollectorConfig, dataHub: DataHub) {
     super('NewsCollector', config);
     this.dataHub = dataHub;
@@ -128,8 +135,8 @@ export class NewsCollector extends BaseCollector {
         }
       });
 
-      // Remove duplicates and limit
-      return this.deduplicateNews(allNews).slice(0, limit);
+      // Collapse syndicated copies and limit
+      return (await this.clusterNews(allNews)).slice(0, limit);
     } catch (error) {
       loggerUtils.dataLogger.error('Symbol news collection failed', {
         symbol,
@@ -161,7 +168,7 @@ export class NewsCollector extends BaseCollector {
         }
       });
 
-      return this.deduplicateNews(allNews).slice(0, limit);
+      return (await this.clusterNews(allNews)).slice(0, limit);
     } catch (error) {
       loggerUtils.dataLogger.error('Market news collection failed', {
         error: (error as Error).message,
@@ -331,6 +338,7 @@ export class NewsCollector extends BaseCollector {
   private async processNewsItem(newsItem: any, targetSymbol?: string): Promise<ProcessedNewsItem | null> {
     try {
       const content = `${newsItem.title} ${newsItem.summary}`;
+      const fullText = newsItem.body ? `${newsItem.title}\n\n${newsItem.body}` : content;
       
       // Analyze sentiment
       const sentimentResult = await this.dataHub.newsScraperClient?.analyzeSentiment(content);
@@ -375,14 +383,14 @@ export class NewsCollector extends BaseCollector {
         marketImpact,
         hasSymbols: newsItem.symbols.length > 0,
         recency: this.calculateRecency(newsItem.publishedAt),
-        contentQuality: this.assessContentQuality(content),
+        contentQuality: this.assessContentQuality(fullText),
       });
 
       return {
         id: `${newsItem.source}_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
         title: newsItem.title,
         summary: newsItem.summary,
-        content: content,
+        content: fullText,
         url: newsItem.url,
         category: this.categorizeNews(content),
         sentiment,
@@ -397,10 +405,11 @@ export class NewsCollector extends BaseCollector {
         confidence,
         metadata: {
           originalSource: newsItem.originalSource,
-          wordCount: content.split(' ').length,
+          wordCount: fullText.split(/\s+/).length,
           hasImage: !!newsItem.rawData?.image_url,
           publishDelay: this.calculatePublishDelay(newsItem.publishedAt),
           socialMetrics: this.extractSocialMetrics(newsItem.rawData),
+          cluster: newsItem.cluster,
         },
       };
     } catch (error) {
@@ -463,6 +472,12 @@ export class NewsCollector extends BaseCollector {
       impact += 0.1;
     }
     
+    // Amplification: a story carried by several outlets moves more eyes
+    const clusterSize = newsItem.cluster?.size || 1;
+    if (clusterSize > 1) {
+      impact += Math.min(Math.log2(clusterSize), 3) * 0.1;
+    }
+    
     return this.clamp(impact, 0, 1);
   }
 
@@ -496,7 +511,7 @@ export class NewsCollector extends BaseCollector {
    * Get source credibility score
    */
   private getSourceCredibility(source: string): number {
-    return this.sourceCredibility[source] || 0.5;
+    return feedIngestor.credibilityFor(source) ?? this.sourceCredibility[source] ?? 0.5;
   }
 
   /**
@@ -674,20 +689,67 @@ export class NewsCollector extends BaseCollector {
   }
 
   /**
-   * Remove duplicate news items
+   * Cluster near-duplicate stories across sources and keep one canonical item per cluster,
+   * annotated with how many copies were seen and where
    */
-  private deduplicateNews(newsItems: any[]): any[] {
-    const seen = new Set<string>();
-    return newsItems.filter(item => {
-      const key = item.title.toLowerCase().replace(/[^a-z0-9]/g, '').substring(0, 50);
-      if (seen.has(key)) {
-        return false;
-      }
-      seen.add(key);
-      return true;
+  private async clusterNews(newsItems: any[]): Promise<any[]> {
+    await this.fetchArticleBodies(newsItems);
+
+    const clusters = this.clusterer.cluster(newsItems, item => ({
+      text: `${item.title}\n${item.summary}`,
+      body: item.body,
+      url: item.url,
+      source: item.source,
+      credibility: this.getSourceCredibility(item.source),
+      publishedAt: Date.parse(item.publishedAt) || undefined,
+    }));
+
+    return clusters.map(cluster => {
+      // Items from the news scraper arrive already clustered within its own sources
+      const sources = new Set<string>(cluster.sources);
+      let size = 0;
+      cluster.members.forEach(member => {
+        size += member.rawData?.cluster?.size || 1;
+        (member.rawData?.cluster?.sources || []).forEach((source: string) => sources.add(source));
+      });
+
+      return {
+        ...cluster.canonical,
+        body: cluster.canonical.body || cluster.members.find(member => member.body)?.body,
+        cluster: { id: cluster.id, size, sources: Array.from(sources) },
+      };
     });
   }
 
+  /**
+   * Fetch readable text for a bounded number of articles, giving up at the deadline
+   */
+  private async fetchArticleBodies(newsItems: any[]): Promise<void> {
+    const client = this.dataHub.newsScraperClient;
+    if (!client?.fetchArticle) return;
+
+    const candidates = newsItems
+      .filter(item => /^https?:\/\//.test(item.url || '') && !item.url.includes('example.com'))
+      .slice(0, this.maxBodyFetches);
+    if (candidates.length === 0) return;
+
+    let timer: NodeJS.Timeout | undefined;
+    const deadline = new Promise<null>(resolve => {
+      timer = setTimeout(() => resolve(null), this.bodyFetchDeadlineMs);
+    });
+
+    try {
+      await Promise.all(candidates.map(async item => {
+        const article = await Promise.race([client.fetchArticle(item.url), deadline]);
+        if (article?.text) {
+          item.body = article.text;
+        }
+      }));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Sort news by relevance (market impact, urgency, recency)
    */
@@ -136,6 +136,9 @@ export interface InsiderTransaction extends TradingData {
   isDirectOwnership: boolean;
   sharesOwnedAfter: number;
   percentOwned?: number;
+  transactionCode?: string; // Form 4 code: P purchase, S sale, A grant, M option exercise, F tax withholding, G gift
+  isDerivative?: boolean;
+  isPlannedTrade?: boolean; // Rule 10b5-1 trading plan
 }
 
 export interface CongressionalTrade extends TradingData {
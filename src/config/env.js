@@ -32,9 +32,13 @@ const envSchema = Joi.object({
 
   // Financial Data APIs
   FINNHUB_API_KEY: Joi.string().optional(),
+  FINNHUB_ENABLED: Joi.boolean().default(false), // Off by default after SSL errors against finnhub.io
   POLYGON_API_KEY: Joi.string().optional(),
   ALPHA_VANTAGE_API_KEY: Joi.string().optional(),
   QUIVER_API_KEY: Joi.string().optional(),
+  OPENFIGI_API_KEY: Joi.string().allow('').optional(), // Optional; raises the CUSIP mapping rate limit
+  BLS_API_KEY: Joi.string().allow('').optional(), // Optional; moves BLS requests to the v2 daily limit
+  DATA_PROVIDER_PLUGINS: Joi.string().allow('').default(''), // Comma-separated plugin module paths
 
   // OpenAI Configuration
   OPENAI_API_KEY: Joi.string().optional(),
@@ -43,6 +47,18 @@ const envSchema = Joi.object({
     .default('gpt-3.5-turbo'),
   OPENAI_MAX_TOKENS: Joi.number().integer().min(1).max(8192).default(2000),
 
+  // LLM Providers
+  LLM_PROVIDERS: Joi.string().default('openai,anthropic,local'), // Enabled providers; equal-cost ties go to the earlier one
+  LLM_FAILURE_THRESHOLD: Joi.number().integer().min(1).default(3), // Failed calls before a provider is skipped for a minute
+  ANTHROPIC_API_KEY: Joi.string().allow('').optional(),
+  LOCAL_LLM_BASE_URL: Joi.string().uri().allow('').optional(), // OpenAI-compatible server, e.g. http://localhost:11434/v1
+  LOCAL_LLM_MODEL: Joi.string().allow('').optional(),
+  LOCAL_LLM_API_KEY: Joi.string().default('local'),
+  LOCAL_LLM_TIER: Joi.string().valid('fast', 'advanced').default('advanced'),
+  LOCAL_LLM_CONTEXT_WINDOW: Joi.number().integer().min(1024).default(8192),
+  LOCAL_LLM_TOOL_CALLS: Joi.boolean().default(true), // False sends the function schema in the prompt instead
+  LLM_REPLAY_DB_PATH: Joi.string().allow('').optional(), // Audit database the replay provider serves from
+
   // Security Configuration
   JWT_SECRET: Joi.string().min(32).optional(),
   SESSION_SECRET: Joi.string().min(32).optional(),
@@ -56,6 +72,28 @@ const envSchema = Joi.object({
   ALPHA_VANTAGE_RATE_LIMIT: Joi.number().integer().min(1).default(5),
   QUIVER_RATE_LIMIT: Joi.number().integer().min(1).default(300),
 
+  // API Quotas and Budgets
+  ALPHA_VANTAGE_DAILY_QUOTA: Joi.number().integer().min(1).default(25),
+  FINNHUB_DAILY_QUOTA: Joi.number().integer().min(1).optional(),
+  POLYGON_DAILY_QUOTA: Joi.number().integer().min(1).optional(),
+  QUIVER_MONTHLY_QUOTA: Joi.number().integer().min(1).optional(),
+  API_COST_PER_REQUEST: Joi.string().allow('').default(''), // provider:usd pairs, e.g. quiver:0.002
+  API_MONTHLY_COST_BUDGET: Joi.string().allow('').default(''), // provider:usd pairs, e.g. quiver:50
+
+  // Institutional Holdings (13F)
+  INSTITUTIONAL_FILER_CIKS: Joi.string().allow('').default(''), // Comma-separated manager CIKs; empty uses the built-in list
+
+  // Options Analytics
+  OPTIONS_RISK_FREE_RATE: Joi.number().min(0).max(0.25).default(0.045), // Annualized, continuously compounded
+
+  // Streaming Quotes
+  POLYGON_STREAM_URL: Joi.string().uri().default('wss://socket.polygon.io/stocks'),
+  FINNHUB_STREAM_URL: Joi.string().uri().default('wss://ws.finnhub.io'),
+  QUOTE_STREAM_HEARTBEAT_MS: Joi.number().integer().min(1000).default(15000),
+
+  // Multi-Asset Reporting
+  REPORTING_CURRENCY: Joi.string().length(3).uppercase().default('USD'), // Quotes gain converted fields in this currency
+
   // OpenAI Rate Limits (requests per minute)
   OPENAI_GPT35_RATE_LIMIT: Joi.number().integer().min(1).default(3500),
   OPENAI_GPT4_RATE_LIMIT: Joi.number().integer().min(1).default(500),
@@ -86,6 +124,9 @@ const envSchema = Joi.object({
   PAPER_TRADING_ENABLED: Joi.boolean().default(true),
   STARTING_BALANCE: Joi.number().min(0).default(100000),
   COMMISSION_RATE: Joi.number().min(0).max(1).default(0.005),
+  SYNTHETIC_DATA_POLICY: Joi.string()
+    .valid('strict', 'standard', 'permissive')
+    .default('standard'), // What happens to trade cards built on fallback or generated data
 
   // Notification Configuration
   EMAIL_ENABLED: Joi.boolean().default(false),
@@ -103,6 +144,12 @@ const envSchema = Joi.object({
   DEBUG: Joi.boolean().default(false),
   MOCK_API_RESPONSES: Joi.boolean().default(false),
   DISABLE_RATE_LIMITING: Joi.boolean().default(false),
+  API_CASSETTE_MODE: Joi.string()
+    .valid('record', 'replay', 'passthrough')
+    .default('passthrough'),
+  API_CASSETTE_NAME: Joi.string().default('default'),
+  API_CASSETTE_DIR: Joi.string().default('./data/cassettes'),
+  API_CACHE_DIR: Joi.string().default('./data/cache'), // On-disk tier of the API response cache
 })
   .unknown()
   .required();
@@ -7,7 +7,9 @@
 import env, { envUtils, configWarnings } from './env.js';
 import { apiEndpoints, apiUtils, responseTransformers } from './api.js';
 import logger, { logHelpers, loggerUtils, requestLogger, errorLogger } from './logger.js';
-import { modelConfigs, ModelRouter, AIAnalysisService, aiService } from './openai.js';
+import { modelConfigs } from './openai.js';
+import { ModelRouter, modelRouter } from '../ai/llm/ModelRouter.js';
+import { AIAnalysisService, aiService } from '../ai/AIAnalysisService.js';
 import { APIRateLimiter, createAppRateLimiters, rateLimitUtils, apiRateLimiter } from './rateLimit.js';
 import redisConfig, { 
   initRedis, 
@@ -129,7 +131,7 @@ export const appConfig = {
 
   // AI configuration
   ai: {
-    enabled: env.AI_ANALYSIS_ENABLED && envUtils.hasValidApiKey('openai'),
+    enabled: env.AI_ANALYSIS_ENABLED && modelRouter.isAvailable(),
     defaultModel: env.OPENAI_MODEL,
     maxTokens: env.OPENAI_MAX_TOKENS,
     features: {
@@ -247,8 +249,8 @@ export const configUtils = {
     }
 
     // Check AI configuration
-    if (appConfig.ai.enabled && !envUtils.hasValidApiKey('openai')) {
-      warnings.push('AI analysis enabled but OpenAI API key not configured');
+    if (env.AI_ANALYSIS_ENABLED && !modelRouter.isAvailable()) {
+      warnings.push('AI analysis enabled but no LLM provider is configured');
     }
 
     return {
@@ -411,8 +413,9 @@ export const healthCheck = async () => {
   // AI service health check
   if (appConfig.ai.enabled) {
     checks.components.ai = {
-      status: envUtils.hasValidApiKey('openai') ? 'healthy' : 'error',
+      status: modelRouter.isAvailable() ? 'healthy' : 'error',
       model: appConfig.ai.defaultModel,
+      providers: modelRouter.getHealth(),
       features: appConfig.ai.features,
     };
   }
@@ -445,9 +448,10 @@ export {
   requestLogger,
   errorLogger,
   
-  // OpenAI
+  // AI models
   modelConfigs,
   ModelRouter,
+  modelRouter,
   AIAnalysisService,
   aiService,
   
@@ -466,6 +466,13 @@ export class DataQualityValidator {
     return this.historicalData.get(key) || [];
   }
 
+  /**
+   * Get the current reliability score (0-100) for a source
+   */
+  getSourceReliability(source: string): number {
+    return this.sourceReliability.get(source) ?? 50;
+  }
+
   /**
    * Update source reliability based on performance
    */
@@ -8,6 +8,10 @@ import { ResilientDataCollector, DataCollectionStrategy, CollectionResult, DataS
 import { serviceContainer } from './ServiceContainer.js';
 import { DataHub } from '../api/DataHub.js';
 import { loggerUtils } from '../config/logger.js';
+import { securityMaster, SectorKey } from '../market/SecurityMaster.js';
+import { classifySymbol, indicatorDefaults } from '../market/AssetClasses.js';
+import { DataTaint, FinancialStatements } from '../types/data.js';
+import { mergeTaints } from './SyntheticData.js';
 
 export interface AnalysisStep {
   id: string;
@@ -92,10 +96,27 @@ export interface DetailedAnalysisResult {
     stopLoss: number;
     reasoning: string;
   }>;
+  taint: DataTaint[]; // Collected inputs and estimates that are not observed data
 }
 
+// Long-run trailing P/E by sector, used when no fundamentals are available
+const SECTOR_TYPICAL_PE: Record<SectorKey, number> = {
+  technology: 28,
+  healthcare: 18,
+  financials: 13,
+  energy: 11,
+  consumer_discretionary: 24,
+  consumer_staples: 21,
+  industrials: 20,
+  materials: 17,
+  real_estate: 30,
+  utilities: 18,
+  communication_services: 20,
+};
+
 export class DetailedAnalysisEngine extends EventEmitter {
   private dataCollector: ResilientDataCollector;
+  private dataHub: DataHub;
   private currentAnalysis?: DetailedAnalysisResult;
 
   constructor() {
@@ -105,6 +126,7 @@ export class DetailedAnalysisEngine extends EventEmitter {
 
   private async initializeDataCollector(): Promise<void> {
     const dataHub = await serviceContainer.get<DataHub>('dataHub');
+    this.dataHub = dataHub;
     this.dataCollector = new ResilientDataCollector(dataHub);
     
     this.dataCollector.on('collectionComplete', (result) => {
@@ -159,7 +181,8 @@ export class DetailedAnalysisEngine extends EventEmitter {
       },
       riskFactors: [],
       tradingSignals: [],
-      recommendations: []
+      recommendations: [],
+      taint: []
     };
 
     loggerUtils.aiLogger.info('Starting detailed analysis', {
@@ -460,6 +483,7 @@ export class DetailedAnalysisEngine extends EventEmitter {
 
     let priceData: any[] = [];
     let currentPrice = 180; // Default fallback
+    let hasLiveQuote = false;
     
     try {
       const dataResult = await this.dataCollector.collectData(strategy);
@@ -470,9 +494,7 @@ export class DetailedAnalysisEngine extends EventEmitter {
         const priceSource = successfulSources[0];
         if (priceSource.data?.quote?.price) {
           currentPrice = priceSource.data.quote.price;
-        }
-        if (priceSource.data?.historical) {
-          priceData = priceSource.data.historical.slice(-50); // Last 50 periods
+          hasLiveQuote = true;
         }
       }
     } catch (error) {
@@ -481,6 +503,20 @@ export class DetailedAnalysisEngine extends EventEmitter {
         error: error.message
       });
     }
+
+    // Daily history comes from the shared bar store
+    try {
+      const bars = await this.dataHub.getPriceHistory(symbol, { interval: '1d', lookbackDays: 120 });
+      priceData = bars.slice(-50); // Last 50 periods
+      if (priceData.length > 0 && !hasLiveQuote) {
+        currentPrice = priceData[priceData.length - 1].close;
+      }
+    } catch (error) {
+      loggerUtils.aiLogger.warn('Failed to load price history for technical analysis', {
+        symbol,
+        error: error.message
+      });
+    }
     
     // Calculate real technical indicators
     const technicals = this.calculateTechnicalIndicators(priceData, currentPrice);
@@ -632,10 +668,15 @@ export class DetailedAnalysisEngine extends EventEmitter {
     
     const volatility = 0.15 + Math.random() * 0.25; // 15-40% annualized
     this.currentAnalysis!.marketConditions.volatility = volatility;
+    this.addTaint({
+      reason: 'estimated',
+      origin: 'DetailedAnalysisEngine.executeRiskAssessment',
+      fields: ['marketConditions.volatility', 'riskFactors'],
+    });
     
     await this.updateSubStep(step, 'volatility_analysis', 'completed', {
       annualizedVolatility: volatility,
-      dailyVolatility: volatility / Math.sqrt(252),
+      dailyVolatility: volatility / Math.sqrt(indicatorDefaults(classifySymbol(this.currentAnalysis!.symbol)).barsPerYear),
       volatilityRank: volatility > 0.3 ? 'high' : volatility > 0.2 ? 'medium' : 'low'
     });
     
@@ -647,6 +688,11 @@ export class DetailedAnalysisEngine extends EventEmitter {
       sector: 0.7 + Math.random() * 0.2,
       vix: -0.4 - Math.random() * 0.3
     };
+    this.addTaint({
+      reason: 'estimated',
+      origin: 'DetailedAnalysisEngine.executeRiskAssessment',
+      fields: ['correlations'],
+    });
     
     await this.updateSubStep(step, 'correlation_analysis', 'completed', correlations);
     
@@ -683,17 +729,6 @@ export class DetailedAnalysisEngine extends EventEmitter {
     
     await this.updateSubStep(step, 'financial_ratios', 'running');
     
-    // Try to get real fundamental data
-    const fundamentalStrategy: DataCollectionStrategy = {
-      symbol,
-      requiredSources: [],
-      preferredSources: ['alphavantage', 'polygon'],
-      fallbackSources: ['sec'],
-      minQualityScore: 0.3,
-      timeoutStrategy: 'balanced',
-      maxConcurrentRequests: 2
-    };
-
     let fundamentals = {
       pe: 0,
       eps: 0,
@@ -705,39 +740,33 @@ export class DetailedAnalysisEngine extends EventEmitter {
     let dataSource = 'fallback';
     
     try {
-      const fundResult = await this.dataCollector.collectData(fundamentalStrategy);
-      const fundSource = fundResult.results.find(r => r.success && r.data?.fundamentals);
+      const statements = await this.dataHub.getFinancialStatements(symbol);
+      const latest = statements?.ttm || statements?.annual[0];
       
-      if (fundSource?.data?.fundamentals) {
-        const realData = fundSource.data.fundamentals;
+      if (latest) {
+        const currentPrice = this.currentAnalysis!.technicalIndicators?.bollinger?.middle;
+        const balanceSheet = [latest, ...statements.annual].find(record => record.stockholdersEquity > 0);
+        
         fundamentals = {
-          pe: realData.pe || this.estimatePE(symbol),
-          eps: realData.eps || this.estimateEPS(symbol),
-          revenue: realData.revenue || this.estimateRevenue(symbol),
-          growth: realData.growth || this.estimateGrowth(symbol),
-          debt: realData.debtToEquity || this.estimateDebt(symbol)
+          pe: latest.eps > 0 && currentPrice ? currentPrice / latest.eps : this.estimatePE(symbol),
+          eps: latest.eps || this.estimateEPS(symbol),
+          revenue: latest.revenue,
+          growth: this.reportedGrowth(statements) ?? this.estimateGrowth(symbol),
+          // Debt to equity from the latest balance sheet
+          debt: balanceSheet?.totalDebt !== undefined ? balanceSheet.totalDebt / balanceSheet.stockholdersEquity : 0
         };
-        dataSource = fundSource.source;
+        dataSource = `sec_${latest.period}`;
       } else {
-        // Use estimation methods based on sector and symbol
-        fundamentals = {
-          pe: this.estimatePE(symbol),
-          eps: this.estimateEPS(symbol),
-          revenue: this.estimateRevenue(symbol),
-          growth: this.estimateGrowth(symbol),
-          debt: this.estimateDebt(symbol)
-        };
+        // No filings to work from; price-implied estimates only
+        fundamentals.pe = this.estimatePE(symbol);
+        fundamentals.eps = this.estimateEPS(symbol);
+        fundamentals.growth = this.estimateGrowth(symbol);
       }
     } catch (error) {
       loggerUtils.aiLogger.warn('Failed to get fundamental data', { symbol, error: error.message });
-      // Use sector-based estimates
-      fundamentals = {
-        pe: this.estimatePE(symbol),
-        eps: this.estimateEPS(symbol),
-        revenue: this.estimateRevenue(symbol),
-        growth: this.estimateGrowth(symbol),
-        debt: this.estimateDebt(symbol)
-      };
+      fundamentals.pe = this.estimatePE(symbol);
+      fundamentals.eps = this.estimateEPS(symbol);
+      fundamentals.growth = this.estimateGrowth(symbol);
     }
     
     this.currentAnalysis!.fundamentalMetrics = fundamentals;
@@ -753,7 +782,7 @@ export class DetailedAnalysisEngine extends EventEmitter {
     const earningsAnalysis = {
       epsGrowth: fundamentals.growth,
       revenueGrowth: fundamentals.growth * 0.8, // Estimate revenue growth
-      profitMargin: fundamentals.eps > 0 ? (fundamentals.eps * 1000000) / fundamentals.revenue : 0.1
+      profitMargin: fundamentals.eps > 0 && fundamentals.revenue > 0 ? (fundamentals.eps * 1000000) / fundamentals.revenue : 0.1
     };
     
     await this.updateSubStep(step, 'earnings_analysis', 'completed', earningsAnalysis);
@@ -769,7 +798,7 @@ export class DetailedAnalysisEngine extends EventEmitter {
     
     await this.updateSubStep(step, 'valuation', 'completed', valuation);
     
-    step.reasoning = `Fundamental analysis (${dataSource}): P/E ${fundamentals.pe.toFixed(1)}, EPS $${fundamentals.eps.toFixed(2)}, Growth ${(fundamentals.growth * 100).toFixed(1)}%, Debt ratio ${(fundamentals.debt * 100).toFixed(1)}%`;
+    step.reasoning = `Fundamental analysis (${dataSource}): P/E ${fundamentals.pe.toFixed(1)}, EPS $${fundamentals.eps.toFixed(2)}, Growth ${(fundamentals.growth * 100).toFixed(1)}%, Debt/equity ${fundamentals.debt.toFixed(2)}`;
   }
 
   /**
@@ -1060,6 +1089,9 @@ export class DetailedAnalysisEngine extends EventEmitter {
     
     for (const sourceResult of result.results) {
       analysis.dataQuality.bySource[sourceResult.source] = sourceResult.qualityScore;
+      if (sourceResult.lineage?.taint) {
+        analysis.taint = mergeTaints(analysis.taint, sourceResult.lineage.taint);
+      }
       
       if (sourceResult.success) {
         analysis.dataQuality.reliableData.push(sourceResult.source);
@@ -1332,54 +1364,75 @@ export class DetailedAnalysisEngine extends EventEmitter {
    * Fundamental Data Estimation Methods
    */
   private estimatePE(symbol: string): number {
-    const sectorPE: Record<string, number> = {
-      'AAPL': 28, 'MSFT': 32, 'GOOGL': 25, 'AMZN': 35, 'META': 22,
-      'JNJ': 16, 'PFE': 14, 'UNH': 18,
-      'JPM': 12, 'BAC': 11, 'WFC': 10
-    };
-    
-    return sectorPE[symbol] || 20 + Math.random() * 15;
+    this.addTaint({
+      reason: 'estimated',
+      origin: 'DetailedAnalysisEngine.estimatePE',
+      fields: ['fundamentalMetrics.pe'],
+    });
+
+    return this.sectorTypicalPE(symbol);
   }
 
   private estimateEPS(symbol: string): number {
-    const symbolEPS: Record<string, number> = {
-      'AAPL': 6.13, 'MSFT': 11.05, 'GOOGL': 5.80, 'AMZN': 2.90,
-      'JNJ': 9.80, 'PFE': 2.94,
-      'JPM': 15.36, 'BAC': 3.19
-    };
-    
-    return symbolEPS[symbol] || 3 + Math.random() * 8;
+    this.addTaint({
+      reason: 'estimated',
+      origin: 'DetailedAnalysisEngine.estimateEPS',
+      fields: ['fundamentalMetrics.eps'],
+    });
+
+    // Implied by the current price at the sector's typical multiple
+    const currentPrice = this.currentAnalysis?.technicalIndicators?.bollinger?.middle;
+    return currentPrice ? currentPrice / this.sectorTypicalPE(symbol) : 0;
   }
 
-  private estimateRevenue(symbol: string): number {
-    const symbolRevenue: Record<string, number> = {
-      'AAPL': 394000000000, 'MSFT': 230000000000, 'GOOGL': 307000000000,
-      'AMZN': 574000000000, 'JNJ': 93000000000
-    };
-    
-    return symbolRevenue[symbol] || 50000000000 + Math.random() * 100000000000;
+  private sectorTypicalPE(symbol: string): number {
+    const sector = securityMaster.getSectorKey(symbol);
+    return (sector && SECTOR_TYPICAL_PE[sector]) || 20;
+  }
+
+  /**
+   * Year-over-year revenue growth from filings: the last two fiscal years, or the latest
+   * quarter against the same quarter a year earlier
+   */
+  private reportedGrowth(statements: FinancialStatements): number | null {
+    const [currentYear, priorYear] = statements.annual;
+    if (currentYear?.revenue && priorYear?.revenue) {
+      return (currentYear.revenue - priorYear.revenue) / priorYear.revenue;
+    }
+
+    const currentQuarter = statements.quarterly[0];
+    const yearAgoQuarter = statements.quarterly.find(quarter =>
+      quarter.fiscalYear === currentQuarter?.fiscalYear - 1 && quarter.fiscalQuarter === currentQuarter?.fiscalQuarter
+    );
+    if (currentQuarter?.revenue && yearAgoQuarter?.revenue) {
+      return (currentQuarter.revenue - yearAgoQuarter.revenue) / yearAgoQuarter.revenue;
+    }
+
+    return null;
   }
 
   private estimateGrowth(symbol: string): number {
+    this.addTaint({
+      reason: 'estimated',
+      origin: 'DetailedAnalysisEngine.estimateGrowth',
+      fields: ['fundamentalMetrics.growth'],
+    });
+
     const techSymbols = ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'META', 'NVDA'];
     const healthSymbols = ['JNJ', 'PFE', 'UNH'];
     const financeSymbols = ['JPM', 'BAC', 'WFC'];
     
-    if (techSymbols.includes(symbol)) return 0.08 + Math.random() * 0.12; // 8-20%
-    if (healthSymbols.includes(symbol)) return 0.04 + Math.random() * 0.08; // 4-12%
-    if (financeSymbols.includes(symbol)) return 0.02 + Math.random() * 0.06; // 2-8%
+    if (techSymbols.includes(symbol)) return 0.14;
+    if (healthSymbols.includes(symbol)) return 0.08;
+    if (financeSymbols.includes(symbol)) return 0.05;
     
-    return 0.03 + Math.random() * 0.10; // 3-13% default
+    return 0.08;
   }
 
-  private estimateDebt(symbol: string): number {
-    const lowDebtSymbols = ['AAPL', 'MSFT', 'GOOGL'];
-    const highDebtSymbols = ['BAC', 'WFC', 'JPM'];
-    
-    if (lowDebtSymbols.includes(symbol)) return 0.1 + Math.random() * 0.2; // 10-30%
-    if (highDebtSymbols.includes(symbol)) return 0.4 + Math.random() * 0.3; // 40-70%
-    
-    return 0.2 + Math.random() * 0.3; // 20-50% default
+  private addTaint(taint: DataTaint): void {
+    if (this.currentAnalysis) {
+      this.currentAnalysis.taint = mergeTaints(this.currentAnalysis.taint, [taint]);
+    }
   }
 }
 
@@ -0,0 +1,77 @@
+/**
+ * Synthetic data taint
+ * Fallback generators and estimators mark what they make up with a `_synthetic` property.
+ * The mark is a plain enumerable field so it survives caching and JSON round trips; arrays
+ * are marked item by item. Consumers read it with getTaint and carry it onto whatever they
+ * build from the payload, so fusion can tell a card rests on invented numbers.
+ */
+
+import { DataTaint } from '../types/data.js';
+
+export const TAINT_KEY = '_synthetic';
+
+/**
+ * Mark a payload, or every object in an array payload, as synthetic
+ */
+export function markSynthetic<T>(payload: T, taint: DataTaint): T {
+  const targets: any[] = Array.isArray(payload) ? payload : [payload];
+
+  for (const target of targets) {
+    if (!target || typeof target !== 'object') continue;
+    target[TAINT_KEY] = mergeTaints(target[TAINT_KEY] || [], [taint]);
+  }
+
+  return payload;
+}
+
+/**
+ * Taint on a payload or on any item of an array payload; empty for observed data
+ */
+export function getTaint(payload: any): DataTaint[] {
+  if (!payload || typeof payload !== 'object') return [];
+  if (Array.isArray(payload)) return mergeTaints(...payload.map(item => getTaint(item)));
+  return Array.isArray(payload[TAINT_KEY]) ? payload[TAINT_KEY] : [];
+}
+
+export function isSynthetic(payload: any): boolean {
+  return getTaint(payload).length > 0;
+}
+
+/**
+ * Copy the taint of one or more source payloads onto an object derived from them
+ */
+export function carryTaint<T>(from: any, to: T): T {
+  const taint = getTaint(from);
+  if (taint.length === 0 || !to || typeof to !== 'object') return to;
+
+  for (const entry of taint) markSynthetic(to, entry);
+  return to;
+}
+
+/**
+ * Combine taint lists, keeping one entry per reason and origin with their fields unioned
+ */
+export function mergeTaints(...lists: Array<DataTaint[] | undefined>): DataTaint[] {
+  const merged = new Map<string, DataTaint>();
+
+  for (const taint of lists.flat()) {
+    if (!taint?.origin) continue;
+    const key = `${taint.reason}:${taint.origin}`;
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...taint });
+      continue;
+    }
+    // A whole-payload mark absorbs field-level ones from the same origin
+    existing.fields = existing.fields && taint.fields
+      ? Array.from(new Set([...existing.fields, ...taint.fields]))
+      : undefined;
+  }
+
+  return Array.from(merged.values());
+}
+
+export function describeTaint(taint: DataTaint): string {
+  const fields = taint.fields?.length ? ` (${taint.fields.join(', ')})` : '';
+  return `${taint.reason} by ${taint.origin}${fields}`;
+}
@@ -0,0 +1,223 @@
+/**
+ * Asset classes
+ * Classifies symbols as equities, ETFs, crypto pairs, FX pairs or indices, maps them onto
+ * each provider's ticker format, and holds the per-class defaults the pipeline reads:
+ * which data types exist for the class and which indicator parameters suit it.
+ */
+
+import { AssetClass } from '../types/data.js';
+import type { DataType } from '../api/DataHub.js';
+import { securityMaster } from './SecurityMaster.js';
+
+export interface AssetInfo {
+  symbol: string; // Canonical form: BTC-USD, EURUSD=X, ^GSPC, SPY
+  assetClass: AssetClass;
+  baseAsset: string; // BTC, EUR, SPX, SPY
+  quoteCurrency: string | null; // Known from the symbol for pairs; equities take it from the quote
+}
+
+export interface IndicatorDefaults {
+  lookbackDays: number; // Calendar days of daily bars, enough for a 200-bar average
+  barsPerYear: number;
+  rsiOverbought: number;
+  rsiOversold: number;
+  bollingerStdDev: number;
+  squeezePercentile: number; // Band widths at or below this percentile count as a squeeze
+  volumeSpikeRatio: number;
+  usesVolume: boolean; // FX has no consolidated volume
+}
+
+const CRYPTO_ASSETS = new Set([
+  'BTC', 'ETH', 'SOL', 'XRP', 'ADA', 'DOGE', 'AVAX', 'DOT', 'LTC', 'LINK', 'MATIC', 'BCH', 'XLM',
+  'UNI', 'ATOM', 'SHIB', 'TRX', 'ETC', 'FIL', 'NEAR', 'APT', 'ARB', 'OP', 'BNB', 'USDT', 'USDC',
+]);
+
+const FIAT_CURRENCIES = new Set([
+  'USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'NZD', 'CNY', 'HKD', 'SEK', 'NOK', 'DKK',
+  'SGD', 'MXN', 'INR', 'KRW', 'ZAR', 'BRL', 'TRY', 'PLN',
+]);
+
+// Quote legs a crypto pair may trade against besides fiat
+const CRYPTO_QUOTES = new Set(['USDT', 'USDC', 'BTC', 'ETH']);
+
+// Yahoo index symbols and their Polygon tickers
+const INDEX_TICKERS: Record<string, string> = {
+  '^GSPC': 'I:SPX',
+  '^DJI': 'I:DJI',
+  '^IXIC': 'I:COMP',
+  '^NDX': 'I:NDX',
+  '^RUT': 'I:RUT',
+  '^VIX': 'I:VIX',
+};
+
+// Sector SPDRs and broad-market funds, recognized before the security master has loaded
+const KNOWN_ETFS = new Set([
+  'XLK', 'XLF', 'XLV', 'XLE', 'XLY', 'XLP', 'XLI', 'XLB', 'XLRE', 'XLU', 'XLC',
+  'SPY', 'QQQ', 'IWM', 'DIA', 'VOO', 'VTI', 'SMH', 'ARKK', 'GLD', 'TLT',
+]);
+
+const EQUITY_DATA_TYPES: DataType[] = [
+  'quote', 'profile', 'news', 'financials', 'earnings', 'insider', 'congressional',
+  'institutional', 'short', 'options', 'technical', 'trends', 'filings', 'sentiment',
+];
+
+const SUPPORTED_DATA_TYPES: Record<AssetClass, DataType[]> = {
+  equity: EQUITY_DATA_TYPES,
+  etf: ['quote', 'profile', 'news', 'institutional', 'short', 'options', 'technical', 'trends', 'sentiment'],
+  crypto: ['quote', 'news', 'technical', 'trends', 'sentiment', 'onchain'],
+  fx: ['quote', 'news', 'technical', 'trends'],
+  index: ['quote', 'news', 'technical', 'trends'],
+};
+
+const EQUITY_INDICATORS: IndicatorDefaults = {
+  lookbackDays: 300,
+  barsPerYear: 252,
+  rsiOverbought: 70,
+  rsiOversold: 30,
+  bollingerStdDev: 2,
+  squeezePercentile: 0.2,
+  volumeSpikeRatio: 2,
+  usesVolume: true,
+};
+
+const INDICATOR_DEFAULTS: Record<AssetClass, IndicatorDefaults> = {
+  equity: EQUITY_INDICATORS,
+  etf: EQUITY_INDICATORS,
+  index: { ...EQUITY_INDICATORS, volumeSpikeRatio: 1.5 },
+  // Crypto trades every day and runs hot; wider RSI bands avoid a permanent overbought call
+  crypto: {
+    ...EQUITY_INDICATORS,
+    lookbackDays: 250,
+    barsPerYear: 365,
+    rsiOverbought: 80,
+    rsiOversold: 20,
+    volumeSpikeRatio: 2.5,
+  },
+  fx: {
+    ...EQUITY_INDICATORS,
+    lookbackDays: 320,
+    barsPerYear: 260,
+    squeezePercentile: 0.1,
+    usesVolume: false,
+  },
+};
+
+/**
+ * Classify a symbol in any of the supported spellings and return its canonical form
+ */
+export function getAssetInfo(symbol: string): AssetInfo {
+  const raw = (symbol || '').trim().toUpperCase();
+
+  // Indices: ^GSPC, I:SPX
+  if (raw.startsWith('^') || raw.startsWith('I:')) {
+    const canonical = raw.startsWith('I:')
+      ? Object.keys(INDEX_TICKERS).find(key => INDEX_TICKERS[key] === raw) || `^${raw.slice(2)}`
+      : raw;
+    return { symbol: canonical, assetClass: 'index', baseAsset: canonical.slice(1), quoteCurrency: null };
+  }
+
+  // FX: EURUSD=X, C:EURUSD, OANDA:EUR_USD
+  const fx = raw.match(/^([A-Z]{3})([A-Z]{3})=X$/)
+    || raw.match(/^C:([A-Z]{3})([A-Z]{3})$/)
+    || raw.match(/^[A-Z]+:([A-Z]{3})_([A-Z]{3})$/);
+  if (fx) return pair('fx', fx[1], fx[2]);
+
+  // Crypto: BTC-USD, X:BTCUSD, BINANCE:BTCUSDT
+  const prefixed = raw.match(/^[A-Z]+:([A-Z0-9]+)$/);
+  if (prefixed) {
+    const split = splitConcatenatedPair(prefixed[1]);
+    if (split) return pair('crypto', split[0], split[1] === 'USDT' ? 'USD' : split[1]);
+  }
+  const dashed = raw.match(/^([A-Z0-9]{2,10})-([A-Z]{3,4})$/);
+  if (dashed && (CRYPTO_ASSETS.has(dashed[1]) || FIAT_CURRENCIES.has(dashed[2]) || CRYPTO_QUOTES.has(dashed[2]))) {
+    return pair('crypto', dashed[1], dashed[2]);
+  }
+
+  // Slash pairs are crypto when either leg is a coin, otherwise FX
+  const slashed = raw.match(/^([A-Z0-9]{2,10})\/([A-Z]{3,4})$/);
+  if (slashed) {
+    const isFx = FIAT_CURRENCIES.has(slashed[1]) && FIAT_CURRENCIES.has(slashed[2]);
+    return pair(isFx ? 'fx' : 'crypto', slashed[1], slashed[2]);
+  }
+
+  const isEtf = KNOWN_ETFS.has(raw) || securityMaster.get(raw)?.assetType === 'etf';
+  return { symbol: raw, assetClass: isEtf ? 'etf' : 'equity', baseAsset: raw, quoteCurrency: null };
+}
+
+export function classifySymbol(symbol: string): AssetClass {
+  return getAssetInfo(symbol).assetClass;
+}
+
+/**
+ * Canonical spelling used for storage, caching and display
+ */
+export function canonicalSymbol(symbol: string): string {
+  return getAssetInfo(symbol).symbol;
+}
+
+/**
+ * Symbols trading around the clock or across weekends key their daily bars by UTC date
+ */
+export function tradesOffExchangeHours(assetClass: AssetClass): boolean {
+  return assetClass === 'crypto' || assetClass === 'fx';
+}
+
+/**
+ * The ticker a provider expects for a symbol; equities and ETFs pass through unchanged
+ */
+export function providerSymbol(provider: string, symbol: string): string {
+  const asset = getAssetInfo(symbol);
+  const quote = asset.quoteCurrency || 'USD';
+
+  switch (asset.assetClass) {
+    case 'crypto':
+      if (provider === 'polygon') return `X:${asset.baseAsset}${quote}`;
+      if (provider === 'finnhub') return `BINANCE:${asset.baseAsset}${quote === 'USD' ? 'USDT' : quote}`;
+      if (provider === 'quiver') return asset.baseAsset;
+      return asset.symbol;
+
+    case 'fx':
+      if (provider === 'polygon') return `C:${asset.baseAsset}${quote}`;
+      if (provider === 'finnhub') return `OANDA:${asset.baseAsset}_${quote}`;
+      return asset.symbol;
+
+    case 'index':
+      if (provider === 'polygon') return INDEX_TICKERS[asset.symbol] || `I:${asset.baseAsset}`;
+      return asset.symbol;
+
+    default:
+      return asset.symbol;
+  }
+}
+
+export function supportedDataTypes(assetClass: AssetClass): DataType[] {
+  return SUPPORTED_DATA_TYPES[assetClass] || EQUITY_DATA_TYPES;
+}
+
+export function supportsDataType(assetClass: AssetClass, dataType: DataType): boolean {
+  return supportedDataTypes(assetClass).includes(dataType);
+}
+
+export function indicatorDefaults(assetClass: AssetClass = 'equity'): IndicatorDefaults {
+  return INDICATOR_DEFAULTS[assetClass] || EQUITY_INDICATORS;
+}
+
+function pair(assetClass: 'crypto' | 'fx', base: string, quote: string): AssetInfo {
+  return {
+    symbol: assetClass === 'fx' ? `${base}${quote}=X` : `${base}-${quote}`,
+    assetClass,
+    baseAsset: base,
+    quoteCurrency: quote,
+  };
+}
+
+// BTCUSD, ETHUSDT, SOLBTC: the longest known quote leg that leaves a known coin
+function splitConcatenatedPair(ticker: string): [string, string] | null {
+  for (const quote of ['USDT', 'USDC', ...FIAT_CURRENCIES, 'BTC', 'ETH']) {
+    if (ticker.length > quote.length && ticker.endsWith(quote)) {
+      const base = ticker.slice(0, -quote.length);
+      if (CRYPTO_ASSETS.has(base)) return [base, quote];
+    }
+  }
+  return null;
+}
@@ -0,0 +1,841 @@
+/**
+ * Historical Bar Store
+ * Persistent OHLCV storage with incremental backfill, gap detection and range queries.
+ * Prices are stored unadjusted; CorporateActionsService derives adjusted series on read.
+ */
+
+import sqlite3 from 'sqlite3';
+import { Database, open } from 'sqlite';
+import { loggerUtils } from '../config/logger.js';
+import { DataHub } from '../api/DataHub.js';
+import { AssetClass, BarInterval, PriceBar } from '../types/data.js';
+import { classifySymbol, providerSymbol, tradesOffExchangeHours } from './AssetClasses.js';
+import path from 'path';
+
+export interface BarQuery {
+  interval?: BarInterval;
+  from?: number; // ms, inclusive
+  to?: number; // ms, inclusive
+  lookbackDays?: number; // Used when `from` is omitted
+  localOnly?: boolean; // Skip backfill and read whatever is stored
+}
+
+export interface BarGap {
+  start: number;
+  end: number;
+  missingBars: number;
+}
+
+export interface BarCoverage {
+  symbol: string;
+  interval: BarInterval;
+  start: number;
+  end: number;
+  lastSynced: number;
+  barCount: number;
+}
+
+export interface BackfillResult {
+  symbol: string;
+  interval: BarInterval;
+  fetchedRanges: Array<{ start: number; end: number; source: string | null; bars: number }>;
+  gapsFound: number;
+  gapsFilled: number;
+  barsWritten: number;
+}
+
+export interface BarStoreConfig {
+  dbPath: string;
+  sources: string[]; // DataHub client names in the order they are tried
+  maxGapAttempts: number; // Stop refetching a gap after this many empty fetches (holidays, halts)
+  intradayRetentionDays: number;
+}
+
+const INTERVAL_MS: Record<BarInterval, number> = {
+  '1m': 60000,
+  '5m': 300000,
+  '15m': 900000,
+  '30m': 1800000,
+  '1h': 3600000,
+  '1d': 86400000,
+};
+
+const DAY_MS = 86400000;
+const EXCHANGE_TIMEZONE = 'America/New_York';
+
+export class BarStore {
+  private database: Database | null = null;
+  private ready: Promise<void>;
+  private dataHub: DataHub;
+  private config: BarStoreConfig;
+  private inFlight: Map<string, Promise<BackfillResult>> = new Map();
+  private writeChain: Promise<unknown> = Promise.resolve();
+
+  constructor(dataHub: DataHub, config: Partial<BarStoreConfig> = {}) {
+    this.dataHub = dataHub;
+    this.config = {
+      dbPath: path.join(process.cwd(), 'data', 'price_bars.db'),
+      sources: ['polygon', 'yahoo', 'alphavantage'],
+      maxGapAttempts: 2,
+      intradayRetentionDays: 60,
+      ...config,
+    };
+    this.ready = this.initializeDatabase();
+  }
+
+  /**
+   * Initialize SQLite database for bar storage
+   */
+  private async initializeDatabase(): Promise<void> {
+    try {
+      this.database = await open({
+        filename: this.config.dbPath,
+        driver: sqlite3.Database
+      });
+
+      await this.database.exec(`
+        CREATE TABLE IF NOT EXISTS price_bars (
+          symbol TEXT NOT NULL,
+          bar_interval TEXT NOT NULL,
+          timestamp INTEGER NOT NULL,
+          open REAL NOT NULL,
+          high REAL NOT NULL,
+          low REAL NOT NULL,
+          close REAL NOT NULL,
+          adj_close REAL NOT NULL,
+          volume REAL NOT NULL,
+          source TEXT NOT NULL,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (symbol, bar_interval, timestamp)
+        );
+
+        CREATE TABLE IF NOT EXISTS bar_coverage (
+          symbol TEXT NOT NULL,
+          bar_interval TEXT NOT NULL,
+          start_time INTEGER NOT NULL,
+          end_time INTEGER NOT NULL,
+          last_synced INTEGER NOT NULL,
+          PRIMARY KEY (symbol, bar_interval)
+        );
+
+        CREATE TABLE IF NOT EXISTS bar_gaps (
+          symbol TEXT NOT NULL,
+          bar_interval TEXT NOT NULL,
+          start_time INTEGER NOT NULL,
+          end_time INTEGER NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_attempt INTEGER NOT NULL,
+          PRIMARY KEY (symbol, bar_interval, start_time)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_price_bars_symbol_time ON price_bars(symbol, bar_interval, timestamp);
+      `);
+
+      const { user_version: version } = await this.database.get('PRAGMA user_version');
+      if (version < 1) {
+        await this.dropSplitAdjustedBars();
+      }
+
+      loggerUtils.dbLogger.info('Bar store database initialized', { dbPath: this.config.dbPath });
+    } catch (error) {
+      loggerUtils.dbLogger.error('Failed to initialize bar store database', {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Earlier versions stored Polygon bars fetched with adjusted=true and Yahoo bars that
+   * were not always unadjusted, both as raw prices. Neither can be told apart from raw rows,
+   * so drop them and their coverage and let the next backfill refetch them unadjusted.
+   */
+  private async dropSplitAdjustedBars(): Promise<void> {
+    if (!this.database) return;
+
+    await this.database.exec('BEGIN TRANSACTION');
+    try {
+      const affected = `(symbol, bar_interval) IN (
+        SELECT DISTINCT symbol, bar_interval FROM price_bars WHERE source IN ('polygon', 'yahoo')
+      )`;
+      await this.database.run(`DELETE FROM bar_coverage WHERE ${affected}`);
+      await this.database.run(`DELETE FROM bar_gaps WHERE ${affected}`);
+      const { changes } = await this.database.run(
+        "DELETE FROM price_bars WHERE source IN ('polygon', 'yahoo')"
+      );
+      await this.database.exec('PRAGMA user_version = 1');
+      await this.database.exec('COMMIT');
+
+      if (changes) {
+        loggerUtils.dbLogger.info('Dropped split-adjusted bars for refetch', { bars: changes });
+      }
+    } catch (error) {
+      await this.database.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Get bars for a symbol, backfilling any missing history first
+   */
+  async getBars(symbol: string, query: BarQuery = {}): Promise<PriceBar[]> {
+    const interval = query.interval || '1d';
+    const to = query.to || Date.now();
+    const defaultLookback = interval === '1d' ? 365 : 5;
+    const from = query.from || to - (query.lookbackDays || defaultLookback) * DAY_MS;
+    const normalizedSymbol = symbol.toUpperCase();
+
+    if (!query.localOnly) {
+      try {
+        await this.ensureRange(normalizedSymbol, interval, from, to);
+      } catch (error) {
+        loggerUtils.dbLogger.warn('Bar backfill failed, serving stored bars', {
+          symbol: normalizedSymbol,
+          interval,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return await this.readBars(normalizedSymbol, interval, from, to);
+  }
+
+  /**
+   * Read stored bars without touching any provider
+   */
+  async readBars(symbol: string, interval: BarInterval, from: number, to: number): Promise<PriceBar[]> {
+    await this.ready;
+    if (!this.database) return [];
+
+    const rows = await this.database.all(
+      `SELECT * FROM price_bars
+       WHERE symbol = ? AND bar_interval = ? AND timestamp >= ? AND timestamp <= ?
+       ORDER BY timestamp ASC`,
+      [symbol.toUpperCase(), interval, this.alignBound(from, interval), to]
+    );
+
+    return rows.map(row => this.rowToBar(row));
+  }
+
+  /**
+   * Get the latest stored bar for a symbol
+   */
+  async getLatestBar(symbol: string, interval: BarInterval = '1d'): Promise<PriceBar | null> {
+    await this.ready;
+    if (!this.database) return null;
+
+    const row = await this.database.get(
+      `SELECT * FROM price_bars WHERE symbol = ? AND bar_interval = ?
+       ORDER BY timestamp DESC LIMIT 1`,
+      [symbol.toUpperCase(), interval]
+    );
+
+    return row ? this.rowToBar(row) : null;
+  }
+
+  /**
+   * Make sure the store covers [from, to], fetching only what is missing
+   */
+  async ensureRange(
+    symbol: string,
+    interval: BarInterval,
+    from: number,
+    to: number
+  ): Promise<BackfillResult> {
+    const key = `${symbol}:${interval}:${from}:${to}`;
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const promise = this.backfill(symbol.toUpperCase(), interval, from, to).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Incremental backfill followed by gap repair
+   */
+  private async backfill(
+    symbol: string,
+    interval: BarInterval,
+    from: number,
+    to: number
+  ): Promise<BackfillResult> {
+    await this.ready;
+
+    const result: BackfillResult = {
+      symbol,
+      interval,
+      fetchedRanges: [],
+      gapsFound: 0,
+      gapsFilled: 0,
+      barsWritten: 0,
+    };
+
+    if (!this.database) return result;
+
+    const start = this.alignBound(from, interval);
+    const coverage = await this.getCoverage(symbol, interval);
+    const segments: Array<{ start: number; end: number }> = [];
+
+    if (!coverage) {
+      segments.push({ start, end: to });
+    } else {
+      if (start < coverage.start) {
+        segments.push({ start, end: coverage.start - 1 });
+      }
+      // Always re-read from the last stored bar so a still-forming bar gets finalized
+      if (to > coverage.end) {
+        segments.push({ start: coverage.end, end: to });
+      }
+    }
+
+    // Only segments that returned bars count as covered, so a range every provider failed on
+    // is fetched again next time instead of being treated as stored history
+    let coveredStart: number | null = null;
+    let coveredEnd: number | null = null;
+
+    for (const segment of segments) {
+      const fetched = await this.fetchRange(symbol, interval, segment.start, segment.end);
+      result.fetchedRanges.push({
+        start: segment.start,
+        end: segment.end,
+        source: fetched.source,
+        bars: fetched.bars.length,
+      });
+      result.barsWritten += await this.upsertBars(fetched.bars);
+
+      if (fetched.bars.length > 0) {
+        coveredStart = Math.min(coveredStart ?? segment.start, segment.start);
+        coveredEnd = Math.max(coveredEnd ?? segment.end, segment.end);
+      }
+    }
+
+    if (coveredStart !== null && coveredEnd !== null) {
+      await this.updateCoverage(symbol, interval, coveredStart, coveredEnd, coverage);
+    }
+
+    const windowStart = Math.max(start, Math.min(coverage?.start ?? Infinity, coveredStart ?? Infinity));
+    const windowEnd = Math.min(to, Math.max(coverage?.end ?? -Infinity, coveredEnd ?? -Infinity));
+
+    // Detect and repair holes inside the covered window
+    const stored = windowStart <= windowEnd ? await this.readBars(symbol, interval, windowStart, windowEnd) : [];
+    const gaps = windowStart <= windowEnd
+      ? await this.filterRetryableGaps(symbol, interval, this.detectGaps(stored, interval, windowStart, windowEnd, classifySymbol(symbol)))
+      : [];
+    result.gapsFound = gaps.length;
+
+    for (const gap of gaps) {
+      const fetched = await this.fetchRange(symbol, interval, gap.start, gap.end);
+      const written = await this.upsertBars(fetched.bars);
+      result.barsWritten += written;
+
+      if (written > 0) {
+        result.gapsFilled++;
+        await this.database.run(
+          'DELETE FROM bar_gaps WHERE symbol = ? AND bar_interval = ? AND start_time = ?',
+          [symbol, interval, gap.start]
+        );
+      } else if (fetched.answered) {
+        // Only an empty answer counts against the gap; an outage leaves it retryable
+        await this.recordGapAttempt(symbol, interval, gap);
+      }
+    }
+
+    if (interval !== '1d') {
+      await this.pruneIntraday(symbol, interval);
+    }
+
+    if (result.barsWritten > 0 || result.gapsFound > 0) {
+      loggerUtils.dbLogger.info('Bar backfill completed', {
+        symbol,
+        interval,
+        segments: result.fetchedRanges.length,
+        barsWritten: result.barsWritten,
+        gapsFound: result.gapsFound,
+        gapsFilled: result.gapsFilled,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Find missing bars between from and to.
+   * Daily bars expect every weekday (every day for crypto); intraday bars expect the regular
+   * 09:30-16:00 ET session, or the whole time the market is open for crypto and FX.
+   */
+  detectGaps(bars: PriceBar[], interval: BarInterval, from: number, to: number, assetClass: AssetClass = 'equity'): BarGap[] {
+    const present = new Set(bars.map(bar => bar.timestamp));
+    const expected = this.expectedTimestamps(interval, from, Math.min(to, Date.now()), assetClass);
+    const step = INTERVAL_MS[interval];
+    const gaps: BarGap[] = [];
+    let current: BarGap | null = null;
+
+    for (const timestamp of expected) {
+      if (present.has(timestamp)) {
+        if (current) {
+          gaps.push(current);
+          current = null;
+        }
+        continue;
+      }
+
+      if (current) {
+        current.end = timestamp + step - 1;
+        current.missingBars++;
+      } else {
+        current = { start: timestamp, end: timestamp + step - 1, missingBars: 1 };
+      }
+    }
+
+    if (current) gaps.push(current);
+
+    // The still-forming bar at the right edge is not a gap
+    const lastExpected = expected[expected.length - 1];
+    return gaps.filter(gap => !(gap.missingBars === 1 && gap.start === lastExpected && to >= Date.now() - step));
+  }
+
+  /**
+   * Insert or replace bars, returning the number written
+   */
+  async upsertBars(bars: PriceBar[]): Promise<number> {
+    await this.ready;
+    if (!this.database || bars.length === 0) return 0;
+
+    // Transactions share one connection, so writers take turns
+    const write = this.writeChain.then(() => this.writeBars(bars));
+    this.writeChain = write.catch(() => undefined);
+    return await write;
+  }
+
+  private async writeBars(bars: PriceBar[]): Promise<number> {
+    if (!this.database) return 0;
+
+    const now = Date.now();
+    await this.database.exec('BEGIN TRANSACTION');
+
+    try {
+      for (const bar of bars) {
+        await this.database.run(
+          `INSERT OR REPLACE INTO price_bars (
+            symbol, bar_interval, timestamp, open, high, low, close, adj_close, volume, source, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            bar.symbol.toUpperCase(),
+            bar.interval,
+            bar.timestamp,
+            bar.open,
+            bar.high,
+            bar.low,
+            bar.close,
+            bar.adjClose,
+            bar.volume,
+            bar.source,
+            now,
+          ]
+        );
+      }
+      await this.database.exec('COMMIT');
+    } catch (error) {
+      await this.database.exec('ROLLBACK');
+      throw error;
+    }
+
+    return bars.length;
+  }
+
+  /**
+   * Get what range of history is stored for a symbol
+   */
+  async getCoverage(symbol: string, interval: BarInterval): Promise<BarCoverage | null> {
+    await this.ready;
+    if (!this.database) return null;
+
+    const row = await this.database.get(
+      'SELECT * FROM bar_coverage WHERE symbol = ? AND bar_interval = ?',
+      [symbol.toUpperCase(), interval]
+    );
+    if (!row) return null;
+
+    const count = await this.database.get(
+      'SELECT COUNT(*) AS count FROM price_bars WHERE symbol = ? AND bar_interval = ?',
+      [symbol.toUpperCase(), interval]
+    );
+
+    return {
+      symbol: row.symbol,
+      interval: row.bar_interval,
+      start: row.start_time,
+      end: row.end_time,
+      lastSynced: row.last_synced,
+      barCount: count?.count || 0,
+    };
+  }
+
+  /**
+   * Fetch a range from the first provider that returns bars; answered is false when every
+   * provider failed or was unavailable, as opposed to answering with no bars
+   */
+  private async fetchRange(
+    symbol: string,
+    interval: BarInterval,
+    from: number,
+    to: number
+  ): Promise<{ source: string | null; bars: PriceBar[]; answered: boolean }> {
+    let answered = false;
+
+    for (const source of this.config.sources) {
+      try {
+        const bars = await this.fetchFromSource(source, symbol, interval, from, to);
+        if (bars === null) continue;
+        answered = true;
+
+        const inRange = bars.filter(bar => bar.timestamp >= from && bar.timestamp <= to);
+        if (inRange.length > 0) {
+          return { source, bars: inRange, answered };
+        }
+      } catch (error) {
+        loggerUtils.apiLogger.warn('Bar source failed, trying next', {
+          source,
+          symbol,
+          interval,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return { source: null, bars: [], answered };
+  }
+
+  /**
+   * Fetch and normalize bars from one provider; null means the provider is unavailable
+   */
+  private async fetchFromSource(
+    source: string,
+    symbol: string,
+    interval: BarInterval,
+    from: number,
+    to: number
+  ): Promise<PriceBar[] | null> {
+    switch (source) {
+      case 'polygon': {
+        const client = this.dataHub.polygonClient;
+        if (!client) return null;
+
+        const { multiplier, timespan } = this.toPolygonSpan(interval);
+        const ticker = providerSymbol('polygon', symbol);
+        const response = await client.getAggregates(ticker, multiplier, timespan, String(from), String(to), false);
+        return (response?.results || []).map((bar: any) => this.makeBar(symbol, interval, source, {
+          timestamp: bar.t,
+          open: bar.o,
+          high: bar.h,
+          low: bar.l,
+          close: bar.c,
+          volume: bar.v,
+        }));
+      }
+
+      case 'yahoo': {
+        const client = this.dataHub.yahooFinanceClient;
+        if (!client) return null;
+
+        const yahooInterval = interval === '1h' ? '60m' : interval;
+        const response = await client.getHistoricalData(
+          symbol,
+          Math.floor(from / 1000),
+          Math.ceil(to / 1000),
+          yahooInterval
+        );
+        // Yahoo prices and volumes are split-adjusted as of today; undo that to keep raw values.
+        // Without a known split history the bars cannot be unadjusted, so the source fails instead.
+        const assetClass = classifySymbol(symbol);
+        const splits = assetClass === 'equity' || assetClass === 'etf'
+          ? await this.dataHub.corporateActions.requireSplits(symbol)
+          : [];
+        return (response?.data || []).map((raw: any) => {
+          const bar = this.makeBar(symbol, interval, source, raw);
+          const factor = this.dataHub.corporateActions.splitFactorAfter(splits, exchangeDate(Number(raw.timestamp)));
+          if (factor === 1) return bar;
+
+          return {
+            ...bar,
+            open: bar.open * factor,
+            high: bar.high * factor,
+            low: bar.low * factor,
+            close: bar.close * factor,
+            adjClose: bar.adjClose * factor,
+            volume: bar.volume / factor,
+          };
+        });
+      }
+
+      case 'alphavantage': {
+        const client = this.dataHub.alphaVantageClient;
+        const assetClass = classifySymbol(symbol);
+        if (!client || (assetClass !== 'equity' && assetClass !== 'etf')) return null;
+
+        // Compact responses hold the latest 100 points
+        const outputsize = to - from > 100 * INTERVAL_MS[interval] ? 'full' : 'compact';
+        const response = interval === '1d'
+          ? await client.getTimeSeriesDaily(symbol, outputsize)
+          : await client.getTimeSeriesIntraday(symbol, this.toAlphaVantageInterval(interval), outputsize);
+
+        const seriesKey = Object.keys(response || {}).find(key => key.startsWith('Time Series'));
+        if (!seriesKey) return [];
+
+        return Object.entries(response[seriesKey]).map(([time, values]: [string, any]) => {
+          const field = (name: string): number => {
+            const key = Object.keys(values).find(k => k.replace(/^\d+\.\s*/, '') === name);
+            return key ? parseFloat(values[key]) : NaN;
+          };
+          const close = field('close');
+          const adjusted = field('adjusted close');
+
+          return this.makeBar(symbol, interval, source, {
+            timestamp: easternToUtc(time.length === 10 ? `${time} 00:00:00` : time),
+            open: field('open'),
+            high: field('high'),
+            low: field('low'),
+            close,
+            adjClose: isNaN(adjusted) ? close : adjusted,
+            volume: field('volume'),
+          });
+        });
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Build a normalized bar, aligning daily timestamps to the exchange date
+   */
+  private makeBar(symbol: string, interval: BarInterval, source: string, raw: any): PriceBar {
+    const close = Number(raw.close);
+    return {
+      symbol: symbol.toUpperCase(),
+      interval,
+      timestamp: this.alignTimestamp(Number(raw.timestamp), interval, classifySymbol(symbol)),
+      open: Number(raw.open ?? close),
+      high: Number(raw.high ?? close),
+      low: Number(raw.low ?? close),
+      close,
+      adjClose: Number(raw.adjClose ?? close),
+      volume: Number(raw.volume || 0),
+      source,
+    };
+  }
+
+  /**
+   * Daily bars are keyed by UTC midnight of the exchange date, intraday bars by interval boundary.
+   * Crypto and FX days are UTC days, stamped at or just before midnight depending on the provider.
+   */
+  private alignTimestamp(timestamp: number, interval: BarInterval, assetClass: AssetClass = 'equity'): number {
+    if (interval === '1d') {
+      return tradesOffExchangeHours(assetClass)
+        ? Math.round(timestamp / DAY_MS) * DAY_MS
+        : Date.parse(`${exchangeDate(timestamp)}T00:00:00Z`);
+    }
+    const step = INTERVAL_MS[interval];
+    return Math.floor(timestamp / step) * step;
+  }
+
+  /**
+   * Align a query boundary; daily bounds are taken as UTC calendar dates
+   */
+  private alignBound(timestamp: number, interval: BarInterval): number {
+    const step = INTERVAL_MS[interval];
+    return Math.floor(timestamp / step) * step;
+  }
+
+  /**
+   * Timestamps we expect a bar for between from and to
+   */
+  private expectedTimestamps(interval: BarInterval, from: number, to: number, assetClass: AssetClass = 'equity'): number[] {
+    const timestamps: number[] = [];
+    const step = INTERVAL_MS[interval];
+
+    for (let day = this.alignBound(from, '1d'); day <= to; day += DAY_MS) {
+      const weekday = new Date(day).getUTCDay();
+      const date = new Date(day).toISOString().split('T')[0];
+
+      if (assetClass === 'crypto') {
+        const end = interval === '1d' ? day : day + DAY_MS - step;
+        for (let t = day; t <= end; t += step) {
+          if (t >= from && t <= to) timestamps.push(t);
+        }
+        continue;
+      }
+
+      // Spot FX trades from Sunday 17:00 to Friday 17:00 ET; daily bars cover weekdays
+      if (assetClass === 'fx' && interval !== '1d') {
+        if (weekday === 6) continue;
+        const dayOpen = weekday === 0 ? easternToUtc(`${date} 17:00:00`) : easternToUtc(`${date} 00:00:00`);
+        const dayClose = weekday === 5 ? easternToUtc(`${date} 17:00:00`) : easternToUtc(`${new Date(day + DAY_MS).toISOString().split('T')[0]} 00:00:00`);
+        for (let t = Math.ceil(dayOpen / step) * step; t < dayClose; t += step) {
+          if (t >= from && t <= to) timestamps.push(t);
+        }
+        continue;
+      }
+
+      if (weekday === 0 || weekday === 6) continue;
+
+      if (interval === '1d') {
+        timestamps.push(day);
+        continue;
+      }
+
+      const sessionOpen = easternToUtc(`${date} 09:30:00`);
+      const sessionClose = easternToUtc(`${date} 16:00:00`);
+
+      for (let t = Math.floor(sessionOpen / step) * step; t < sessionClose; t += step) {
+        if (t >= from && t <= to) timestamps.push(t);
+      }
+    }
+
+    return timestamps;
+  }
+
+  /**
+   * Drop gaps that have already come back empty too many times
+   */
+  private async filterRetryableGaps(symbol: string, interval: BarInterval, gaps: BarGap[]): Promise<BarGap[]> {
+    if (!this.database || gaps.length === 0) return gaps;
+
+    const rows = await this.database.all(
+      'SELECT start_time, attempts FROM bar_gaps WHERE symbol = ? AND bar_interval = ?',
+      [symbol, interval]
+    );
+    const attempts = new Map<number, number>(rows.map(row => [row.start_time, row.attempts]));
+
+    return gaps.filter(gap => (attempts.get(gap.start) || 0) < this.config.maxGapAttempts);
+  }
+
+  private async recordGapAttempt(symbol: string, interval: BarInterval, gap: BarGap): Promise<void> {
+    if (!this.database) return;
+
+    await this.database.run(
+      `INSERT INTO bar_gaps (symbol, bar_interval, start_time, end_time, attempts, last_attempt)
+       VALUES (?, ?, ?, ?, 1, ?)
+       ON CONFLICT(symbol, bar_interval, start_time)
+       DO UPDATE SET attempts = attempts + 1, end_time = excluded.end_time, last_attempt = excluded.last_attempt`,
+      [symbol, interval, gap.start, gap.end, Date.now()]
+    );
+  }
+
+  private async updateCoverage(
+    symbol: string,
+    interval: BarInterval,
+    start: number,
+    end: number,
+    existing: BarCoverage | null
+  ): Promise<void> {
+    if (!this.database) return;
+
+    await this.database.run(
+      `INSERT OR REPLACE INTO bar_coverage (symbol, bar_interval, start_time, end_time, last_synced)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        symbol,
+        interval,
+        existing ? Math.min(existing.start, start) : start,
+        existing ? Math.max(existing.end, end) : end,
+        Date.now(),
+      ]
+    );
+  }
+
+  /**
+   * Keep intraday history bounded
+   */
+  private async pruneIntraday(symbol: string, interval: BarInterval): Promise<void> {
+    if (!this.database) return;
+
+    const cutoff = Date.now() - this.config.intradayRetentionDays * DAY_MS;
+    await this.database.run(
+      'DELETE FROM price_bars WHERE symbol = ? AND bar_interval = ? AND timestamp < ?',
+      [symbol, interval, cutoff]
+    );
+    await this.database.run(
+      `UPDATE bar_coverage SET start_time = MAX(start_time, ?)
+       WHERE symbol = ? AND bar_interval = ?`,
+      [cutoff, symbol, interval]
+    );
+  }
+
+  private toPolygonSpan(interval: BarInterval): { multiplier: number; timespan: string } {
+    switch (interval) {
+      case '1d': return { multiplier: 1, timespan: 'day' };
+      case '1h': return { multiplier: 1, timespan: 'hour' };
+      default: return { multiplier: parseInt(interval, 10), timespan: 'minute' };
+    }
+  }
+
+  private toAlphaVantageInterval(interval: BarInterval): '1min' | '5min' | '15min' | '30min' | '60min' {
+    return interval === '1h' ? '60min' : `${parseInt(interval, 10)}min` as any;
+  }
+
+  private rowToBar(row: any): PriceBar {
+    return {
+      symbol: row.symbol,
+      interval: row.bar_interval,
+      timestamp: row.timestamp,
+      open: row.open,
+      high: row.high,
+      low: row.low,
+      close: row.close,
+      adjClose: row.adj_close,
+      volume: row.volume,
+      source: row.source,
+    };
+  }
+
+  /**
+   * Close the database connection
+   */
+  async close(): Promise<void> {
+    await this.ready;
+    if (this.database) {
+      await this.database.close();
+      this.database = null;
+    }
+  }
+}
+
+/**
+ * Exchange-local calendar date (YYYY-MM-DD) for a UTC timestamp
+ */
+export function exchangeDate(timestamp: number): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: EXCHANGE_TIMEZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(timestamp));
+}
+
+/**
+ * Convert an exchange-local "YYYY-MM-DD HH:MM:SS" string to a UTC timestamp
+ */
+export function easternToUtc(localTime: string): number {
+  const asUtc = Date.parse(`${localTime.replace(' ', 'T')}Z`);
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: EXCHANGE_TIMEZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(asUtc));
+
+  const get = (type: string): number => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  const zoned = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+  return asUtc + (asUtc - zoned);
+}
+
+export default BarStore;
@@ -0,0 +1,437 @@
+/**
+ * Corporate Actions Service
+ * Stores split and dividend events per symbol and adjusts raw bar series for them
+ */
+
+import sqlite3 from 'sqlite3';
+import { Database, open } from 'sqlite';
+import { loggerUtils } from '../config/logger.js';
+import { DataHub } from '../api/DataHub.js';
+import { CorporateAction, PriceAdjustment, PriceBar } from '../types/data.js';
+import { exchangeDate } from './BarStore.js';
+import path from 'path';
+
+export interface CorporateActionsConfig {
+  dbPath: string;
+  sources: string[]; // DataHub client names in the order they are tried
+  syncIntervalHours: number;
+  historyYears: number;
+}
+
+const DAY_MS = 86400000;
+
+export class CorporateActionsService {
+  private database: Database | null = null;
+  private ready: Promise<void>;
+  private dataHub: DataHub;
+  private config: CorporateActionsConfig;
+  private inFlight: Map<string, Promise<void>> = new Map();
+
+  constructor(dataHub: DataHub, config: Partial<CorporateActionsConfig> = {}) {
+    this.dataHub = dataHub;
+    this.config = {
+      dbPath: path.join(process.cwd(), 'data', 'corporate_actions.db'),
+      sources: ['polygon', 'finnhub', 'yahoo'],
+      syncIntervalHours: 24,
+      historyYears: 25,
+      ...config,
+    };
+    this.ready = this.initializeDatabase();
+  }
+
+  /**
+   * Initialize SQLite database for corporate action storage
+   */
+  private async initializeDatabase(): Promise<void> {
+    try {
+      this.database = await open({
+        filename: this.config.dbPath,
+        driver: sqlite3.Database
+      });
+
+      await this.database.exec(`
+        CREATE TABLE IF NOT EXISTS corporate_actions (
+          symbol TEXT NOT NULL,
+          action_type TEXT NOT NULL,
+          ex_date TEXT NOT NULL,
+          ratio REAL,
+          amount REAL,
+          source TEXT NOT NULL,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (symbol, action_type, ex_date)
+        );
+
+        CREATE TABLE IF NOT EXISTS corporate_action_sync (
+          symbol TEXT PRIMARY KEY,
+          last_synced INTEGER NOT NULL,
+          split_source TEXT,
+          dividend_source TEXT
+        );
+      `);
+
+      loggerUtils.dbLogger.info('Corporate actions database initialized', { dbPath: this.config.dbPath });
+    } catch (error) {
+      loggerUtils.dbLogger.error('Failed to initialize corporate actions database', {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Get stored splits and dividends for a symbol, syncing from providers when stale
+   */
+  async getActions(symbol: string, options: { refresh?: boolean } = {}): Promise<CorporateAction[]> {
+    const normalizedSymbol = symbol.toUpperCase();
+    await this.ready;
+    if (!this.database) return [];
+
+    const sync = await this.database.get(
+      'SELECT last_synced FROM corporate_action_sync WHERE symbol = ?',
+      [normalizedSymbol]
+    );
+    const stale = !sync || Date.now() - sync.last_synced > this.config.syncIntervalHours * 3600000;
+
+    if (options.refresh || stale) {
+      try {
+        await this.syncActions(normalizedSymbol);
+      } catch (error) {
+        loggerUtils.apiLogger.warn('Corporate action sync failed, using stored events', {
+          symbol: normalizedSymbol,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    const rows = await this.database.all(
+      'SELECT * FROM corporate_actions WHERE symbol = ? ORDER BY ex_date ASC',
+      [normalizedSymbol]
+    );
+
+    return rows.map(row => ({
+      symbol: row.symbol,
+      type: row.action_type,
+      exDate: row.ex_date,
+      ratio: row.ratio ?? undefined,
+      amount: row.amount ?? undefined,
+      source: row.source,
+    }));
+  }
+
+  async getSplits(symbol: string): Promise<CorporateAction[]> {
+    return (await this.getActions(symbol)).filter(action => action.type === 'split');
+  }
+
+  async getDividends(symbol: string): Promise<CorporateAction[]> {
+    return (await this.getActions(symbol)).filter(action => action.type === 'dividend');
+  }
+
+  /**
+   * Splits from a history some provider has actually supplied; throws rather than
+   * returning an empty list when split history has never been synced
+   */
+  async requireSplits(symbol: string): Promise<CorporateAction[]> {
+    const splits = await this.getSplits(symbol);
+    if (!this.database) {
+      throw new Error(`Split history unavailable for ${symbol}`);
+    }
+
+    const sync = await this.database.get(
+      'SELECT split_source FROM corporate_action_sync WHERE symbol = ?',
+      [symbol.toUpperCase()]
+    );
+    if (!sync?.split_source) {
+      throw new Error(`Split history unavailable for ${symbol}`);
+    }
+
+    return splits;
+  }
+
+  /**
+   * Pull split and dividend history from the first provider that answers
+   */
+  async syncActions(symbol: string): Promise<void> {
+    const normalizedSymbol = symbol.toUpperCase();
+    const pending = this.inFlight.get(normalizedSymbol);
+    if (pending) return pending;
+
+    const promise = this.fetchAndStore(normalizedSymbol).finally(() => {
+      this.inFlight.delete(normalizedSymbol);
+    });
+    this.inFlight.set(normalizedSymbol, promise);
+    return promise;
+  }
+
+  private async fetchAndStore(symbol: string): Promise<void> {
+    await this.ready;
+    if (!this.database) return;
+
+    let splits: { source: string; actions: CorporateAction[] } | null = null;
+    let dividends: { source: string; actions: CorporateAction[] } | null = null;
+
+    for (const source of this.config.sources) {
+      if (splits && dividends) break;
+
+      try {
+        const fetched = await this.fetchFromSource(source, symbol, { splits: !splits, dividends: !dividends });
+        if (fetched.splits && !splits) splits = { source, actions: fetched.splits };
+        if (fetched.dividends && !dividends) dividends = { source, actions: fetched.dividends };
+      } catch (error) {
+        loggerUtils.apiLogger.warn('Corporate action source failed, trying next', {
+          source,
+          symbol,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    if (!splits && !dividends) {
+      throw new Error(`No corporate action source available for ${symbol}`);
+    }
+
+    const now = Date.now();
+    await this.database.exec('BEGIN TRANSACTION');
+
+    try {
+      // Replace each event type wholesale so corrected or cancelled events disappear
+      for (const [type, result] of [['split', splits], ['dividend', dividends]] as const) {
+        if (!result) continue;
+
+        await this.database.run(
+          'DELETE FROM corporate_actions WHERE symbol = ? AND action_type = ?',
+          [symbol, type]
+        );
+        for (const action of result.actions) {
+          await this.database.run(
+            `INSERT OR REPLACE INTO corporate_actions (symbol, action_type, ex_date, ratio, amount, source, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            [symbol, type, action.exDate, action.ratio ?? null, action.amount ?? null, action.source, now]
+          );
+        }
+      }
+
+      await this.database.run(
+        `INSERT INTO corporate_action_sync (symbol, last_synced, split_source, dividend_source)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(symbol) DO UPDATE SET
+           last_synced = excluded.last_synced,
+           split_source = COALESCE(excluded.split_source, split_source),
+           dividend_source = COALESCE(excluded.dividend_source, dividend_source)`,
+        [symbol, now, splits?.source || null, dividends?.source || null]
+      );
+
+      await this.database.exec('COMMIT');
+    } catch (error) {
+      await this.database.exec('ROLLBACK');
+      throw error;
+    }
+
+    loggerUtils.dbLogger.info('Corporate actions synced', {
+      symbol,
+      splits: splits?.actions.length ?? 'unavailable',
+      dividends: dividends?.actions.length ?? 'unavailable',
+    });
+  }
+
+  /**
+   * Fetch and normalize events from one provider; a null list means the provider could not supply it
+   */
+  private async fetchFromSource(
+    source: string,
+    symbol: string,
+    wanted: { splits: boolean; dividends: boolean }
+  ): Promise<{ splits: CorporateAction[] | null; dividends: CorporateAction[] | null }> {
+    const from = new Date(Date.now() - this.config.historyYears * 365 * DAY_MS).toISOString().split('T')[0];
+    const to = new Date().toISOString().split('T')[0];
+
+    switch (source) {
+      case 'polygon': {
+        const client = this.dataHub.polygonClient;
+        if (!client) return { splits: null, dividends: null };
+
+        const splits = wanted.splits
+          ? ((await client.getStockSplits(symbol, undefined, 1000))?.results || [])
+            .filter((split: any) => split.split_from > 0 && split.split_to > 0)
+            .map((split: any) => this.makeSplit(symbol, source, split.execution_date, split.split_to / split.split_from))
+          : null;
+        const dividends = wanted.dividends
+          ? ((await client.getDividends(symbol, undefined, undefined, 1000))?.results || [])
+            .filter((dividend: any) => dividend.cash_amount > 0)
+            .map((dividend: any) => this.makeDividend(symbol, source, dividend.ex_dividend_date, dividend.cash_amount))
+          : null;
+
+        return { splits, dividends };
+      }
+
+      case 'finnhub': {
+        const client = this.dataHub.finnhubClient;
+        if (!client) return { splits: null, dividends: null };
+
+        const splits = wanted.splits
+          ? ((await client.getStockSplits(symbol, from, to)) || [])
+            .filter((split: any) => split.fromFactor > 0 && split.toFactor > 0)
+            .map((split: any) => this.makeSplit(symbol, source, split.date, split.toFactor / split.fromFactor))
+          : null;
+        const dividends = wanted.dividends
+          ? ((await client.getDividends(symbol, from, to)) || [])
+            .filter((dividend: any) => dividend.amount > 0)
+            .map((dividend: any) => this.makeDividend(symbol, source, dividend.date, dividend.amount))
+          : null;
+
+        return { splits, dividends };
+      }
+
+      case 'yahoo': {
+        const client = this.dataHub.yahooFinanceClient;
+        if (!client) return { splits: null, dividends: null };
+
+        // Monthly bars keep the payload small; events are reported regardless of interval
+        const response = await client.getHistoricalData(
+          symbol,
+          Math.floor(Date.parse(from) / 1000),
+          Math.floor(Date.now() / 1000),
+          '1mo'
+        );
+        const events = response?.events;
+        if (!events) return { splits: null, dividends: null };
+
+        return {
+          splits: events.splits
+            .filter((split: any) => split.numerator > 0 && split.denominator > 0)
+            .map((split: any) => this.makeSplit(symbol, source, split.date, split.numerator / split.denominator)),
+          dividends: events.dividends
+            .filter((dividend: any) => dividend.amount > 0)
+            .map((dividend: any) => this.makeDividend(symbol, source, dividend.date, dividend.amount)),
+        };
+      }
+
+      default:
+        return { splits: null, dividends: null };
+    }
+  }
+
+  /**
+   * Adjust stored (raw) bars for a symbol.
+   * Splits divide prices and multiply volume by the cumulative ratio of later splits;
+   * total-return mode also scales earlier prices by (1 - dividend / prior close) for each later dividend.
+   * adjClose always carries the total-return close.
+   */
+  async adjustSeries(symbol: string, bars: PriceBar[], adjustment: PriceAdjustment = 'split'): Promise<PriceBar[]> {
+    if (bars.length === 0 || adjustment === 'none') return bars;
+
+    let actions: CorporateAction[] = [];
+    try {
+      actions = await this.getActions(symbol);
+    } catch (error) {
+      loggerUtils.dbLogger.warn('Corporate actions unavailable, returning raw bars', {
+        symbol,
+        error: (error as Error).message,
+      });
+      return bars;
+    }
+
+    // Dividends after the last bar need the close just before their ex-date
+    const priorCloses = new Map<string, number>();
+    const lastDate = this.barDate(bars[bars.length - 1]);
+    for (const dividend of actions) {
+      if (dividend.type !== 'dividend' || dividend.exDate <= lastDate) continue;
+
+      const exTimestamp = Date.parse(`${dividend.exDate}T00:00:00Z`);
+      const prior = await this.dataHub.barStore.readBars(symbol, '1d', exTimestamp - 10 * DAY_MS, exTimestamp - 1);
+      if (prior.length > 0) {
+        priorCloses.set(dividend.exDate, prior[prior.length - 1].close);
+      }
+    }
+
+    return this.adjustBars(bars, actions, adjustment, priorCloses);
+  }
+
+  /**
+   * Pure adjustment of a raw, time-ordered bar series
+   */
+  adjustBars(
+    bars: PriceBar[],
+    actions: CorporateAction[],
+    adjustment: PriceAdjustment,
+    priorCloses: Map<string, number> = new Map()
+  ): PriceBar[] {
+    if (adjustment === 'none') return bars;
+
+    const dates = bars.map(bar => this.barDate(bar));
+    const splits = actions.filter(action => action.type === 'split' && action.ratio > 0);
+    const dividendFactors = actions
+      .filter(action => action.type === 'dividend' && action.amount > 0)
+      .map(dividend => {
+        const previousIndex = this.lastIndexBefore(dates, dividend.exDate);
+        const priorClose = priorCloses.get(dividend.exDate) ??
+          (previousIndex >= 0 ? bars[previousIndex].close : 0);
+
+        if (!(priorClose > dividend.amount)) return null;
+        return { exDate: dividend.exDate, factor: 1 - dividend.amount / priorClose };
+      })
+      .filter(Boolean);
+
+    return bars.map((bar, index) => {
+      const date = dates[index];
+      const splitFactor = splits
+        .filter(split => split.exDate > date)
+        .reduce((product, split) => product * split.ratio, 1);
+      const dividendFactor = dividendFactors
+        .filter(dividend => dividend.exDate > date)
+        .reduce((product, dividend) => product * dividend.factor, 1);
+      const priceFactor = adjustment === 'total_return' ? dividendFactor / splitFactor : 1 / splitFactor;
+
+      return {
+        ...bar,
+        open: bar.open * priceFactor,
+        high: bar.high * priceFactor,
+        low: bar.low * priceFactor,
+        close: bar.close * priceFactor,
+        adjClose: bar.close * dividendFactor / splitFactor,
+        volume: bar.volume * splitFactor,
+      };
+    });
+  }
+
+  /**
+   * Cumulative ratio of splits taking effect after the given date; converts split-adjusted prices back to raw
+   */
+  splitFactorAfter(actions: CorporateAction[], date: string): number {
+    return actions
+      .filter(action => action.type === 'split' && action.ratio > 0 && action.exDate > date)
+      .reduce((product, split) => product * split.ratio, 1);
+  }
+
+  private lastIndexBefore(dates: string[], exDate: string): number {
+    for (let i = dates.length - 1; i >= 0; i--) {
+      if (dates[i] < exDate) return i;
+    }
+    return -1;
+  }
+
+  private barDate(bar: PriceBar): string {
+    return bar.interval === '1d'
+      ? new Date(bar.timestamp).toISOString().split('T')[0]
+      : exchangeDate(bar.timestamp);
+  }
+
+  private makeSplit(symbol: string, source: string, exDate: string, ratio: number): CorporateAction {
+    return { symbol, type: 'split', exDate, ratio, source };
+  }
+
+  private makeDividend(symbol: string, source: string, exDate: string, amount: number): CorporateAction {
+    return { symbol, type: 'dividend', exDate, amount: Number(amount), source };
+  }
+
+  /**
+   * Close the database connection
+   */
+  async close(): Promise<void> {
+    await this.ready;
+    if (this.database) {
+      await this.database.close();
+      this.database = null;
+    }
+  }
+}
+
+export default CorporateActionsService;
@@ -0,0 +1,156 @@
+/**
+ * Currency Converter
+ * Converts prices into the reporting currency (REPORTING_CURRENCY) with rates read from
+ * Yahoo FX quotes. Rates are cached for an hour; minor units such as GBp are scaled to
+ * their major currency and dollar stablecoins count as USD.
+ */
+
+import { loggerUtils } from '../config/logger.js';
+import { DataHub } from '../api/DataHub.js';
+import { NormalizedQuote } from '../types/data.js';
+import env from '../config/env.js';
+
+export interface CurrencyConverterConfig {
+  baseCurrency: string;
+  rateTTLMs: number;
+}
+
+export interface ExchangeRate {
+  from: string;
+  to: string;
+  rate: number;
+  fetchedAt: number;
+}
+
+// Listings quoted in minor units, with the major currency and its scale
+const MINOR_UNITS: Record<string, { currency: string; divisor: number }> = {
+  GBP_MINOR: { currency: 'GBP', divisor: 100 }, // Yahoo reports London listings as GBp
+  GBX: { currency: 'GBP', divisor: 100 },
+  ZAC: { currency: 'ZAR', divisor: 100 },
+  ILA: { currency: 'ILS', divisor: 100 },
+};
+
+const USD_STABLECOINS = new Set(['USDT', 'USDC', 'DAI', 'BUSD']);
+
+export class CurrencyConverter {
+  private dataHub: DataHub;
+  private config: CurrencyConverterConfig;
+  private rates: Map<string, ExchangeRate> = new Map();
+  private inFlight: Map<string, Promise<number | null>> = new Map();
+
+  constructor(dataHub: DataHub, config: Partial<CurrencyConverterConfig> = {}) {
+    this.dataHub = dataHub;
+    this.config = {
+      baseCurrency: env.REPORTING_CURRENCY,
+      rateTTLMs: 60 * 60 * 1000,
+      ...config,
+    };
+  }
+
+  get baseCurrency(): string {
+    return this.config.baseCurrency;
+  }
+
+  /**
+   * Units of `to` per unit of `from`, or null when no rate is available
+   */
+  async getRate(from: string, to: string = this.config.baseCurrency): Promise<number | null> {
+    const source = this.resolve(from);
+    const target = this.resolve(to);
+    if (source.currency === target.currency) return target.divisor / source.divisor;
+
+    const rate = await this.majorRate(source.currency, target.currency);
+    return rate === null ? null : rate * target.divisor / source.divisor;
+  }
+
+  async convert(amount: number, from: string, to: string = this.config.baseCurrency): Promise<number | null> {
+    const rate = await this.getRate(from, to);
+    return rate === null ? null : amount * rate;
+  }
+
+  /**
+   * Add reporting-currency fields to a quote; the quote is returned unchanged when no rate is known
+   */
+  async annotateQuote(quote: NormalizedQuote): Promise<NormalizedQuote> {
+    const rate = await this.getRate(quote.currency || 'USD');
+    if (rate === null) return quote;
+
+    return {
+      ...quote,
+      baseCurrency: this.config.baseCurrency,
+      fxRate: rate,
+      priceInBase: quote.price * rate,
+      marketCapInBase: quote.marketCap !== undefined ? quote.marketCap * rate : undefined,
+    };
+  }
+
+  /**
+   * Rates currently cached, for diagnostics
+   */
+  getCachedRates(): ExchangeRate[] {
+    return Array.from(this.rates.values());
+  }
+
+  private async majorRate(from: string, to: string): Promise<number | null> {
+    const key = `${from}${to}`;
+    const cached = this.rates.get(key);
+    if (cached && Date.now() - cached.fetchedAt < this.config.rateTTLMs) {
+      return cached.rate;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const promise = this.fetchRate(from, to)
+      .then(rate => {
+        if (rate !== null) this.rates.set(key, { from, to, rate, fetchedAt: Date.now() });
+        return rate ?? cached?.rate ?? null; // A stale rate beats none
+      })
+      .finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  private async fetchRate(from: string, to: string): Promise<number | null> {
+    const client = this.dataHub.yahooFinanceClient;
+    if (!client) return null;
+
+    try {
+      const quote = await client.getQuote(`${from}${to}=X`);
+      const rate = Number(quote?.price);
+      if (Number.isFinite(rate) && rate > 0) return rate;
+    } catch (error) {
+      loggerUtils.apiLogger.debug('Direct FX rate unavailable, trying the inverse pair', {
+        from,
+        to,
+        error: (error as Error).message,
+      });
+    }
+
+    try {
+      const inverse = await client.getQuote(`${to}${from}=X`);
+      const rate = Number(inverse?.price);
+      if (Number.isFinite(rate) && rate > 0) return 1 / rate;
+    } catch (error) {
+      loggerUtils.apiLogger.warn('FX rate unavailable', {
+        from,
+        to,
+        error: (error as Error).message,
+      });
+    }
+
+    return null;
+  }
+
+  private resolve(currency: string): { currency: string; divisor: number } {
+    // GBp and GBP differ only in case, so minor units are matched before uppercasing
+    if (currency === 'GBp') return MINOR_UNITS.GBP_MINOR;
+
+    const code = (currency || 'USD').toUpperCase();
+    if (MINOR_UNITS[code]) return MINOR_UNITS[code];
+    if (USD_STABLECOINS.has(code)) return { currency: 'USD', divisor: 1 };
+    return { currency: code, divisor: 1 };
+  }
+}
+
+export default CurrencyConverter;
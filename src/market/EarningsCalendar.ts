@@ -0,0 +1,731 @@
+/**
+ * Earnings Calendar
+ * Per-symbol report dates and results merged from Finnhub's earnings calendar (dates, BMO/AMC
+ * timing, estimates), Alpha Vantage's market-wide earnings calendar (dates, timing, estimates)
+ * and quarterly earnings (report history with surprises), and Yahoo quoteSummary (next date,
+ * its session and whether it is still an estimate). Lookups are synchronous against the
+ * in-memory table; refreshes run through the quota manager.
+ */
+
+import sqlite3 from 'sqlite3';
+import { Database, open } from 'sqlite';
+import path from 'path';
+import { loggerUtils } from '../config/logger.js';
+import { DataHub } from '../api/DataHub.js';
+import { quotaManager } from '../api/QuotaManager.js';
+import { EarningsReport, EarningsTiming } from '../types/data.js';
+import { easternToUtc, exchangeDate } from './BarStore.js';
+import { parseCsvLine } from './SecurityMaster.js';
+
+export interface EarningsCalendarConfig {
+  dbPath: string;
+  syncIntervalHours: number; // Market-wide upcoming calendar
+  failedSyncRetryHours: number; // Wait after a sync where every source failed
+  symbolRefreshHours: number; // Per-symbol history and next date
+  lookaheadDays: number;
+  historyDays: number; // Finnhub window behind today on per-symbol refreshes
+}
+
+export interface EarningsWindowQuery {
+  symbols?: string[];
+  confirmedOnly?: boolean;
+}
+
+export interface EarningsCalendarSyncResult {
+  reports: number;
+  errors: string[];
+}
+
+const DAY_MS = 86400000;
+
+// An estimated date can move by weeks once the company announces it; providers agree on
+// reported dates to within a day or two
+const ESTIMATE_MATCH_DAYS = 30;
+const REPORTED_MATCH_DAYS = 3;
+
+const TIMINGS: EarningsTiming[] = ['bmo', 'amc', 'dmh'];
+
+export class EarningsCalendarService {
+  private database: Database | null = null;
+  private ready: Promise<void>;
+  private config: EarningsCalendarConfig;
+  private dataHub: DataHub | null = null;
+  private reports: Map<string, EarningsReport[]> = new Map(); // Oldest first per symbol
+  private refreshedAt: Map<string, number> = new Map();
+  private lastSync: number = 0;
+  private lastFailedSync: number = 0;
+  private inFlight: Promise<EarningsCalendarSyncResult> | null = null;
+  private symbolsInFlight: Map<string, Promise<EarningsCalendarSyncResult>> = new Map();
+
+  constructor(config: Partial<EarningsCalendarConfig> = {}) {
+    this.config = {
+      dbPath: path.join(process.cwd(), 'data', 'earnings_calendar.db'),
+      syncIntervalHours: 12,
+      failedSyncRetryHours: 1,
+      symbolRefreshHours: 24,
+      lookaheadDays: 90,
+      historyDays: 365,
+      ...config,
+    };
+    this.ready = this.initializeDatabase();
+  }
+
+  /**
+   * Initialize SQLite database for earnings reports
+   */
+  private async initializeDatabase(): Promise<void> {
+    try {
+      this.database = await open({
+        filename: this.config.dbPath,
+        driver: sqlite3.Database
+      });
+
+      await this.database.exec(`
+        CREATE TABLE IF NOT EXISTS earnings_reports (
+          id TEXT PRIMARY KEY,
+          symbol TEXT NOT NULL,
+          report_date TEXT NOT NULL,
+          timing TEXT,
+          status TEXT NOT NULL,
+          fiscal_period_end TEXT,
+          fiscal_quarter INTEGER,
+          fiscal_year INTEGER,
+          eps_estimate REAL,
+          eps_actual REAL,
+          eps_surprise_percent REAL,
+          revenue_estimate REAL,
+          revenue_actual REAL,
+          revenue_surprise_percent REAL,
+          sources TEXT NOT NULL DEFAULT '[]',
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_earnings_reports_symbol ON earnings_reports(symbol, report_date);
+        CREATE INDEX IF NOT EXISTS idx_earnings_reports_date ON earnings_reports(report_date);
+
+        CREATE TABLE IF NOT EXISTS earnings_symbols (
+          symbol TEXT PRIMARY KEY,
+          refreshed_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS earnings_calendar_meta (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+
+      const rows = await this.database.all('SELECT * FROM earnings_reports ORDER BY symbol, report_date');
+      for (const row of rows) {
+        const report = this.fromRow(row);
+        const list = this.reports.get(report.symbol) || [];
+        list.push(report);
+        this.reports.set(report.symbol, list);
+      }
+
+      const refreshed = await this.database.all('SELECT symbol, refreshed_at FROM earnings_symbols');
+      refreshed.forEach(row => this.refreshedAt.set(row.symbol, row.refreshed_at));
+
+      const meta = await this.database.all(`SELECT key, value FROM earnings_calendar_meta`);
+      const metaValue = (key: string) => Number(meta.find(row => row.key === key)?.value || 0);
+      this.lastSync = metaValue('last_sync');
+      this.lastFailedSync = metaValue('last_failed_sync');
+
+      loggerUtils.dbLogger.info('Earnings calendar initialized', {
+        symbols: this.reports.size,
+        reports: rows.length,
+      });
+    } catch (error) {
+      loggerUtils.dbLogger.error('Failed to initialize earnings calendar database', {
+        error: (error as Error).message,
+      });
+      this.database = null;
+    }
+  }
+
+  /**
+   * Give the calendar access to DataHub clients for refreshes; the first hub attached is kept
+   */
+  attach(dataHub: DataHub): void {
+    if (!this.dataHub) {
+      this.dataHub = dataHub;
+    }
+  }
+
+  /**
+   * All known reports for a symbol, oldest first
+   */
+  getReports(symbol: string): EarningsReport[] {
+    return [...(this.reports.get(symbol.toUpperCase()) || [])];
+  }
+
+  /**
+   * First unreported earnings on or after an exchange-local date (YYYY-MM-DD)
+   */
+  getNextEarnings(symbol: string, onOrAfter: string = exchangeDate(Date.now())): EarningsReport | null {
+    return this.getReports(symbol)
+      .find(report => report.reportDate >= onOrAfter && report.epsActual === null) || null;
+  }
+
+  /**
+   * Calendar days from an exchange-local date to the next report; 0 on report day
+   */
+  daysToEarnings(symbol: string, from: string = exchangeDate(Date.now())): number | null {
+    const next = this.getNextEarnings(symbol, from);
+    return next ? this.daysBetween(from, next.reportDate) : null;
+  }
+
+  /**
+   * Most recent report on or before an exchange-local date
+   */
+  getLastReport(symbol: string, onOrBefore: string = exchangeDate(Date.now())): EarningsReport | null {
+    const past = this.getReports(symbol).filter(report =>
+      report.reportDate < onOrBefore || (report.reportDate === onOrBefore && report.epsActual !== null)
+    );
+    return past[past.length - 1] || null;
+  }
+
+  /**
+   * Last `count` reports with results, newest first
+   */
+  getLastSurprises(symbol: string, count: number = 4): EarningsReport[] {
+    return this.getReports(symbol)
+      .filter(report => report.epsActual !== null)
+      .reverse()
+      .slice(0, count);
+  }
+
+  /**
+   * Reports dated inside [from, to] (YYYY-MM-DD), earliest first
+   */
+  getEarningsInWindow(from: string, to: string, query: EarningsWindowQuery = {}): EarningsReport[] {
+    const symbols = query.symbols
+      ? query.symbols.map(symbol => symbol.toUpperCase())
+      : Array.from(this.reports.keys());
+
+    return symbols
+      .flatMap(symbol => this.reports.get(symbol) || [])
+      .filter(report => report.reportDate >= from && report.reportDate <= to)
+      .filter(report => !query.confirmedOnly || report.status === 'confirmed')
+      .sort((a, b) => a.reportDate.localeCompare(b.reportDate) || a.symbol.localeCompare(b.symbol));
+  }
+
+  /**
+   * Refresh a symbol when its history is older than the refresh interval
+   */
+  async refreshIfStale(symbol: string): Promise<EarningsCalendarSyncResult | null> {
+    await this.ready;
+    const refreshedAt = this.refreshedAt.get(symbol.toUpperCase()) || 0;
+    if (Date.now() - refreshedAt < this.config.symbolRefreshHours * 3600000) {
+      return null;
+    }
+    return await this.refreshSymbol(symbol);
+  }
+
+  /**
+   * Pull one symbol's dates, estimates and surprise history from every configured provider
+   */
+  async refreshSymbol(symbol: string): Promise<EarningsCalendarSyncResult> {
+    const key = symbol.toUpperCase();
+    const pending = this.symbolsInFlight.get(key);
+    if (pending) return await pending;
+
+    const refresh = quotaManager.runWithPriority('normal', () => this.performRefresh(key));
+    this.symbolsInFlight.set(key, refresh);
+    try {
+      return await refresh;
+    } finally {
+      this.symbolsInFlight.delete(key);
+    }
+  }
+
+  /**
+   * Sync the market-wide calendar when the last sync is older than the interval and no
+   * failed sync is waiting out its retry delay
+   */
+  async syncIfStale(): Promise<EarningsCalendarSyncResult | null> {
+    await this.ready;
+    const now = Date.now();
+    if (now - this.lastSync < this.config.syncIntervalHours * 3600000
+      || now - this.lastFailedSync < this.config.failedSyncRetryHours * 3600000) {
+      return null;
+    }
+    return await this.sync();
+  }
+
+  /**
+   * Pull upcoming report dates for all symbols from Finnhub and Alpha Vantage
+   */
+  async sync(): Promise<EarningsCalendarSyncResult> {
+    if (this.inFlight) return await this.inFlight;
+
+    this.inFlight = quotaManager.runWithPriority('low', () => this.performSync());
+    try {
+      return await this.inFlight;
+    } finally {
+      this.inFlight = null;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.ready;
+    if (this.database) {
+      await this.database.close();
+      this.database = null;
+    }
+  }
+
+  private async performSync(): Promise<EarningsCalendarSyncResult> {
+    await this.ready;
+
+    const result: EarningsCalendarSyncResult = { reports: 0, errors: [] };
+    const touched = new Set<string>();
+    const from = this.isoDate(Date.now());
+    const to = this.isoDate(Date.now() + this.config.lookaheadDays * DAY_MS);
+    let synced = false;
+
+    const finnhub = this.dataHub?.finnhubClient;
+    if (finnhub) {
+      try {
+        const response = await finnhub.getEarningsCalendar(from, to);
+        for (const row of response?.earningsCalendar || []) {
+          const report = this.fromFinnhub(row);
+          if (report) {
+            touched.add(this.merge(report).symbol);
+            result.reports++;
+          }
+        }
+        synced = true;
+      } catch (error) {
+        result.errors.push(`finnhub: ${(error as Error).message}`);
+      }
+    }
+
+    // One request covers every symbol
+    const alphaVantage = this.dataHub?.alphaVantageClient;
+    if (alphaVantage) {
+      try {
+        const horizon = this.config.lookaheadDays <= 90 ? '3month' : this.config.lookaheadDays <= 180 ? '6month' : '12month';
+        for (const report of this.parseAlphaVantageCalendar(await alphaVantage.getEarningsCalendar(horizon))) {
+          if (report.reportDate < from || report.reportDate > to) continue;
+          touched.add(this.merge(report).symbol);
+          result.reports++;
+        }
+        synced = true;
+      } catch (error) {
+        result.errors.push(`alphavantage: ${(error as Error).message}`);
+      }
+    }
+
+    if (!finnhub && !alphaVantage) {
+      result.errors.push('No earnings calendar provider available');
+    }
+
+    await this.persist(Array.from(touched));
+
+    // A failed sync is recorded too, so restarts wait out the retry delay instead of retrying at once
+    const attemptedAt = Date.now();
+    if (synced) {
+      this.lastSync = attemptedAt;
+    } else {
+      this.lastFailedSync = attemptedAt;
+    }
+    if (this.database) {
+      await this.database.run(
+        `INSERT OR REPLACE INTO earnings_calendar_meta (key, value) VALUES (?, ?)`,
+        [synced ? 'last_sync' : 'last_failed_sync', String(attemptedAt)]
+      );
+    }
+
+    loggerUtils.apiLogger.info('Earnings calendar synced', { symbols: touched.size, synced, ...result });
+    return result;
+  }
+
+  private async performRefresh(symbol: string): Promise<EarningsCalendarSyncResult> {
+    await this.ready;
+
+    const result: EarningsCalendarSyncResult = { reports: 0, errors: [] };
+    if (!this.dataHub) {
+      result.errors.push('No DataHub attached');
+      return result;
+    }
+
+    // Order matters: Yahoo's history is keyed by fiscal period, which only Alpha Vantage supplies
+    const finnhub = this.dataHub.finnhubClient;
+    if (finnhub) {
+      try {
+        const response = await finnhub.getEarningsCalendar(
+          this.isoDate(Date.now() - this.config.historyDays * DAY_MS),
+          this.isoDate(Date.now() + this.config.lookaheadDays * DAY_MS),
+          symbol
+        );
+        for (const row of response?.earningsCalendar || []) {
+          const report = this.fromFinnhub(row);
+          if (report && report.symbol === symbol) this.merge(report);
+        }
+      } catch (error) {
+        result.errors.push(`finnhub: ${(error as Error).message}`);
+      }
+    }
+
+    // Surprise history only changes after a report, and the upcoming date comes from the
+    // market-wide sync, so the per-symbol call is skipped until results are due
+    const alphaVantage = this.dataHub.alphaVantageClient;
+    if (alphaVantage && this.historyDue(symbol)) {
+      try {
+        const response = await quotaManager.runWithPriority('low', () => alphaVantage.getEarnings(symbol));
+        if (!Array.isArray(response?.quarterlyEarnings)) {
+          throw new Error(response?.Note || response?.Information || 'Unexpected earnings response');
+        }
+        for (const row of response.quarterlyEarnings) {
+          const report = this.fromAlphaVantage(symbol, row);
+          if (report) this.merge(report);
+        }
+      } catch (error) {
+        result.errors.push(`alphavantage: ${(error as Error).message}`);
+      }
+    }
+
+    const yahoo = this.dataHub.yahooFinanceClient;
+    if (yahoo) {
+      try {
+        this.applyYahoo(symbol, await yahoo.getEarnings(symbol));
+      } catch (error) {
+        result.errors.push(`yahoo: ${(error as Error).message}`);
+      }
+    }
+
+    await this.persist([symbol]);
+    this.refreshedAt.set(symbol, Date.now());
+    if (this.database) {
+      await this.database.run(
+        'INSERT OR REPLACE INTO earnings_symbols (symbol, refreshed_at) VALUES (?, ?)',
+        [symbol, this.refreshedAt.get(symbol)]
+      );
+    }
+
+    result.reports = this.reports.get(symbol)?.length || 0;
+    loggerUtils.apiLogger.info('Earnings calendar refreshed', { symbol, ...result });
+    return result;
+  }
+
+  private fromFinnhub(row: any): EarningsReport | null {
+    if (!row?.symbol || !row?.date) return null;
+
+    const timing = TIMINGS.includes(row.hour) ? row.hour : null;
+    const epsActual = this.number(row.epsActual);
+
+    return this.createReport({
+      symbol: String(row.symbol).toUpperCase(),
+      reportDate: row.date,
+      timing,
+      // Finnhub lists projected dates next to announced ones; only announced dates carry a session
+      status: timing || epsActual !== null ? 'confirmed' : 'estimated',
+      fiscalQuarter: this.number(row.quarter),
+      fiscalYear: this.number(row.year),
+      epsEstimate: this.number(row.epsEstimate),
+      epsActual,
+      revenueEstimate: this.number(row.revenueEstimate),
+      revenueActual: this.number(row.revenueActual),
+      sources: ['finnhub'],
+    });
+  }
+
+  private fromAlphaVantage(symbol: string, row: any): EarningsReport | null {
+    if (!row?.reportedDate) return null;
+
+    const epsActual = this.number(row.reportedEPS);
+    const timing = row.reportTime === 'pre-market' ? 'bmo' : row.reportTime === 'post-market' ? 'amc' : null;
+
+    return this.createReport({
+      symbol,
+      reportDate: row.reportedDate,
+      timing,
+      // The upcoming quarter appears with Alpha Vantage's own projected date and no results
+      status: epsActual !== null ? 'confirmed' : 'estimated',
+      fiscalPeriodEnd: row.fiscalDateEnding || null,
+      epsEstimate: this.number(row.estimatedEPS),
+      epsActual,
+      epsSurprisePercent: this.number(row.surprisePercentage),
+      sources: ['alphavantage'],
+    });
+  }
+
+  /**
+   * Alpha Vantage EARNINGS_CALENDAR CSV: symbol,name,reportDate,fiscalDateEnding,estimate,currency,timeOfTheDay
+   */
+  private parseAlphaVantageCalendar(csv: any): EarningsReport[] {
+    if (typeof csv !== 'string') {
+      throw new Error(csv?.Note || csv?.Information || 'Unexpected earnings calendar response');
+    }
+
+    const lines = csv.trim().split(/\r?\n/);
+    const header = parseCsvLine(lines.shift() || '');
+    const column = (name: string) => header.indexOf(name);
+    if (column('symbol') === -1 || column('reportDate') === -1) {
+      throw new Error('Unexpected earnings calendar response');
+    }
+
+    return lines
+      .map(line => parseCsvLine(line))
+      .filter(fields => fields[column('symbol')] && fields[column('reportDate')])
+      .map(fields => {
+        const time = fields[column('timeOfTheDay')];
+        const timing = time === 'pre-market' ? 'bmo' : time === 'post-market' ? 'amc' : null;
+        return this.createReport({
+          symbol: fields[column('symbol')].toUpperCase().replace('-', '.'),
+          reportDate: fields[column('reportDate')],
+          timing,
+          // As with Finnhub, only announced dates carry a session
+          status: timing ? 'confirmed' : 'estimated',
+          fiscalPeriodEnd: fields[column('fiscalDateEnding')] || null,
+          epsEstimate: this.number(fields[column('estimate')]),
+          sources: ['alphavantage'],
+        });
+      });
+  }
+
+  /**
+   * Whether a report has come due without results; symbols with no history at all count too
+   */
+  private historyDue(symbol: string): boolean {
+    const reports = this.reports.get(symbol) || [];
+    if (!reports.some(report => report.epsActual !== null)) return true;
+
+    const today = exchangeDate(Date.now());
+    return reports.some(report => report.epsActual === null
+      && report.reportDate <= today
+      && this.daysBetween(report.reportDate, today) <= ESTIMATE_MATCH_DAYS);
+  }
+
+  /**
+   * Yahoo's next date says whether it is still an estimate and, once announced, the session
+   * from its time of day; its history has no report dates, so it only fills results on
+   * reports already placed by fiscal period
+   */
+  private applyYahoo(symbol: string, data: any): void {
+    for (const row of data?.history || []) {
+      const periodEnd = row.quarter?.fmt || (row.quarter?.raw ? this.isoDate(row.quarter.raw * 1000) : null);
+      const existing = periodEnd
+        ? (this.reports.get(symbol) || []).find(report => report.fiscalPeriodEnd === periodEnd)
+        : undefined;
+      if (!existing) continue;
+
+      const surprise = this.number(row.surprisePercent);
+      this.merge({
+        ...existing,
+        epsEstimate: this.number(row.epsEstimate),
+        epsActual: this.number(row.epsActual),
+        epsSurprisePercent: surprise !== null ? surprise * 100 : null,
+        sources: ['yahoo'],
+        updatedAt: Date.now(),
+      });
+    }
+
+    if (data?.nextEarningsDate) {
+      const timestamp = data.nextEarningsDate * 1000;
+      // Estimated dates are stamped at midnight UTC and carry a date only
+      const dateOnly = timestamp % DAY_MS === 0;
+      const reportDate = dateOnly ? this.isoDate(timestamp) : exchangeDate(timestamp);
+
+      this.merge(this.createReport({
+        symbol,
+        reportDate,
+        timing: dateOnly || data.nextEarningsDateEstimated ? null : this.sessionTiming(reportDate, timestamp),
+        status: data.nextEarningsDateEstimated ? 'estimated' : 'confirmed',
+        epsEstimate: this.number(data.nextEarningsEpsEstimate),
+        revenueEstimate: this.number(data.nextEarningsRevenueEstimate),
+        sources: ['yahoo'],
+      }));
+    }
+  }
+
+  /**
+   * Merge a report into the symbol's history. Announced dates replace estimates, and a
+   * reported date is never moved; values already known are kept unless the incoming row has them
+   */
+  private merge(incoming: EarningsReport): EarningsReport {
+    const list = this.reports.get(incoming.symbol) || [];
+    const index = list.findIndex(existing => this.sameReport(existing, incoming));
+    if (index === -1) {
+      this.reports.set(incoming.symbol, this.sorted([...list, incoming]));
+      return incoming;
+    }
+
+    const existing = list[index];
+    const incomingRank = this.rank(incoming);
+    const existingRank = this.rank(existing);
+    const dated = incomingRank > existingRank || (incomingRank === existingRank && existingRank < 2) ? incoming : existing;
+    const other = dated === incoming ? existing : incoming;
+
+    const epsEstimate = incoming.epsEstimate ?? existing.epsEstimate;
+    const epsActual = incoming.epsActual ?? existing.epsActual;
+    const revenueEstimate = incoming.revenueEstimate ?? existing.revenueEstimate;
+    const revenueActual = incoming.revenueActual ?? existing.revenueActual;
+
+    const merged: EarningsReport = {
+      ...existing,
+      id: dated.id,
+      reportDate: dated.reportDate,
+      status: dated.status,
+      timing: dated.timing ?? (other.reportDate === dated.reportDate ? other.timing : null),
+      fiscalPeriodEnd: existing.fiscalPeriodEnd ?? incoming.fiscalPeriodEnd,
+      fiscalQuarter: existing.fiscalQuarter ?? incoming.fiscalQuarter,
+      fiscalYear: existing.fiscalYear ?? incoming.fiscalYear,
+      epsEstimate,
+      epsActual,
+      epsSurprisePercent: this.surprisePercent(epsActual, epsEstimate)
+        ?? incoming.epsSurprisePercent ?? existing.epsSurprisePercent,
+      revenueEstimate,
+      revenueActual,
+      revenueSurprisePercent: this.surprisePercent(revenueActual, revenueEstimate)
+        ?? incoming.revenueSurprisePercent ?? existing.revenueSurprisePercent,
+      sources: Array.from(new Set([...existing.sources, ...incoming.sources])),
+      updatedAt: Math.max(existing.updatedAt, incoming.updatedAt),
+    };
+
+    this.reports.set(
+      incoming.symbol,
+      this.sorted(list.filter((report, i) => i !== index && report.id !== merged.id).concat(merged))
+    );
+    return merged;
+  }
+
+  private sameReport(a: EarningsReport, b: EarningsReport): boolean {
+    if (a.id === b.id) return true;
+    if (a.fiscalPeriodEnd && b.fiscalPeriodEnd) return a.fiscalPeriodEnd === b.fiscalPeriodEnd;
+    if (a.fiscalYear !== null && a.fiscalQuarter !== null && b.fiscalYear !== null && b.fiscalQuarter !== null) {
+      return a.fiscalYear === b.fiscalYear && a.fiscalQuarter === b.fiscalQuarter;
+    }
+
+    const window = a.status === 'estimated' || b.status === 'estimated' ? ESTIMATE_MATCH_DAYS : REPORTED_MATCH_DAYS;
+    return Math.abs(this.daysBetween(a.reportDate, b.reportDate)) <= window;
+  }
+
+  /**
+   * Date authority: reported results over announced dates over estimates
+   */
+  private rank(report: EarningsReport): number {
+    if (report.epsActual !== null) return 2;
+    return report.status === 'confirmed' ? 1 : 0;
+  }
+
+  private async persist(symbols: string[]): Promise<void> {
+    if (!this.database || symbols.length === 0) return;
+
+    // Rewriting a symbol's rows drops estimates whose date moved
+    await this.database.exec('BEGIN TRANSACTION');
+    try {
+      for (const symbol of symbols) {
+        await this.database.run('DELETE FROM earnings_reports WHERE symbol = ?', [symbol]);
+        for (const report of this.reports.get(symbol) || []) {
+          await this.database.run(
+            `INSERT OR REPLACE INTO earnings_reports
+               (id, symbol, report_date, timing, status, fiscal_period_end, fiscal_quarter, fiscal_year,
+                eps_estimate, eps_actual, eps_surprise_percent, revenue_estimate, revenue_actual,
+                revenue_surprise_percent, sources, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+              report.id,
+              report.symbol,
+              report.reportDate,
+              report.timing,
+              report.status,
+              report.fiscalPeriodEnd,
+              report.fiscalQuarter,
+              report.fiscalYear,
+              report.epsEstimate,
+              report.epsActual,
+              report.epsSurprisePercent,
+              report.revenueEstimate,
+              report.revenueActual,
+              report.revenueSurprisePercent,
+              JSON.stringify(report.sources),
+              report.updatedAt,
+            ]
+          );
+        }
+      }
+      await this.database.exec('COMMIT');
+    } catch (error) {
+      await this.database.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private createReport(fields: Pick<EarningsReport, 'symbol' | 'reportDate' | 'timing' | 'status' | 'sources'> &
+    Partial<EarningsReport>): EarningsReport {
+    const report: EarningsReport = {
+      id: `${fields.symbol}|${fields.reportDate}`,
+      fiscalPeriodEnd: null,
+      fiscalQuarter: null,
+      fiscalYear: null,
+      epsEstimate: null,
+      epsActual: null,
+      epsSurprisePercent: null,
+      revenueEstimate: null,
+      revenueActual: null,
+      revenueSurprisePercent: null,
+      updatedAt: Date.now(),
+      ...fields,
+    };
+
+    return {
+      ...report,
+      epsSurprisePercent: this.surprisePercent(report.epsActual, report.epsEstimate) ?? report.epsSurprisePercent,
+      revenueSurprisePercent: this.surprisePercent(report.revenueActual, report.revenueEstimate)
+        ?? report.revenueSurprisePercent,
+    };
+  }
+
+  private fromRow(row: any): EarningsReport {
+    return {
+      id: row.id,
+      symbol: row.symbol,
+      reportDate: row.report_date,
+      timing: row.timing,
+      status: row.status,
+      fiscalPeriodEnd: row.fiscal_period_end,
+      fiscalQuarter: row.fiscal_quarter,
+      fiscalYear: row.fiscal_year,
+      epsEstimate: row.eps_estimate,
+      epsActual: row.eps_actual,
+      epsSurprisePercent: row.eps_surprise_percent,
+      revenueEstimate: row.revenue_estimate,
+      revenueActual: row.revenue_actual,
+      revenueSurprisePercent: row.revenue_surprise_percent,
+      sources: JSON.parse(row.sources || '[]'),
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private sessionTiming(reportDate: string, timestamp: number): EarningsTiming {
+    if (timestamp < easternToUtc(`${reportDate} 09:30:00`)) return 'bmo';
+    return timestamp >= easternToUtc(`${reportDate} 16:00:00`) ? 'amc' : 'dmh';
+  }
+
+  private sorted(reports: EarningsReport[]): EarningsReport[] {
+    return reports.sort((a, b) => a.reportDate.localeCompare(b.reportDate));
+  }
+
+  private surprisePercent(actual: number | null, estimate: number | null): number | null {
+    if (actual === null || estimate === null || estimate === 0) return null;
+    return Math.round(((actual - estimate) / Math.abs(estimate)) * 10000) / 100;
+  }
+
+  private daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+  }
+
+  private isoDate(timestamp: number): string {
+    return new Date(timestamp).toISOString().split('T')[0];
+  }
+
+  private number(value: any): number | null {
+    const parsed = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null;
+  }
+}
+
+export const earningsCalendar = new EarningsCalendarService();
+
+export default earningsCalendar;
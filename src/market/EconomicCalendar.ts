@@ -0,0 +1,544 @@
+/**
+ * Economic Calendar
+ * Macro releases merged from the local FOMC/CPI/NFP schedule, Finnhub's economic calendar
+ * (times, consensus and prior values), seasonally adjusted BLS CPI and Alpha Vantage macro
+ * series (actuals). Finnhub is only attached when FINNHUB_ENABLED is set; without it events
+ * carry no consensus. Window queries are synchronous against the in-memory table; syncs run
+ * in the background.
+ */
+
+import sqlite3 from 'sqlite3';
+import { Database, open } from 'sqlite';
+import fs from 'fs';
+import path from 'path';
+import { loggerUtils } from '../config/logger.js';
+import { DataHub } from '../api/DataHub.js';
+import { quotaManager } from '../api/QuotaManager.js';
+import { BLS_SERIES } from '../api/clients/BlsClient.js';
+import { EconomicEvent, EconomicEventCategory } from '../types/data.js';
+import { easternToUtc, exchangeDate } from './BarStore.js';
+import { SectorKey } from './SecurityMaster.js';
+
+export interface EconomicCalendarConfig {
+  dbPath: string;
+  schedulePath: string;
+  syncIntervalHours: number;
+  lookbackDays: number; // Past releases re-synced so actuals land after publication
+  lookaheadDays: number;
+}
+
+export interface EconomicEventQuery {
+  minImpact?: EconomicEvent['impact'];
+  countries?: string[];
+  categories?: EconomicEventCategory[];
+}
+
+export interface EconomicCalendarSyncResult {
+  events: number;
+  errors: string[];
+}
+
+interface ScheduleFile {
+  country: string;
+  releases: Array<{
+    category: EconomicEventCategory;
+    events: string[];
+    time: string; // HH:MM exchange-local
+    impact: EconomicEvent['impact'];
+    dates: string[];
+  }>;
+}
+
+const IMPACT_RANK: Record<EconomicEvent['impact'], number> = { low: 0, medium: 1, high: 2 };
+
+const CATEGORY_SECTORS: Record<EconomicEventCategory, SectorKey[]> = {
+  fomc: ['financials', 'real_estate', 'utilities'],
+  cpi: ['consumer_discretionary', 'consumer_staples', 'financials', 'real_estate'],
+  employment: ['consumer_discretionary', 'industrials', 'financials'],
+  other: [],
+};
+
+// Finnhub event names mapped onto the schedule's names so both sources merge into one row
+const EVENT_ALIASES: Array<[RegExp, string, EconomicEventCategory]> = [
+  [/^(fed interest rate decision|fomc (interest )?rate decision|interest rate decision)$/i, 'FOMC Rate Decision', 'fomc'],
+  [/^(cpi|inflation rate) mom$/i, 'CPI MoM', 'cpi'],
+  [/^(cpi|inflation rate) yoy$/i, 'CPI YoY', 'cpi'],
+  [/^core (cpi|inflation rate) (mom|yoy)$/i, '', 'cpi'],
+  [/^non ?farm payrolls$/i, 'Non Farm Payrolls', 'employment'],
+  [/^unemployment rate$/i, 'Unemployment Rate', 'employment'],
+];
+
+const COUNTRY_CURRENCIES: Record<string, string> = {
+  US: 'USD', EU: 'EUR', EA: 'EUR', DE: 'EUR', FR: 'EUR', IT: 'EUR', ES: 'EUR',
+  GB: 'GBP', UK: 'GBP', JP: 'JPY', CN: 'CNY', CA: 'CAD', AU: 'AUD', NZ: 'NZD', CH: 'CHF',
+};
+
+const DAY_MS = 86400000;
+
+export class EconomicCalendarService {
+  private database: Database | null = null;
+  private ready: Promise<void>;
+  private config: EconomicCalendarConfig;
+  private dataHub: DataHub | null = null;
+  private events: Map<string, EconomicEvent> = new Map();
+  private lastSync: number = 0;
+  private inFlight: Promise<EconomicCalendarSyncResult> | null = null;
+
+  constructor(config: Partial<EconomicCalendarConfig> = {}) {
+    this.config = {
+      dbPath: path.join(process.cwd(), 'data', 'economic_calendar.db'),
+      schedulePath: path.join(process.cwd(), 'config', 'economic-schedule.json'),
+      syncIntervalHours: 12,
+      lookbackDays: 45,
+      lookaheadDays: 60,
+      ...config,
+    };
+    this.loadSchedule();
+    this.ready = this.initializeDatabase();
+  }
+
+  /**
+   * Initialize SQLite database for calendar events
+   */
+  private async initializeDatabase(): Promise<void> {
+    try {
+      this.database = await open({
+        filename: this.config.dbPath,
+        driver: sqlite3.Database
+      });
+
+      await this.database.exec(`
+        CREATE TABLE IF NOT EXISTS economic_events (
+          id TEXT PRIMARY KEY,
+          event TEXT NOT NULL,
+          category TEXT NOT NULL,
+          country TEXT NOT NULL,
+          currency TEXT NOT NULL,
+          scheduled_at INTEGER NOT NULL,
+          impact TEXT NOT NULL,
+          actual REAL,
+          consensus REAL,
+          previous REAL,
+          unit TEXT,
+          reference_period TEXT,
+          sources TEXT NOT NULL DEFAULT '[]',
+          relevant_sectors TEXT NOT NULL DEFAULT '[]',
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_economic_events_time ON economic_events(scheduled_at);
+
+        CREATE TABLE IF NOT EXISTS economic_calendar_meta (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+
+      const rows = await this.database.all('SELECT * FROM economic_events');
+      rows.forEach(row => this.merge(this.fromRow(row)));
+
+      const meta = await this.database.get(`SELECT value FROM economic_calendar_meta WHERE key = 'last_sync'`);
+      this.lastSync = meta ? Number(meta.value) : 0;
+
+      loggerUtils.dbLogger.info('Economic calendar initialized', { events: this.events.size });
+    } catch (error) {
+      loggerUtils.dbLogger.error('Failed to initialize economic calendar database', {
+        error: (error as Error).message,
+      });
+      this.database = null;
+    }
+  }
+
+  /**
+   * Give the calendar access to DataHub clients for syncs; the first hub attached is kept
+   */
+  attach(dataHub: DataHub): void {
+    if (!this.dataHub) {
+      this.dataHub = dataHub;
+    }
+  }
+
+  /**
+   * Events scheduled inside [from, to], earliest first
+   */
+  getEventsInWindow(from: number | Date, to: number | Date, query: EconomicEventQuery = {}): EconomicEvent[] {
+    const start = typeof from === 'number' ? from : from.getTime();
+    const end = typeof to === 'number' ? to : to.getTime();
+
+    return Array.from(this.events.values())
+      .filter(event => event.scheduledAt >= start && event.scheduledAt <= end && this.matches(event, query))
+      .sort((a, b) => a.scheduledAt - b.scheduledAt);
+  }
+
+  /**
+   * Events in the next `hours` hours
+   */
+  getUpcomingEvents(hours: number = 24 * 7, query: EconomicEventQuery = {}): EconomicEvent[] {
+    const now = Date.now();
+    return this.getEventsInWindow(now, now + hours * 3600000, query);
+  }
+
+  /**
+   * Events on an exchange-local calendar date (YYYY-MM-DD)
+   */
+  getEventsOnDate(date: string, query: EconomicEventQuery = {}): EconomicEvent[] {
+    return Array.from(this.events.values())
+      .filter(event => exchangeDate(event.scheduledAt) === date && this.matches(event, query))
+      .sort((a, b) => a.scheduledAt - b.scheduledAt);
+  }
+
+  /**
+   * Next event of a category at or after a time
+   */
+  getNextEvent(category: EconomicEventCategory, from: number = Date.now()): EconomicEvent | null {
+    return this.getEventsInWindow(from, Number.MAX_SAFE_INTEGER, { categories: [category] })[0] || null;
+  }
+
+  /**
+   * Sync when the last sync is older than the interval
+   */
+  async syncIfStale(): Promise<EconomicCalendarSyncResult | null> {
+    await this.ready;
+    if (Date.now() - this.lastSync < this.config.syncIntervalHours * 3600000) {
+      return null;
+    }
+    return await this.sync();
+  }
+
+  /**
+   * Pull Finnhub calendar rows, BLS and Alpha Vantage actuals, then persist the merged table
+   */
+  async sync(): Promise<EconomicCalendarSyncResult> {
+    if (this.inFlight) return await this.inFlight;
+
+    this.inFlight = quotaManager.runWithPriority('low', () => this.performSync());
+    try {
+      return await this.inFlight;
+    } finally {
+      this.inFlight = null;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.ready;
+    if (this.database) {
+      await this.database.close();
+      this.database = null;
+    }
+  }
+
+  private async performSync(): Promise<EconomicCalendarSyncResult> {
+    await this.ready;
+
+    const result: EconomicCalendarSyncResult = { events: 0, errors: [] };
+    if (!this.dataHub) {
+      result.errors.push('No DataHub attached');
+      return result;
+    }
+
+    const changed = new Set<string>();
+    const from = new Date(Date.now() - this.config.lookbackDays * DAY_MS).toISOString().split('T')[0];
+    const to = new Date(Date.now() + this.config.lookaheadDays * DAY_MS).toISOString().split('T')[0];
+
+    const finnhub = this.dataHub.finnhubClient;
+    if (finnhub) {
+      try {
+        const response = await finnhub.getEconomicCalendar(from, to);
+        for (const row of response?.economicCalendar || []) {
+          const event = this.fromFinnhub(row);
+          if (event) changed.add(this.merge(event).id);
+        }
+      } catch (error) {
+        result.errors.push(`finnhub: ${(error as Error).message}`);
+      }
+    } else {
+      loggerUtils.apiLogger.debug('Finnhub disabled; economic events get no consensus or prior values');
+    }
+
+    // Alpha Vantage's CPI is the unadjusted index, so month-over-month changes come from BLS
+    const bls = this.dataHub.blsClient;
+    if (bls) {
+      try {
+        const data = await bls.getSeries(BLS_SERIES.cpiSeasonallyAdjusted);
+        this.applyMonthlyActuals('CPI MoM', data, true, 'bls').forEach(id => changed.add(id));
+      } catch (error) {
+        result.errors.push(`bls cpi: ${(error as Error).message}`);
+      }
+    }
+
+    const alphaVantage = this.dataHub.alphaVantageClient;
+    if (alphaVantage) {
+      const series: Array<[string, () => Promise<any>, (data: Array<{ date: string; value: number }>) => string[]]> = [
+        ['unemployment', () => alphaVantage.getUnemployment(), data => this.applyMonthlyActuals('Unemployment Rate', data, false, 'alphavantage')],
+        ['federal_funds_rate', () => alphaVantage.getFederalFundsRate('daily'), data => this.applyPolicyRate(data)],
+      ];
+
+      for (const [name, fetch, apply] of series) {
+        try {
+          apply(this.parseSeries(await fetch())).forEach(id => changed.add(id));
+        } catch (error) {
+          result.errors.push(`alphavantage ${name}: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    await this.persist(Array.from(changed).map(id => this.events.get(id)!));
+    this.lastSync = Date.now();
+    if (this.database) {
+      await this.database.run(
+        `INSERT OR REPLACE INTO economic_calendar_meta (key, value) VALUES ('last_sync', ?)`,
+        [String(this.lastSync)]
+      );
+    }
+
+    result.events = changed.size;
+    loggerUtils.apiLogger.info('Economic calendar synced', result);
+    return result;
+  }
+
+  /**
+   * Schedule releases are known months ahead; they seed the table before any sync
+   */
+  private loadSchedule(): void {
+    try {
+      const schedule: ScheduleFile = JSON.parse(fs.readFileSync(this.config.schedulePath, 'utf8'));
+      for (const release of schedule.releases || []) {
+        for (const date of release.dates) {
+          for (const name of release.events) {
+            this.merge(this.createEvent({
+              event: name,
+              category: release.category,
+              country: schedule.country,
+              scheduledAt: easternToUtc(`${date} ${release.time}:00`),
+              impact: release.impact,
+              unit: '%',
+              referencePeriod: release.category === 'fomc' ? null : this.previousMonth(date.slice(0, 7)),
+              sources: ['schedule'],
+            }));
+          }
+        }
+      }
+    } catch (error) {
+      loggerUtils.apiLogger.warn('Economic schedule unavailable', {
+        schedulePath: this.config.schedulePath,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private fromFinnhub(row: any): EconomicEvent | null {
+    if (!row?.event || !row?.time) return null;
+
+    const alias = EVENT_ALIASES.find(([pattern]) => pattern.test(String(row.event).trim()));
+    const country = String(row.country || '').toUpperCase();
+    // Non-US central bank decisions share the generic name; only the Fed's is an FOMC event
+    const category = alias && (alias[2] !== 'fomc' || country === 'US') ? alias[2] : 'other';
+    const event = alias && alias[1] && category !== 'other' ? alias[1] : String(row.event).trim();
+    const impact = ['low', 'medium', 'high'].includes(row.impact) ? row.impact : 'low';
+
+    return this.createEvent({
+      event,
+      category,
+      country,
+      scheduledAt: Date.parse(`${String(row.time).replace(' ', 'T')}Z`),
+      impact,
+      actual: this.number(row.actual),
+      consensus: this.number(row.estimate),
+      previous: this.number(row.prev),
+      unit: row.unit || null,
+      sources: ['finnhub'],
+    });
+  }
+
+  /**
+   * Fill actual and prior values of monthly releases from a BLS or Alpha Vantage series;
+   * index series (CPI) become month-over-month percent changes
+   */
+  private applyMonthlyActuals(event: string, data: Array<{ date: string; value: number }>, percentChange: boolean,
+    source: EconomicEvent['sources'][number]): string[] {
+    const byMonth = new Map(data.map(point => [point.date.slice(0, 7), point.value]));
+    const valueFor = (month: string): number | null => {
+      const value = byMonth.get(month);
+      if (value === undefined) return null;
+      if (!percentChange) return value;
+      const prior = byMonth.get(this.previousMonth(month));
+      return prior ? Math.round((value / prior - 1) * 10000) / 100 : null;
+    };
+
+    const changed: string[] = [];
+    for (const existing of this.events.values()) {
+      if (existing.event !== event || existing.country !== 'US' || !existing.referencePeriod) continue;
+      if (existing.scheduledAt > Date.now()) continue;
+
+      const actual = valueFor(existing.referencePeriod);
+      if (actual === null) continue;
+
+      // Finnhub's headline wins; the series only fills gaps
+      const merged = this.merge({
+        ...existing,
+        actual: existing.actual ?? actual,
+        previous: existing.previous ?? valueFor(this.previousMonth(existing.referencePeriod)),
+        sources: [source],
+      });
+      changed.push(merged.id);
+    }
+    return changed;
+  }
+
+  /**
+   * FOMC outcomes from the daily effective fed funds rate around each decision
+   */
+  private applyPolicyRate(data: Array<{ date: string; value: number }>): string[] {
+    const sorted = [...data].sort((a, b) => a.date.localeCompare(b.date));
+    const changed: string[] = [];
+
+    for (const existing of this.events.values()) {
+      if (existing.category !== 'fomc' || existing.scheduledAt > Date.now()) continue;
+
+      const decisionDate = exchangeDate(existing.scheduledAt);
+      const before = [...sorted].reverse().find(point => point.date < decisionDate);
+      const after = sorted.find(point => point.date > decisionDate);
+      if (!after) continue;
+
+      const merged = this.merge({
+        ...existing,
+        actual: existing.actual ?? after.value,
+        previous: existing.previous ?? before?.value ?? null,
+        sources: ['alphavantage'],
+      });
+      changed.push(merged.id);
+    }
+    return changed;
+  }
+
+  /**
+   * Merge an event into the table; values already known are kept unless the
+   * incoming row has them, schedule times win over provider times
+   */
+  private merge(incoming: EconomicEvent): EconomicEvent {
+    const existing = this.events.get(incoming.id);
+    if (!existing) {
+      this.events.set(incoming.id, incoming);
+      return incoming;
+    }
+
+    const merged: EconomicEvent = {
+      ...existing,
+      scheduledAt: existing.sources.includes('schedule') ? existing.scheduledAt : incoming.scheduledAt,
+      impact: IMPACT_RANK[incoming.impact] > IMPACT_RANK[existing.impact] ? incoming.impact : existing.impact,
+      actual: incoming.actual ?? existing.actual,
+      consensus: incoming.consensus ?? existing.consensus,
+      previous: incoming.previous ?? existing.previous,
+      unit: existing.unit || incoming.unit,
+      referencePeriod: existing.referencePeriod || incoming.referencePeriod,
+      sources: Array.from(new Set([...existing.sources, ...incoming.sources])),
+      updatedAt: Math.max(existing.updatedAt, incoming.updatedAt),
+    };
+    this.events.set(merged.id, merged);
+    return merged;
+  }
+
+  private async persist(events: EconomicEvent[]): Promise<void> {
+    if (!this.database || events.length === 0) return;
+
+    await this.database.exec('BEGIN TRANSACTION');
+    try {
+      for (const event of events) {
+        await this.database.run(
+          `INSERT OR REPLACE INTO economic_events
+             (id, event, category, country, currency, scheduled_at, impact, actual, consensus, previous,
+              unit, reference_period, sources, relevant_sectors, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            event.id,
+            event.event,
+            event.category,
+            event.country,
+            event.currency,
+            event.scheduledAt,
+            event.impact,
+            event.actual,
+            event.consensus,
+            event.previous,
+            event.unit,
+            event.referencePeriod,
+            JSON.stringify(event.sources),
+            JSON.stringify(event.relevantSectors),
+            event.updatedAt,
+          ]
+        );
+      }
+      await this.database.exec('COMMIT');
+    } catch (error) {
+      await this.database.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private createEvent(fields: Pick<EconomicEvent, 'event' | 'category' | 'country' | 'scheduledAt' | 'impact' | 'sources'> &
+    Partial<EconomicEvent>): EconomicEvent {
+    return {
+      id: `${fields.country}|${fields.event.toLowerCase()}|${exchangeDate(fields.scheduledAt)}`,
+      currency: COUNTRY_CURRENCIES[fields.country] || '',
+      actual: null,
+      consensus: null,
+      previous: null,
+      unit: null,
+      referencePeriod: null,
+      relevantSectors: fields.country === 'US' ? CATEGORY_SECTORS[fields.category] : [],
+      updatedAt: Date.now(),
+      ...fields,
+    };
+  }
+
+  private fromRow(row: any): EconomicEvent {
+    return {
+      id: row.id,
+      event: row.event,
+      category: row.category,
+      country: row.country,
+      currency: row.currency,
+      scheduledAt: row.scheduled_at,
+      impact: row.impact,
+      actual: row.actual,
+      consensus: row.consensus,
+      previous: row.previous,
+      unit: row.unit,
+      referencePeriod: row.reference_period,
+      sources: JSON.parse(row.sources || '[]'),
+      relevantSectors: JSON.parse(row.relevant_sectors || '[]'),
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private matches(event: EconomicEvent, query: EconomicEventQuery): boolean {
+    if (query.minImpact && IMPACT_RANK[event.impact] < IMPACT_RANK[query.minImpact]) return false;
+    if (query.countries && !query.countries.includes(event.country)) return false;
+    if (query.categories && !query.categories.includes(event.category)) return false;
+    return true;
+  }
+
+  private parseSeries(response: any): Array<{ date: string; value: number }> {
+    if (!Array.isArray(response?.data)) {
+      throw new Error(response?.Note || response?.Information || 'Unexpected series response');
+    }
+    return response.data
+      .map((point: any) => ({ date: point.date, value: parseFloat(point.value) }))
+      .filter(point => point.date && Number.isFinite(point.value));
+  }
+
+  private previousMonth(month: string): string {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const date = new Date(Date.UTC(year, monthNumber - 2, 1));
+    return date.toISOString().slice(0, 7);
+  }
+
+  private number(value: any): number | null {
+    const parsed = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null;
+  }
+}
+
+export const economicCalendar = new EconomicCalendarService();
+
+export default economicCalendar;
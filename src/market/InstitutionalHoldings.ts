@@ -0,0 +1,562 @@
+/**
+ * Institutional Holdings Service
+ * Ingests 13F-HR information tables from EDGAR, stores holdings per filer per quarter
+ * and derives quarter-over-quarter position changes and crowding per symbol
+ */
+
+import sqlite3 from 'sqlite3';
+import { Database, open } from 'sqlite';
+import { loggerUtils } from '../config/logger.js';
+import { DataHub } from '../api/DataHub.js';
+import { ThirteenFHolding, ThirteenFReport } from '../api/clients/SECEdgarClient.js';
+import { securityMaster } from './SecurityMaster.js';
+import {
+  InstitutionalHolding,
+  InstitutionalPositionChange,
+  NormalizedInstitutionalOwnership,
+} from '../types/data.js';
+import env from '../config/env.js';
+import path from 'path';
+
+export interface InstitutionalHoldingsConfig {
+  dbPath: string;
+  filerCiks: string[];
+  reportsPerFiler: number; // Most recent 13F-HR filings (amendments included) ingested per manager
+  syncIntervalHours: number;
+}
+
+// Large, widely followed managers tracked when INSTITUTIONAL_FILER_CIKS is not set
+const DEFAULT_FILER_CIKS = [
+  '0001067983', // Berkshire Hathaway
+  '0001350694', // Bridgewater Associates
+  '0001037389', // Renaissance Technologies
+  '0001423053', // Citadel Advisors
+  '0001179392', // Two Sigma Investments
+  '0001336528', // Pershing Square Capital Management
+  '0001656456', // Appaloosa
+  '0001167483', // Tiger Global Management
+  '0001040273', // Third Point
+  '0001061768', // Baupost Group
+];
+
+const TOP_HOLDER_COUNT = 5;
+const CROWDED_PORTFOLIO_WEIGHT = 0.05; // An average 5% position counts as fully crowded
+
+const parseCiks = (value: string | undefined): string[] =>
+  (value || '')
+    .split(',')
+    .map(cik => cik.trim().replace(/\D/g, ''))
+    .filter(Boolean)
+    .map(cik => cik.padStart(10, '0'));
+
+export class InstitutionalHoldingsService {
+  private database: Database | null = null;
+  private ready: Promise<void>;
+  private dataHub: DataHub;
+  private config: InstitutionalHoldingsConfig;
+  private inFlight: Promise<number> | null = null;
+
+  constructor(dataHub: DataHub, config: Partial<InstitutionalHoldingsConfig> = {}) {
+    const configuredCiks = parseCiks(env.INSTITUTIONAL_FILER_CIKS);
+    this.dataHub = dataHub;
+    this.config = {
+      dbPath: path.join(process.cwd(), 'data', 'institutional_holdings.db'),
+      filerCiks: configuredCiks.length > 0 ? configuredCiks : DEFAULT_FILER_CIKS,
+      reportsPerFiler: 10,
+      syncIntervalHours: 24,
+      ...config,
+    };
+    this.ready = this.initializeDatabase();
+  }
+
+  /**
+   * Initialize SQLite database for 13F holdings
+   */
+  private async initializeDatabase(): Promise<void> {
+    try {
+      this.database = await open({
+        filename: this.config.dbPath,
+        driver: sqlite3.Database
+      });
+
+      await this.database.exec(`
+        CREATE TABLE IF NOT EXISTS institutional_filings (
+          accession_number TEXT PRIMARY KEY,
+          filer_cik TEXT NOT NULL,
+          filer_name TEXT,
+          form TEXT NOT NULL,
+          period TEXT NOT NULL,
+          filing_date TEXT NOT NULL,
+          amendment_type TEXT,
+          holdings_count INTEGER NOT NULL,
+          ingested_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS institutional_holdings (
+          filer_cik TEXT NOT NULL,
+          period TEXT NOT NULL,
+          cusip TEXT NOT NULL,
+          put_call TEXT NOT NULL DEFAULT '',
+          symbol TEXT,
+          issuer_name TEXT,
+          title_of_class TEXT,
+          shares REAL NOT NULL,
+          value REAL NOT NULL,
+          accession_number TEXT NOT NULL,
+          PRIMARY KEY (filer_cik, period, cusip, put_call)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_institutional_holdings_symbol ON institutional_holdings(symbol, period);
+
+        CREATE TABLE IF NOT EXISTS institutional_sync (
+          filer_cik TEXT PRIMARY KEY,
+          filer_name TEXT,
+          last_synced INTEGER NOT NULL
+        );
+      `);
+
+      // Symbols used to come from fuzzy issuer-name matching; clear them so they are re-matched by CUSIP
+      const { user_version: version } = await this.database.get('PRAGMA user_version');
+      if (version < 1) {
+        await this.database.run('UPDATE institutional_holdings SET symbol = NULL');
+        await this.database.exec('PRAGMA user_version = 1');
+      }
+
+      loggerUtils.dbLogger.info('Institutional holdings database initialized', { dbPath: this.config.dbPath });
+    } catch (error) {
+      loggerUtils.dbLogger.error('Failed to initialize institutional holdings database', {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Ingest new 13F reports for every tracked manager whose data is stale
+   */
+  async sync(options: { force?: boolean } = {}): Promise<number> {
+    if (this.inFlight) return this.inFlight;
+
+    this.inFlight = this.performSync(options.force || false).finally(() => {
+      this.inFlight = null;
+    });
+    return this.inFlight;
+  }
+
+  private async performSync(force: boolean): Promise<number> {
+    await this.ready;
+    if (!this.database) return 0;
+
+    let ingested = 0;
+    for (const cik of this.config.filerCiks) {
+      const sync = await this.database.get('SELECT last_synced FROM institutional_sync WHERE filer_cik = ?', [cik]);
+      if (!force && sync && Date.now() - sync.last_synced < this.config.syncIntervalHours * 3600000) continue;
+
+      try {
+        ingested += await this.syncFiler(cik);
+      } catch (error) {
+        loggerUtils.apiLogger.warn('13F sync failed for filer', {
+          cik,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    await this.resolveUnmappedSymbols();
+
+    if (ingested > 0) {
+      loggerUtils.apiLogger.info('13F holdings synced', { reports: ingested });
+    }
+    return ingested;
+  }
+
+  /**
+   * Ingest a manager's 13F reports that are not stored yet, oldest first so amendments
+   * land after the filings they amend
+   */
+  async syncFiler(cik: string): Promise<number> {
+    const filerCik = cik.padStart(10, '0');
+    const sec = this.dataHub.secEdgarClient;
+    if (!sec) {
+      throw new Error('SEC EDGAR client not available');
+    }
+
+    await this.ready;
+    if (!this.database) return 0;
+
+    const filings = await sec.get13FFilings(filerCik, this.config.reportsPerFiler);
+    const stored = await this.database.all(
+      'SELECT accession_number FROM institutional_filings WHERE filer_cik = ?',
+      [filerCik]
+    );
+    const known = new Set(stored.map(row => row.accession_number));
+
+    let ingested = 0;
+    let filerName: string | null = null;
+    for (const filing of [...filings].reverse()) {
+      if (known.has(filing.accessionNumber)) continue;
+
+      const report = await sec.get13FReport(filerCik, filing);
+      await this.storeReport(report);
+      filerName = report.filerName || filerName;
+      ingested++;
+    }
+
+    await this.database.run(
+      `INSERT INTO institutional_sync (filer_cik, filer_name, last_synced)
+       VALUES (?, ?, ?)
+       ON CONFLICT(filer_cik) DO UPDATE SET
+         filer_name = COALESCE(excluded.filer_name, filer_name),
+         last_synced = excluded.last_synced`,
+      [filerCik, filerName, Date.now()]
+    );
+
+    return ingested;
+  }
+
+  /**
+   * Store one report; originals and restatements replace the quarter, "new holdings"
+   * amendments only add positions
+   */
+  private async storeReport(report: ThirteenFReport): Promise<void> {
+    if (!this.database) return;
+
+    const positions = this.aggregateHoldings(report.holdings);
+    await this.database.exec('BEGIN TRANSACTION');
+
+    try {
+      if (report.amendmentType !== 'new_holdings') {
+        await this.database.run(
+          'DELETE FROM institutional_holdings WHERE filer_cik = ? AND period = ?',
+          [report.filerCik, report.period]
+        );
+      }
+
+      for (const holding of positions) {
+        await this.database.run(
+          `INSERT OR REPLACE INTO institutional_holdings
+             (filer_cik, period, cusip, put_call, symbol, issuer_name, title_of_class, shares, value, accession_number)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            report.filerCik,
+            report.period,
+            holding.cusip,
+            holding.putCall || '',
+            securityMaster.getTickerByCusip(holding.cusip),
+            holding.issuerName,
+            holding.titleOfClass,
+            holding.shares,
+            holding.value,
+            report.accessionNumber,
+          ]
+        );
+      }
+
+      await this.database.run(
+        `INSERT OR REPLACE INTO institutional_filings
+           (accession_number, filer_cik, filer_name, form, period, filing_date, amendment_type, holdings_count, ingested_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          report.accessionNumber,
+          report.filerCik,
+          report.filerName || null,
+          report.form,
+          report.period,
+          report.filingDate,
+          report.amendmentType,
+          positions.length,
+          Date.now(),
+        ]
+      );
+
+      await this.database.exec('COMMIT');
+    } catch (error) {
+      await this.database.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Information tables list a position once per sub-manager and discretion type
+   */
+  private aggregateHoldings(holdings: ThirteenFHolding[]): ThirteenFHolding[] {
+    const merged = new Map<string, ThirteenFHolding>();
+
+    for (const holding of holdings) {
+      if (holding.shareType !== 'SH') continue; // Principal amounts are bonds and notes
+      const key = `${holding.cusip}|${holding.putCall || ''}`;
+      const existing = merged.get(key);
+      if (existing) {
+        existing.shares += holding.shares;
+        existing.value += holding.value;
+      } else {
+        merged.set(key, { ...holding });
+      }
+    }
+
+    return Array.from(merged.values());
+  }
+
+  /**
+   * Map holdings stored without a ticker by resolving their CUSIPs through the security master
+   */
+  private async resolveUnmappedSymbols(): Promise<void> {
+    if (!this.database) return;
+
+    const rows = await this.database.all('SELECT DISTINCT cusip FROM institutional_holdings WHERE symbol IS NULL');
+    try {
+      await securityMaster.resolveCusips(rows.map(row => row.cusip));
+    } catch (error) {
+      loggerUtils.apiLogger.warn('CUSIP resolution failed, keeping holdings unmapped', {
+        cusips: rows.length,
+        error: (error as Error).message,
+      });
+    }
+
+    for (const row of rows) {
+      const symbol = securityMaster.getTickerByCusip(row.cusip);
+      if (symbol) {
+        await this.database.run('UPDATE institutional_holdings SET symbol = ? WHERE cusip = ? AND symbol IS NULL', [symbol, row.cusip]);
+      }
+    }
+  }
+
+  /**
+   * Stored long positions of one manager, for its latest quarter unless a period is given
+   */
+  async getFilerHoldings(cik: string, period?: string): Promise<InstitutionalHolding[]> {
+    await this.ready;
+    if (!this.database) return [];
+
+    const filerCik = cik.padStart(10, '0');
+    const targetPeriod = period || await this.latestFilerPeriod(filerCik);
+    if (!targetPeriod) return [];
+
+    const rows = await this.database.all(
+      `SELECT h.*, s.filer_name FROM institutional_holdings h
+       LEFT JOIN institutional_sync s ON s.filer_cik = h.filer_cik
+       WHERE h.filer_cik = ? AND h.period = ?
+       ORDER BY h.value DESC`,
+      [filerCik, targetPeriod]
+    );
+
+    return rows.map(row => ({
+      filerCik: row.filer_cik,
+      filerName: row.filer_name || '',
+      period: row.period,
+      cusip: row.cusip,
+      symbol: row.symbol,
+      issuerName: row.issuer_name || '',
+      titleOfClass: row.title_of_class || '',
+      shares: row.shares,
+      value: row.value,
+      putCall: row.put_call || null,
+      accessionNumber: row.accession_number,
+    }));
+  }
+
+  /**
+   * Quarter-over-quarter changes in one manager's stock positions, including closed ones
+   */
+  async getPositionChanges(cik: string, period?: string): Promise<InstitutionalPositionChange[]> {
+    await this.ready;
+    if (!this.database) return [];
+
+    const filerCik = cik.padStart(10, '0');
+    const targetPeriod = period || await this.latestFilerPeriod(filerCik);
+    if (!targetPeriod) return [];
+
+    return await this.comparePeriods(filerCik, targetPeriod);
+  }
+
+  /**
+   * Ownership, flows and crowding for a symbol across tracked managers in the latest
+   * quarter most of them have reported
+   */
+  async getSymbolOwnership(symbol: string): Promise<NormalizedInstitutionalOwnership | null> {
+    await this.ready;
+    if (!this.database) return null;
+
+    // A full sync is hundreds of EDGAR requests, so it never holds up a fetch; until the
+    // first one lands there is simply no ownership data
+    this.sync().catch(error => {
+      loggerUtils.apiLogger.warn('Background 13F sync failed', { error: (error as Error).message });
+    });
+
+    const ticker = securityMaster.resolveTicker(symbol);
+    const period = await this.latestCompletePeriod();
+    if (!period) return null;
+
+    const filers = await this.database.all(
+      'SELECT DISTINCT filer_cik FROM institutional_filings WHERE period = ?',
+      [period]
+    );
+
+    const previous = await this.database.get(
+      'SELECT MAX(period) AS period FROM institutional_filings WHERE period < ?',
+      [period]
+    );
+
+    const positions: InstitutionalPositionChange[] = [];
+    for (const { filer_cik } of filers) {
+      positions.push(...await this.comparePeriods(filer_cik, period, ticker));
+    }
+
+    const holders = positions.filter(position => position.sharesAfter > 0);
+    const totalShares = holders.reduce((sum, position) => sum + position.sharesAfter, 0);
+    const totalValue = holders.reduce((sum, position) => sum + position.value, 0);
+    const count = (change: InstitutionalPositionChange['change']) =>
+      positions.filter(position => position.change === change).length;
+
+    const newPositions = count('new');
+    const closedPositions = count('closed');
+    const increasedPositions = count('increased');
+    const decreasedPositions = count('decreased');
+
+    const topShares = holders
+      .map(position => position.sharesAfter)
+      .sort((a, b) => b - a)
+      .slice(0, TOP_HOLDER_COUNT)
+      .reduce((sum, shares) => sum + shares, 0);
+    const breadth = filers.length > 0 ? holders.length / filers.length : 0;
+    const averagePortfolioWeight = holders.length > 0
+      ? holders.reduce((sum, position) => sum + position.portfolioWeight, 0) / holders.length
+      : 0;
+    const netBuying = positions.length > 0
+      ? (newPositions + increasedPositions - closedPositions - decreasedPositions) / positions.length
+      : 0;
+
+    return {
+      type: 'institutional',
+      symbol: ticker,
+      timestamp: Date.now(),
+      source: {
+        provider: 'sec',
+        endpoint: '13f',
+        tier: 'free',
+        reliability: {
+          score: 0.9,
+          factors: { freshness: 0.4, consistency: 0.95, coverage: 0.7, latency: 0.8 },
+          lastUpdated: Date.now(),
+          dataQuality: 'high',
+        },
+      },
+      reliability: 0.9,
+      period,
+      previousPeriod: previous?.period || null,
+      holderCount: holders.length,
+      holderCountChange: newPositions - closedPositions,
+      totalShares,
+      totalValue,
+      sharesChange: positions.reduce((sum, position) => sum + position.shareChange, 0),
+      newPositions,
+      closedPositions,
+      increasedPositions,
+      decreasedPositions,
+      breadth,
+      topHolderConcentration: totalShares > 0 ? topShares / totalShares : 0,
+      averagePortfolioWeight,
+      crowdingScore: Math.min(1,
+        0.4 * breadth +
+        0.4 * Math.min(1, averagePortfolioWeight / CROWDED_PORTFOLIO_WEIGHT) +
+        0.2 * Math.max(0, netBuying)
+      ),
+      positions: positions.sort((a, b) => b.value - a.value || b.sharesBefore - a.sharesBefore),
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.ready;
+    if (this.database) {
+      await this.database.close();
+      this.database = null;
+    }
+  }
+
+  /**
+   * Compare a manager's stock positions against its previous stored quarter
+   */
+  private async comparePeriods(filerCik: string, period: string, symbol?: string): Promise<InstitutionalPositionChange[]> {
+    if (!this.database) return [];
+
+    const previous = await this.database.get(
+      'SELECT MAX(period) AS period FROM institutional_holdings WHERE filer_cik = ? AND period < ?',
+      [filerCik, period]
+    );
+    const previousPeriod: string | null = previous?.period || null;
+
+    const filer = await this.database.get('SELECT filer_name FROM institutional_sync WHERE filer_cik = ?', [filerCik]);
+    const total = await this.database.get(
+      `SELECT SUM(value) AS value FROM institutional_holdings WHERE filer_cik = ? AND period = ? AND put_call = ''`,
+      [filerCik, period]
+    );
+
+    const symbolFilter = symbol ? 'AND symbol = ?' : '';
+    const load = async (targetPeriod: string | null) => targetPeriod
+      ? await this.database!.all(
+        `SELECT * FROM institutional_holdings
+         WHERE filer_cik = ? AND period = ? AND put_call = '' ${symbolFilter}`,
+        symbol ? [filerCik, targetPeriod, symbol] : [filerCik, targetPeriod]
+      )
+      : [];
+
+    const current = new Map((await load(period)).map(row => [row.cusip, row]));
+    const before = new Map((await load(previousPeriod)).map(row => [row.cusip, row]));
+    const cusips = new Set([...current.keys(), ...before.keys()]);
+
+    return Array.from(cusips).map(cusip => {
+      const now = current.get(cusip);
+      const then = before.get(cusip);
+      const sharesAfter = now?.shares || 0;
+      const sharesBefore = then?.shares || 0;
+      const shareChange = sharesAfter - sharesBefore;
+
+      let change: InstitutionalPositionChange['change'] = 'unchanged';
+      if (!previousPeriod) change = 'unchanged';
+      else if (sharesBefore === 0) change = 'new';
+      else if (sharesAfter === 0) change = 'closed';
+      else if (shareChange > 0) change = 'increased';
+      else if (shareChange < 0) change = 'decreased';
+
+      return {
+        filerCik,
+        filerName: filer?.filer_name || '',
+        cusip,
+        symbol: now?.symbol || then?.symbol || null,
+        issuerName: now?.issuer_name || then?.issuer_name || '',
+        period,
+        previousPeriod,
+        change,
+        sharesBefore,
+        sharesAfter,
+        shareChange: previousPeriod ? shareChange : 0,
+        percentChange: sharesBefore > 0 ? shareChange / sharesBefore : null,
+        value: now?.value || 0,
+        portfolioWeight: total?.value ? (now?.value || 0) / total.value : 0,
+      };
+    });
+  }
+
+  private async latestFilerPeriod(filerCik: string): Promise<string | null> {
+    const row = await this.database!.get(
+      'SELECT MAX(period) AS period FROM institutional_filings WHERE filer_cik = ?',
+      [filerCik]
+    );
+    return row?.period || null;
+  }
+
+  /**
+   * Newest quarter reported by at least half the managers on file; managers have
+   * 45 days to file, so the very latest quarter is often only partly in
+   */
+  private async latestCompletePeriod(): Promise<string | null> {
+    const periods = await this.database!.all(
+      'SELECT period, COUNT(DISTINCT filer_cik) AS filers FROM institutional_filings GROUP BY period ORDER BY period DESC'
+    );
+    const filers = await this.database!.get('SELECT COUNT(DISTINCT filer_cik) AS count FROM institutional_filings');
+    const threshold = Math.ceil((filers?.count || 0) / 2);
+
+    return periods.find(row => row.filers >= threshold)?.period || periods[0]?.period || null;
+  }
+}
+
+export default InstitutionalHoldingsService;
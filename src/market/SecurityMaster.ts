@@ -0,0 +1,839 @@
+/**
+ * Security Master
+ * Reference data per ticker (CIK, name, exchange, GICS classification, share class,
+ * listing status) built from Alpha Vantage listings, SEC EDGAR and Finnhub profiles,
+ * plus a CUSIP to ticker map resolved through OpenFIGI.
+ * Lookups are synchronous against the in-memory table; refreshes run in the background.
+ */
+
+import sqlite3 from 'sqlite3';
+import { Database, open } from 'sqlite';
+import { loggerUtils } from '../config/logger.js';
+import { DataHub } from '../api/DataHub.js';
+import { quotaManager } from '../api/QuotaManager.js';
+import { GicsSector, SecurityRecord, TickerChange } from '../types/data.js';
+import path from 'path';
+
+// Lowercase sector identifiers used by the AI modules and analysis requests
+export type SectorKey =
+  | 'technology'
+  | 'healthcare'
+  | 'financials'
+  | 'energy'
+  | 'consumer_discretionary'
+  | 'consumer_staples'
+  | 'industrials'
+  | 'materials'
+  | 'real_estate'
+  | 'utilities'
+  | 'communication_services';
+
+export interface SecurityMasterConfig {
+  dbPath: string;
+  refreshIntervalHours: number; // Listing and profile refresh cadence
+  enrichmentTtlDays: number; // Re-fetch CIK and profile after this long
+  maxEnrichmentsPerRefresh: number; // Keeps a refresh within the free API quotas
+}
+
+export interface SecurityMasterRefreshResult {
+  listingsUpdated: number;
+  enriched: number;
+  tickerChanges: TickerChange[];
+  errors: string[];
+}
+
+const SECTOR_KEYS: Record<GicsSector, SectorKey> = {
+  'Information Technology': 'technology',
+  'Health Care': 'healthcare',
+  'Financials': 'financials',
+  'Energy': 'energy',
+  'Consumer Discretionary': 'consumer_discretionary',
+  'Consumer Staples': 'consumer_staples',
+  'Industrials': 'industrials',
+  'Materials': 'materials',
+  'Real Estate': 'real_estate',
+  'Utilities': 'utilities',
+  'Communication Services': 'communication_services',
+};
+
+// Free-form sector names seen in requests, configs and provider payloads
+const SECTOR_ALIASES: Record<string, GicsSector> = {
+  tech: 'Information Technology',
+  it: 'Information Technology',
+  health: 'Health Care',
+  finance: 'Financials',
+  financial: 'Financials',
+  banks: 'Financials',
+  oil_gas: 'Energy',
+  consumer: 'Consumer Discretionary',
+  consumer_disc: 'Consumer Discretionary',
+  staples: 'Consumer Staples',
+  industrial: 'Industrials',
+  realestate: 'Real Estate',
+  reits: 'Real Estate',
+  communications: 'Communication Services',
+  telecom: 'Communication Services',
+};
+
+// Finnhub industry labels mapped onto GICS sectors, first match wins
+const INDUSTRY_SECTORS: Array<[RegExp, GicsSector]> = [
+  [/semiconductor|technology|software|electronic|it services|computer/i, 'Information Technology'],
+  [/pharma|biotech|health|life sciences|medical/i, 'Health Care'],
+  [/bank|insurance|financ|capital markets|asset management|diversified financial/i, 'Financials'],
+  [/oil|gas|energy/i, 'Energy'],
+  [/media|telecom|communication|entertainment|interactive/i, 'Communication Services'],
+  [/retail|automobile|hotel|restaurant|leisure|textile|apparel|luxury|consumer services|distributors|household durables/i, 'Consumer Discretionary'],
+  [/food|beverage|tobacco|consumer products|personal products|household products/i, 'Consumer Staples'],
+  [/aerospace|defense|machinery|airline|logistics|transportation|road|rail|marine|construction|building|electrical equipment|conglomerate|commercial services|professional services|trading companies/i, 'Industrials'],
+  [/chemical|metals|mining|packaging|paper|forest/i, 'Materials'],
+  [/real estate|reit/i, 'Real Estate'],
+  [/utilit/i, 'Utilities'],
+];
+
+// Offline fallback classification for the names the pipeline trades most, largest first
+const SEED_SECTORS: Record<GicsSector, string[]> = {
+  'Information Technology': ['AAPL', 'MSFT', 'NVDA', 'AVGO', 'ORCL', 'CRM', 'ADBE', 'AMD', 'CSCO', 'QCOM', 'TXN', 'IBM', 'AMAT', 'INTC', 'MU'],
+  'Health Care': ['JNJ', 'LLY', 'UNH', 'ABBV', 'TMO', 'DHR', 'PFE', 'AMGN', 'BMY', 'GILD', 'MRNA'],
+  'Financials': ['JPM', 'BRK.B', 'V', 'MA', 'BAC', 'WFC', 'GS', 'MS', 'AXP', 'SCHW', 'C', 'COF'],
+  'Energy': ['XOM', 'CVX', 'COP', 'EOG', 'SLB', 'MPC', 'PSX', 'VLO', 'HAL', 'BKR'],
+  'Consumer Discretionary': ['AMZN', 'TSLA', 'HD', 'MCD', 'BKNG', 'LOW', 'TJX', 'NKE', 'SBUX', 'TGT'],
+  'Consumer Staples': ['WMT', 'PG', 'COST', 'KO', 'PEP', 'MO', 'CL', 'GIS', 'KHC', 'EL'],
+  'Industrials': ['GE', 'CAT', 'RTX', 'UNP', 'HON', 'BA', 'DE', 'LMT', 'UPS', 'MMM'],
+  'Materials': ['LIN', 'APD', 'ECL', 'FCX', 'NEM', 'VMC', 'MLM', 'PPG', 'DD', 'DOW'],
+  'Real Estate': ['PLD', 'AMT', 'EQIX', 'WELL', 'SPG', 'O', 'CCI', 'EXR', 'VTR'],
+  'Utilities': ['NEE', 'SO', 'DUK', 'AEP', 'SRE', 'EXC', 'XEL', 'PEG', 'ED', 'PPL'],
+  'Communication Services': ['GOOGL', 'GOOG', 'META', 'NFLX', 'TMUS', 'DIS', 'CMCSA', 'VZ', 'T', 'CHTR'],
+};
+
+const BROAD_MARKET_SYMBOL = 'SPY';
+const DAY_MS = 86400000;
+
+/**
+ * Resolve a free-form sector name ('finance', 'Health Care', 'consumer_discretionary') to GICS
+ */
+export const parseSector = (input: string | null | undefined): GicsSector | null => {
+  if (!input) return null;
+
+  const normalized = input.trim().toLowerCase().replace(/[^a-z]+/g, '_').replace(/^_|_$/g, '');
+  for (const [sector, key] of Object.entries(SECTOR_KEYS) as Array<[GicsSector, SectorKey]>) {
+    if (key === normalized || sector.toLowerCase().replace(/[^a-z]+/g, '_') === normalized) {
+      return sector;
+    }
+  }
+
+  return SECTOR_ALIASES[normalized] || null;
+};
+
+export const sectorKey = (sector: GicsSector): SectorKey => SECTOR_KEYS[sector];
+
+/**
+ * Map a provider industry label onto its GICS sector
+ */
+export const sectorForIndustry = (industry: string | null | undefined): GicsSector | null => {
+  if (!industry) return null;
+  return INDUSTRY_SECTORS.find(([pattern]) => pattern.test(industry))?.[1] || null;
+};
+
+export class SecurityMaster {
+  private database: Database | null = null;
+  private ready: Promise<void>;
+  private config: SecurityMasterConfig;
+  private dataHub: DataHub | null = null;
+  private securities: Map<string, SecurityRecord> = new Map();
+  private aliases: Map<string, string> = new Map(); // Old ticker -> current ticker
+  private tickerChanges: TickerChange[] = [];
+  private enrichedAt: Map<string, number> = new Map();
+  private seedRank: Map<string, number> = new Map();
+  private cusips: Map<string, { ticker: string | null; resolvedAt: number }> = new Map();
+  private lastRefresh: number = 0;
+  private inFlight: Promise<SecurityMasterRefreshResult> | null = null;
+
+  constructor(config: Partial<SecurityMasterConfig> = {}) {
+    this.config = {
+      dbPath: path.join(process.cwd(), 'data', 'security_master.db'),
+      refreshIntervalHours: 24 * 7,
+      enrichmentTtlDays: 30,
+      maxEnrichmentsPerRefresh: 50,
+      ...config,
+    };
+    this.applySeed();
+    this.ready = this.initializeDatabase();
+  }
+
+  /**
+   * Initialize SQLite database for reference data
+   */
+  private async initializeDatabase(): Promise<void> {
+    try {
+      this.database = await open({
+        filename: this.config.dbPath,
+        driver: sqlite3.Database
+      });
+
+      await this.database.exec(`
+        CREATE TABLE IF NOT EXISTS securities (
+          ticker TEXT PRIMARY KEY,
+          cik TEXT,
+          name TEXT,
+          exchange TEXT,
+          asset_type TEXT NOT NULL,
+          gics_sector TEXT,
+          gics_industry TEXT,
+          share_class TEXT,
+          listing_status TEXT NOT NULL,
+          ipo_date TEXT,
+          delisting_date TEXT,
+          market_cap REAL,
+          previous_tickers TEXT NOT NULL DEFAULT '[]',
+          sources TEXT NOT NULL DEFAULT '[]',
+          enriched_at INTEGER,
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_securities_cik ON securities(cik);
+        CREATE INDEX IF NOT EXISTS idx_securities_sector ON securities(gics_sector);
+
+        CREATE TABLE IF NOT EXISTS ticker_changes (
+          old_ticker TEXT PRIMARY KEY,
+          new_ticker TEXT NOT NULL,
+          cik TEXT NOT NULL,
+          detected_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS security_cusips (
+          cusip TEXT PRIMARY KEY,
+          ticker TEXT,
+          resolved_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS security_master_meta (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+
+      const rows = await this.database.all('SELECT * FROM securities');
+      rows.forEach(row => {
+        const record = this.fromRow(row);
+        const seeded = this.securities.get(record.ticker);
+        // Stored rows win, but never lose the seed classification
+        this.securities.set(record.ticker, {
+          ...record,
+          gicsSector: record.gicsSector || seeded?.gicsSector || null,
+        });
+        if (row.enriched_at) this.enrichedAt.set(record.ticker, row.enriched_at);
+      });
+
+      const cusipRows = await this.database.all('SELECT * FROM security_cusips');
+      cusipRows.forEach(row => this.cusips.set(row.cusip, { ticker: row.ticker, resolvedAt: row.resolved_at }));
+
+      const changes = await this.database.all('SELECT * FROM ticker_changes ORDER BY detected_at');
+      changes.forEach(change => this.applyTickerChange({
+        oldTicker: change.old_ticker,
+        newTicker: change.new_ticker,
+        cik: change.cik,
+        detectedAt: change.detected_at,
+      }));
+
+      const meta = await this.database.get(`SELECT value FROM security_master_meta WHERE key = 'last_refresh'`);
+      this.lastRefresh = meta ? Number(meta.value) : 0;
+
+      loggerUtils.dbLogger.info('Security master initialized', {
+        securities: this.securities.size,
+        tickerChanges: this.tickerChanges.length,
+      });
+    } catch (error) {
+      loggerUtils.dbLogger.error('Failed to initialize security master database', {
+        error: (error as Error).message,
+      });
+      this.database = null;
+    }
+  }
+
+  /**
+   * Give the master access to DataHub clients for refreshes; the first hub attached is kept
+   */
+  attach(dataHub: DataHub): void {
+    if (!this.dataHub) {
+      this.dataHub = dataHub;
+    }
+  }
+
+  /**
+   * Current record for a ticker, following ticker changes
+   */
+  get(ticker: string): SecurityRecord | null {
+    return this.securities.get(this.resolveTicker(ticker)) || null;
+  }
+
+  /**
+   * Map a possibly retired ticker to the one it trades under today
+   */
+  resolveTicker(ticker: string): string {
+    // BRK-B style share classes use a dot; longer suffixes are crypto pairs such as BTC-USD
+    let current = ticker.trim().toUpperCase().replace(/^([A-Z]+)-([A-Z]{1,2})$/, '$1.$2');
+    const seen = new Set<string>();
+    while (this.aliases.has(current) && !seen.has(current)) {
+      seen.add(current);
+      current = this.aliases.get(current)!;
+    }
+    return current;
+  }
+
+  getSector(ticker: string): GicsSector | null {
+    return this.get(ticker)?.gicsSector || null;
+  }
+
+  getSectorKey(ticker: string): SectorKey | null {
+    const sector = this.getSector(ticker);
+    return sector ? sectorKey(sector) : null;
+  }
+
+  getCik(ticker: string): string | null {
+    return this.get(ticker)?.cik || null;
+  }
+
+  /**
+   * Ticker a CUSIP trades under today, if it has been resolved
+   */
+  getTickerByCusip(cusip: string): string | null {
+    const ticker = this.cusips.get(cusip.toUpperCase())?.ticker;
+    return ticker ? this.resolveTicker(ticker) : null;
+  }
+
+  /**
+   * Resolve CUSIPs through OpenFIGI, skipping those already mapped. CUSIPs with no listing
+   * are retried after the enrichment TTL. Returns how many CUSIPs gained a ticker.
+   */
+  async resolveCusips(cusips: string[]): Promise<number> {
+    await this.ready;
+    const openFigi = this.dataHub?.openFigiClient;
+    if (!openFigi) return 0;
+
+    const pending = Array.from(new Set(cusips.map(cusip => cusip.toUpperCase()))).filter(cusip => {
+      const known = this.cusips.get(cusip);
+      return !known || (!known.ticker && Date.now() - known.resolvedAt > this.config.enrichmentTtlDays * DAY_MS);
+    });
+
+    let resolved = 0;
+    for (let i = 0; i < pending.length; i += openFigi.batchSize) {
+      const mappings = await quotaManager.runWithPriority('low', () =>
+        openFigi.mapCusips(pending.slice(i, i + openFigi.batchSize))
+      );
+      await this.saveCusips(mappings.map(mapping => ({ cusip: mapping.cusip, ticker: mapping.ticker })));
+      resolved += mappings.filter(mapping => mapping.ticker).length;
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Active common stocks in a sector, largest first
+   */
+  getSymbolsBySector(sector: string, limit?: number): string[] {
+    const gicsSector = parseSector(sector);
+    if (!gicsSector) return [];
+
+    const symbols = Array.from(this.securities.values())
+      .filter(record =>
+        record.gicsSector === gicsSector &&
+        record.listingStatus === 'active' &&
+        record.assetType === 'stock'
+      )
+      .sort((a, b) =>
+        (b.marketCap || 0) - (a.marketCap || 0) ||
+        (this.seedRank.get(a.ticker) ?? Infinity) - (this.seedRank.get(b.ticker) ?? Infinity) ||
+        a.ticker.localeCompare(b.ticker)
+      )
+      .map(record => record.ticker);
+
+    return limit ? symbols.slice(0, limit) : symbols;
+  }
+
+  /**
+   * Largest name in a sector, or the broad market ETF when the sector is unknown
+   */
+  getRepresentativeSymbol(sector: string): string {
+    return this.getSymbolsBySector(sector, 1)[0] || BROAD_MARKET_SYMBOL;
+  }
+
+  getTickerChanges(ticker?: string): TickerChange[] {
+    if (!ticker) return [...this.tickerChanges];
+    const current = this.resolveTicker(ticker);
+    return this.tickerChanges.filter(change => this.resolveTicker(change.oldTicker) === current);
+  }
+
+  /**
+   * Look a ticker up, enriching it from the providers when it is missing or unclassified
+   */
+  async lookup(ticker: string): Promise<SecurityRecord | null> {
+    await this.ready;
+
+    const current = this.resolveTicker(ticker);
+    const record = this.securities.get(current);
+    if (record?.gicsSector && record.cik && !this.isEnrichmentStale(current)) {
+      return record;
+    }
+
+    if (this.dataHub) {
+      try {
+        await quotaManager.runWithPriority('low', () => this.enrich(current));
+      } catch (error) {
+        loggerUtils.dbLogger.warn('Security enrichment failed', {
+          ticker: current,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return this.get(current);
+  }
+
+  /**
+   * Refresh listings and stale profiles when the last refresh is older than the interval
+   */
+  async refreshIfStale(): Promise<SecurityMasterRefreshResult | null> {
+    await this.ready;
+    if (Date.now() - this.lastRefresh < this.config.refreshIntervalHours * 3600000) {
+      return null;
+    }
+    return await this.refresh();
+  }
+
+  /**
+   * Rebuild listings from Alpha Vantage, enrich tracked tickers and detect ticker changes
+   */
+  async refresh(): Promise<SecurityMasterRefreshResult> {
+    if (this.inFlight) return await this.inFlight;
+
+    this.inFlight = quotaManager.runWithPriority('low', () => this.performRefresh());
+    try {
+      return await this.inFlight;
+    } finally {
+      this.inFlight = null;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.ready;
+    if (this.database) {
+      await this.database.close();
+      this.database = null;
+    }
+  }
+
+  private async performRefresh(): Promise<SecurityMasterRefreshResult> {
+    await this.ready;
+
+    const result: SecurityMasterRefreshResult = {
+      listingsUpdated: 0,
+      enriched: 0,
+      tickerChanges: [],
+      errors: [],
+    };
+
+    if (!this.dataHub) {
+      result.errors.push('No DataHub attached');
+      return result;
+    }
+
+    const alphaVantage = this.dataHub.alphaVantageClient;
+    if (alphaVantage) {
+      for (const state of ['active', 'delisted'] as const) {
+        try {
+          const csv = await alphaVantage.getListingStatus(undefined, state);
+          result.listingsUpdated += await this.applyListings(this.parseListingCsv(csv));
+        } catch (error) {
+          result.errors.push(`alphavantage ${state} listings: ${(error as Error).message}`);
+        }
+      }
+    }
+
+    // Only classified names are worth spending profile calls on
+    const stale = Array.from(this.securities.values())
+      .filter(record => record.gicsSector && record.assetType !== 'etf' && this.isEnrichmentStale(record.ticker))
+      .sort((a, b) => (this.enrichedAt.get(a.ticker) || 0) - (this.enrichedAt.get(b.ticker) || 0))
+      .slice(0, this.config.maxEnrichmentsPerRefresh);
+
+    for (const record of stale) {
+      try {
+        const changes = await this.enrich(record.ticker);
+        result.tickerChanges.push(...changes);
+        result.enriched++;
+      } catch (error) {
+        result.errors.push(`${record.ticker}: ${(error as Error).message}`);
+      }
+    }
+
+    result.tickerChanges.push(...await this.detectRenamedTickers());
+
+    this.lastRefresh = Date.now();
+    if (this.database) {
+      await this.database.run(
+        `INSERT OR REPLACE INTO security_master_meta (key, value) VALUES ('last_refresh', ?)`,
+        [String(this.lastRefresh)]
+      );
+    }
+
+    loggerUtils.dbLogger.info('Security master refreshed', {
+      listingsUpdated: result.listingsUpdated,
+      enriched: result.enriched,
+      tickerChanges: result.tickerChanges.length,
+      errors: result.errors.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * Fill in CIK from EDGAR and name, exchange, industry and size from Finnhub
+   */
+  private async enrich(ticker: string): Promise<TickerChange[]> {
+    const existing = this.securities.get(ticker);
+    const record: SecurityRecord = existing ? { ...existing } : this.emptyRecord(ticker);
+    const sources = new Set(record.sources);
+    const changes: TickerChange[] = [];
+
+    const sec = this.dataHub?.secEdgarClient;
+    if (sec && !record.cik) {
+      const cik = await sec.getCIKFromTicker(ticker.replace('.', '-'));
+      if (cik) {
+        record.cik = cik;
+        sources.add('sec');
+      }
+    }
+
+    const finnhub = this.dataHub?.finnhubClient;
+    if (finnhub) {
+      const profile = await finnhub.getCompanyProfile(ticker);
+      if (profile && profile.ticker) {
+        record.name = profile.name || record.name;
+        record.exchange = record.exchange || profile.exchange || null;
+        record.gicsIndustry = profile.finnhubIndustry || record.gicsIndustry;
+        record.gicsSector = sectorForIndustry(profile.finnhubIndustry) || record.gicsSector;
+        record.marketCap = profile.marketCapitalization ? profile.marketCapitalization * 1e6 : record.marketCap;
+        record.ipoDate = record.ipoDate || profile.ipo || null;
+        sources.add('finnhub');
+      }
+    }
+
+    record.shareClass = record.shareClass || this.deriveShareClass(ticker, record.name);
+    record.sources = Array.from(sources);
+    record.updatedAt = Date.now();
+    this.enrichedAt.set(ticker, record.updatedAt);
+    await this.saveRecords([record]);
+
+    // A retired ticker sharing this CIK was renamed to the one we just enriched
+    if (record.cik && record.listingStatus === 'active') {
+      const predecessors = Array.from(this.securities.values()).filter(other =>
+        other.ticker !== ticker &&
+        other.cik === record.cik &&
+        other.listingStatus === 'delisted' &&
+        !this.aliases.has(other.ticker)
+      );
+      for (const predecessor of predecessors) {
+        changes.push(await this.recordTickerChange(predecessor.ticker, ticker, record.cik));
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Delisted tickers whose CIK still trades under another symbol were renamed
+   */
+  private async detectRenamedTickers(): Promise<TickerChange[]> {
+    const sec = this.dataHub?.secEdgarClient;
+    if (!sec) return [];
+
+    const changes: TickerChange[] = [];
+    const candidates = Array.from(this.securities.values()).filter(record =>
+      record.cik && record.listingStatus === 'delisted' && !this.aliases.has(record.ticker)
+    );
+
+    for (const record of candidates) {
+      const registered = await sec.getTickersForCIK(record.cik!);
+      const successor = registered
+        .map(entry => entry.ticker.replace('-', '.'))
+        .find(ticker => ticker !== record.ticker && this.securities.get(ticker)?.listingStatus !== 'delisted');
+
+      if (successor) {
+        changes.push(await this.recordTickerChange(record.ticker, successor, record.cik!));
+      }
+    }
+
+    return changes;
+  }
+
+  private async recordTickerChange(oldTicker: string, newTicker: string, cik: string): Promise<TickerChange> {
+    const change: TickerChange = { oldTicker, newTicker, cik, detectedAt: Date.now() };
+    this.applyTickerChange(change);
+
+    if (this.database) {
+      await this.database.run(
+        `INSERT OR REPLACE INTO ticker_changes (old_ticker, new_ticker, cik, detected_at) VALUES (?, ?, ?, ?)`,
+        [oldTicker, newTicker, cik, change.detectedAt]
+      );
+    }
+    const successor = this.securities.get(newTicker);
+    if (successor) await this.saveRecords([successor]);
+
+    loggerUtils.dbLogger.info('Ticker change detected', { oldTicker, newTicker, cik });
+    return change;
+  }
+
+  /**
+   * Point the old ticker at the new one and carry its classification over
+   */
+  private applyTickerChange(change: TickerChange): void {
+    this.aliases.set(change.oldTicker, change.newTicker);
+    this.tickerChanges = this.tickerChanges.filter(existing => existing.oldTicker !== change.oldTicker);
+    this.tickerChanges.push(change);
+
+    const predecessor = this.securities.get(change.oldTicker);
+    const successor = this.securities.get(change.newTicker) || this.emptyRecord(change.newTicker);
+    this.securities.set(change.newTicker, {
+      ...successor,
+      cik: successor.cik || change.cik,
+      gicsSector: successor.gicsSector || predecessor?.gicsSector || null,
+      gicsIndustry: successor.gicsIndustry || predecessor?.gicsIndustry || null,
+      previousTickers: Array.from(new Set([
+        ...successor.previousTickers,
+        ...(predecessor?.previousTickers || []),
+        change.oldTicker,
+      ])),
+    });
+  }
+
+  /**
+   * Merge listing rows into the table without touching enrichment fields
+   */
+  private async applyListings(listings: Array<Partial<SecurityRecord> & { ticker: string }>): Promise<number> {
+    const updated: SecurityRecord[] = [];
+
+    for (const listing of listings) {
+      const existing = this.securities.get(listing.ticker);
+      // A delisted row must not overwrite an active listing of a reused ticker
+      if (existing && existing.listingStatus === 'active' && listing.listingStatus === 'delisted' && existing.sources.includes('alphavantage')) {
+        continue;
+      }
+
+      const record = existing ? { ...existing } : this.emptyRecord(listing.ticker);
+      record.name = listing.name || record.name;
+      record.exchange = listing.exchange || record.exchange;
+      record.assetType = listing.assetType || record.assetType;
+      record.listingStatus = listing.listingStatus || record.listingStatus;
+      record.ipoDate = listing.ipoDate || record.ipoDate;
+      record.delistingDate = listing.delistingDate || null;
+      record.shareClass = record.shareClass || this.deriveShareClass(record.ticker, record.name);
+      record.sources = Array.from(new Set([...record.sources, 'alphavantage']));
+      record.updatedAt = Date.now();
+      updated.push(record);
+    }
+
+    await this.saveRecords(updated);
+    return updated.length;
+  }
+
+  /**
+   * Alpha Vantage LISTING_STATUS CSV: symbol,name,exchange,assetType,ipoDate,delistingDate,status
+   */
+  private parseListingCsv(csv: any): Array<Partial<SecurityRecord> & { ticker: string }> {
+    if (typeof csv !== 'string') {
+      throw new Error('Unexpected listing status response');
+    }
+
+    const lines = csv.trim().split(/\r?\n/);
+    const header = parseCsvLine(lines.shift() || '');
+    const column = (name: string) => header.indexOf(name);
+
+    return lines
+      .map(line => parseCsvLine(line))
+      .filter(fields => fields[column('symbol')])
+      .map(fields => {
+        const assetType = (fields[column('assetType')] || '').toLowerCase();
+        const delistingDate = fields[column('delistingDate')];
+        return {
+          ticker: fields[column('symbol')].toUpperCase().replace('-', '.'),
+          name: fields[column('name')] || null,
+          exchange: fields[column('exchange')] || null,
+          assetType: assetType === 'stock' ? 'stock' as const : assetType === 'etf' ? 'etf' as const : 'other' as const,
+          ipoDate: fields[column('ipoDate')] || null,
+          delistingDate: delistingDate && delistingDate !== 'null' ? delistingDate : null,
+          listingStatus: (fields[column('status')] || '').toLowerCase() === 'delisted' ? 'delisted' as const : 'active' as const,
+        };
+      });
+  }
+
+  /**
+   * Share class from a suffixed ticker (BRK.B) or the issue name ("Class A Common Stock")
+   */
+  private deriveShareClass(ticker: string, name: string | null): string | null {
+    const suffix = ticker.match(/\.([A-Z])$/);
+    if (suffix) return suffix[1];
+
+    const named = name?.match(/\bClass ([A-Z])\b/i);
+    return named ? named[1].toUpperCase() : null;
+  }
+
+  private async saveCusips(mappings: Array<{ cusip: string; ticker: string | null }>): Promise<void> {
+    const resolvedAt = Date.now();
+    mappings.forEach(mapping => this.cusips.set(mapping.cusip, { ticker: mapping.ticker, resolvedAt }));
+
+    if (!this.database || mappings.length === 0) return;
+
+    await this.database.exec('BEGIN TRANSACTION');
+    try {
+      for (const mapping of mappings) {
+        await this.database.run(
+          'INSERT OR REPLACE INTO security_cusips (cusip, ticker, resolved_at) VALUES (?, ?, ?)',
+          [mapping.cusip, mapping.ticker, resolvedAt]
+        );
+      }
+      await this.database.exec('COMMIT');
+    } catch (error) {
+      await this.database.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private async saveRecords(records: SecurityRecord[]): Promise<void> {
+    records.forEach(record => this.securities.set(record.ticker, record));
+
+    await this.ready;
+    if (!this.database || records.length === 0) return;
+
+    await this.database.exec('BEGIN TRANSACTION');
+    try {
+      const statement = await this.database.prepare(
+        `INSERT OR REPLACE INTO securities (
+          ticker, cik, name, exchange, asset_type, gics_sector, gics_industry, share_class,
+          listing_status, ipo_date, delisting_date, market_cap, previous_tickers, sources,
+          enriched_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+
+      for (const record of records) {
+        await statement.run([
+          record.ticker,
+          record.cik,
+          record.name,
+          record.exchange,
+          record.assetType,
+          record.gicsSector,
+          record.gicsIndustry,
+          record.shareClass,
+          record.listingStatus,
+          record.ipoDate,
+          record.delistingDate,
+          record.marketCap,
+          JSON.stringify(record.previousTickers),
+          JSON.stringify(record.sources),
+          this.enrichedAt.get(record.ticker) || null,
+          record.updatedAt,
+        ]);
+      }
+
+      await statement.finalize();
+      await this.database.exec('COMMIT');
+    } catch (error) {
+      await this.database.exec('ROLLBACK');
+      loggerUtils.dbLogger.error('Failed to save securities', {
+        count: records.length,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private isEnrichmentStale(ticker: string): boolean {
+    const enrichedAt = this.enrichedAt.get(ticker) || 0;
+    return Date.now() - enrichedAt > this.config.enrichmentTtlDays * DAY_MS;
+  }
+
+  private applySeed(): void {
+    for (const [sector, tickers] of Object.entries(SEED_SECTORS) as Array<[GicsSector, string[]]>) {
+      tickers.forEach((ticker, index) => {
+        this.seedRank.set(ticker, index);
+        this.securities.set(ticker, {
+          ...this.emptyRecord(ticker),
+          gicsSector: sector,
+          shareClass: this.deriveShareClass(ticker, null),
+          sources: ['seed'],
+        });
+      });
+    }
+  }
+
+  private emptyRecord(ticker: string): SecurityRecord {
+    return {
+      ticker,
+      cik: null,
+      name: null,
+      exchange: null,
+      assetType: 'stock',
+      gicsSector: null,
+      gicsIndustry: null,
+      shareClass: null,
+      listingStatus: 'active',
+      ipoDate: null,
+      delistingDate: null,
+      marketCap: null,
+      previousTickers: [],
+      sources: [],
+      updatedAt: 0,
+    };
+  }
+
+  private fromRow(row: any): SecurityRecord {
+    return {
+      ticker: row.ticker,
+      cik: row.cik,
+      name: row.name,
+      exchange: row.exchange,
+      assetType: row.asset_type,
+      gicsSector: row.gics_sector,
+      gicsIndustry: row.gics_industry,
+      shareClass: row.share_class,
+      listingStatus: row.listing_status,
+      ipoDate: row.ipo_date,
+      delistingDate: row.delisting_date,
+      marketCap: row.market_cap,
+      previousTickers: JSON.parse(row.previous_tickers || '[]'),
+      sources: JSON.parse(row.sources || '[]'),
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+/**
+ * Split one CSV line; quoted fields may contain commas and doubled quotes
+ */
+export function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+
+  return fields;
+}
+
+export const securityMaster = new SecurityMaster();
+
+export default securityMaster;
@@ -0,0 +1,207 @@
+/**
+ * Session calendars per asset class
+ * Equities, ETFs and indices follow the NYSE calendar. Crypto trades around the clock every
+ * day, and spot FX runs continuously from Sunday 17:00 to Friday 17:00 New York time.
+ * Holds and elapsed time are measured in whichever calendar the traded symbol follows.
+ */
+
+import { AssetClass } from '../types/data.js';
+import { MarketSession, tradingCalendar } from './TradingCalendar.js';
+import { classifySymbol } from './AssetClasses.js';
+import { easternToUtc, exchangeDate } from './BarStore.js';
+
+/**
+ * What trade timing needs from a calendar; TradingCalendarService implements it for NYSE
+ */
+export interface SessionCalendar {
+  getSession(at?: number): MarketSession;
+  isTradingDay(date?: string | number): boolean;
+  isMarketOpen(at?: number, includeExtendedHours?: boolean): boolean;
+  nextSessionOpen(at?: number): number;
+  tradingDaysBetween(from: string | number, to: string | number): number;
+  tradingHoursBetween(from: number, to: number): number;
+  addTradingHours(from: number, hours: number): number;
+  holdingPeriodHours(text: string): number | null;
+  regularSessionHours(): number;
+}
+
+export interface WeeklyBoundary {
+  weekday: number; // 0 = Sunday, New York time
+  time: string; // HH:MM
+}
+
+export interface ContinuousCalendarConfig {
+  name: string;
+  tradingWeekdays: number[]; // Days that count as trading days
+  weekOpen?: WeeklyBoundary; // Omit both boundaries for markets that never close
+  weekClose?: WeeklyBoundary;
+}
+
+const DAY_MS = 86400000;
+const HOUR_MS = 3600000;
+const MAX_SCAN_DAYS = 3660;
+
+/**
+ * A market that trades without daily sessions, closed at most over a weekly window
+ */
+export class ContinuousCalendar implements SessionCalendar {
+  private config: ContinuousCalendarConfig;
+
+  constructor(config: ContinuousCalendarConfig) {
+    this.config = config;
+  }
+
+  get name(): string {
+    return this.config.name;
+  }
+
+  isTradingDay(date: string | number = Date.now()): boolean {
+    return this.config.tradingWeekdays.includes(this.weekday(this.toDate(date)));
+  }
+
+  getSession(at: number = Date.now()): MarketSession {
+    return this.windows(this.toDate(at)).some(([start, end]) => at >= start && at < end) ? 'regular' : 'closed';
+  }
+
+  isMarketOpen(at: number = Date.now(), _includeExtendedHours: boolean = false): boolean {
+    return this.getSession(at) === 'regular';
+  }
+
+  /**
+   * Reopening after the weekly close; the moment itself while the market is open
+   */
+  nextSessionOpen(at: number = Date.now()): number {
+    let day = this.toDate(at);
+    for (let i = 0; i < MAX_SCAN_DAYS; i++, day = this.shiftDate(day, 1)) {
+      for (const [start, end] of this.windows(day)) {
+        if (at < end) return Math.max(start, at);
+      }
+    }
+    throw new Error(`${this.config.name} calendar has no open window within ${MAX_SCAN_DAYS} days`);
+  }
+
+  /**
+   * Trading days in (from, to]; negative when `to` precedes `from`
+   */
+  tradingDaysBetween(from: string | number, to: string | number): number {
+    const start = this.toDate(from);
+    const end = this.toDate(to);
+    if (end < start) return -this.tradingDaysBetween(end, start);
+
+    let count = 0;
+    for (let day = this.shiftDate(start, 1); day <= end; day = this.shiftDate(day, 1)) {
+      if (this.isTradingDay(day)) count++;
+    }
+    return count;
+  }
+
+  tradingHoursBetween(from: number, to: number): number {
+    if (to <= from) return 0;
+
+    let total = 0;
+    let day = this.toDate(from);
+    const last = this.toDate(to);
+    for (let i = 0; day <= last && i < MAX_SCAN_DAYS; i++, day = this.shiftDate(day, 1)) {
+      for (const [start, end] of this.windows(day)) {
+        total += Math.max(0, Math.min(to, end) - Math.max(from, start));
+      }
+    }
+    return total / HOUR_MS;
+  }
+
+  addTradingHours(from: number, hours: number): number {
+    let remaining = hours * HOUR_MS;
+    let day = this.toDate(from);
+
+    for (let i = 0; i < MAX_SCAN_DAYS; i++, day = this.shiftDate(day, 1)) {
+      for (const [windowStart, end] of this.windows(day)) {
+        if (from >= end) continue;
+        const start = Math.max(from, windowStart);
+        if (start + remaining <= end) return start + remaining;
+        remaining -= end - start;
+      }
+    }
+    throw new Error(`No ${this.config.name} trading window found within ${MAX_SCAN_DAYS} days of ${new Date(from).toISOString()}`);
+  }
+
+  /**
+   * Hours named in a hold such as "4 hours", "1-2 days" or "1 week"; a day is 24 hours
+   */
+  holdingPeriodHours(text: string): number | null {
+    const match = text?.match(/(\d+(?:\.\d+)?)(?:\s*-\s*(\d+(?:\.\d+)?))?\s*(hour|day|week|month)/i);
+    if (!match) return null;
+
+    const value = match[2] ? (parseFloat(match[1]) + parseFloat(match[2])) / 2 : parseFloat(match[1]);
+    const daysPerWeek = this.config.tradingWeekdays.length;
+    switch (match[3].toLowerCase()) {
+      case 'hour': return value;
+      case 'week': return value * daysPerWeek * 24;
+      case 'month': return value * Math.round(daysPerWeek * 30 / 7) * 24;
+      default: return value * 24;
+    }
+  }
+
+  regularSessionHours(): number {
+    return 24;
+  }
+
+  /**
+   * Open intervals falling on a New York calendar date
+   */
+  private windows(date: string): Array<[number, number]> {
+    const dayStart = easternToUtc(`${date} 00:00:00`);
+    const dayEnd = easternToUtc(`${this.shiftDate(date, 1)} 00:00:00`);
+    const { weekOpen, weekClose } = this.config;
+    if (!weekOpen || !weekClose) return [[dayStart, dayEnd]];
+
+    const weekday = this.weekday(date);
+    // Whole days between the weekly close and the reopening
+    if (weekClose.weekday !== weekOpen.weekday) {
+      for (let closed = (weekClose.weekday + 1) % 7; closed !== weekOpen.weekday; closed = (closed + 1) % 7) {
+        if (weekday === closed) return [];
+      }
+    }
+
+    const at = (time: string): number => easternToUtc(`${date} ${time}:00`);
+    if (weekday === weekClose.weekday && weekday === weekOpen.weekday) {
+      return [[dayStart, at(weekClose.time)], [at(weekOpen.time), dayEnd]];
+    }
+    if (weekday === weekClose.weekday) return [[dayStart, at(weekClose.time)]];
+    if (weekday === weekOpen.weekday) return [[at(weekOpen.time), dayEnd]];
+    return [[dayStart, dayEnd]];
+  }
+
+  private weekday(date: string): number {
+    return new Date(`${date}T12:00:00Z`).getUTCDay();
+  }
+
+  private toDate(date: string | number): string {
+    return typeof date === 'string' ? date.slice(0, 10) : exchangeDate(date);
+  }
+
+  private shiftDate(date: string, days: number): string {
+    return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+  }
+}
+
+export const cryptoCalendar = new ContinuousCalendar({
+  name: 'crypto',
+  tradingWeekdays: [0, 1, 2, 3, 4, 5, 6],
+});
+
+export const fxCalendar = new ContinuousCalendar({
+  name: 'fx',
+  tradingWeekdays: [1, 2, 3, 4, 5],
+  weekOpen: { weekday: 0, time: '17:00' },
+  weekClose: { weekday: 5, time: '17:00' },
+});
+
+export function calendarFor(assetClass: AssetClass = 'equity'): SessionCalendar {
+  if (assetClass === 'crypto') return cryptoCalendar;
+  if (assetClass === 'fx') return fxCalendar;
+  return tradingCalendar;
+}
+
+export function calendarForSymbol(symbol: string): SessionCalendar {
+  return calendarFor(classifySymbol(symbol));
+}
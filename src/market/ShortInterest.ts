@@ -0,0 +1,448 @@
+/**
+ * Short Interest Service
+ * Stores bi-monthly short interest settlements and daily fails-to-deliver per symbol, and
+ * scores squeeze risk from short % of float, days to cover, the short interest trend and
+ * FTD pressure
+ */
+
+import sqlite3 from 'sqlite3';
+import { Database, open } from 'sqlite';
+import path from 'path';
+import { loggerUtils } from '../config/logger.js';
+import { DataHub } from '../api/DataHub.js';
+import { BaseClient } from '../api/BaseClient.js';
+import { QuiverClient } from '../api/clients/QuiverClient.js';
+import { YahooFinanceClient } from '../api/clients/YahooFinanceClient.js';
+import { providerRegistry } from '../api/ProviderRegistry.js';
+import { securityMaster } from './SecurityMaster.js';
+import {
+  FailToDeliverPoint,
+  NormalizedShortData,
+  ShortInterestPoint,
+  SqueezeRisk,
+} from '../types/data.js';
+
+export interface ShortInterestConfig {
+  dbPath: string;
+  refreshIntervalHours: number;
+  historySettlements: number; // Short interest settlements returned per symbol
+  ftdWindowDays: number; // Calendar days of FTDs that count as recent
+}
+
+export interface ShortDataUpdate {
+  shortInterest?: ShortInterestPoint[];
+  failsToDeliver?: FailToDeliverPoint[];
+}
+
+// Inputs at which each squeeze factor saturates
+const SQUEEZE_SATURATION = {
+  shortPercentOfFloat: 0.3,
+  daysToCover: 10,
+  shortInterestTrend: 0.5, // +50% since the previous settlement
+  failsToDeliver: 0.1, // Average daily FTDs at 10% of average daily volume
+};
+
+const SQUEEZE_WEIGHTS = {
+  shortPercentOfFloat: 0.4,
+  daysToCover: 0.3,
+  shortInterestTrend: 0.15,
+  failsToDeliver: 0.15,
+};
+
+const DAY_MS = 86400000;
+
+// Quiver field names have changed between API versions; take the first one present
+const pick = (row: any, ...keys: string[]): any => {
+  for (const key of keys) {
+    if (row?.[key] !== undefined && row[key] !== null && row[key] !== '') return row[key];
+  }
+  return undefined;
+};
+
+const toNumber = (value: any): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const number = typeof value === 'number' ? value : parseFloat(String(value).replace(/[,%]/g, ''));
+  return Number.isFinite(number) ? number : null;
+};
+
+const toDate = (value: any): string | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const time = typeof value === 'number' ? (value < 1e12 ? value * 1000 : value) : Date.parse(String(value));
+  return Number.isFinite(time) ? new Date(time).toISOString().split('T')[0] : null;
+};
+
+export class ShortInterestService {
+  private database: Database | null = null;
+  private ready: Promise<void>;
+  private dataHub: DataHub;
+  private config: ShortInterestConfig;
+  private lastRefresh: Map<string, number> = new Map();
+  private inFlight: Map<string, Promise<void>> = new Map();
+
+  constructor(dataHub: DataHub, config: Partial<ShortInterestConfig> = {}) {
+    this.dataHub = dataHub;
+    this.config = {
+      dbPath: path.join(process.cwd(), 'data', 'short_interest.db'),
+      refreshIntervalHours: 12,
+      historySettlements: 24,
+      ftdWindowDays: 30,
+      ...config,
+    };
+    this.ready = this.initializeDatabase();
+  }
+
+  /**
+   * Initialize SQLite database for short interest history
+   */
+  private async initializeDatabase(): Promise<void> {
+    try {
+      this.database = await open({
+        filename: this.config.dbPath,
+        driver: sqlite3.Database
+      });
+
+      await this.database.exec(`
+        CREATE TABLE IF NOT EXISTS short_interest (
+          symbol TEXT NOT NULL,
+          settlement_date TEXT NOT NULL,
+          short_interest REAL NOT NULL,
+          average_daily_volume REAL,
+          days_to_cover REAL,
+          short_percent_float REAL,
+          float_shares REAL,
+          source TEXT NOT NULL,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (symbol, settlement_date)
+        );
+
+        CREATE TABLE IF NOT EXISTS fails_to_deliver (
+          symbol TEXT NOT NULL,
+          date TEXT NOT NULL,
+          quantity REAL NOT NULL,
+          price REAL,
+          source TEXT NOT NULL,
+          PRIMARY KEY (symbol, date)
+        );
+
+        -- No provider reports borrow fees, so the table was never written
+        DROP TABLE IF EXISTS borrow_fees;
+      `);
+
+      // Quiver values of 1% or less used to be stored unscaled; clear them so the next refresh rewrites them
+      const { user_version: version } = await this.database.get('PRAGMA user_version');
+      if (version < 1) {
+        await this.database.run(`UPDATE short_interest SET short_percent_float = NULL WHERE source = 'quiver'`);
+        await this.database.exec('PRAGMA user_version = 1');
+      }
+
+      loggerUtils.dbLogger.info('Short interest database initialized', { dbPath: this.config.dbPath });
+    } catch (error) {
+      loggerUtils.dbLogger.error('Failed to initialize short interest database', {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  /**
+   * Store short interest and FTD observations. Later observations for the same
+   * settlement or date replace earlier ones, except that missing fields keep stored values.
+   */
+  async record(symbol: string, source: string, update: ShortDataUpdate): Promise<void> {
+    await this.ready;
+    if (!this.database) return;
+
+    const ticker = securityMaster.resolveTicker(symbol);
+    const now = Date.now();
+
+    for (const point of update.shortInterest || []) {
+      await this.database.run(
+        `INSERT INTO short_interest
+           (symbol, settlement_date, short_interest, average_daily_volume, days_to_cover,
+            short_percent_float, float_shares, source, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(symbol, settlement_date) DO UPDATE SET
+           short_interest = excluded.short_interest,
+           average_daily_volume = COALESCE(excluded.average_daily_volume, average_daily_volume),
+           days_to_cover = COALESCE(excluded.days_to_cover, days_to_cover),
+           short_percent_float = COALESCE(excluded.short_percent_float, short_percent_float),
+           float_shares = COALESCE(excluded.float_shares, float_shares),
+           source = excluded.source,
+           updated_at = excluded.updated_at`,
+        [ticker, point.settlementDate, point.shortInterest, point.averageDailyVolume, point.daysToCover,
+          point.shortPercentOfFloat, point.floatShares, source, now]
+      );
+    }
+
+    for (const point of update.failsToDeliver || []) {
+      await this.database.run(
+        `INSERT OR REPLACE INTO fails_to_deliver (symbol, date, quantity, price, source) VALUES (?, ?, ?, ?, ?)`,
+        [ticker, point.date, point.quantity, point.price, source]
+      );
+    }
+  }
+
+  /**
+   * Fetch and store a symbol's short data from one provider's client
+   */
+  async ingestFrom(provider: string, client: BaseClient, symbol: string): Promise<void> {
+    switch (provider) {
+      case 'quiver': {
+        const quiver = client as QuiverClient;
+        const [shortInterest, failsToDeliver] = await Promise.allSettled([
+          quiver.getShortInterest(symbol),
+          quiver.getFailureToDeliver(symbol),
+        ]);
+        if (shortInterest.status === 'rejected' && failsToDeliver.status === 'rejected') {
+          throw shortInterest.reason;
+        }
+
+        await this.record(symbol, provider, {
+          shortInterest: shortInterest.status === 'fulfilled' ? this.parseQuiverShortInterest(shortInterest.value) : [],
+          failsToDeliver: failsToDeliver.status === 'fulfilled' ? this.parseQuiverFailsToDeliver(failsToDeliver.value) : [],
+        });
+        return;
+      }
+
+      case 'yahoo': {
+        const statistics = await (client as YahooFinanceClient).getShortStatistics(symbol);
+        await this.record(symbol, provider, { shortInterest: this.parseYahooStatistics(statistics) });
+        return;
+      }
+
+      default:
+        throw new Error(`No short interest ingestion for provider: ${provider}`);
+    }
+  }
+
+  /**
+   * Refresh a symbol from every configured short data provider when its data is stale
+   */
+  async refreshIfStale(symbol: string): Promise<void> {
+    const ticker = securityMaster.resolveTicker(symbol);
+    if (Date.now() - (this.lastRefresh.get(ticker) || 0) < this.config.refreshIntervalHours * 3600000) return;
+
+    const pending = this.inFlight.get(ticker);
+    if (pending) return pending;
+
+    const refresh = (async () => {
+      for (const provider of ['quiver', 'yahoo']) {
+        const client = this.dataHub.getClient(provider);
+        if (!client) continue;
+        try {
+          await this.ingestFrom(provider, client, ticker);
+        } catch (error) {
+          loggerUtils.apiLogger.warn('Short interest refresh failed', {
+            symbol: ticker,
+            provider,
+            error: (error as Error).message,
+          });
+        }
+      }
+      this.lastRefresh.set(ticker, Date.now());
+    })().finally(() => this.inFlight.delete(ticker));
+
+    this.inFlight.set(ticker, refresh);
+    return refresh;
+  }
+
+  /**
+   * Latest short position, FTD pressure and squeeze risk from stored history,
+   * or null when nothing is stored for the symbol
+   */
+  async getShortData(symbol: string, options: { refresh?: boolean } = {}): Promise<NormalizedShortData | null> {
+    if (options.refresh !== false) {
+      await this.refreshIfStale(symbol);
+    }
+
+    await this.ready;
+    if (!this.database) return null;
+
+    const ticker = securityMaster.resolveTicker(symbol);
+    const settlements = (await this.database.all(
+      `SELECT * FROM short_interest WHERE symbol = ? ORDER BY settlement_date DESC LIMIT ?`,
+      [ticker, this.config.historySettlements]
+    )).reverse();
+    const ftdSince = new Date(Date.now() - this.config.ftdWindowDays * 3 * DAY_MS).toISOString().split('T')[0];
+    const ftdRows = await this.database.all(
+      `SELECT * FROM fails_to_deliver WHERE symbol = ? AND date >= ? ORDER BY date ASC`,
+      [ticker, ftdSince]
+    );
+
+    if (settlements.length === 0 && ftdRows.length === 0) return null;
+
+    const shortInterestHistory: ShortInterestPoint[] = settlements.map(row => ({
+      settlementDate: row.settlement_date,
+      shortInterest: row.short_interest,
+      averageDailyVolume: row.average_daily_volume,
+      daysToCover: row.days_to_cover,
+      shortPercentOfFloat: row.short_percent_float,
+      floatShares: row.float_shares,
+    }));
+    const failsToDeliverHistory: FailToDeliverPoint[] = ftdRows.map(row => ({
+      date: row.date,
+      quantity: row.quantity,
+      price: row.price,
+    }));
+
+    const latest = shortInterestHistory[shortInterestHistory.length - 1] || null;
+    const previous = shortInterestHistory[shortInterestHistory.length - 2] || null;
+    // Float and volume are reported less often than short interest; use the latest known
+    const floatShares = [...shortInterestHistory].reverse().find(point => point.floatShares)?.floatShares ?? null;
+    const averageDailyVolume = [...shortInterestHistory].reverse().find(point => point.averageDailyVolume)?.averageDailyVolume ?? null;
+
+    const shortPercentOfFloat = latest
+      ? latest.shortPercentOfFloat ?? (floatShares ? latest.shortInterest / floatShares : null)
+      : null;
+    const daysToCover = latest
+      ? latest.daysToCover ?? (averageDailyVolume ? latest.shortInterest / averageDailyVolume : null)
+      : null;
+    const shortInterestChange = latest && previous && previous.shortInterest > 0
+      ? (latest.shortInterest - previous.shortInterest) / previous.shortInterest
+      : null;
+
+    const recentSince = new Date(Date.now() - this.config.ftdWindowDays * DAY_MS).toISOString().split('T')[0];
+    const recentFtds = failsToDeliverHistory.filter(point => point.date >= recentSince);
+    const averageFtd = recentFtds.length > 0
+      ? recentFtds.reduce((sum, point) => sum + point.quantity, 0) / recentFtds.length
+      : 0;
+    const latestFtd = failsToDeliverHistory[failsToDeliverHistory.length - 1] || null;
+
+    const squeeze = this.scoreSqueeze({
+      shortPercentOfFloat,
+      daysToCover,
+      shortInterestChange,
+      ftdToVolume: averageDailyVolume && recentFtds.length > 0 ? averageFtd / averageDailyVolume : null,
+    });
+
+    const provider = settlements[settlements.length - 1]?.source || ftdRows[ftdRows.length - 1]?.source || 'quiver';
+    const source = providerRegistry.describe(provider, 'short-interest');
+
+    return {
+      type: 'short',
+      symbol: ticker,
+      timestamp: Date.now(),
+      source,
+      reliability: source.reliability.score,
+      settlementDate: latest?.settlementDate || null,
+      shortInterest: latest?.shortInterest ?? null,
+      shortInterestChange,
+      daysToCover,
+      shortPercentOfFloat,
+      floatShares,
+      failsToDeliver: {
+        latestDate: latestFtd?.date || null,
+        latestQuantity: latestFtd?.quantity || 0,
+        averageQuantity: averageFtd,
+        recentValue: recentFtds.reduce((sum, point) => sum + point.quantity * (point.price || 0), 0),
+      },
+      squeeze,
+      shortInterestHistory,
+      failsToDeliverHistory,
+    };
+  }
+
+  /**
+   * Weighted squeeze score over the factors that are known; missing factors drop out
+   * of the weighting rather than counting as zero
+   */
+  scoreSqueeze(inputs: {
+    shortPercentOfFloat: number | null;
+    daysToCover: number | null;
+    shortInterestChange: number | null;
+    ftdToVolume: number | null;
+  }): SqueezeRisk {
+    const saturate = (value: number | null, limit: number) =>
+      value === null ? null : Math.max(0, Math.min(1, value / limit));
+
+    const factors: SqueezeRisk['factors'] = {
+      shortPercentOfFloat: saturate(inputs.shortPercentOfFloat, SQUEEZE_SATURATION.shortPercentOfFloat),
+      daysToCover: saturate(inputs.daysToCover, SQUEEZE_SATURATION.daysToCover),
+      shortInterestTrend: saturate(inputs.shortInterestChange, SQUEEZE_SATURATION.shortInterestTrend),
+      failsToDeliver: saturate(inputs.ftdToVolume, SQUEEZE_SATURATION.failsToDeliver),
+    };
+
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const [factor, value] of Object.entries(factors)) {
+      if (value === null) continue;
+      weighted += value * SQUEEZE_WEIGHTS[factor as keyof typeof SQUEEZE_WEIGHTS];
+      totalWeight += SQUEEZE_WEIGHTS[factor as keyof typeof SQUEEZE_WEIGHTS];
+    }
+
+    // Without short % of float or days to cover the remaining factors say little
+    const score = factors.shortPercentOfFloat === null && factors.daysToCover === null
+      ? 0
+      : totalWeight > 0 ? weighted / totalWeight : 0;
+
+    return {
+      score,
+      level: score >= 0.75 ? 'extreme' : score >= 0.5 ? 'high' : score >= 0.3 ? 'elevated' : 'low',
+      factors,
+    };
+  }
+
+  async close(): Promise<void> {
+    await this.ready;
+    if (this.database) {
+      await this.database.close();
+      this.database = null;
+    }
+  }
+
+  private parseQuiverShortInterest(rows: any): ShortInterestPoint[] {
+    return (Array.isArray(rows) ? rows : []).map(row => {
+      const settlementDate = toDate(pick(row, 'SettlementDate', 'settlementDate', 'Date', 'date'));
+      const shortInterest = toNumber(pick(row, 'ShortInterest', 'shortInterest', 'Short Interest', 'short_interest'));
+      if (!settlementDate || shortInterest === null) return null;
+
+      const percent = toNumber(pick(row, 'ShortPercentFloat', 'PercentOfFloat', 'short_percent_float'));
+      return {
+        settlementDate,
+        shortInterest,
+        averageDailyVolume: toNumber(pick(row, 'AvgDailyVolume', 'AverageDailyVolume', 'avg_daily_volume')),
+        daysToCover: toNumber(pick(row, 'DaysToCover', 'daysToCover', 'days_to_cover')),
+        // Quiver reports percentages as 0-100, so 0.7 is 0.7% rather than 70%
+        shortPercentOfFloat: percent === null ? null : percent / 100,
+        floatShares: toNumber(pick(row, 'Float', 'FloatShares', 'float')),
+      };
+    }).filter(Boolean) as ShortInterestPoint[];
+  }
+
+  private parseQuiverFailsToDeliver(rows: any): FailToDeliverPoint[] {
+    return (Array.isArray(rows) ? rows : []).map(row => {
+      const date = toDate(pick(row, 'Date', 'date', 'SettlementDate'));
+      const quantity = toNumber(pick(row, 'FTD', 'Quantity', 'quantity', 'FailsToDeliver'));
+      if (!date || quantity === null) return null;
+      return { date, quantity, price: toNumber(pick(row, 'Price', 'price')) };
+    }).filter(Boolean) as FailToDeliverPoint[];
+  }
+
+  private parseYahooStatistics(statistics: any): ShortInterestPoint[] {
+    const points: ShortInterestPoint[] = [];
+    const settlementDate = toDate(statistics?.dateShortInterest);
+    if (settlementDate && statistics.sharesShort) {
+      points.push({
+        settlementDate,
+        shortInterest: statistics.sharesShort,
+        averageDailyVolume: statistics.averageVolume ?? null,
+        daysToCover: statistics.shortRatio ?? null,
+        shortPercentOfFloat: statistics.shortPercentOfFloat ?? null,
+        floatShares: statistics.floatShares ?? null,
+      });
+    }
+
+    const priorDate = toDate(statistics?.sharesShortPreviousMonthDate);
+    if (priorDate && statistics.sharesShortPriorMonth) {
+      points.push({
+        settlementDate: priorDate,
+        shortInterest: statistics.sharesShortPriorMonth,
+        averageDailyVolume: null,
+        daysToCover: null,
+        shortPercentOfFloat: null,
+        floatShares: null,
+      });
+    }
+
+    return points;
+  }
+}
@@ -0,0 +1,568 @@
+/**
+ * Trading Calendar
+ * NYSE sessions for any date: full holidays and early closes derived from exchange rules,
+ * pre/post-market windows, and DST-correct UTC boundaries. Polygon's holiday list and market
+ * status override the rules for announced or unscheduled closures. All lookups are synchronous.
+ */
+
+import sqlite3 from 'sqlite3';
+import { Database, open } from 'sqlite';
+import path from 'path';
+import { loggerUtils } from '../config/logger.js';
+import { DataHub } from '../api/DataHub.js';
+import { quotaManager } from '../api/QuotaManager.js';
+import { easternToUtc, exchangeDate } from './BarStore.js';
+import type { SessionCalendar } from './SessionCalendars.js';
+
+export type MarketSession = 'pre' | 'regular' | 'post' | 'closed';
+
+export interface SessionTimes {
+  preMarketOpen: string; // HH:MM exchange-local
+  open: string;
+  close: string;
+  earlyClose: string;
+  postMarketClose: string;
+  earlyPostMarketClose: string;
+}
+
+export interface TradingCalendarConfig {
+  dbPath: string;
+  syncIntervalHours: number;
+  sessions: SessionTimes;
+}
+
+export interface TradingDay {
+  date: string; // YYYY-MM-DD exchange-local
+  isTradingDay: boolean;
+  earlyClose: boolean;
+  holiday: string | null; // Name of the closure or early close
+  preMarketOpen: number | null; // Unix timestamps in milliseconds
+  open: number | null;
+  close: number | null;
+  postMarketClose: number | null;
+}
+
+export interface MarketHoliday {
+  date: string;
+  name: string;
+  status: 'closed' | 'early_close';
+  source: 'rules' | 'polygon';
+}
+
+export interface TradingCalendarSyncResult {
+  holidays: number;
+  errors: string[];
+}
+
+interface CalendarOverride {
+  name: string;
+  status: 'closed' | 'early_close';
+  open: number | null;
+  close: number | null;
+}
+
+const DAY_MS = 86400000;
+const HOUR_MS = 3600000;
+const TRADING_DAYS_PER_WEEK = 5;
+const TRADING_DAYS_PER_MONTH = 21;
+const MAX_SCAN_DAYS = 3660; // Bound on day-by-day walks; no real gap between sessions comes close
+
+export class TradingCalendarService implements SessionCalendar {
+  private database: Database | null = null;
+  private ready: Promise<void>;
+  private config: TradingCalendarConfig;
+  private dataHub: DataHub | null = null;
+  private overrides: Map<string, CalendarOverride> = new Map();
+  private ruleCache: Map<number, Map<string, CalendarOverride>> = new Map();
+  private lastSync: number = 0;
+  private inFlight: Promise<TradingCalendarSyncResult> | null = null;
+
+  constructor(config: Partial<TradingCalendarConfig> = {}) {
+    this.config = {
+      dbPath: path.join(process.cwd(), 'data', 'trading_calendar.db'),
+      syncIntervalHours: 24,
+      ...config,
+      sessions: {
+        preMarketOpen: '04:00',
+        open: '09:30',
+        close: '16:00',
+        earlyClose: '13:00',
+        postMarketClose: '20:00',
+        earlyPostMarketClose: '17:00',
+        ...config.sessions,
+      },
+    };
+    this.ready = this.initializeDatabase();
+  }
+
+  /**
+   * Initialize SQLite database for provider overrides
+   */
+  private async initializeDatabase(): Promise<void> {
+    try {
+      this.database = await open({
+        filename: this.config.dbPath,
+        driver: sqlite3.Database
+      });
+
+      await this.database.exec(`
+        CREATE TABLE IF NOT EXISTS trading_calendar_overrides (
+          date TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          status TEXT NOT NULL,
+          open_at INTEGER,
+          close_at INTEGER,
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS trading_calendar_meta (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+      `);
+
+      const rows = await this.database.all('SELECT * FROM trading_calendar_overrides');
+      rows.forEach(row => this.overrides.set(row.date, {
+        name: row.name,
+        status: row.status,
+        open: row.open_at,
+        close: row.close_at,
+      }));
+
+      const meta = await this.database.get(`SELECT value FROM trading_calendar_meta WHERE key = 'last_sync'`);
+      this.lastSync = meta ? Number(meta.value) : 0;
+
+      loggerUtils.dbLogger.info('Trading calendar initialized', { overrides: this.overrides.size });
+    } catch (error) {
+      loggerUtils.dbLogger.error('Failed to initialize trading calendar database', {
+        error: (error as Error).message,
+      });
+      this.database = null;
+    }
+  }
+
+  /**
+   * Give the calendar access to DataHub clients for syncs; the first hub attached is kept
+   */
+  attach(dataHub: DataHub): void {
+    if (!this.dataHub) {
+      this.dataHub = dataHub;
+    }
+  }
+
+  /**
+   * Session boundaries for an exchange-local date or the date containing a timestamp
+   */
+  getTradingDay(date: string | number = Date.now()): TradingDay {
+    const day = this.toDate(date);
+    const special = this.overrides.get(day) || this.holidayRules(Number(day.slice(0, 4))).get(day);
+    const weekday = new Date(`${day}T12:00:00Z`).getUTCDay();
+
+    if (weekday === 0 || weekday === 6 || special?.status === 'closed') {
+      return {
+        date: day,
+        isTradingDay: false,
+        earlyClose: false,
+        holiday: special?.name || null,
+        preMarketOpen: null,
+        open: null,
+        close: null,
+        postMarketClose: null,
+      };
+    }
+
+    const sessions = this.config.sessions;
+    const earlyClose = special?.status === 'early_close';
+    return {
+      date: day,
+      isTradingDay: true,
+      earlyClose,
+      holiday: special?.name || null,
+      preMarketOpen: this.at(day, sessions.preMarketOpen),
+      open: special?.open ?? this.at(day, sessions.open),
+      close: special?.close ?? this.at(day, earlyClose ? sessions.earlyClose : sessions.close),
+      postMarketClose: this.at(day, earlyClose ? sessions.earlyPostMarketClose : sessions.postMarketClose),
+    };
+  }
+
+  isTradingDay(date: string | number = Date.now()): boolean {
+    return this.getTradingDay(date).isTradingDay;
+  }
+
+  /**
+   * Session in progress at a moment
+   */
+  getSession(at: number = Date.now()): MarketSession {
+    const day = this.getTradingDay(at);
+    if (!day.isTradingDay) return 'closed';
+    if (at >= day.open! && at < day.close!) return 'regular';
+    if (at >= day.preMarketOpen! && at < day.open!) return 'pre';
+    if (at >= day.close! && at < day.postMarketClose!) return 'post';
+    return 'closed';
+  }
+
+  isMarketOpen(at: number = Date.now(), includeExtendedHours: boolean = false): boolean {
+    const session = this.getSession(at);
+    return session === 'regular' || (includeExtendedHours && session !== 'closed');
+  }
+
+  /**
+   * Next regular-session open after a moment; today's open when it is still ahead
+   */
+  nextSessionOpen(at: number = Date.now()): number {
+    const today = this.getTradingDay(at);
+    if (today.isTradingDay && at < today.open!) return today.open!;
+    return this.getTradingDay(this.nextTradingDay(today.date)).open!;
+  }
+
+  /**
+   * Close of the session in progress, or of the next session when the market is shut
+   */
+  nextSessionClose(at: number = Date.now()): number {
+    const today = this.getTradingDay(at);
+    if (today.isTradingDay && at < today.close!) return today.close!;
+    return this.getTradingDay(this.nextTradingDay(today.date)).close!;
+  }
+
+  /**
+   * First trading day strictly after a date
+   */
+  nextTradingDay(date: string | number = Date.now()): string {
+    return this.stepTradingDay(this.toDate(date), 1);
+  }
+
+  /**
+   * Last trading day strictly before a date
+   */
+  previousTradingDay(date: string | number = Date.now()): string {
+    return this.stepTradingDay(this.toDate(date), -1);
+  }
+
+  /**
+   * Trading days in (from, to]; negative when `to` precedes `from`
+   */
+  tradingDaysBetween(from: string | number, to: string | number): number {
+    const start = this.toDate(from);
+    const end = this.toDate(to);
+    if (end < start) return -this.tradingDaysBetween(end, start);
+
+    let count = 0;
+    for (let day = this.shiftDate(start, 1); day <= end; day = this.shiftDate(day, 1)) {
+      if (this.isTradingDay(day)) count++;
+    }
+    return count;
+  }
+
+  /**
+   * The trading day `days` sessions after (or before, when negative) a date
+   */
+  addTradingDays(date: string | number, days: number): string {
+    let day = this.toDate(date);
+    for (let i = 0; i < Math.abs(days); i++) {
+      day = this.stepTradingDay(day, days < 0 ? -1 : 1);
+    }
+    return day;
+  }
+
+  /**
+   * Regular-session hours elapsed between two moments
+   */
+  tradingHoursBetween(from: number, to: number): number {
+    if (to <= from) return 0;
+
+    let total = 0;
+    let day = this.toDate(from);
+    const last = this.toDate(to);
+    for (let i = 0; day <= last && i < MAX_SCAN_DAYS; i++, day = this.shiftDate(day, 1)) {
+      const session = this.getTradingDay(day);
+      if (!session.isTradingDay) continue;
+      total += Math.max(0, Math.min(to, session.close!) - Math.max(from, session.open!));
+    }
+    return total / HOUR_MS;
+  }
+
+  /**
+   * The moment `hours` of regular-session time after `from`; time outside sessions does not count
+   */
+  addTradingHours(from: number, hours: number): number {
+    let remaining = hours * HOUR_MS;
+    let cursor = from;
+
+    for (let i = 0; i < MAX_SCAN_DAYS; i++) {
+      const session = this.getTradingDay(cursor);
+      if (session.isTradingDay && cursor < session.close!) {
+        const start = Math.max(cursor, session.open!);
+        if (start + remaining <= session.close!) return start + remaining;
+        remaining -= session.close! - start;
+        cursor = session.close!;
+      }
+      cursor = this.nextSessionOpen(cursor);
+    }
+    throw new Error(`No trading session found within ${MAX_SCAN_DAYS} days of ${new Date(from).toISOString()}`);
+  }
+
+  /**
+   * Regular-session hours named in a hold such as "4 hours", "1-2 days" or "1 week";
+   * ranges use their midpoint and days count full sessions
+   */
+  holdingPeriodHours(text: string): number | null {
+    const match = text?.match(/(\d+(?:\.\d+)?)(?:\s*-\s*(\d+(?:\.\d+)?))?\s*(hour|day|week|month)/i);
+    if (!match) return null;
+
+    const value = match[2] ? (parseFloat(match[1]) + parseFloat(match[2])) / 2 : parseFloat(match[1]);
+    const sessionHours = this.regularSessionHours();
+    switch (match[3].toLowerCase()) {
+      case 'hour': return value;
+      case 'week': return value * TRADING_DAYS_PER_WEEK * sessionHours;
+      case 'month': return value * TRADING_DAYS_PER_MONTH * sessionHours;
+      default: return value * sessionHours;
+    }
+  }
+
+  /**
+   * Length of a full regular session in hours
+   */
+  regularSessionHours(): number {
+    const [openHour, openMinute] = this.config.sessions.open.split(':').map(Number);
+    const [closeHour, closeMinute] = this.config.sessions.close.split(':').map(Number);
+    return (closeHour * 60 + closeMinute - openHour * 60 - openMinute) / 60;
+  }
+
+  /**
+   * Weekday closures and early closes in a year, earliest first
+   */
+  getHolidays(year: number): MarketHoliday[] {
+    const days = new Map<string, MarketHoliday>();
+    this.holidayRules(year).forEach((rule, date) => days.set(date, { date, name: rule.name, status: rule.status, source: 'rules' }));
+    this.overrides.forEach((override, date) => {
+      if (date.startsWith(`${year}-`)) {
+        days.set(date, { date, name: override.name, status: override.status, source: 'polygon' });
+      }
+    });
+    return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Sync when the last sync is older than the interval
+   */
+  async syncIfStale(): Promise<TradingCalendarSyncResult | null> {
+    await this.ready;
+    if (Date.now() - this.lastSync < this.config.syncIntervalHours * HOUR_MS) {
+      return null;
+    }
+    return await this.sync();
+  }
+
+  /**
+   * Pull announced holidays and the live market status from Polygon
+   */
+  async sync(): Promise<TradingCalendarSyncResult> {
+    if (this.inFlight) return await this.inFlight;
+
+    this.inFlight = quotaManager.runWithPriority('low', () => this.performSync());
+    try {
+      return await this.inFlight;
+    } finally {
+      this.inFlight = null;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.ready;
+    if (this.database) {
+      await this.database.close();
+      this.database = null;
+    }
+  }
+
+  private async performSync(): Promise<TradingCalendarSyncResult> {
+    await this.ready;
+
+    const result: TradingCalendarSyncResult = { holidays: 0, errors: [] };
+    const polygon = this.dataHub?.polygonClient;
+    if (!polygon) {
+      result.errors.push('No Polygon client available');
+      return result;
+    }
+
+    const changed = new Map<string, CalendarOverride>();
+    try {
+      const holidays = await polygon.getMarketHolidays();
+      if (!Array.isArray(holidays)) {
+        throw new Error('Unexpected market holidays response');
+      }
+      for (const row of holidays) {
+        if (String(row?.exchange).toUpperCase() !== 'NYSE' || !row?.date) continue;
+
+        const status = row.status === 'early-close' ? 'early_close' : 'closed';
+        changed.set(row.date, {
+          name: row.name || 'Market holiday',
+          status,
+          open: status === 'early_close' && row.open ? Date.parse(row.open) : null,
+          close: status === 'early_close' && row.close ? Date.parse(row.close) : null,
+        });
+      }
+      result.holidays = changed.size;
+    } catch (error) {
+      result.errors.push(`polygon holidays: ${(error as Error).message}`);
+    }
+
+    // A closed market during a scheduled session means an unscheduled closure today
+    try {
+      const now = Date.now();
+      if (this.getSession(now) === 'regular') {
+        const status = await polygon.getMarketStatus();
+        if (status?.market === 'closed' && status?.exchanges?.nyse === 'closed') {
+          changed.set(exchangeDate(now), { name: 'Unscheduled closure', status: 'closed', open: null, close: null });
+        }
+      }
+    } catch (error) {
+      result.errors.push(`polygon status: ${(error as Error).message}`);
+    }
+
+    changed.forEach((override, date) => this.overrides.set(date, override));
+    await this.persist(changed);
+
+    this.lastSync = Date.now();
+    if (this.database) {
+      await this.database.run(
+        `INSERT OR REPLACE INTO trading_calendar_meta (key, value) VALUES ('last_sync', ?)`,
+        [String(this.lastSync)]
+      );
+    }
+
+    loggerUtils.apiLogger.info('Trading calendar synced', result);
+    return result;
+  }
+
+  private async persist(overrides: Map<string, CalendarOverride>): Promise<void> {
+    if (!this.database || overrides.size === 0) return;
+
+    await this.database.exec('BEGIN TRANSACTION');
+    try {
+      for (const [date, override] of overrides) {
+        await this.database.run(
+          `INSERT OR REPLACE INTO trading_calendar_overrides (date, name, status, open_at, close_at, updated_at)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [date, override.name, override.status, override.open, override.close, Date.now()]
+        );
+      }
+      await this.database.exec('COMMIT');
+    } catch (error) {
+      await this.database.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * NYSE holiday rules (Rule 7.2): weekend holidays move to Friday or Monday, except
+   * New Year's Day on a Saturday, which is not observed; early closes at 1 PM on
+   * July 3, the day after Thanksgiving and Christmas Eve
+   */
+  private holidayRules(year: number): Map<string, CalendarOverride> {
+    const cached = this.ruleCache.get(year);
+    if (cached) return cached;
+
+    const days = new Map<string, CalendarOverride>();
+    const closed = (date: string | null, name: string) => {
+      if (date) days.set(date, { name, status: 'closed', open: null, close: null });
+    };
+    const early = (date: string, name: string) => {
+      const weekday = new Date(`${date}T12:00:00Z`).getUTCDay();
+      if (weekday !== 0 && weekday !== 6 && !days.has(date)) {
+        days.set(date, { name, status: 'early_close', open: null, close: null });
+      }
+    };
+
+    const newYear = this.iso(year, 1, 1);
+    const newYearWeekday = new Date(`${newYear}T12:00:00Z`).getUTCDay();
+    closed(newYearWeekday === 6 ? null : this.observed(newYear), "New Year's Day");
+    closed(this.nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day');
+    closed(this.nthWeekday(year, 2, 1, 3), "Washington's Birthday");
+    closed(this.shiftDate(this.easterSunday(year), -2), 'Good Friday');
+    closed(this.lastWeekday(year, 5, 1), 'Memorial Day');
+    if (year >= 2022) closed(this.observed(this.iso(year, 6, 19)), 'Juneteenth National Independence Day');
+    closed(this.observed(this.iso(year, 7, 4)), 'Independence Day');
+    closed(this.nthWeekday(year, 9, 1, 1), 'Labor Day');
+    const thanksgiving = this.nthWeekday(year, 11, 4, 4);
+    closed(thanksgiving, 'Thanksgiving Day');
+    closed(this.observed(this.iso(year, 12, 25)), 'Christmas Day');
+
+    early(this.iso(year, 7, 3), 'Independence Day (early close)');
+    early(this.shiftDate(thanksgiving, 1), 'Day after Thanksgiving (early close)');
+    early(this.iso(year, 12, 24), 'Christmas Eve (early close)');
+
+    this.ruleCache.set(year, days);
+    return days;
+  }
+
+  private observed(date: string): string {
+    const weekday = new Date(`${date}T12:00:00Z`).getUTCDay();
+    if (weekday === 6) return this.shiftDate(date, -1);
+    if (weekday === 0) return this.shiftDate(date, 1);
+    return date;
+  }
+
+  /**
+   * nth occurrence (1-based) of a weekday (0 = Sunday) in a month
+   */
+  private nthWeekday(year: number, month: number, weekday: number, n: number): string {
+    const first = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    return this.iso(year, month, 1 + ((weekday - first + 7) % 7) + (n - 1) * 7);
+  }
+
+  private lastWeekday(year: number, month: number, weekday: number): string {
+    const lastDay = new Date(Date.UTC(year, month, 0));
+    return this.iso(year, month, lastDay.getUTCDate() - ((lastDay.getUTCDay() - weekday + 7) % 7));
+  }
+
+  /**
+   * Gregorian Easter (anonymous Gregorian algorithm)
+   */
+  private easterSunday(year: number): string {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31);
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+    return this.iso(year, month, day);
+  }
+
+  private stepTradingDay(date: string, direction: 1 | -1): string {
+    let day = date;
+    for (let i = 0; i < MAX_SCAN_DAYS; i++) {
+      day = this.shiftDate(day, direction);
+      if (this.isTradingDay(day)) return day;
+    }
+    throw new Error(`No trading day found within ${MAX_SCAN_DAYS} days of ${date}`);
+  }
+
+  private at(date: string, time: string): number {
+    return easternToUtc(`${date} ${time}:00`);
+  }
+
+  private toDate(date: string | number): string {
+    return typeof date === 'number' ? exchangeDate(date) : date;
+  }
+
+  private shiftDate(date: string, days: number): string {
+    return new Date(Date.parse(date) + days * DAY_MS).toISOString().split('T')[0];
+  }
+
+  private iso(year: number, month: number, day: number): string {
+    return new Date(Date.UTC(year, month - 1, day)).toISOString().split('T')[0];
+  }
+}
+
+export const tradingCalendar = new TradingCalendarService();
+
+export default tradingCalendar;
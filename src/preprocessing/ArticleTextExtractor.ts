@@ -0,0 +1,117 @@
+/**
+ * Readable text extraction for news article pages
+ * Strips page chrome and keeps the densest block of paragraphs, plus the
+ * metadata publishers expose for syndication (canonical URL, byline, dates).
+ */
+
+import { load } from 'cheerio';
+
+export interface ExtractedArticle {
+  url: string;
+  canonicalUrl?: string;
+  title: string;
+  byline?: string;
+  siteName?: string;
+  publishedAt?: string;
+  text: string;
+  wordCount: number;
+}
+
+export interface ArticleTextExtractorConfig {
+  minParagraphLength: number; // Shorter paragraphs are captions, bylines or share prompts
+  maxTextLength: number; // Characters kept per article
+}
+
+// Elements that never hold article prose
+const BOILERPLATE_SELECTORS = [
+  'script', 'style', 'noscript', 'iframe', 'svg', 'form', 'button',
+  'nav', 'header', 'footer', 'aside', 'figure figcaption',
+  '[role="navigation"]', '[role="banner"]', '[role="complementary"]',
+  '[class*="newsletter"]', '[class*="related"]', '[class*="share"]', '[class*="advert"]',
+].join(', ');
+
+// Publisher markup for the article body, most specific first
+const BODY_SELECTORS = [
+  '[itemprop="articleBody"]',
+  'article',
+  '[class*="article-body"]',
+  '[class*="ArticleBody"]',
+  'main',
+];
+
+export class ArticleTextExtractor {
+  private config: ArticleTextExtractorConfig;
+
+  constructor(config: Partial<ArticleTextExtractorConfig> = {}) {
+    this.config = {
+      minParagraphLength: 40,
+      maxTextLength: 20000,
+      ...config,
+    };
+  }
+
+  /**
+   * Extract the readable body and metadata from an article page
+   */
+  extract(url: string, html: string): ExtractedArticle {
+    const $ = load(html);
+    const meta = (selector: string): string | undefined => $(selector).attr('content')?.trim() || undefined;
+
+    const canonicalUrl = $('link[rel="canonical"]').attr('href')?.trim() || meta('meta[property="og:url"]');
+    const title = meta('meta[property="og:title"]') || $('h1').first().text().trim() || $('title').text().trim();
+    const byline = meta('meta[name="author"]') || $('[rel="author"], [class*="byline"]').first().text().trim() || undefined;
+    const siteName = meta('meta[property="og:site_name"]');
+    const publishedAt = meta('meta[property="article:published_time"]') || $('time[datetime]').first().attr('datetime');
+
+    $(BOILERPLATE_SELECTORS).remove();
+
+    const paragraphs = this.bodyParagraphs($);
+    const text = paragraphs.join('\n\n').slice(0, this.config.maxTextLength);
+
+    return {
+      url,
+      canonicalUrl,
+      title,
+      byline,
+      siteName,
+      publishedAt,
+      text,
+      wordCount: text ? text.split(/\s+/).length : 0,
+    };
+  }
+
+  /**
+   * Paragraphs of the first publisher body container with real prose, falling back
+   * to the element whose direct paragraphs carry the most text
+   */
+  private bodyParagraphs($: ReturnType<typeof load>): string[] {
+    const paragraphsOf = (container: any): string[] => $(container).find('p')
+      .map((_, element) => this.clean($(element).text()))
+      .get()
+      .filter((paragraph: string) => paragraph.length >= this.config.minParagraphLength);
+
+    for (const selector of BODY_SELECTORS) {
+      const container = $(selector).first();
+      if (container.length === 0) continue;
+
+      const paragraphs = paragraphsOf(container);
+      if (paragraphs.length >= 2) return paragraphs;
+    }
+
+    let best: any = null;
+    let bestLength = 0;
+    $('p').parent().each((_, element) => {
+      const length = $(element).children('p').text().length;
+      if (length > bestLength) {
+        best = element;
+        bestLength = length;
+      }
+    });
+
+    return best ? paragraphsOf(best) : [];
+  }
+
+  private clean(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+}
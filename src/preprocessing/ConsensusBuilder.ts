@@ -0,0 +1,372 @@
+/**
+ * Multi-source consensus for quotes and financials
+ * Combines provider values with reliability-weighted medians, rejects outliers
+ * and records per-field provenance and dispersion.
+ */
+
+import { loggerUtils } from '../config/logger.js';
+import { isSynthetic } from '../core/SyntheticData.js';
+import {
+  ConsensusRecord,
+  ConsensusSourceValue,
+  FieldProvenance,
+  SourceReliability,
+} from '../types/data.js';
+
+export type ConsensusDataType = 'quote' | 'financials';
+
+export interface ConsensusCandidate {
+  source: string;
+  rawData: any;
+  reliability: SourceReliability;
+}
+
+export interface ConsensusConfig {
+  madMultiplier: number; // Values further than this many scaled MADs from the median are outliers
+  minRelativeTolerance: Record<ConsensusDataType, number>; // Never call values this close to the median outliers
+}
+
+interface ExtractedValues {
+  period?: string;
+  values: Record<string, number>;
+}
+
+const PRIMARY_FIELD: Record<ConsensusDataType, string> = {
+  quote: 'price',
+  financials: 'revenue',
+};
+
+// Scales MAD to a standard deviation estimate for normally distributed values
+const MAD_SCALE = 1.4826;
+
+const PERIOD_TOLERANCE_DAYS = 10;
+
+export class ConsensusBuilder {
+  private config: ConsensusConfig;
+
+  constructor(config: Partial<ConsensusConfig> = {}) {
+    this.config = {
+      madMultiplier: 3,
+      minRelativeTolerance: { quote: 0.005, financials: 0.02 },
+      ...config,
+    };
+  }
+
+  /**
+   * Build a consensus record, or null when no candidate has comparable values
+   */
+  build(dataType: ConsensusDataType, candidates: ConsensusCandidate[]): ConsensusRecord | null {
+    const primaryField = PRIMARY_FIELD[dataType];
+    const sourcesRejected: Array<{ source: string; reason: string }> = [];
+
+    // Generated or estimated values must never pull the median
+    const observed = candidates.filter(candidate => {
+      if (!isSynthetic(candidate.rawData)) return true;
+      sourcesRejected.push({ source: candidate.source, reason: 'synthetic data' });
+      return false;
+    });
+
+    let extracted = observed
+      .map(candidate => ({ candidate, extracted: this.extractValues(dataType, candidate) }))
+      .filter(entry => {
+        if (entry.extracted && Object.keys(entry.extracted.values).length > 0) return true;
+        sourcesRejected.push({ source: entry.candidate.source, reason: 'no comparable values' });
+        return false;
+      });
+
+    if (extracted.length === 0) return null;
+
+    // Financial values only agree if they describe the same fiscal period
+    let period: string | undefined;
+    if (dataType === 'financials') {
+      period = this.selectPeriod(extracted.map(entry => entry.extracted.period));
+      extracted = extracted.filter(entry => {
+        if (this.isSamePeriod(entry.extracted.period, period)) return true;
+        sourcesRejected.push({
+          source: entry.candidate.source,
+          reason: `period mismatch (${entry.extracted.period || 'unknown'} vs ${period})`,
+        });
+        return false;
+      });
+    }
+
+    // A source far off on the primary field is dropped for every field
+    const primaryValues = extracted
+      .filter(entry => Number.isFinite(entry.extracted.values[primaryField]))
+      .map(entry => ({
+        source: entry.candidate.source,
+        value: entry.extracted.values[primaryField],
+        weight: this.weightOf(entry.candidate),
+      }));
+    const sourceOutliers = new Set(this.findOutliers(dataType, primaryValues));
+    sourceOutliers.forEach(source => {
+      const entry = primaryValues.find(value => value.source === source);
+      sourcesRejected.push({ source, reason: `${primaryField} outlier (${entry?.value})` });
+    });
+
+    const fieldNames = Array.from(new Set(extracted.flatMap(entry => Object.keys(entry.extracted.values))));
+    const fields: Record<string, FieldProvenance> = {};
+
+    for (const field of fieldNames) {
+      const values: ConsensusSourceValue[] = extracted
+        .filter(entry => Number.isFinite(entry.extracted.values[field]))
+        .map(entry => ({
+          source: entry.candidate.source,
+          value: entry.extracted.values[field],
+          weight: this.weightOf(entry.candidate),
+          rejected: sourceOutliers.has(entry.candidate.source),
+          reason: sourceOutliers.has(entry.candidate.source) ? 'source_outlier' as const : undefined,
+        }));
+
+      const fieldOutliers = new Set(this.findOutliers(dataType, values.filter(value => !value.rejected)));
+      values.forEach(value => {
+        if (fieldOutliers.has(value.source)) {
+          value.rejected = true;
+          value.reason = 'field_outlier';
+        }
+      });
+
+      const accepted = values.filter(value => !value.rejected);
+      if (accepted.length === 0) continue;
+
+      const consensusValue = this.weightedMedian(accepted);
+      fields[field] = {
+        value: consensusValue,
+        method: accepted.length === 1 ? 'single_source' : 'weighted_median',
+        sources: values,
+        dispersion: this.measureDispersion(accepted.map(value => value.value), consensusValue),
+      };
+    }
+
+    const sourcesUsed = extracted
+      .map(entry => entry.candidate.source)
+      .filter(source => !sourceOutliers.has(source));
+
+    if (sourcesRejected.length > 0) {
+      loggerUtils.apiLogger.info('Consensus rejected sources', {
+        dataType,
+        sourcesUsed,
+        sourcesRejected,
+      });
+    }
+
+    return {
+      dataType,
+      period,
+      primaryField,
+      sourcesUsed,
+      sourcesRejected,
+      fields,
+    };
+  }
+
+  /**
+   * Weighted median: the smallest value whose cumulative weight reaches half the total
+   */
+  weightedMedian(values: Array<{ value: number; weight: number }>): number {
+    if (values.length === 0) return NaN;
+
+    const sorted = [...values].sort((a, b) => a.value - b.value);
+    const weights = sorted.map(entry => (entry.weight > 0 ? entry.weight : 1e-6));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    let cumulative = 0;
+    for (let i = 0; i < sorted.length; i++) {
+      cumulative += weights[i];
+      if (Math.abs(cumulative - total / 2) < 1e-12 && i + 1 < sorted.length) {
+        return (sorted[i].value + sorted[i + 1].value) / 2;
+      }
+      if (cumulative > total / 2) {
+        return sorted[i].value;
+      }
+    }
+
+    return sorted[sorted.length - 1].value;
+  }
+
+  /**
+   * Sources whose value sits outside the robust tolerance band; needs three values to judge
+   */
+  private findOutliers(
+    dataType: ConsensusDataType,
+    values: Array<{ source: string; value: number; weight: number }>
+  ): string[] {
+    if (values.length < 3) return [];
+
+    const median = this.weightedMedian(values);
+    const deviations = values.map(entry => ({ value: Math.abs(entry.value - median), weight: entry.weight }));
+    const mad = this.weightedMedian(deviations);
+    const tolerance = Math.max(
+      this.config.madMultiplier * MAD_SCALE * mad,
+      this.config.minRelativeTolerance[dataType] * Math.abs(median)
+    );
+
+    return values
+      .filter(entry => Math.abs(entry.value - median) > tolerance)
+      .map(entry => entry.source);
+  }
+
+  private measureDispersion(values: number[], center: number): FieldProvenance['dispersion'] {
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / values.length;
+    const range = Math.max(...values) - Math.min(...values);
+    const sortedDeviations = values.map(value => Math.abs(value - center)).sort((a, b) => a - b);
+    const middle = Math.floor(sortedDeviations.length / 2);
+    const mad = sortedDeviations.length % 2
+      ? sortedDeviations[middle]
+      : (sortedDeviations[middle - 1] + sortedDeviations[middle]) / 2;
+
+    return {
+      sourceCount: values.length,
+      stdDev: Math.sqrt(variance),
+      mad,
+      range,
+      relativeSpread: center !== 0 ? range / Math.abs(center) : 0,
+    };
+  }
+
+  /**
+   * Most widely reported period wins; ties go to the most recent
+   */
+  private selectPeriod(periods: Array<string | undefined>): string | undefined {
+    const known = periods.filter(Boolean);
+
+    return Array.from(new Set(known))
+      .map(period => ({ period, count: known.filter(other => this.isSamePeriod(other, period)).length }))
+      .sort((a, b) => b.count - a.count || b.period.localeCompare(a.period))[0]?.period;
+  }
+
+  /**
+   * Providers disagree by a few days on 52/53-week fiscal year ends, so nearby dates match
+   */
+  private isSamePeriod(a: string | undefined, b: string | undefined): boolean {
+    if (!a || !b) return false;
+    const difference = Math.abs(Date.parse(a) - Date.parse(b));
+    return a === b || difference <= PERIOD_TOLERANCE_DAYS * 86400000;
+  }
+
+  private weightOf(candidate: ConsensusCandidate): number {
+    return Math.max(0, Math.min(1, candidate.reliability.score));
+  }
+
+  /**
+   * Map a provider response onto comparable numeric fields
+   */
+  private extractValues(dataType: ConsensusDataType, candidate: ConsensusCandidate): ExtractedValues | null {
+    const raw = candidate.rawData;
+    if (!raw) return null;
+
+    return dataType === 'quote'
+      ? this.extractQuoteValues(candidate.source, raw)
+      : this.extractFinancialValues(candidate.source, raw);
+  }
+
+  private extractQuoteValues(source: string, raw: any): ExtractedValues | null {
+    switch (source) {
+      case 'finnhub':
+        // Finnhub answers unknown symbols with all zeros
+        if (!raw.c) return null;
+        return this.cleanValues({
+          price: raw.c,
+          change: raw.d,
+          changePercent: raw.dp,
+          high: raw.h,
+          low: raw.l,
+          open: raw.o,
+          previousClose: raw.pc,
+        });
+
+      case 'polygon':
+        return this.cleanValues({ price: raw.results?.p });
+
+      case 'alphavantage': {
+        const quote = raw['Global Quote'];
+        if (!quote) return null;
+        return this.cleanValues({
+          price: parseFloat(quote['05. price']),
+          change: parseFloat(quote['09. change']),
+          changePercent: parseFloat(String(quote['10. change percent'] || '').replace('%', '')),
+          volume: parseFloat(quote['06. volume']),
+          high: parseFloat(quote['03. high']),
+          low: parseFloat(quote['04. low']),
+          open: parseFloat(quote['02. open']),
+          previousClose: parseFloat(quote['08. previous close']),
+        });
+      }
+
+      case 'yahoo':
+        // Chart metadata carries no session open, so open is left out
+        return this.cleanValues({
+          price: raw.price,
+          change: raw.change,
+          changePercent: raw.changePercent,
+          volume: raw.volume,
+          high: raw.high,
+          low: raw.low,
+          previousClose: raw.previousClose,
+        });
+
+      default:
+        return null;
+    }
+  }
+
+  private extractFinancialValues(source: string, raw: any): ExtractedValues | null {
+    switch (source) {
+      case 'alphavantage': {
+        const report = raw.annualReports?.[0];
+        if (!report) return null;
+        return {
+          period: report.fiscalDateEnding,
+          ...this.cleanValues({
+            revenue: parseFloat(report.totalRevenue),
+            netIncome: parseFloat(report.netIncome),
+          }),
+        };
+      }
+
+      case 'polygon': {
+        const filing = raw.results?.[0];
+        const income = filing?.financials?.income_statement;
+        if (!income) return null;
+        return {
+          period: filing.end_date,
+          ...this.cleanValues({
+            revenue: income.revenues?.value,
+            netIncome: income.net_income_loss?.value,
+            eps: income.basic_earnings_per_share?.value,
+          }),
+        };
+      }
+
+      case 'sec': {
+        const report = raw.annual?.[0];
+        if (!report) return null;
+        return {
+          period: new Date(report.reportDate).toISOString().slice(0, 10),
+          ...this.cleanValues({
+            revenue: report.revenue || undefined,
+            netIncome: report.netIncome,
+            eps: report.epsBasic,
+          }),
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private cleanValues(values: Record<string, any>): ExtractedValues {
+    const cleaned: Record<string, number> = {};
+    for (const [field, value] of Object.entries(values)) {
+      const number = typeof value === 'string' ? parseFloat(value) : value;
+      if (typeof number === 'number' && Number.isFinite(number)) {
+        cleaned[field] = number;
+      }
+    }
+    return { values: cleaned };
+  }
+}
+
+export default ConsensusBuilder;
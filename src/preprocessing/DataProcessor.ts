@@ -3,7 +3,6 @@
  * Handles normalization, reliability scoring, deduplication, context tagging, and anomaly detection
  */
 
-import OpenAI from 'openai';
 import { createHash } from 'crypto';
 import { 
   ProcessedDataPoint, 
@@ -14,6 +13,10 @@ import {
   NormalizedFinancials,
   NormalizedInsiderTrade,
   NormalizedCongressionalTrade,
+  NormalizedInstitutionalOwnership,
+  NormalizedShortData,
+  NormalizedOnChainData,
+  NormalizedOptionChain,
   DataSource,
   SourceReliability,
   ContextTag,
@@ -25,37 +28,35 @@ import {
   ProcessingOptions,
   ProcessingResult,
   MarketContext,
-  EarningsCalendar,
-  EconomicCalendar,
   SentimentScore,
   ProcessingMetrics,
   CacheMetadata
 } from '../types/data.js';
 import { cacheUtils, getRedisClient, isRedisConnected } from '../config/redis.js';
 import { logHelpers, loggerUtils } from '../config/logger.js';
-import { aiService, ModelRouter } from '../config/openai.js';
-import env from '../config/env.js';
+import { modelRouter } from '../ai/llm/ModelRouter.js';
+import { isLLMTier, parseModelJson } from '../ai/llm/LLMProvider.js';
+import { OptionChainNormalizer } from './OptionChainNormalizer.js';
+import { economicCalendar } from '../market/EconomicCalendar.js';
+import { earningsCalendar } from '../market/EarningsCalendar.js';
+import { exchangeDate } from '../market/BarStore.js';
+import { describeTaint, getTaint, mergeTaints } from '../core/SyntheticData.js';
+
+// Synthetic points never score above this, whatever their source's track record
+const SYNTHETIC_RELIABILITY_CAP = 0.1;
 
 /**
  * Main data preprocessing service
  */
 export class DataProcessor {
-  private openai: OpenAI;
-  private modelRouter: ModelRouter;
   private processingMetrics: Map<string, ProcessingMetrics[]>;
-  private earningsCalendar: Map<string, EarningsCalendar>;
-  private economicCalendar: EconomicCalendar[];
   private reliabilityScores: Map<string, SourceReliability>;
+  private optionChainNormalizer: OptionChainNormalizer;
 
   constructor() {
-    this.openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
-    this.modelRouter = new ModelRouter();
     this.processingMetrics = new Map();
-    this.earningsCalendar = new Map();
-    this.economicCalendar = [];
     this.reliabilityScores = new Map();
-    
-    this.initializeCalendars();
+    this.optionChainNormalizer = new OptionChainNormalizer();
   }
 
   /**
@@ -74,7 +75,7 @@ export class DataProcessor {
       enableDeduplication: true,
       enableAnomalyDetection: true,
       enableContextTagging: true,
-      aiModel: 'gpt-3.5-turbo',
+      aiModel: 'fast',
       cacheTTL: 300,
       reliabilityThreshold: 0.7,
       maxProcessingTime: 30000,
@@ -189,6 +190,11 @@ export class DataProcessor {
       await this.recordMetrics(normalizedData, dataType, symbol, startTime);
 
       result.data!.push(...normalizedData);
+      const taint = mergeTaints(...result.data!.map(point => point.taint));
+      if (taint.length > 0) {
+        result.taint = taint;
+        result.warnings!.push(`Synthetic data among inputs: ${taint.map(describeTaint).join('; ')}`);
+      }
       result.statistics.successfullyProcessed = normalizedData.length;
       result.statistics.processingTime = Date.now() - startTime;
       result.success = true;
@@ -227,8 +233,13 @@ export class DataProcessor {
     try {
       let normalized: NormalizedData;
       const source = this.identifyDataSource(rawData);
+      // Provider plugins may hand over data they normalized themselves
+      const prenormalized = rawData?.type === dataType && rawData.source?.provider;
 
-      switch (dataType) {
+      switch (prenormalized ? 'normalized' : dataType) {
+        case 'normalized':
+          normalized = this.completeNormalized(rawData, symbol);
+          break;
         case 'quote':
           normalized = this.normalizeQuote(rawData, source, symbol);
           break;
@@ -247,15 +258,29 @@ export class DataProcessor {
         case 'congressional':
           normalized = this.normalizeCongressionalTrade(rawData, source, symbol);
           break;
+        case 'institutional':
+          normalized = this.normalizeInstitutional(rawData, source, symbol);
+          break;
+        case 'short':
+          normalized = this.normalizeShortData(rawData, source, symbol);
+          break;
+        case 'onchain':
+          normalized = this.normalizeOnChainData(rawData, source, symbol);
+          break;
+        case 'options':
+          normalized = this.normalizeOptionChain(rawData, symbol);
+          break;
         default:
           throw new Error(`Unsupported data type: ${dataType}`);
       }
 
+      const taint = getTaint(rawData);
       const processedData: ProcessedDataPoint = {
         original: rawData,
         normalized,
         contextTags: [],
         anomalies: [],
+        taint: taint.length > 0 ? taint : undefined,
         processingMetadata: {
           processedAt: Date.now(),
           processingTime: Date.now() - startTime,
@@ -480,6 +505,14 @@ export class DataProcessor {
    * Normalize financial data
    */
   private normalizeFinancials(rawData: any, source: DataSource, symbol?: string): NormalizedFinancials {
+    // SEC statements arrive already normalized; the latest fiscal year stands for the filing set
+    if (Array.isArray(rawData.annual) && Array.isArray(rawData.quarterly)) {
+      const latest = rawData.annual[0] || rawData.ttm;
+      if (latest) {
+        return { ...latest, symbol: symbol || latest.symbol };
+      }
+    }
+
     const isQuarterly = rawData.period === 'quarterly' || rawData.fiscalQuarter;
     
     return {
@@ -542,6 +575,49 @@ export class DataProcessor {
     };
   }
 
+  private completeNormalized(rawData: any, symbol?: string): NormalizedData {
+    const normalized = { ...rawData, symbol: symbol || rawData.symbol || '' };
+    if (normalized.type === 'news' && !normalized.category) {
+      normalized.category = this.categorizeNews(normalized.headline, normalized.summary);
+    }
+    return normalized;
+  }
+
+  private normalizeOptionChain(rawData: any, symbol?: string): NormalizedOptionChain {
+    // DataHub normalizes chains when it fetches them; raw Yahoo/Polygon payloads are priced here
+    if (rawData.type === 'options' && Array.isArray(rawData.expirations)) {
+      return { ...rawData, symbol: symbol || rawData.symbol };
+    }
+    return this.optionChainNormalizer.normalize(symbol || rawData.symbol || rawData.underlyingSymbol || '', rawData);
+  }
+
+  private normalizeInstitutional(rawData: any, source: DataSource, symbol?: string): NormalizedInstitutionalOwnership {
+    // InstitutionalHoldingsService already emits the normalized shape
+    return {
+      ...rawData,
+      symbol: symbol || rawData.symbol || '',
+      source: rawData.source || source,
+    };
+  }
+
+  private normalizeShortData(rawData: any, source: DataSource, symbol?: string): NormalizedShortData {
+    // ShortInterestService already emits the normalized shape
+    return {
+      ...rawData,
+      symbol: symbol || rawData.symbol || '',
+      source: rawData.source || source,
+    };
+  }
+
+  private normalizeOnChainData(rawData: any, source: DataSource, symbol?: string): NormalizedOnChainData {
+    // OnChainNormalizer already emits the normalized shape
+    return {
+      ...rawData,
+      symbol: symbol || rawData.symbol || '',
+      source: rawData.source || source,
+    };
+  }
+
   /**
    * Score source reliability based on multiple factors
    */
@@ -596,7 +672,9 @@ export class DataProcessor {
     
     // Update source reliability in the data
     source.reliability = reliability;
-    normalized.reliability = reliability.score;
+    normalized.reliability = data.taint?.length
+      ? Math.min(reliability.score, SYNTHETIC_RELIABILITY_CAP)
+      : reliability.score;
     
     // Cache the reliability score
     this.reliabilityScores.set(sourceKey, reliability);
@@ -617,6 +695,20 @@ export class DataProcessor {
     const { normalized } = data;
 
     try {
+      // Synthetic values must not be mistaken for observations
+      if (data.taint?.length) {
+        const generated = data.taint.some(taint => taint.reason === 'generated');
+        anomalies.push({
+          type: 'synthetic_data',
+          severity: generated ? 'high' : 'medium',
+          description: `Synthetic data: ${data.taint.map(describeTaint).join('; ')}`,
+          affectedFields: Array.from(new Set(data.taint.flatMap(taint => taint.fields || ['*']))),
+          confidence: 1.0,
+          suggestedAction: generated ? 'exclude' : 'flag_for_review',
+          metadata: { taint: data.taint },
+        });
+      }
+
       // Check for stale data
       const dataAge = Date.now() - normalized.timestamp;
       const maxAge = this.getMaxAge(normalized.type);
@@ -707,27 +799,39 @@ export class DataProcessor {
     const tags: ContextTag[] = [];
 
     // Check for earnings proximity
-    const earningsData = this.earningsCalendar.get(data.symbol);
-    if (earningsData) {
-      const daysToEarnings = (earningsData.reportDate - Date.now()) / (24 * 60 * 60 * 1000);
-      
-      if (daysToEarnings >= 0 && daysToEarnings <= 7) {
-        tags.push({
-          type: 'pre_earnings',
-          value: Math.round(daysToEarnings),
-          confidence: 0.95,
-          source: 'rule_based',
-          metadata: { reportDate: earningsData.reportDate },
-        });
-      } else if (daysToEarnings < 0 && daysToEarnings >= -7) {
-        tags.push({
-          type: 'post_earnings',
-          value: Math.abs(Math.round(daysToEarnings)),
-          confidence: 0.95,
-          source: 'rule_based',
-          metadata: { reportDate: earningsData.reportDate },
-        });
-      }
+    const today = exchangeDate(Date.now());
+    const nextEarnings = earningsCalendar.getNextEarnings(data.symbol, today);
+    const lastEarnings = earningsCalendar.getLastReport(data.symbol, today);
+    const daysToEarnings = earningsCalendar.daysToEarnings(data.symbol, today);
+    const daysSinceEarnings = lastEarnings
+      ? Math.round((Date.parse(today) - Date.parse(lastEarnings.reportDate)) / (24 * 60 * 60 * 1000))
+      : null;
+
+    if (nextEarnings && daysToEarnings !== null && daysToEarnings <= 7) {
+      tags.push({
+        type: 'pre_earnings',
+        value: daysToEarnings,
+        confidence: nextEarnings.status === 'confirmed' ? 0.95 : 0.7,
+        source: 'rule_based',
+        metadata: {
+          reportDate: nextEarnings.reportDate,
+          timing: nextEarnings.timing,
+          status: nextEarnings.status,
+          epsEstimate: nextEarnings.epsEstimate,
+        },
+      });
+    } else if (lastEarnings && daysSinceEarnings !== null && daysSinceEarnings <= 7) {
+      tags.push({
+        type: 'post_earnings',
+        value: daysSinceEarnings,
+        confidence: 0.95,
+        source: 'rule_based',
+        metadata: {
+          reportDate: lastEarnings.reportDate,
+          timing: lastEarnings.timing,
+          epsSurprisePercent: lastEarnings.epsSurprisePercent,
+        },
+      });
     }
 
     // Check for unusual volume (quotes only)
@@ -753,19 +857,41 @@ export class DataProcessor {
   private addCalendarBasedTags(data: NormalizedData): ContextTag[] {
     const tags: ContextTag[] = [];
 
-    // Check for Fed meeting days
-    const today = new Date().toDateString();
-    const fedDays = ['2024-01-31', '2024-03-20', '2024-05-01', '2024-06-12']; // Example dates
-    
-    if (fedDays.some(date => new Date(date).toDateString() === today)) {
+    // Check for Fed decision days
+    const fomc = economicCalendar.getEventsOnDate(exchangeDate(Date.now()), { categories: ['fomc'] })[0];
+    if (fomc) {
       tags.push({
         type: 'fed_day',
         value: true,
         confidence: 1.0,
         source: 'market_calendar',
+        metadata: { scheduledAt: fomc.scheduledAt, actual: fomc.actual, previous: fomc.previous },
       });
     }
 
+    // High-impact releases from the last 12 hours through the next day
+    const now = Date.now();
+    economicCalendar
+      .getEventsInWindow(now - 12 * 60 * 60 * 1000, now + 24 * 60 * 60 * 1000, { minImpact: 'high' })
+      .filter(event => event.category !== 'fomc')
+      .forEach(event => {
+        tags.push({
+          type: 'economic_indicator',
+          value: event.event,
+          confidence: event.sources.includes('schedule') ? 1.0 : 0.9,
+          source: 'market_calendar',
+          metadata: {
+            country: event.country,
+            scheduledAt: event.scheduledAt,
+            actual: event.actual,
+            consensus: event.consensus,
+            previous: event.previous,
+            surprise: event.actual !== null && event.consensus !== null ? event.actual - event.consensus : null,
+            relevantSectors: event.relevantSectors,
+          },
+        });
+      });
+
     // Check for option expiry (third Friday of each month)
     const date = new Date();
     const thirdFriday = this.getThirdFriday(date.getFullYear(), date.getMonth());
@@ -802,8 +928,9 @@ Provide response as JSON with:
 
 Available tag types: earnings, guidance, management, product, regulatory, merger, acquisition, analyst, macro, sector`;
 
-      const response = await this.openai.chat.completions.create({
-        model,
+      const response = await modelRouter.complete({
+        useCase: 'news_tagging',
+        ...(isLLMTier(model) ? { tier: model } : { model }),
         messages: [
           {
             role: 'system',
@@ -814,12 +941,12 @@ Available tag types: earnings, guidance, management, product, regulatory, merger
             content: prompt,
           },
         ],
-        max_tokens: 300,
+        maxTokens: 300,
         temperature: 0.1,
-        response_format: { type: 'json_object' },
+        responseFormat: 'json',
       });
 
-      const analysis = JSON.parse(response.choices[0].message.content);
+      const analysis = parseModelJson(response.content);
 
       // Add sentiment tag
       if (analysis.sentiment) {
@@ -1038,6 +1165,11 @@ Available tag types: earnings, guidance, management, product, regulatory, merger
   // Helper methods...
 
   private identifyDataSource(rawData: any): DataSource {
+    // Normalized data names its provider
+    if (rawData?.source?.provider && rawData.source.reliability) {
+      return rawData.source;
+    }
+
     // Logic to identify the source based on data structure
     if (rawData.c !== undefined && rawData.dp !== undefined) {
       return {
@@ -1228,25 +1360,6 @@ Available tag types: earnings, guidance, management, product, regulatory, merger
     return new Date(year, month, firstFriday.getDate() + 14);
   }
 
-  private async initializeCalendars(): Promise<void> {
-    // Initialize with sample data - in production, this would load from external sources
-    this.earningsCalendar.set('AAPL', {
-      symbol: 'AAPL',
-      reportDate: Date.now() + 7 * 24 * 60 * 60 * 1000, // 7 days from now
-      estimatedEPS: 1.25,
-    });
-
-    this.economicCalendar = [
-      {
-        event: 'Federal Reserve Meeting',
-        date: Date.now() + 14 * 24 * 60 * 60 * 1000, // 14 days from now
-        impact: 'high',
-        currency: 'USD',
-        relevantSectors: ['financial', 'real_estate'],
-      },
-    ];
-  }
-
   /**
    * Get processing statistics
    */
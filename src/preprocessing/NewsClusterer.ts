@@ -0,0 +1,246 @@
+/**
+ * Near-duplicate news clustering
+ * Word shingles are MinHashed and bucketed with locality-sensitive hashing, so a wire
+ * story syndicated across sites collapses into one cluster with a canonical article.
+ * Headlines with summaries and full bodies are compared separately, since a copy whose
+ * body could not be fetched would otherwise never match one whose body was.
+ */
+
+import { createHash } from 'crypto';
+
+export interface ClusterDocument {
+  text: string; // Headline and summary
+  body?: string; // Extracted article text, when fetched
+  url?: string;
+  source?: string;
+  credibility?: number; // 0-1, preferred when choosing the canonical article
+  publishedAt?: number; // Unix ms; the original usually comes first
+}
+
+export interface NewsCluster<T> {
+  id: string;
+  canonical: T;
+  members: T[]; // Canonical first
+  size: number;
+  sources: string[];
+  similarity: number; // Lowest estimated Jaccard similarity to the canonical article
+}
+
+export interface NewsClustererConfig {
+  shingleSize: number; // Words per shingle
+  numHashes: number; // MinHash signature length; must be a multiple of bands
+  bands: number; // LSH bands; more bands find lower-similarity pairs
+  threshold: number; // Estimated Jaccard similarity needed to join a cluster
+}
+
+// FNV-1a over the UTF-16 code units
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// MurmurHash3 finalizer, used to derive independent hash functions from one shingle hash
+const mix32 = (value: number): number => {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'to', 'was', 'were', 'will', 'with',
+]);
+
+export class NewsClusterer {
+  private config: NewsClustererConfig;
+  private seeds: number[];
+
+  constructor(config: Partial<NewsClustererConfig> = {}) {
+    this.config = {
+      shingleSize: 3,
+      numHashes: 128,
+      bands: 32,
+      threshold: 0.5,
+      ...config,
+    };
+
+    if (this.config.numHashes % this.config.bands !== 0) {
+      throw new Error(`numHashes (${this.config.numHashes}) must be a multiple of bands (${this.config.bands})`);
+    }
+
+    this.seeds = Array.from({ length: this.config.numHashes }, (_, i) => mix32(i + 1) ^ 0x9e3779b9);
+  }
+
+  /**
+   * Group near-duplicate items. Clusters come back in input order of their earliest member.
+   */
+  cluster<T>(items: T[], toDocument: (item: T) => ClusterDocument): NewsCluster<T>[] {
+    const documents = items.map(toDocument);
+    const signatures = documents.map(document => this.signature(document.text));
+    const bodySignatures = documents.map(document => document.body ? this.signature(document.body) : null);
+    const parent = items.map((_, index) => index);
+
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+    const union = (a: number, b: number): void => {
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA !== rootB) parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+    };
+
+    // The same article reached through different feeds
+    const byUrl = new Map<string, number>();
+    documents.forEach((document, index) => {
+      const url = this.normalizeUrl(document.url);
+      if (!url) return;
+      if (byUrl.has(url)) union(byUrl.get(url)!, index);
+      else byUrl.set(url, index);
+    });
+
+    // Candidate pairs share at least one LSH band; verify each against the threshold
+    const rows = this.config.numHashes / this.config.bands;
+    for (const view of [signatures, bodySignatures]) {
+      for (let band = 0; band < this.config.bands; band++) {
+        const buckets = new Map<string, number[]>();
+        view.forEach((signature, index) => {
+          if (!signature) return;
+          const key = signature.slice(band * rows, (band + 1) * rows).join(',');
+          const bucket = buckets.get(key);
+          if (bucket) bucket.push(index);
+          else buckets.set(key, [index]);
+        });
+
+        for (const bucket of buckets.values()) {
+          for (let i = 1; i < bucket.length; i++) {
+            for (let j = 0; j < i; j++) {
+              if (find(bucket[i]) === find(bucket[j])) continue;
+              if (this.similarity(view[bucket[i]]!, view[bucket[j]]!) >= this.config.threshold) {
+                union(bucket[i], bucket[j]);
+              }
+            }
+          }
+        }
+      }
+    }
+
+    const groups = new Map<number, number[]>();
+    items.forEach((_, index) => {
+      const root = find(index);
+      if (!groups.has(root)) groups.set(root, []);
+      groups.get(root)!.push(index);
+    });
+
+    return Array.from(groups.values()).map(indices => {
+      const ordered = [...indices].sort((a, b) => this.compareCanonical(documents[a], documents[b]) || a - b);
+      const canonical = ordered[0];
+      const similarities = ordered.slice(1).map(index => {
+        const lead = signatures[index] && signatures[canonical]
+          ? this.similarity(signatures[index]!, signatures[canonical]!)
+          : 0;
+        const body = bodySignatures[index] && bodySignatures[canonical]
+          ? this.similarity(bodySignatures[index]!, bodySignatures[canonical]!)
+          : 0;
+        return Math.max(lead, body);
+      });
+
+      return {
+        id: this.clusterId(documents[canonical], canonical),
+        canonical: items[canonical],
+        members: ordered.map(index => items[index]),
+        size: ordered.length,
+        sources: Array.from(new Set(ordered.map(index => documents[index].source).filter(Boolean))) as string[],
+        similarity: similarities.length > 0 ? Math.min(...similarities) : 1,
+      };
+    });
+  }
+
+  /**
+   * MinHash signature of a text's word shingles, or null when it has no words
+   */
+  signature(text: string): number[] | null {
+    const shingles = this.shingles(text);
+    if (shingles.size === 0) return null;
+
+    const signature = new Array<number>(this.config.numHashes).fill(0xffffffff);
+    for (const shingle of shingles) {
+      const hash = fnv1a(shingle);
+      for (let i = 0; i < this.config.numHashes; i++) {
+        const value = mix32(hash ^ this.seeds[i]);
+        if (value < signature[i]) signature[i] = value;
+      }
+    }
+    return signature;
+  }
+
+  /**
+   * Estimated Jaccard similarity of two signatures
+   */
+  similarity(a: number[], b: number[]): number {
+    let matches = 0;
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] === b[i]) matches++;
+    }
+    return matches / a.length;
+  }
+
+  private shingles(text: string): Set<string> {
+    const words = (text || '')
+      .toLowerCase()
+      .replace(/[^a-z0-9$%.\s]/g, ' ')
+      .split(/\s+/)
+      .map(word => word.replace(/^\.+|\.+$/g, ''))
+      .filter(word => word && !STOP_WORDS.has(word));
+
+    const shingles = new Set<string>();
+    if (words.length < this.config.shingleSize) {
+      if (words.length > 0) shingles.add(words.join(' '));
+      return shingles;
+    }
+
+    for (let i = 0; i + this.config.shingleSize <= words.length; i++) {
+      shingles.add(words.slice(i, i + this.config.shingleSize).join(' '));
+    }
+    return shingles;
+  }
+
+  /**
+   * Most credible source first, then the fuller text, then the earliest publication
+   */
+  private compareCanonical(a: ClusterDocument, b: ClusterDocument): number {
+    const credibility = (b.credibility ?? 0.5) - (a.credibility ?? 0.5);
+    if (Math.abs(credibility) > 0.01) return credibility;
+
+    const length = (b.body || b.text).length - (a.body || a.text).length;
+    if (Math.abs(length) > 200) return length;
+
+    return (a.publishedAt ?? Infinity) - (b.publishedAt ?? Infinity);
+  }
+
+  private clusterId(document: ClusterDocument, index: number): string {
+    const basis = this.normalizeUrl(document.url) || document.text.slice(0, 200) || String(index);
+    return createHash('md5').update(basis).digest('hex').slice(0, 12);
+  }
+
+  private normalizeUrl(url?: string): string | null {
+    if (!url) return null;
+    try {
+      const parsed = new URL(url);
+      return `${parsed.hostname.replace(/^www\./, '')}${parsed.pathname.replace(/\/+$/, '')}`.toLowerCase();
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * On-chain wallet normalizer
+ * Turns Quiver's tracked crypto wallet balances into a daily balance history per asset,
+ * with net flows over 7 and 30 days and the largest wallets, so accumulation by large
+ * holders can sit alongside price and sentiment.
+ */
+
+import {
+  DataSource,
+  NormalizedOnChainData,
+  TrackedWallet,
+  WalletBalancePoint,
+} from '../types/data.js';
+
+export interface OnChainNormalizerConfig {
+  topWallets: number;
+  accumulationThreshold: number; // 30-day flow, as a fraction of the balance, that counts as a trend
+}
+
+interface WalletRow {
+  date: string;
+  address: string;
+  label: string | null;
+  balance: number;
+}
+
+const DAY_MS = 86400000;
+
+// Quiver field names vary between endpoints; take the first one present
+const pick = (row: any, ...keys: string[]): any => {
+  for (const key of keys) {
+    if (row?.[key] !== undefined && row[key] !== null && row[key] !== '') return row[key];
+  }
+  return undefined;
+};
+
+export class OnChainNormalizer {
+  private config: OnChainNormalizerConfig;
+
+  constructor(config: Partial<OnChainNormalizerConfig> = {}) {
+    this.config = {
+      topWallets: 10,
+      accumulationThreshold: 0.01,
+      ...config,
+    };
+  }
+
+  /**
+   * Normalize wallet rows for one asset, throwing when none are usable
+   */
+  normalize(symbol: string, payload: any, asset: string = symbol): NormalizedOnChainData {
+    const rows = this.parseRows(payload, asset);
+    if (rows.length === 0) {
+      throw new Error(`No crypto wallet data for ${asset}`);
+    }
+
+    // Wallets report on different days, so each day carries every wallet's last known balance forward
+    const sorted = [...rows].sort((a, b) => a.date.localeCompare(b.date));
+    const dates = Array.from(new Set(sorted.map(row => row.date)));
+    const current = new Map<string, WalletRow>();
+    const byDate = new Map<string, Map<string, WalletRow>>();
+    let cursor = 0;
+
+    const balanceHistory: WalletBalancePoint[] = dates.map(date => {
+      while (cursor < sorted.length && sorted[cursor].date <= date) {
+        current.set(sorted[cursor].address, sorted[cursor]);
+        cursor++;
+      }
+      byDate.set(date, new Map(current));
+      return {
+        date,
+        wallets: current.size,
+        totalBalance: Array.from(current.values()).reduce((sum, wallet) => sum + wallet.balance, 0),
+      };
+    });
+
+    const latest = balanceHistory[balanceHistory.length - 1];
+    const balanceOn = (daysBack: number): WalletBalancePoint | null => {
+      const cutoff = new Date(Date.parse(`${latest.date}T00:00:00Z`) - daysBack * DAY_MS).toISOString().slice(0, 10);
+      const earlier = balanceHistory.filter(point => point.date <= cutoff);
+      return earlier.length > 0 ? earlier[earlier.length - 1] : null;
+    };
+
+    // Flows only compare wallets tracked at both ends, so newly tracked wallets are not read as inflows
+    const latestWallets = byDate.get(latest.date)!;
+    const flowSince = (point: WalletBalancePoint | null): { flow: number; base: number } | null => {
+      if (!point) return null;
+      const earlier = byDate.get(point.date)!;
+      let flow = 0;
+      let base = 0;
+      latestWallets.forEach((wallet, address) => {
+        const previous = earlier.get(address);
+        if (!previous) return;
+        flow += wallet.balance - previous.balance;
+        base += previous.balance;
+      });
+      return { flow, base };
+    };
+
+    const week = flowSince(balanceOn(7));
+    const month = flowSince(balanceOn(30));
+    const netFlow7d = week ? week.flow : null;
+    const netFlow30d = month ? month.flow : null;
+    const netFlow30dPercent = month && month.base > 0 ? month.flow / month.base : null;
+
+    let accumulation: NormalizedOnChainData['accumulation'] = 'neutral';
+    if (netFlow30dPercent !== null && netFlow30dPercent >= this.config.accumulationThreshold) accumulation = 'accumulating';
+    else if (netFlow30dPercent !== null && netFlow30dPercent <= -this.config.accumulationThreshold) accumulation = 'distributing';
+
+    const monthPoint = balanceOn(30);
+    const monthWallets = monthPoint ? byDate.get(monthPoint.date)! : null;
+    const topWallets: TrackedWallet[] = Array.from(latestWallets.values())
+      .sort((a, b) => b.balance - a.balance)
+      .slice(0, this.config.topWallets)
+      .map(wallet => {
+        const previous = monthWallets?.get(wallet.address);
+        return {
+          address: wallet.address,
+          label: wallet.label,
+          balance: wallet.balance,
+          change30d: previous ? wallet.balance - previous.balance : null,
+        };
+      });
+
+    return {
+      type: 'onchain',
+      symbol,
+      timestamp: Date.now(),
+      source: this.source(),
+      reliability: 0.7,
+      assetClass: 'crypto',
+      asset,
+      asOf: latest.date,
+      trackedWallets: latest.wallets,
+      totalBalance: latest.totalBalance,
+      netFlow7d,
+      netFlow30d,
+      netFlow30dPercent,
+      accumulation,
+      topWallets,
+      balanceHistory,
+    };
+  }
+
+  private parseRows(payload: any, asset: string): WalletRow[] {
+    const rows = Array.isArray(payload) ? payload : payload?.data || [];
+    const ticker = asset.toUpperCase();
+
+    return rows
+      .map((row: any): WalletRow | null => {
+        const rowTicker = String(pick(row, 'Ticker', 'ticker', 'Coin', 'coin') || ticker).toUpperCase();
+        const rawDate = pick(row, 'Date', 'date', 'Time', 'time');
+        const time = typeof rawDate === 'number' ? (rawDate < 1e12 ? rawDate * 1000 : rawDate) : Date.parse(rawDate);
+        const balance = Number(pick(row, 'Balance', 'balance', 'Amount', 'amount', 'Holdings'));
+        const address = pick(row, 'Wallet', 'wallet', 'Address', 'address');
+
+        if (rowTicker !== ticker || !Number.isFinite(time) || !Number.isFinite(balance) || !address) return null;
+        return {
+          date: new Date(time).toISOString().slice(0, 10),
+          address: String(address),
+          label: pick(row, 'Label', 'label', 'Name', 'name', 'Owner') ?? null,
+          balance,
+        };
+      })
+      .filter(Boolean) as WalletRow[];
+  }
+
+  private source(): DataSource {
+    return {
+      provider: 'quiver',
+      endpoint: 'cryptowallets',
+      tier: 'paid',
+      reliability: {
+        score: 0.7,
+        factors: { freshness: 0.6, consistency: 0.8, coverage: 0.6, latency: 0.8 },
+        lastUpdated: Date.now(),
+        dataQuality: 'medium',
+      },
+    };
+  }
+}
+
+export default OnChainNormalizer;
@@ -0,0 +1,458 @@
+/**
+ * Option chain normalizer
+ * Turns Yahoo and Polygon option chains into a single shape, computing implied volatility
+ * and Greeks locally (Black-Scholes-Merton) and summarizing each expiry's smile, flows,
+ * max pain and straddle-implied move.
+ */
+
+import {
+  DataSource,
+  NormalizedOptionChain,
+  NormalizedOptionContract,
+  OptionExpirySlice,
+  OptionGreeks,
+  OptionImpliedMove,
+  OptionSmilePoint,
+} from '../types/data.js';
+import env from '../config/env.js';
+
+type OptionType = 'call' | 'put';
+
+export interface OptionChainNormalizerConfig {
+  riskFreeRate: number;
+}
+
+export interface OptionChainContext {
+  underlyingPrice?: number; // Required when the provider payload carries no underlying price
+  dividendYield?: number;
+  now?: number;
+}
+
+interface RawContract {
+  contractSymbol: string;
+  optionType: OptionType;
+  strike: number;
+  expiration: string;
+  bid: number | null;
+  ask: number | null;
+  lastPrice: number | null;
+  volume: number;
+  openInterest: number;
+  providerIv: number | null;
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_TIME_TO_EXPIRY = 1 / (365 * 24); // One hour, keeps expiry-day math finite
+const MIN_VOLATILITY = 0.001;
+const MAX_VOLATILITY = 5;
+const MIN_PROVIDER_IV = 0.01; // Yahoo reports ~0 IV for contracts without quotes
+const SKEW_DELTA = 0.25;
+
+// Abramowitz-Stegun 26.2.17, accurate to ~7.5e-8
+const normCdf = (x: number): number => {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = normPdf(x) * poly;
+  return x >= 0 ? 1 - tail : tail;
+};
+
+const normPdf = (x: number): number => Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+
+const d1d2 = (spot: number, strike: number, time: number, rate: number, dividendYield: number, volatility: number) => {
+  const d1 = (Math.log(spot / strike) + (rate - dividendYield + 0.5 * volatility * volatility) * time) /
+    (volatility * Math.sqrt(time));
+  return { d1, d2: d1 - volatility * Math.sqrt(time) };
+};
+
+/**
+ * Black-Scholes-Merton price of a European option with a continuous dividend yield
+ */
+export function blackScholesPrice(
+  optionType: OptionType,
+  spot: number,
+  strike: number,
+  time: number,
+  rate: number,
+  dividendYield: number,
+  volatility: number
+): number {
+  const { d1, d2 } = d1d2(spot, strike, time, rate, dividendYield, volatility);
+  const discountedSpot = spot * Math.exp(-dividendYield * time);
+  const discountedStrike = strike * Math.exp(-rate * time);
+
+  return optionType === 'call'
+    ? discountedSpot * normCdf(d1) - discountedStrike * normCdf(d2)
+    : discountedStrike * normCdf(-d2) - discountedSpot * normCdf(-d1);
+}
+
+/**
+ * Black-Scholes-Merton Greeks; theta per calendar day, vega and rho per one point
+ */
+export function blackScholesGreeks(
+  optionType: OptionType,
+  spot: number,
+  strike: number,
+  time: number,
+  rate: number,
+  dividendYield: number,
+  volatility: number
+): OptionGreeks {
+  const { d1, d2 } = d1d2(spot, strike, time, rate, dividendYield, volatility);
+  const spotDiscount = Math.exp(-dividendYield * time);
+  const strikeDiscount = Math.exp(-rate * time);
+  const density = normPdf(d1);
+  const decay = -(spot * spotDiscount * density * volatility) / (2 * Math.sqrt(time));
+
+  const delta = optionType === 'call' ? spotDiscount * normCdf(d1) : -spotDiscount * normCdf(-d1);
+  const theta = optionType === 'call'
+    ? decay - rate * strike * strikeDiscount * normCdf(d2) + dividendYield * spot * spotDiscount * normCdf(d1)
+    : decay + rate * strike * strikeDiscount * normCdf(-d2) - dividendYield * spot * spotDiscount * normCdf(-d1);
+  const rho = optionType === 'call'
+    ? strike * time * strikeDiscount * normCdf(d2)
+    : -strike * time * strikeDiscount * normCdf(-d2);
+
+  return {
+    delta,
+    gamma: (spotDiscount * density) / (spot * volatility * Math.sqrt(time)),
+    theta: theta / 365,
+    vega: (spot * spotDiscount * density * Math.sqrt(time)) / 100,
+    rho: rho / 100,
+  };
+}
+
+/**
+ * Volatility that reproduces an option price; null when the price sits outside
+ * the no-arbitrage bounds (at or below intrinsic value, or above the upper bound)
+ */
+export function impliedVolatility(
+  optionType: OptionType,
+  price: number,
+  spot: number,
+  strike: number,
+  time: number,
+  rate: number,
+  dividendYield: number
+): number | null {
+  const discountedSpot = spot * Math.exp(-dividendYield * time);
+  const discountedStrike = strike * Math.exp(-rate * time);
+  const lower = optionType === 'call'
+    ? Math.max(0, discountedSpot - discountedStrike)
+    : Math.max(0, discountedStrike - discountedSpot);
+  const upper = optionType === 'call' ? discountedSpot : discountedStrike;
+  if (!(price > lower) || price >= upper) return null;
+
+  // Newton-Raphson from a moderate guess, falling back to bisection where vega vanishes
+  let volatility = 0.3;
+  for (let i = 0; i < 50; i++) {
+    const diff = blackScholesPrice(optionType, spot, strike, time, rate, dividendYield, volatility) - price;
+    if (Math.abs(diff) < 1e-6) return volatility;
+    const vega = blackScholesGreeks(optionType, spot, strike, time, rate, dividendYield, volatility).vega * 100;
+    if (vega < 1e-8) break;
+    const next = volatility - diff / vega;
+    if (!(next > MIN_VOLATILITY && next < MAX_VOLATILITY)) break;
+    volatility = next;
+  }
+
+  let low = MIN_VOLATILITY;
+  let high = MAX_VOLATILITY;
+  if (blackScholesPrice(optionType, spot, strike, time, rate, dividendYield, high) < price) return null;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    const diff = blackScholesPrice(optionType, spot, strike, time, rate, dividendYield, mid) - price;
+    if (Math.abs(diff) < 1e-6) return mid;
+    if (diff > 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Straddle-implied move through the first expiry on or after a date (default: the
+ * front expiry with at least a day left), e.g. the move priced in for an earnings date
+ */
+export function getImpliedMove(chain: NormalizedOptionChain, onOrAfter?: string | Date): OptionImpliedMove | null {
+  const from = onOrAfter
+    ? (typeof onOrAfter === 'string' ? onOrAfter : onOrAfter.toISOString()).slice(0, 10)
+    : null;
+
+  const slice = chain.expirations.find(candidate =>
+    candidate.expectedMove !== null &&
+    (from ? candidate.expiration >= from : candidate.daysToExpiry >= 1)
+  );
+  if (!slice) return null;
+
+  return {
+    expiration: slice.expiration,
+    daysToExpiry: slice.daysToExpiry,
+    move: slice.expectedMove!,
+    movePercent: slice.expectedMovePercent!,
+  };
+}
+
+export class OptionChainNormalizer {
+  private config: OptionChainNormalizerConfig;
+
+  constructor(config: Partial<OptionChainNormalizerConfig> = {}) {
+    this.config = {
+      riskFreeRate: env.OPTIONS_RISK_FREE_RATE ?? 0.045,
+      ...config,
+    };
+  }
+
+  /**
+   * Normalize a Yahoo (getOptions) or Polygon (getOptionChainSnapshot) chain
+   */
+  normalize(symbol: string, rawChain: any, context: OptionChainContext = {}): NormalizedOptionChain {
+    const now = context.now ?? Date.now();
+    const isPolygon = Array.isArray(rawChain?.results);
+    const underlyingPrice = context.underlyingPrice ??
+      (isPolygon ? this.extractPolygonUnderlying(rawChain) : this.number(rawChain?.quote?.regularMarketPrice));
+    if (!underlyingPrice || underlyingPrice <= 0) {
+      throw new Error(`No underlying price for ${symbol} option chain`);
+    }
+
+    const dividendYield = context.dividendYield ??
+      (isPolygon ? 0 : this.number(rawChain?.quote?.trailingAnnualDividendYield) || 0);
+    const rate = this.config.riskFreeRate;
+
+    const contracts = (isPolygon ? this.extractPolygonContracts(rawChain) : this.extractYahooContracts(rawChain))
+      .map(raw => this.priceContract(raw, underlyingPrice, rate, dividendYield, now))
+      .filter((contract): contract is NormalizedOptionContract => contract !== null)
+      .sort((a, b) => a.expiration.localeCompare(b.expiration) || a.strike - b.strike ||
+        a.optionType.localeCompare(b.optionType));
+
+    const byExpiry = new Map<string, NormalizedOptionContract[]>();
+    for (const contract of contracts) {
+      const group = byExpiry.get(contract.expiration) || [];
+      group.push(contract);
+      byExpiry.set(contract.expiration, group);
+    }
+
+    const expirations = Array.from(byExpiry.entries())
+      .map(([expiration, group]) => this.buildSlice(expiration, group, underlyingPrice, rate, dividendYield));
+
+    const callVolume = expirations.reduce((sum, slice) => sum + slice.callVolume, 0);
+    const putVolume = expirations.reduce((sum, slice) => sum + slice.putVolume, 0);
+    const callOpenInterest = expirations.reduce((sum, slice) => sum + slice.callOpenInterest, 0);
+    const putOpenInterest = expirations.reduce((sum, slice) => sum + slice.putOpenInterest, 0);
+
+    const chain: NormalizedOptionChain = {
+      type: 'options',
+      symbol: symbol.toUpperCase(),
+      timestamp: now,
+      source: this.createDataSource(isPolygon),
+      reliability: isPolygon ? 0.9 : 0.75,
+      underlyingPrice,
+      riskFreeRate: rate,
+      dividendYield,
+      expirations,
+      termStructure: expirations.map(slice => ({
+        expiration: slice.expiration,
+        daysToExpiry: slice.daysToExpiry,
+        atmIv: slice.atmIv,
+      })),
+      putCallVolumeRatio: callVolume > 0 ? putVolume / callVolume : null,
+      putCallOpenInterestRatio: callOpenInterest > 0 ? putOpenInterest / callOpenInterest : null,
+      maxPain: expirations[0]?.maxPain ?? null,
+      expectedMove: null,
+      contracts,
+    };
+    chain.expectedMove = getImpliedMove(chain);
+
+    return chain;
+  }
+
+  private priceContract(
+    raw: RawContract,
+    spot: number,
+    rate: number,
+    dividendYield: number,
+    now: number
+  ): NormalizedOptionContract | null {
+    if (!raw.expiration || !(raw.strike > 0)) return null;
+
+    // Equity options stop trading at the 4pm ET close; 20:00 UTC ignores the DST hour
+    const remaining = Date.parse(`${raw.expiration}T20:00:00Z`) - now;
+    if (remaining <= 0) return null;
+    const time = Math.max(remaining / YEAR_MS, MIN_TIME_TO_EXPIRY);
+
+    const quoted = raw.bid !== null && raw.ask !== null && raw.bid > 0 && raw.ask >= raw.bid;
+    const mid = quoted ? (raw.bid! + raw.ask!) / 2 : null;
+    const price = mid ?? (raw.lastPrice && raw.lastPrice > 0 ? raw.lastPrice : null);
+
+    let iv = price !== null ? impliedVolatility(raw.optionType, price, spot, raw.strike, time, rate, dividendYield) : null;
+    let ivSource: NormalizedOptionContract['ivSource'] = iv !== null ? 'computed' : null;
+    if (iv === null && raw.providerIv !== null && raw.providerIv >= MIN_PROVIDER_IV) {
+      iv = raw.providerIv;
+      ivSource = 'provider';
+    }
+
+    return {
+      contractSymbol: raw.contractSymbol,
+      optionType: raw.optionType,
+      strike: raw.strike,
+      expiration: raw.expiration,
+      daysToExpiry: Math.round((remaining / DAY_MS) * 100) / 100,
+      bid: raw.bid,
+      ask: raw.ask,
+      mid,
+      lastPrice: raw.lastPrice,
+      volume: raw.volume,
+      openInterest: raw.openInterest,
+      impliedVolatility: iv,
+      ivSource,
+      greeks: iv !== null ? blackScholesGreeks(raw.optionType, spot, raw.strike, time, rate, dividendYield, iv) : null,
+      inTheMoney: raw.optionType === 'call' ? raw.strike < spot : raw.strike > spot,
+    };
+  }
+
+  private buildSlice(
+    expiration: string,
+    contracts: NormalizedOptionContract[],
+    spot: number,
+    rate: number,
+    dividendYield: number
+  ): OptionExpirySlice {
+    const calls = new Map(contracts.filter(c => c.optionType === 'call').map(c => [c.strike, c]));
+    const puts = new Map(contracts.filter(c => c.optionType === 'put').map(c => [c.strike, c]));
+    const strikes = Array.from(new Set(contracts.map(c => c.strike))).sort((a, b) => a - b);
+    const nearest = (candidates: number[]) =>
+      candidates.reduce((best, strike) => Math.abs(strike - spot) < Math.abs(best - spot) ? strike : best, candidates[0]);
+
+    const paired = strikes.filter(strike => calls.has(strike) && puts.has(strike));
+    const atmStrike = nearest(paired.length > 0 ? paired : strikes);
+    const atmIvs = [calls.get(atmStrike)?.impliedVolatility, puts.get(atmStrike)?.impliedVolatility]
+      .filter((iv): iv is number => iv !== null && iv !== undefined);
+    const atmIv = atmIvs.length > 0 ? atmIvs.reduce((sum, iv) => sum + iv, 0) / atmIvs.length : null;
+
+    const smile: OptionSmilePoint[] = strikes.map(strike => {
+      const callIv = calls.get(strike)?.impliedVolatility ?? null;
+      const putIv = puts.get(strike)?.impliedVolatility ?? null;
+      // Out-of-the-money quotes are the liquid side of each strike
+      const iv = strike >= spot ? callIv ?? putIv : putIv ?? callIv;
+      return { strike, moneyness: strike / spot, callIv, putIv, iv };
+    });
+
+    const closestDelta = (side: NormalizedOptionContract[], target: number) =>
+      side
+        .filter(c => c.greeks !== null)
+        .sort((a, b) => Math.abs(a.greeks!.delta - target) - Math.abs(b.greeks!.delta - target))[0];
+    const skewPut = closestDelta(Array.from(puts.values()), -SKEW_DELTA);
+    const skewCall = closestDelta(Array.from(calls.values()), SKEW_DELTA);
+
+    const sum = (side: Map<number, NormalizedOptionContract>, field: 'volume' | 'openInterest') =>
+      Array.from(side.values()).reduce((total, c) => total + c[field], 0);
+
+    const daysToExpiry = contracts[0].daysToExpiry;
+    const straddle = (calls.get(atmStrike)?.mid ?? null) !== null && (puts.get(atmStrike)?.mid ?? null) !== null
+      ? calls.get(atmStrike)!.mid! + puts.get(atmStrike)!.mid!
+      : null;
+    const expectedMove = straddle ??
+      (atmIv !== null ? spot * atmIv * Math.sqrt(Math.max(daysToExpiry / 365, MIN_TIME_TO_EXPIRY)) : null);
+
+    return {
+      expiration,
+      daysToExpiry,
+      atmStrike,
+      atmIv,
+      skew: skewPut && skewCall ? skewPut.impliedVolatility! - skewCall.impliedVolatility! : null,
+      callVolume: sum(calls, 'volume'),
+      putVolume: sum(puts, 'volume'),
+      callOpenInterest: sum(calls, 'openInterest'),
+      putOpenInterest: sum(puts, 'openInterest'),
+      maxPain: this.calculateMaxPain(strikes, calls, puts),
+      expectedMove,
+      expectedMovePercent: expectedMove !== null ? expectedMove / spot : null,
+      smile,
+    };
+  }
+
+  /**
+   * Settlement price at which open contracts pay holders the least
+   */
+  private calculateMaxPain(
+    strikes: number[],
+    calls: Map<number, NormalizedOptionContract>,
+    puts: Map<number, NormalizedOptionContract>
+  ): number | null {
+    let best: { strike: number; payout: number } | null = null;
+
+    for (const settlement of strikes) {
+      let payout = 0;
+      for (const call of calls.values()) payout += call.openInterest * Math.max(0, settlement - call.strike);
+      for (const put of puts.values()) payout += put.openInterest * Math.max(0, put.strike - settlement);
+      if (!best || payout < best.payout) best = { strike: settlement, payout };
+    }
+
+    const hasOpenInterest = [...calls.values(), ...puts.values()].some(c => c.openInterest > 0);
+    return hasOpenInterest && best ? best.strike : null;
+  }
+
+  private extractYahooContracts(rawChain: any): RawContract[] {
+    const contracts: RawContract[] = [];
+
+    for (const option of rawChain?.options || []) {
+      const expiration = new Date((option.expirationDate || 0) * 1000).toISOString().slice(0, 10);
+      for (const [optionType, list] of [['call', option.calls], ['put', option.puts]] as Array<[OptionType, any[]]>) {
+        for (const contract of list || []) {
+          contracts.push({
+            contractSymbol: contract.contractSymbol || '',
+            optionType,
+            strike: this.number(contract.strike) || 0,
+            expiration,
+            bid: this.number(contract.bid),
+            ask: this.number(contract.ask),
+            lastPrice: this.number(contract.lastPrice),
+            volume: this.number(contract.volume) || 0,
+            openInterest: this.number(contract.openInterest) || 0,
+            providerIv: this.number(contract.impliedVolatility),
+          });
+        }
+      }
+    }
+
+    return contracts;
+  }
+
+  private extractPolygonContracts(rawChain: any): RawContract[] {
+    return rawChain.results
+      .filter((result: any) => result?.details?.contract_type === 'call' || result?.details?.contract_type === 'put')
+      .map((result: any): RawContract => ({
+        contractSymbol: result.details.ticker || '',
+        optionType: result.details.contract_type,
+        strike: this.number(result.details.strike_price) || 0,
+        expiration: result.details.expiration_date || '',
+        bid: this.number(result.last_quote?.bid),
+        ask: this.number(result.last_quote?.ask),
+        lastPrice: this.number(result.last_trade?.price ?? result.day?.close),
+        volume: this.number(result.day?.volume) || 0,
+        openInterest: this.number(result.open_interest) || 0,
+        providerIv: this.number(result.implied_volatility),
+      }));
+  }
+
+  private extractPolygonUnderlying(rawChain: any): number | null {
+    const withPrice = rawChain.results.find((result: any) => this.number(result?.underlying_asset?.price));
+    return withPrice ? this.number(withPrice.underlying_asset.price) : null;
+  }
+
+  private number(value: any): number | null {
+    const parsed = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : null;
+  }
+
+  private createDataSource(isPolygon: boolean): DataSource {
+    return {
+      provider: isPolygon ? 'polygon' : 'yahoo',
+      endpoint: isPolygon ? 'options_snapshot' : 'options',
+      tier: isPolygon ? 'paid' : 'free',
+      reliability: {
+        score: isPolygon ? 0.9 : 0.75,
+        factors: { freshness: 0.85, consistency: 0.8, coverage: isPolygon ? 0.9 : 0.7, latency: 0.8 },
+        lastUpdated: Date.now(),
+        dataQuality: isPolygon ? 'high' : 'medium',
+      },
+    };
+  }
+}
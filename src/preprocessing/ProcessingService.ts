@@ -101,7 +101,7 @@ export class ProcessingService {
       enableDeduplication: true,
       enableAnomalyDetection: true,
       enableContextTagging: true,
-      aiModel: 'gpt-3.5-turbo',
+      aiModel: 'fast',
       cacheTTL: 1800, // 30 minutes for news
     };
 
@@ -239,6 +239,114 @@ export class ProcessingService {
     );
   }
 
+  /**
+   * Process option chains
+   */
+  async processOptionChains(
+    rawChains: any[], 
+    symbol?: string,
+    options?: Partial<ProcessingOptions>
+  ): Promise<ProcessingResult> {
+    this.ensureInitialized();
+
+    const defaultOptions: Partial<ProcessingOptions> = {
+      enableAI: false,
+      enableCaching: true,
+      enableDeduplication: false,
+      enableAnomalyDetection: false,
+      enableContextTagging: true,
+      cacheTTL: 300, // 5 minutes, quotes move with the underlying
+    };
+
+    return await this.processor.processData(
+      rawChains, 
+      'options', 
+      symbol, 
+      { ...defaultOptions, ...options }
+    );
+  }
+
+  /**
+   * Process 13F institutional ownership summaries
+   */
+  async processInstitutional(
+    rawOwnership: any[], 
+    symbol?: string,
+    options?: Partial<ProcessingOptions>
+  ): Promise<ProcessingResult> {
+    this.ensureInitialized();
+
+    const defaultOptions: Partial<ProcessingOptions> = {
+      enableAI: false,
+      enableCaching: true,
+      enableDeduplication: false,
+      enableAnomalyDetection: false,
+      enableContextTagging: true,
+      cacheTTL: 86400, // 24 hours, 13F data changes quarterly
+    };
+
+    return await this.processor.processData(
+      rawOwnership, 
+      'institutional', 
+      symbol, 
+      { ...defaultOptions, ...options }
+    );
+  }
+
+  /**
+   * Process short interest, FTD and squeeze risk summaries
+   */
+  async processShortData(
+    rawShortData: any[], 
+    symbol?: string,
+    options?: Partial<ProcessingOptions>
+  ): Promise<ProcessingResult> {
+    this.ensureInitialized();
+
+    const defaultOptions: Partial<ProcessingOptions> = {
+      enableAI: false,
+      enableCaching: true,
+      enableDeduplication: false,
+      enableAnomalyDetection: false,
+      enableContextTagging: true,
+      cacheTTL: 43200, // 12 hours, short interest settles twice a month
+    };
+
+    return await this.processor.processData(
+      rawShortData, 
+      'short', 
+      symbol, 
+      { ...defaultOptions, ...options }
+    );
+  }
+
+  /**
+   * Process tracked crypto wallet balances and flows
+   */
+  async processOnChainData(
+    rawOnChainData: any[], 
+    symbol?: string,
+    options?: Partial<ProcessingOptions>
+  ): Promise<ProcessingResult> {
+    this.ensureInitialized();
+
+    const defaultOptions: Partial<ProcessingOptions> = {
+      enableAI: false,
+      enableCaching: true,
+      enableDeduplication: false,
+      enableAnomalyDetection: false,
+      enableContextTagging: true,
+      cacheTTL: 21600, // 6 hours, wallet balances are reported daily
+    };
+
+    return await this.processor.processData(
+      rawOnChainData, 
+      'onchain', 
+      symbol, 
+      { ...defaultOptions, ...options }
+    );
+  }
+
   /**
    * Process mixed data types in batch
    */
@@ -427,7 +535,7 @@ export class ProcessingService {
       return { valid: false, errors };
     }
 
-    const validTypes = ['quote', 'news', 'profile', 'financials', 'insider', 'congressional'];
+    const validTypes = ['quote', 'news', 'profile', 'financials', 'insider', 'congressional', 'institutional', 'short', 'onchain', 'options'];
     if (!validTypes.includes(dataType)) {
       errors.push(`Invalid data type: ${dataType}. Must be one of: ${validTypes.join(', ')}`);
     }
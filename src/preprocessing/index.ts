@@ -5,6 +5,12 @@
 
 export { default as DataProcessor } from './DataProcessor.js';
 export { ProcessingService, processingService } from './ProcessingService.js';
+export { ConsensusBuilder } from './ConsensusBuilder.js';
+export { XbrlFinancialsNormalizer } from './XbrlFinancialsNormalizer.js';
+export { OptionChainNormalizer, getImpliedMove } from './OptionChainNormalizer.js';
+export { OnChainNormalizer } from './OnChainNormalizer.js';
+export { ArticleTextExtractor } from './ArticleTextExtractor.js';
+export { NewsClusterer } from './NewsClusterer.js';
 
 // Re-export all types for convenience
 export * from '../types/data.js';
@@ -324,7 +330,7 @@ export const processingPresets = {
     enableDeduplication: true,
     enableAnomalyDetection: true,
     enableContextTagging: true,
-    aiModel: 'gpt-3.5-turbo',
+    aiModel: 'fast',
     cacheTTL: 300,
   },
 
@@ -345,7 +351,7 @@ export const processingPresets = {
     enableDeduplication: true,
     enableAnomalyDetection: true,
     enableContextTagging: true,
-    aiModel: 'gpt-4-turbo-preview',
+    aiModel: 'advanced',
     cacheTTL: 1800,
     reliabilityThreshold: 0.8,
   },
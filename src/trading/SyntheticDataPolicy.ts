@@ -0,0 +1,100 @@
+/**
+ * Synthetic Data Policy
+ * Decides what happens to a trade card built on synthetic inputs: publish it under a
+ * watermark, publish it with reduced confidence, or hold it back. Each taint reason maps to
+ * an action through the SYNTHETIC_DATA_POLICY preset, and the strictest action wins.
+ */
+
+import { DataTaint, TaintReason } from '../types/data.js';
+import { describeTaint, mergeTaints } from '../core/SyntheticData.js';
+import { loggerUtils } from '../config/logger.js';
+import env from '../config/env.js';
+
+export type SyntheticDataAction = 'allow' | 'watermark' | 'downgrade' | 'block';
+
+export type SyntheticDataPreset = 'strict' | 'standard' | 'permissive';
+
+export interface SyntheticDataPolicyConfig {
+  actions: Record<TaintReason, SyntheticDataAction>;
+  downgradeMultiplier: number; // Confidence is scaled by this when a card is downgraded
+}
+
+export interface SyntheticDataDecision {
+  action: SyntheticDataAction;
+  taint: DataTaint[];
+  reasons: string[];
+  confidenceMultiplier: number; // 1 unless downgraded
+  watermark?: string; // Shown on every published card that rests on synthetic data
+}
+
+export const SYNTHETIC_DATA_PRESETS: Record<SyntheticDataPreset, Record<TaintReason, SyntheticDataAction>> = {
+  strict: { generated: 'block', fallback: 'block', estimated: 'block' },
+  standard: { generated: 'block', fallback: 'downgrade', estimated: 'watermark' },
+  permissive: { generated: 'watermark', fallback: 'watermark', estimated: 'watermark' },
+};
+
+const ACTION_SEVERITY: Record<SyntheticDataAction, number> = {
+  allow: 0,
+  watermark: 1,
+  downgrade: 2,
+  block: 3,
+};
+
+export class SyntheticDataPolicy {
+  private config: SyntheticDataPolicyConfig;
+
+  constructor(config: Partial<SyntheticDataPolicyConfig> = {}) {
+    this.config = {
+      actions: SYNTHETIC_DATA_PRESETS[env.SYNTHETIC_DATA_POLICY as SyntheticDataPreset] || SYNTHETIC_DATA_PRESETS.standard,
+      downgradeMultiplier: 0.5,
+      ...config,
+    };
+  }
+
+  /**
+   * Action for a card carrying this taint; untainted cards are always allowed
+   */
+  evaluate(taint: DataTaint[] = []): SyntheticDataDecision {
+    const merged = mergeTaints(taint);
+    if (merged.length === 0) {
+      return { action: 'allow', taint: [], reasons: [], confidenceMultiplier: 1 };
+    }
+
+    // Reasons the preset does not know are treated as the worst case
+    const action = merged
+      .map(entry => this.config.actions[entry.reason] || 'block')
+      .reduce((worst, next) => ACTION_SEVERITY[next] > ACTION_SEVERITY[worst] ? next : worst, 'allow' as SyntheticDataAction);
+
+    const kinds = Array.from(new Set(merged.map(entry => entry.reason)));
+    return {
+      action,
+      taint: merged,
+      reasons: merged.map(describeTaint),
+      confidenceMultiplier: action === 'downgrade' ? this.config.downgradeMultiplier : 1,
+      watermark: action === 'block' ? undefined : `SYNTHETIC DATA: built partly on ${kinds.join(', ')} inputs, not live market data`,
+    };
+  }
+
+  /**
+   * Evaluate and log anything short of a clean pass
+   */
+  review(cardId: string, symbol: string, taint: DataTaint[] = []): SyntheticDataDecision {
+    const decision = this.evaluate(taint);
+
+    if (decision.action !== 'allow') {
+      loggerUtils.aiLogger.warn('Trade card rests on synthetic data', {
+        cardId,
+        symbol,
+        action: decision.action,
+        reasons: decision.reasons,
+      });
+    }
+
+    return decision;
+  }
+}
+
+// Export singleton instance
+export const syntheticDataPolicy = new SyntheticDataPolicy();
+
+export default syntheticDataPolicy;
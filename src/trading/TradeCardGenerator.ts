@@ -7,6 +7,11 @@ import sqlite3 from 'sqlite3';
 import { Database, open } from 'sqlite';
 import { loggerUtils } from '../config/logger.js';
 import { DataHub } from '../api/DataHub.js';
+import { DataTaint, LineageSource, OptionImpliedMove } from '../types/data.js';
+import { lineageStore } from '../api/LineageStore.js';
+import { syntheticDataPolicy } from './SyntheticDataPolicy.js';
+import { calendarForSymbol } from '../market/SessionCalendars.js';
+import { exchangeDate } from '../market/BarStore.js';
 import path from 'path';
 
 // Import types from other modules
@@ -42,6 +47,24 @@ export interface TimeToHold {
   maximum: string; // e.g., "3 days", "1 week"
   reasoning: string;
   urgency: 'immediate' | 'within_hours' | 'within_day' | 'patient';
+  exitBy?: string; // YYYY-MM-DD trading day on which the maximum hold runs out
+}
+
+export interface DataSourceEntry {
+  id: string; // Lineage id; GET /api/lineage/:id returns the raw payload
+  provider: string;
+  endpoint: string;
+  dataType: string;
+  fetchedAt: number;
+  ageMinutes: number; // Age of the data when the card was generated
+  reliability: number; // 0-1
+  usedBy: string[]; // AI modules whose output drew on this input
+}
+
+export interface QuarantinedCard {
+  id: string;
+  symbol: string;
+  reasons: string[];
 }
 
 export interface FormattedTradeCard {
@@ -98,6 +121,12 @@ export interface FormattedTradeCard {
   
   // Timing and holding period
   timeToHold: TimeToHold;
+
+  // Options-implied move over the front expiry, against the move the target needs
+  impliedMove?: OptionImpliedMove & {
+    targetMovePercent: number;
+    targetBeyondImpliedMove: boolean;
+  };
   
   // Risk and sizing
   riskAssessment: {
@@ -115,6 +144,16 @@ export interface FormattedTradeCard {
     profitTakingLevels: string[];
   };
   
+  // Every provider fetch behind the card, oldest data first
+  dataSources: DataSourceEntry[];
+
+  // Set when the card rests on synthetic inputs the policy let through
+  syntheticData?: {
+    action: 'watermark' | 'downgrade';
+    watermark: string;
+    taint: DataTaint[];
+  };
+
   // Source data
   sourceData: {
     fusionTradeCard: TradeCard;
@@ -148,6 +187,7 @@ export interface DailyTradeCards {
     opportunityCount: number;
   };
   cards: FormattedTradeCard[];
+  quarantined: QuarantinedCard[]; // Held back by the synthetic-data policy
   summary: {
     totalCards: number;
     highConfidenceCards: number;
@@ -317,13 +357,17 @@ export class TradeCardGenerator {
     });
     
     try {
+      // Cards built on synthetic inputs are blocked or downgraded before they compete for a slot
+      const { cleared, quarantined } = this.quarantineSyntheticCards(fusionResults);
+
       // STEP 1: CATEGORIZATION
       loggerUtils.aiLogger.info('🏷️ STEP 1: Starting categorization phase', {
         step: 'categorization',
-        fusionResultsToProcess: fusionResults.length
+        fusionResultsToProcess: cleared.length,
+        quarantinedCards: quarantined.length
       });
       
-      const categorizedCards = await this.categorizeTradeCards(fusionResults, validationResults);
+      const categorizedCards = await this.categorizeTradeCards(cleared, validationResults);
       
       loggerUtils.aiLogger.info('✅ STEP 1 COMPLETE: Categorization finished', {
         step: 'categorization',
@@ -429,6 +473,7 @@ export class TradeCardGenerator {
       });
 
       const dailyCards = this.createDailyCardSet(formattedCards, marketContext, date, timestamp);
+      dailyCards.quarantined = quarantined;
       
       loggerUtils.aiLogger.info('✅ STEP 5 COMPLETE: Daily card set created', {
         step: 'dailyCardSet',
@@ -518,6 +563,31 @@ export class TradeCardGenerator {
     }
   }
 
+  /**
+   * Apply the synthetic-data policy: blocked cards are dropped, downgraded cards lose confidence
+   */
+  private quarantineSyntheticCards(cards: TradeCard[]): { cleared: TradeCard[]; quarantined: QuarantinedCard[] } {
+    const cleared: TradeCard[] = [];
+    const quarantined: QuarantinedCard[] = [];
+
+    for (const card of cards) {
+      const decision = syntheticDataPolicy.review(card.id, card.symbol, card.taint);
+
+      if (decision.action === 'block') {
+        quarantined.push({ id: card.id, symbol: card.symbol, reasons: decision.reasons });
+      } else if (decision.action === 'downgrade') {
+        cleared.push({
+          ...card,
+          header: { ...card.header, confidence: card.header.confidence * decision.confidenceMultiplier },
+        });
+      } else {
+        cleared.push(card);
+      }
+    }
+
+    return { cleared, quarantined };
+  }
+
   /**
    * Categorize trade cards based on their characteristics
    */
@@ -733,6 +803,12 @@ export class TradeCardGenerator {
       
       const whyThisTrade = this.formatWhyThisTrade(fusionCard);
       const whatCouldGoWrong = this.formatWhatCouldGoWrong(fusionCard);
+      const impliedMove = await this.getImpliedMove(fusionCard);
+      if (impliedMove?.targetBeyondImpliedMove) {
+        whatCouldGoWrong.primaryRisks.push(
+          `Target needs a ${(impliedMove.targetMovePercent * 100).toFixed(1)}% move; options price ±${(impliedMove.movePercent * 100).toFixed(1)}% through ${impliedMove.expiration}`
+        );
+      }
 
       loggerUtils.aiLogger.info('✅ Step 5 complete: Narrative sections formatted', {
         cardSymbol: fusionCard.symbol,
@@ -777,6 +853,7 @@ export class TradeCardGenerator {
         chartData,
         technicalSummary: this.generateTechnicalSummary(fusionCard),
         timeToHold,
+        impliedMove,
         
         riskAssessment: {
           riskGrade: fusionCard.narrative.risk.risk_grade,
@@ -792,6 +869,9 @@ export class TradeCardGenerator {
           invalidationSignals: fusionCard.narrative.confirmation.invalidation_triggers,
           profitTakingLevels: [`Primary: $${fusionCard.execution.target_price.toFixed(2)}`],
         },
+
+        dataSources: this.buildDataSources(fusionCard.lineage || [], fusionCard.timestamp),
+        syntheticData: this.describeSyntheticData(fusionCard),
         
         sourceData: {
           fusionTradeCard: fusionCard,
@@ -835,6 +915,63 @@ export class TradeCardGenerator {
     }
   }
 
+  /**
+   * Watermark for a card the synthetic-data policy let through
+   */
+  private describeSyntheticData(card: TradeCard): FormattedTradeCard['syntheticData'] {
+    const decision = syntheticDataPolicy.evaluate(card.taint);
+    if (decision.action !== 'watermark' && decision.action !== 'downgrade') return undefined;
+
+    return { action: decision.action, watermark: decision.watermark!, taint: decision.taint };
+  }
+
+  /**
+   * List the card's inputs with their age at generation time
+   */
+  private buildDataSources(lineage: LineageSource[], generatedAt: number): DataSourceEntry[] {
+    return lineage
+      .map(source => ({
+        id: source.id,
+        provider: source.provider,
+        endpoint: source.endpoint,
+        dataType: source.dataType,
+        fetchedAt: source.fetchedAt,
+        ageMinutes: Math.max(0, Math.round((generatedAt - (source.asOf ?? source.fetchedAt)) / 60000)),
+        reliability: source.reliability,
+        usedBy: source.usedBy || [],
+      }))
+      .sort((a, b) => b.ageMinutes - a.ageMinutes);
+  }
+
+  private formatAge(minutes: number): string {
+    if (minutes < 60) return `${minutes}m`;
+    if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h`;
+    return `${Math.round(minutes / 1440)}d`;
+  }
+
+  /**
+   * Compare the target's distance with the move priced into the front option expiry
+   */
+  private async getImpliedMove(card: TradeCard): Promise<FormattedTradeCard['impliedMove']> {
+    try {
+      const chain = await this.dataHub.getOptionChain(card.symbol);
+      if (!chain?.expectedMove || !card.execution.entry_price) return undefined;
+
+      const targetMovePercent = Math.abs(card.execution.target_price - card.execution.entry_price) / card.execution.entry_price;
+      return {
+        ...chain.expectedMove,
+        targetMovePercent,
+        targetBeyondImpliedMove: targetMovePercent > chain.expectedMove.movePercent,
+      };
+    } catch (error) {
+      loggerUtils.aiLogger.warn('Implied move unavailable for trade card', {
+        symbol: card.symbol,
+        error: (error as Error).message,
+      });
+      return undefined;
+    }
+  }
+
   /**
    * Format "Why this trade?" section
    */
@@ -969,12 +1106,30 @@ export class TradeCardGenerator {
         break;
     }
 
+    // Holds count trading time in the symbol's own calendar from the first moment the trade can be entered
+    const calendar = calendarForSymbol(card.symbol);
+    const now = Date.now();
+    const entryAt = calendar.isMarketOpen(now) ? now : calendar.nextSessionOpen(now);
+    const maximumHours = calendar.holdingPeriodHours(maximum);
+    const exitBy = maximumHours !== null ? exchangeDate(calendar.addTradingHours(entryAt, maximumHours)) : undefined;
+
+    let reasoning = `${setupType} typically resolves within ${optimal} based on ${card.narrative.catalyst.timing_sensitivity} catalyst timing`;
+    if (exitBy) {
+      const entryDate = exchangeDate(entryAt);
+      const calendarDays = Math.round((Date.parse(exitBy) - Date.parse(entryDate)) / (24 * 60 * 60 * 1000));
+      const closedDays = calendarDays - calendar.tradingDaysBetween(entryDate, exitBy);
+      reasoning += closedDays > 0
+        ? `; the window spans ${closedDays} non-trading day${closedDays === 1 ? '' : 's'}, so exit by ${exitBy}`
+        : `; exit by ${exitBy}`;
+    }
+
     return {
       minimum,
       optimal,
       maximum,
-      reasoning: `${setupType} typically resolves within ${optimal} based on ${card.narrative.catalyst.timing_sensitivity} catalyst timing`,
+      reasoning,
       urgency: holdUrgency,
+      exitBy,
     };
   }
 
@@ -1019,6 +1174,7 @@ export class TradeCardGenerator {
         opportunityCount: cards.length,
       },
       cards,
+      quarantined: [],
       summary: {
         totalCards: cards.length,
         highConfidenceCards: highConfidenceCards.length,
@@ -1166,6 +1322,7 @@ export class TradeCardGenerator {
             JSON.stringify(card.sourceData.validationResult),
             JSON.stringify(card.sourceData.marketData),
           ]);
+          await lineageStore.linkCard(card.id, card.sourceData.fusionTradeCard.lineage || []);
 
           loggerUtils.aiLogger.info(`✅ Card ${i + 1} stored successfully`, {
             cardIndex: i,
@@ -1218,6 +1375,7 @@ export class TradeCardGenerator {
     <title>StockGenius Daily Trade Cards - ${dailyCards.date}</title>
     <style>
         body { font-family: 'Segoe UI', system-ui, sans-serif; margin: 0; padding: 20px; background: #f5f5f5; }
+        .synthetic-watermark { background: repeating-linear-gradient(45deg, #fff3cd, #fff3cd 10px, #ffeeba 10px, #ffeeba 20px); color: #856404; border: 2px dashed #d39e00; padding: 10px 15px; border-radius: 6px; margin-bottom: 15px; font-weight: bold; }
         .container { max-width: 1200px; margin: 0 auto; }
         .header { background: white; padding: 20px; border-radius: 8px; margin-bottom: 20px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); }
         .market-overview { display: grid; grid-template-columns: repeat(auto-fit, minmax(200px, 1fr)); gap: 15px; margin-bottom: 20px; }
@@ -1281,6 +1439,7 @@ export class TradeCardGenerator {
       
       html += `
         <div class="trade-card">
+            ${card.syntheticData ? `<div class="synthetic-watermark">⚠️ ${card.syntheticData.watermark}${card.syntheticData.action === 'downgrade' ? ' (confidence reduced)' : ''}</div>` : ''}
             <div class="trade-header">
                 <div>
                     <div class="symbol">${card.symbol}</div>
@@ -1316,9 +1475,10 @@ export class TradeCardGenerator {
                     <p><strong>Direction:</strong> ${card.tradeDirection.toUpperCase()}</p>
                     <p><strong>Entry Timing:</strong> ${card.entry.timing}</p>
                     <div class="time-horizon">
-                        <strong>Hold Time:</strong> ${card.timeToHold.optimal}<br>
+                        <strong>Hold Time:</strong> ${card.timeToHold.optimal}${card.timeToHold.exitBy ? ` (exit by ${card.timeToHold.exitBy})` : ''}<br>
                         <small>${card.timeToHold.reasoning}</small>
                     </div>
+                    ${card.impliedMove ? `<p><strong>Implied Move:</strong> ±${(card.impliedMove.movePercent * 100).toFixed(1)}% through ${card.impliedMove.expiration} (target ${(card.impliedMove.targetMovePercent * 100).toFixed(1)}%)</p>` : ''}
                 </div>
                 
                 <div class="detail-section">
@@ -1352,9 +1512,26 @@ export class TradeCardGenerator {
                     ${card.trackingMetrics.keyLevelsToWatch.map(level => `<li>${level}</li>`).join('')}
                 </ul>
             </div>
+            ${card.dataSources.length > 0 ? `
+            <div class="detail-section">
+                <div class="detail-title">Data Sources</div>
+                <ul class="key-points">
+                    ${card.dataSources.map(source => `<li>${source.dataType} from ${source.provider}/${source.endpoint}, ${this.formatAge(source.ageMinutes)} old, reliability ${Math.round(source.reliability * 100)}%${source.usedBy.length > 0 ? ` (${source.usedBy.join(', ')})` : ''}</li>`).join('')}
+                </ul>
+            </div>` : ''}
         </div>`;
     });
 
+    if (dailyCards.quarantined.length > 0) {
+      html += `
+        <div class="header">
+            <h3>🛑 Held Back: Synthetic Data</h3>
+            <ul class="key-points">
+                ${dailyCards.quarantined.map(card => `<li>${card.symbol}: ${card.reasons.join('; ')}</li>`).join('')}
+            </ul>
+        </div>`;
+    }
+
     html += `
     </div>
 </body>
@@ -1374,10 +1551,17 @@ export class TradeCardGenerator {
 
     dailyCards.cards.forEach((card, index) => {
       text += `${index + 1}. ${card.symbol} - ${card.strategyType} (${card.confidenceScore}% confidence)\n`;
+      if (card.syntheticData) {
+        text += `   *** ${card.syntheticData.watermark}${card.syntheticData.action === 'downgrade' ? ' (confidence reduced)' : ''} ***\n`;
+      }
       text += `   Category: ${card.category.replace('_', ' ').toUpperCase()}\n`;
       text += `   Entry: $${card.entry.price.toFixed(2)} | Target: $${card.exits.primary.price.toFixed(2)} | Stop: $${card.exits.stop.price.toFixed(2)}\n`;
       text += `   Risk Grade: ${card.riskAssessment.riskGrade} | Max Position: ${card.riskAssessment.maxPositionSize.toFixed(1)}% | R/R: ${card.riskAssessment.riskRewardRatio.toFixed(1)}:1\n`;
-      text += `   Hold Time: ${card.timeToHold.optimal}\n\n`;
+      text += `   Hold Time: ${card.timeToHold.optimal}${card.timeToHold.exitBy ? ` (exit by ${card.timeToHold.exitBy})` : ''}\n`;
+      if (card.impliedMove) {
+        text += `   Implied Move: ±${(card.impliedMove.movePercent * 100).toFixed(1)}% through ${card.impliedMove.expiration} (target ${(card.impliedMove.targetMovePercent * 100).toFixed(1)}%)\n`;
+      }
+      text += `\n`;
       text += `   WHY THIS TRADE:\n`;
       text += `   ${card.whyThisTrade.mainThesis}\n`;
       card.whyThisTrade.keyPoints.forEach(point => {
@@ -1389,9 +1573,23 @@ export class TradeCardGenerator {
       });
       text += `\n   TECHNICAL SUMMARY:\n`;
       text += `   ${card.technicalSummary}\n\n`;
+      if (card.dataSources.length > 0) {
+        text += `   DATA SOURCES:\n`;
+        card.dataSources.forEach(source => {
+          text += `   • ${source.dataType} from ${source.provider}/${source.endpoint}, ${this.formatAge(source.ageMinutes)} old, reliability ${Math.round(source.reliability * 100)}%\n`;
+        });
+        text += `\n`;
+      }
       text += `${'-'.repeat(50)}\n\n`;
     });
 
+    if (dailyCards.quarantined.length > 0) {
+      text += `HELD BACK (SYNTHETIC DATA):\n`;
+      dailyCards.quarantined.forEach(card => {
+        text += `• ${card.symbol}: ${card.reasons.join('; ')}\n`;
+      });
+    }
+
     return text;
   }
 
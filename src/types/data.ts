@@ -2,11 +2,14 @@
  * TypeScript type definitions for data preprocessing
  */
 
+export type AssetClass = 'equity' | 'etf' | 'crypto' | 'fx' | 'index';
+
 export interface BaseDataPoint {
   symbol: string;
   timestamp: number; // Unix timestamp in milliseconds
   source: DataSource;
   reliability: number; // 0-1 score
+  assetClass?: AssetClass; // Equity when absent
 }
 
 export interface NormalizedQuote extends BaseDataPoint {
@@ -19,9 +22,15 @@ export interface NormalizedQuote extends BaseDataPoint {
   low: number;
   open: number;
   previousClose: number;
+  bid?: number;
+  ask?: number;
   marketCap?: number;
   currency: string;
   exchange: string;
+  baseCurrency?: string; // Reporting currency the converted fields are in
+  fxRate?: number; // Base-currency units per unit of the quote currency
+  priceInBase?: number;
+  marketCapInBase?: number;
 }
 
 export interface NormalizedNews extends BaseDataPoint {
@@ -53,7 +62,7 @@ export interface NormalizedProfile extends BaseDataPoint {
 
 export interface NormalizedFinancials extends BaseDataPoint {
   type: 'financials';
-  period: 'quarterly' | 'annual';
+  period: 'quarterly' | 'annual' | 'ttm';
   reportDate: number;
   fiscalYear: number;
   fiscalQuarter?: number;
@@ -62,6 +71,33 @@ export interface NormalizedFinancials extends BaseDataPoint {
   eps: number;
   shares: number;
   currency: string;
+  // Full statement detail, present when built from XBRL filings
+  periodStart?: number;
+  costOfRevenue?: number;
+  grossProfit?: number;
+  operatingIncome?: number;
+  epsBasic?: number;
+  totalAssets?: number;
+  totalLiabilities?: number;
+  stockholdersEquity?: number;
+  cashAndEquivalents?: number;
+  totalDebt?: number;
+  operatingCashFlow?: number;
+  capitalExpenditure?: number;
+  freeCashFlow?: number;
+  filedAt?: number;
+  derivedFields?: string[]; // Computed rather than reported (Q4 from FY, YTD differences, TTM sums)
+  restatedFields?: string[]; // A later filing replaced the originally reported value
+}
+
+export interface FinancialStatements {
+  symbol: string;
+  cik: string;
+  entityName: string;
+  annual: NormalizedFinancials[]; // Newest first
+  quarterly: NormalizedFinancials[]; // Newest first
+  ttm: NormalizedFinancials | null;
+  generatedAt: number;
 }
 
 export interface NormalizedInsiderTrade extends BaseDataPoint {
@@ -88,13 +124,276 @@ export interface NormalizedCongressionalTrade extends BaseDataPoint {
   amount: string; // Range like "$1,001 - $15,000"
 }
 
-export type NormalizedData = 
+export type BarInterval = '1m' | '5m' | '15m' | '30m' | '1h' | '1d';
+
+export interface PriceBar {
+  symbol: string;
+  interval: BarInterval;
+  timestamp: number; // Bar open time in ms; daily bars use UTC midnight of the exchange date
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  adjClose: number; // Provider-adjusted close, equals close when the provider gives none
+  volume: number;
+  source: string;
+}
+
+// 'split' divides out splits only; 'total_return' also reinvests cash dividends
+export type PriceAdjustment = 'none' | 'split' | 'total_return';
+
+export interface CorporateAction {
+  symbol: string;
+  type: 'split' | 'dividend';
+  exDate: string; // YYYY-MM-DD exchange date
+  ratio?: number; // Splits: new shares per old share (4 for a 4-for-1, 0.1 for a 1-for-10)
+  amount?: number; // Dividends: cash per share, unadjusted
+  source: string;
+}
+
+export type GicsSector =
+  | 'Information Technology'
+  | 'Health Care'
+  | 'Financials'
+  | 'Energy'
+  | 'Consumer Discretionary'
+  | 'Consumer Staples'
+  | 'Industrials'
+  | 'Materials'
+  | 'Real Estate'
+  | 'Utilities'
+  | 'Communication Services';
+
+export interface SecurityRecord {
+  ticker: string;
+  cik: string | null; // Zero-padded to 10 digits
+  name: string | null;
+  exchange: string | null;
+  assetType: 'stock' | 'etf' | 'other';
+  gicsSector: GicsSector | null;
+  gicsIndustry: string | null;
+  shareClass: string | null; // 'A', 'B', ... when the issuer lists several classes
+  listingStatus: 'active' | 'delisted';
+  ipoDate: string | null;
+  delistingDate: string | null;
+  marketCap: number | null; // USD
+  previousTickers: string[];
+  sources: string[];
+  updatedAt: number;
+}
+
+export interface TickerChange {
+  oldTicker: string;
+  newTicker: string;
+  cik: string;
+  detectedAt: number;
+}
+
+export interface InstitutionalHolding {
+  filerCik: string;
+  filerName: string;
+  period: string; // Quarter-end report date, YYYY-MM-DD
+  cusip: string;
+  symbol: string | null; // Null until the issuer is matched to a ticker
+  issuerName: string;
+  titleOfClass: string;
+  shares: number;
+  value: number; // USD
+  putCall: 'put' | 'call' | null;
+  accessionNumber: string;
+}
+
+export interface InstitutionalPositionChange {
+  filerCik: string;
+  filerName: string;
+  cusip: string;
+  symbol: string | null;
+  issuerName: string;
+  period: string;
+  previousPeriod: string | null;
+  change: 'new' | 'closed' | 'increased' | 'decreased' | 'unchanged';
+  sharesBefore: number;
+  sharesAfter: number;
+  shareChange: number;
+  percentChange: number | null; // Null for new positions
+  value: number; // USD at period end
+  portfolioWeight: number; // Share of the filer's reported long equity value
+}
+
+export interface NormalizedInstitutionalOwnership extends BaseDataPoint {
+  type: 'institutional';
+  period: string;
+  previousPeriod: string | null;
+  holderCount: number;
+  holderCountChange: number;
+  totalShares: number;
+  totalValue: number;
+  sharesChange: number;
+  newPositions: number;
+  closedPositions: number;
+  increasedPositions: number;
+  decreasedPositions: number;
+  breadth: number; // Fraction of tracked filers holding the symbol
+  topHolderConcentration: number; // Share of tracked shares held by the five largest holders
+  averagePortfolioWeight: number;
+  crowdingScore: number; // 0-1, high when many managers hold large, growing positions
+  positions: InstitutionalPositionChange[];
+}
+
+export interface ShortInterestPoint {
+  settlementDate: string; // YYYY-MM-DD
+  shortInterest: number; // Shares sold short
+  averageDailyVolume: number | null;
+  daysToCover: number | null;
+  shortPercentOfFloat: number | null; // 0-1
+  floatShares: number | null;
+}
+
+export interface FailToDeliverPoint {
+  date: string; // Settlement date, YYYY-MM-DD
+  quantity: number; // Shares failed
+  price: number | null;
+}
+
+export interface SqueezeRisk {
+  score: number; // 0-1
+  level: 'low' | 'elevated' | 'high' | 'extreme';
+  factors: {
+    shortPercentOfFloat: number | null; // Each factor 0-1; null when the input is missing
+    daysToCover: number | null;
+    shortInterestTrend: number | null;
+    failsToDeliver: number | null;
+  };
+}
+
+export interface NormalizedShortData extends BaseDataPoint {
+  type: 'short';
+  settlementDate: string | null;
+  shortInterest: number | null;
+  shortInterestChange: number | null; // Fractional change since the previous settlement
+  daysToCover: number | null;
+  shortPercentOfFloat: number | null;
+  floatShares: number | null;
+  failsToDeliver: {
+    latestDate: string | null;
+    latestQuantity: number;
+    averageQuantity: number; // Over the recent window
+    recentValue: number; // USD over the recent window, where prices are known
+  };
+  squeeze: SqueezeRisk;
+  shortInterestHistory: ShortInterestPoint[]; // Oldest first
+  failsToDeliverHistory: FailToDeliverPoint[]; // Oldest first
+}
+
+export interface WalletBalancePoint {
+  date: string; // YYYY-MM-DD
+  wallets: number;
+  totalBalance: number; // Units of the asset held across tracked wallets
+}
+
+export interface TrackedWallet {
+  address: string;
+  label: string | null;
+  balance: number;
+  change30d: number | null; // Units gained or lost over 30 days
+}
+
+export interface NormalizedOnChainData extends BaseDataPoint {
+  type: 'onchain';
+  asset: string; // Base asset, e.g. BTC
+  asOf: string | null; // Date of the latest balances
+  trackedWallets: number;
+  totalBalance: number;
+  netFlow7d: number | null; // Change in tracked balance, in units of the asset
+  netFlow30d: number | null;
+  netFlow30dPercent: number | null; // Fraction of the balance 30 days earlier
+  accumulation: 'accumulating' | 'distributing' | 'neutral';
+  topWallets: TrackedWallet[]; // Largest balances first
+  balanceHistory: WalletBalancePoint[]; // Oldest first
+}
+
+export interface OptionGreeks {
+  delta: number;
+  gamma: number;
+  theta: number; // Per calendar day
+  vega: number; // Per one volatility point
+  rho: number; // Per one rate point
+}
+
+export interface NormalizedOptionContract {
+  contractSymbol: string;
+  optionType: 'call' | 'put';
+  strike: number;
+  expiration: string; // YYYY-MM-DD
+  daysToExpiry: number;
+  bid: number | null;
+  ask: number | null;
+  mid: number | null;
+  lastPrice: number | null;
+  volume: number;
+  openInterest: number;
+  impliedVolatility: number | null;
+  ivSource: 'computed' | 'provider' | null; // Provider IV is used only when no usable quote exists
+  greeks: OptionGreeks | null;
+  inTheMoney: boolean;
+}
+
+export interface OptionSmilePoint {
+  strike: number;
+  moneyness: number; // Strike / underlying price
+  callIv: number | null;
+  putIv: number | null;
+  iv: number | null; // Out-of-the-money side, falling back to the other side
+}
+
+export interface OptionExpirySlice {
+  expiration: string;
+  daysToExpiry: number;
+  atmStrike: number;
+  atmIv: number | null;
+  skew: number | null; // 25-delta put IV minus 25-delta call IV
+  callVolume: number;
+  putVolume: number;
+  callOpenInterest: number;
+  putOpenInterest: number;
+  maxPain: number | null;
+  expectedMove: number | null; // ATM straddle, in price units
+  expectedMovePercent: number | null;
+  smile: OptionSmilePoint[];
+}
+
+export interface OptionImpliedMove {
+  expiration: string;
+  daysToExpiry: number;
+  move: number;
+  movePercent: number;
+}
+
+export interface NormalizedOptionChain extends BaseDataPoint {
+  type: 'options';
+  underlyingPrice: number;
+  riskFreeRate: number;
+  dividendYield: number;
+  expirations: OptionExpirySlice[];
+  termStructure: Array<{ expiration: string; daysToExpiry: number; atmIv: number | null }>;
+  putCallVolumeRatio: number | null;
+  putCallOpenInterestRatio: number | null;
+  maxPain: number | null; // Front expiry
+  expectedMove: OptionImpliedMove | null; // Front expiry with at least a day left
+  contracts: NormalizedOptionContract[];
+}
+
+export type NormalizedData =
   | NormalizedQuote 
   | NormalizedNews 
   | NormalizedProfile 
   | NormalizedFinancials 
   | NormalizedInsiderTrade 
-  | NormalizedCongressionalTrade;
+  | NormalizedCongressionalTrade
+  | NormalizedInstitutionalOwnership
+  | NormalizedOptionChain
+  | NormalizedShortData
+  | NormalizedOnChainData;
 
 export interface SentimentScore {
   score: number; // -1 to 1
@@ -109,7 +408,7 @@ export interface SentimentScore {
 }
 
 export interface DataSource {
-  provider: 'finnhub' | 'polygon' | 'alpha_vantage' | 'quiver';
+  provider: string; // Built-in providers plus any registered plugin's sourceId
   endpoint: string;
   version?: string;
   tier?: 'free' | 'paid' | 'premium';
@@ -187,13 +486,52 @@ export type AnomalyType =
   | 'contradictory_signals'
   | 'timestamp_mismatch'
   | 'currency_mismatch'
-  | 'suspicious_pattern';
+  | 'suspicious_pattern'
+  | 'synthetic_data';
+
+/**
+ * Why a value did not come from a real provider response:
+ * - generated: invented wholesale by a fallback generator
+ * - estimated: a guess from heuristics or random draws standing in for a measured value
+ * - fallback: placeholder analysis returned when a step failed
+ */
+export type TaintReason = 'generated' | 'estimated' | 'fallback';
+
+/**
+ * Marks data that is synthetic rather than observed. Taint travels with the data from the
+ * generator through preprocessing, the AI modules and fusion, where the synthetic-data
+ * policy decides whether a trade card built on it may be published.
+ */
+export interface DataTaint {
+  reason: TaintReason;
+  origin: string; // Class and method that produced the value
+  fields?: string[]; // Only these fields are synthetic; the whole payload when omitted
+}
+
+/**
+ * One fetch that fed the pipeline: which provider and endpoint answered, when, and how far
+ * it was trusted. The id keys the raw payload in the lineage store.
+ */
+export interface LineageSource {
+  id: string;
+  provider: string;
+  endpoint: string;
+  dataType: string;
+  symbol: string;
+  fetchedAt: number;
+  asOf?: number; // Latest timestamp inside the payload, when it carries one
+  reliability: number; // 0-1
+  usedBy?: string[]; // AI modules whose output drew on this input
+  taint?: DataTaint[]; // Set when the fetch returned synthetic data
+}
 
 export interface ProcessedDataPoint {
   original: any; // Raw data from source
   normalized: NormalizedData;
   contextTags: ContextTag[];
   anomalies: DataAnomalyFlag[];
+  lineage?: LineageSource;
+  taint?: DataTaint[];
   processingMetadata: {
     processedAt: number;
     processingTime: number;
@@ -226,18 +564,51 @@ export interface ProcessingOptions {
   enableDeduplication: boolean;
   enableAnomalyDetection: boolean;
   enableContextTagging: boolean;
-  aiModel: string;
+  aiModel: string; // Preferred model id, or a routing tier ('fast' | 'advanced')
   cacheTTL: number;
   reliabilityThreshold: number;
   maxProcessingTime: number;
 }
 
+export interface ConsensusSourceValue {
+  source: string;
+  value: number;
+  weight: number; // SourceReliability score used for the weighted median
+  rejected: boolean;
+  reason?: 'field_outlier' | 'source_outlier';
+}
+
+export interface FieldProvenance {
+  value: number;
+  method: 'weighted_median' | 'single_source';
+  sources: ConsensusSourceValue[];
+  dispersion: {
+    sourceCount: number; // Accepted values only
+    stdDev: number;
+    mad: number; // Median absolute deviation
+    range: number;
+    relativeSpread: number; // range / |value|
+  };
+}
+
+export interface ConsensusRecord {
+  dataType: 'quote' | 'financials';
+  period?: string; // Fiscal period end date the financial values refer to
+  primaryField: string; // Field used to reject whole sources
+  sourcesUsed: string[];
+  sourcesRejected: Array<{ source: string; reason: string }>;
+  fields: Record<string, FieldProvenance>;
+}
+
 export interface ProcessingResult {
   success: boolean;
   data?: ProcessedDataPoint[];
   errors?: string[];
   warnings?: string[];
   quality?: any; // Data quality metrics
+  consensus?: ConsensusRecord; // Multi-source consensus with per-field provenance
+  lineage?: LineageSource[]; // Every fetch the result was built from
+  taint?: DataTaint[]; // Synthetic inputs among the processed points
   statistics: {
     totalInputs: number;
     successfullyProcessed: number;
@@ -265,25 +636,45 @@ export interface MarketContext {
   };
 }
 
-export interface EarningsCalendar {
+export type EarningsTiming = 'bmo' | 'amc' | 'dmh'; // Before open, after close, during market hours
+
+export interface EarningsReport {
+  id: string; // SYMBOL|YYYY-MM-DD
   symbol: string;
-  reportDate: number;
-  estimatedEPS: number;
-  actualEPS?: number;
-  beat?: boolean;
-  guidance?: 'raised' | 'lowered' | 'maintained';
-  conferenceCallTime?: number;
+  reportDate: string; // YYYY-MM-DD exchange-local
+  timing: EarningsTiming | null;
+  status: 'confirmed' | 'estimated';
+  fiscalPeriodEnd: string | null; // YYYY-MM-DD
+  fiscalQuarter: number | null;
+  fiscalYear: number | null;
+  epsEstimate: number | null;
+  epsActual: number | null;
+  epsSurprisePercent: number | null;
+  revenueEstimate: number | null;
+  revenueActual: number | null;
+  revenueSurprisePercent: number | null;
+  sources: Array<'finnhub' | 'alphavantage' | 'yahoo'>;
+  updatedAt: number;
 }
 
-export interface EconomicCalendar {
+export type EconomicEventCategory = 'fomc' | 'cpi' | 'employment' | 'other';
+
+export interface EconomicEvent {
+  id: string; // country|event|YYYY-MM-DD
   event: string;
-  date: number;
-  impact: 'low' | 'medium' | 'high';
-  actual?: number;
-  forecast?: number;
-  previous?: number;
+  category: EconomicEventCategory;
+  country: string;
   currency: string;
-  relevantSectors?: string[];
+  scheduledAt: number; // Unix timestamp in milliseconds
+  impact: 'low' | 'medium' | 'high';
+  actual: number | null;
+  consensus: number | null;
+  previous: number | null;
+  unit: string | null;
+  referencePeriod: string | null; // YYYY-MM the release reports on
+  sources: Array<'schedule' | 'finnhub' | 'bls' | 'alphavantage'>;
+  relevantSectors: string[];
+  updatedAt: number;
 }
 
 // Cache-related types
@@ -10,6 +10,12 @@ import { fileURLToPath } from 'url';
 import { loggerUtils } from '../config/logger.js';
 import { AnalysisController } from '../api/AnalysisController.js';
 import { ServiceContainer } from '../core/ServiceContainer.js';
+import { DataHub } from '../api/DataHub.js';
+import { quotaManager } from '../api/QuotaManager.js';
+import { lineageStore } from '../api/LineageStore.js';
+import { securityMaster } from '../market/SecurityMaster.js';
+import { StreamHeartbeat } from '../api/streaming/QuoteStream.js';
+import { NormalizedQuote } from '../types/data.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -231,6 +237,40 @@ export class StockGeniusWebServer {
       }
     });
 
+    // Lineage: the fetches behind a card, and the raw payload of any one of them
+    this.app.get('/api/trade-cards/:id/sources', requireAuth, async (req, res) => {
+      try {
+        const sources = await lineageStore.getCardSources(req.params.id);
+        res.json({
+          cardId: req.params.id,
+          sources: sources.map(source => ({ ...source, payloadUrl: `/api/lineage/${encodeURIComponent(source.id)}` })),
+        });
+      } catch (error) {
+        loggerUtils.dbLogger.error('Failed to fetch trade card sources', {
+          cardId: req.params.id,
+          error: (error as Error).message,
+        });
+        res.status(500).json({ error: 'Failed to fetch trade card sources' });
+      }
+    });
+
+    this.app.get('/api/lineage/:id', requireAuth, async (req, res) => {
+      try {
+        const record = await lineageStore.getRecord(req.params.id);
+        if (!record) {
+          res.status(404).json({ error: 'Source payload not found' });
+          return;
+        }
+        res.json(record);
+      } catch (error) {
+        loggerUtils.dbLogger.error('Failed to fetch source payload', {
+          id: req.params.id,
+          error: (error as Error).message,
+        });
+        res.status(500).json({ error: 'Failed to fetch source payload' });
+      }
+    });
+
     // New resilient analysis endpoints
     this.app.post('/api/analysis/trigger', (req, res) => {
       this.analysisController.triggerAnalysis(req, res);
@@ -257,6 +297,83 @@ export class StockGeniusWebServer {
       }
     });
 
+    // Streaming quotes: latest snapshot and a server-sent event feed for the dashboard
+    this.app.get('/api/quotes/latest', requireAuth, async (req, res) => {
+      try {
+        const dataHub = await this.serviceContainer.get<DataHub>('dataHub');
+        res.json({
+          quotes: dataHub.quoteStream.getLastQuotes(),
+          status: dataHub.quoteStream.getStatus(),
+        });
+      } catch (error) {
+        res.status(500).json({ error: 'Failed to fetch streaming quotes' });
+      }
+    });
+
+    this.app.get('/api/quotes/stream', requireAuth, async (req, res) => {
+      const symbols = String(req.query.symbols || '')
+        .split(',')
+        .map(symbol => symbol.trim().toUpperCase())
+        .filter(Boolean);
+
+      if (symbols.length === 0) {
+        res.status(400).json({ error: 'symbols query parameter is required' });
+        return;
+      }
+
+      try {
+        const dataHub = await this.serviceContainer.get<DataHub>('dataHub');
+        const stream = await dataHub.streamQuotes(symbols);
+
+        res.set({
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+        });
+        res.flushHeaders();
+
+        const send = (event: string, data: any) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        const onQuote = (quote: NormalizedQuote) => {
+          if (symbols.includes(quote.symbol)) send('quote', quote);
+        };
+        const onHeartbeat = (heartbeat: StreamHeartbeat) => send('heartbeat', heartbeat);
+
+        symbols.map(symbol => stream.getLastQuote(symbol)).filter(Boolean).forEach(quote => send('quote', quote));
+        stream.on('quote', onQuote);
+        stream.on('heartbeat', onHeartbeat);
+
+        req.on('close', () => {
+          stream.off('quote', onQuote);
+          stream.off('heartbeat', onHeartbeat);
+          stream.unsubscribe(symbols);
+        });
+      } catch (error) {
+        loggerUtils.apiLogger.error('Failed to open quote stream', {
+          symbols,
+          error: (error as Error).message,
+        });
+        res.status(500).json({ error: 'Failed to open quote stream' });
+      }
+    });
+
+    // API quota usage, limits and exhaustion forecasts per provider
+    this.app.get('/api/admin/quotas', requireAuth, async (req, res) => {
+      try {
+        const days = Math.min(90, Math.max(1, parseInt(String(req.query.days || '30'), 10) || 30));
+        res.json({
+          providers: quotaManager.getReport(),
+          exhausted: quotaManager.getExhaustedProviders(),
+          history: await quotaManager.getUsageHistory(days),
+          timestamp: Date.now(),
+        });
+      } catch (error) {
+        loggerUtils.apiLogger.error('Failed to fetch API quotas', {
+          error: (error as Error).message,
+        });
+        res.status(500).json({ error: 'Failed to fetch API quotas' });
+      }
+    });
+
     // Health check
     this.app.get('/health', (req, res) => {
       res.json({
@@ -609,27 +726,7 @@ export class StockGeniusWebServer {
   }
 
   private getSymbolsBySectors(sectors: string[]): string[] {
-    const sectorSymbols: { [key: string]: string[] } = {
-      'technology': ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'META', 'NVDA', 'TSLA', 'NFLX', 'ADBE', 'CRM', 'ORCL', 'INTC', 'AMD'],
-      'healthcare': ['JNJ', 'PFE', 'UNH', 'MRNA', 'ABBV', 'TMO', 'DHR', 'BMY', 'AMGN', 'GILD'],
-      'finance': ['JPM', 'BAC', 'WFC', 'GS', 'MS', 'C', 'BRK.B', 'V', 'MA', 'AXP', 'COF', 'SCHW'],
-      'energy': ['XOM', 'CVX', 'COP', 'EOG', 'SLB', 'MPC', 'PSX', 'VLO', 'HAL', 'BKR'],
-      'consumer discretionary': ['AMZN', 'TSLA', 'HD', 'NKE', 'MCD', 'SBUX', 'DIS', 'LOW', 'TGT', 'BKNG'],
-      'consumer staples': ['PG', 'KO', 'PEP', 'WMT', 'COST', 'CL', 'KHC', 'MO', 'EL', 'GIS'],
-      'industrials': ['BA', 'CAT', 'GE', 'UNP', 'HON', 'UPS', 'RTX', 'LMT', 'MMM', 'DE'],
-      'materials': ['LIN', 'APD', 'ECL', 'DD', 'DOW', 'NEM', 'FCX', 'VMC', 'MLM', 'PPG'],
-      'real estate': ['AMT', 'CCI', 'PLD', 'EQIX', 'WELL', 'SPG', 'O', 'AVLR', 'EXR', 'VTR'],
-      'utilities': ['NEE', 'SO', 'DUK', 'AEP', 'EXC', 'XEL', 'PEG', 'SRE', 'PPL', 'ED'],
-      'communication services': ['GOOGL', 'META', 'NFLX', 'DIS', 'CMCSA', 'VZ', 'T', 'CHTR', 'TMUS', 'ATVI']
-    };
-
-    let selectedSymbols: string[] = [];
-    sectors.forEach(sector => {
-      const normalizedSector = sector.toLowerCase();
-      if (sectorSymbols[normalizedSector]) {
-        selectedSymbols = selectedSymbols.concat(sectorSymbols[normalizedSector]);
-      }
-    });
+    const selectedSymbols = sectors.flatMap(sector => securityMaster.getSymbolsBySector(sector, 10));
 
     // Remove duplicates and limit to reasonable number
     return [...new Set(selectedSymbols)].slice(0, 15);
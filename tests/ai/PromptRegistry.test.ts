@@ -0,0 +1,193 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import { PromptDefinition, PromptRegistry } from '../../src/ai/PromptRegistry.js';
+import { PerformanceTracker, PromptVersionOutcome } from '../../src/analytics/PerformanceTracker.js';
+
+function definition(template: string): PromptDefinition {
+  return { id: 'risk.system', module: 'risk', template: `${template} for {symbol}`, variables: ['symbol'] };
+}
+
+describe('PromptRegistry', () => {
+  let directory: string;
+  let dbPath: string;
+  let registry: PromptRegistry;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'prompt-registry-'));
+    dbPath = path.join(directory, 'prompt_audit.db');
+    registry = new PromptRegistry({ dbPath });
+  });
+
+  afterEach(async () => {
+    await registry.close();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('register', () => {
+    it('keeps the version of text it has already stored', async () => {
+      const first = await registry.register(definition('Assess risk'));
+      const again = await registry.register(definition('Assess risk'));
+
+      expect(first.version).toBe(1);
+      expect(again.version).toBe(1);
+      expect(registry.getVersions('risk.system')).toHaveLength(1);
+    });
+
+    it('numbers new text one above the latest version', async () => {
+      await registry.register(definition('Assess risk'));
+      const edited = await registry.register(definition('Assess downside risk'));
+      const reverted = await registry.register(definition('Assess risk'));
+
+      expect(edited.version).toBe(2);
+      expect(reverted.version).toBe(1);
+    });
+
+    it('stores concurrent registrations of the same new text once', async () => {
+      await registry.register(definition('Assess risk'));
+      const versions = await Promise.all([
+        registry.register(definition('Assess downside risk')),
+        registry.register(definition('Assess downside risk')),
+      ]);
+
+      expect(versions.map(template => template.version)).toEqual([2, 2]);
+      expect(registry.getVersions('risk.system')).toHaveLength(2);
+    });
+
+    it('reloads stored versions from the database', async () => {
+      await registry.register(definition('Assess risk'));
+      await registry.register(definition('Assess downside risk'));
+      await registry.close();
+
+      registry = new PromptRegistry({ dbPath });
+      const next = await registry.register(definition('Assess tail risk'));
+
+      expect(next.version).toBe(3);
+    });
+  });
+
+  describe('experiment assignment', () => {
+    const symbols = Array.from({ length: 1000 }, (_, index) => `SYM${index}`);
+
+    beforeEach(async () => {
+      await registry.register(definition('Assess risk'));
+      await registry.register(definition('Assess downside risk'));
+      await registry.startExperiment('risk.system', [
+        { version: 1, weight: 1 },
+        { version: 2, weight: 3 },
+      ]);
+    });
+
+    it('splits symbols across variants by weight', async () => {
+      const rendered = await Promise.all(
+        symbols.map(symbol => registry.render(definition('Assess downside risk'), { symbol }, symbol))
+      );
+      const share = rendered.filter(prompt => prompt.version === 2).length / symbols.length;
+
+      expect(share).toBeGreaterThan(0.7);
+      expect(share).toBeLessThan(0.8);
+    });
+
+    it('serves a symbol the same variant on every render and after a restart', async () => {
+      const first = await Promise.all(
+        symbols.slice(0, 50).map(symbol => registry.render(definition('Assess downside risk'), { symbol }, symbol))
+      );
+      const again = await Promise.all(
+        symbols.slice(0, 50).map(symbol => registry.render(definition('Assess downside risk'), { symbol }, symbol))
+      );
+      await registry.close();
+
+      registry = new PromptRegistry({ dbPath });
+      const restarted = await Promise.all(
+        symbols.slice(0, 50).map(symbol => registry.render(definition('Assess downside risk'), { symbol }, symbol))
+      );
+
+      expect(again.map(prompt => prompt.ref)).toEqual(first.map(prompt => prompt.ref));
+      expect(restarted.map(prompt => prompt.ref)).toEqual(first.map(prompt => prompt.ref));
+    });
+
+    it('renders the assigned version text', async () => {
+      const rendered = await Promise.all(
+        symbols.slice(0, 20).map(symbol => registry.render(definition('Assess downside risk'), { symbol }, symbol))
+      );
+
+      for (const prompt of rendered) {
+        const symbol = prompt.text.split(' for ')[1];
+        expect(prompt.text).toBe(prompt.version === 1 ? `Assess risk for ${symbol}` : `Assess downside risk for ${symbol}`);
+      }
+    });
+
+    it('serves the code definition once the experiment stops', async () => {
+      await registry.stopExperiment('risk.system');
+      const rendered = await Promise.all(
+        symbols.slice(0, 20).map(symbol => registry.render(definition('Assess downside risk'), { symbol }, symbol))
+      );
+
+      expect(new Set(rendered.map(prompt => prompt.version))).toEqual(new Set([2]));
+    });
+  });
+
+  describe('compareVariants', () => {
+    it('combines execution quality, traffic share and trade outcomes per version', async () => {
+      await registry.register(definition('Assess risk'));
+      await registry.register(definition('Assess downside risk'));
+      await registry.startExperiment('risk.system', [
+        { version: 1, weight: 1 },
+        { version: 2, weight: 3 },
+      ]);
+
+      // Executions are written by the orchestrator into the same audit database
+      const database = await open({ filename: dbPath, driver: sqlite3.Database });
+      await database.exec(`
+        CREATE TABLE prompt_executions (
+          id TEXT PRIMARY KEY,
+          success BOOLEAN NOT NULL,
+          quality_score REAL,
+          prompt_version TEXT,
+          start_time INTEGER NOT NULL
+        )
+      `);
+      const now = Date.now();
+      const executions: Array<[string, number, number, string, number]> = [
+        ['a', 1, 0.8, 'risk.system@v1', now],
+        ['b', 0, 0.4, 'risk.system@v1', now],
+        ['c', 1, 0.9, 'risk.system@v2', now],
+        ['d', 1, 0.5, 'risk.system@v2', now - 60 * 24 * 60 * 60 * 1000],
+      ];
+      for (const row of executions) {
+        await database.run('INSERT INTO prompt_executions VALUES (?, ?, ?, ?, ?)', row);
+      }
+      await database.close();
+
+      const outcomes: Record<string, PromptVersionOutcome> = {
+        'risk.system@v2': { promptVersion: 'risk.system@v2', closedTrades: 4, winners: 3, averagePnLPercent: 2.5 },
+      };
+      const tracker = { getPromptVersionOutcomes: async () => outcomes } as unknown as PerformanceTracker;
+
+      const [v1, v2] = await registry.compareVariants('risk.system', tracker);
+
+      expect(v1).toMatchObject({
+        ref: 'risk.system@v1',
+        trafficWeight: 0.25,
+        executions: 2,
+        successRate: 0.5,
+        closedTrades: 0,
+        winRate: null,
+        averagePnLPercent: null,
+      });
+      expect(v1.averageQualityScore).toBeCloseTo(0.6);
+      expect(v2).toMatchObject({
+        ref: 'risk.system@v2',
+        trafficWeight: 0.75,
+        executions: 1,
+        successRate: 1,
+        averageQualityScore: 0.9,
+        closedTrades: 4,
+        winRate: 0.75,
+        averagePnLPercent: 2.5,
+      });
+    });
+  });
+});
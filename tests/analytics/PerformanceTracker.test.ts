@@ -0,0 +1,87 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { Database, open } from 'sqlite';
+import { PerformanceTracker } from '../../src/analytics/PerformanceTracker.js';
+import { DataHub } from '../../src/api/DataHub.js';
+
+async function waitFor(condition: () => Promise<boolean>, timeoutMs: number = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('PerformanceTracker.getPromptVersionOutcomes', () => {
+  const originalCwd = process.cwd();
+  let directory: string;
+  let tracker: PerformanceTracker;
+  let database: Database;
+
+  // The tracker keeps its database under <cwd>/data
+  beforeAll(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'performance-tracker-'));
+    fs.mkdirSync(path.join(directory, 'data'));
+    process.chdir(directory);
+
+    tracker = new PerformanceTracker({} as DataHub);
+    database = await open({ filename: path.join(directory, 'data', 'performance_tracking.db'), driver: sqlite3.Database });
+    await waitFor(async () =>
+      !!(await database.get(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'trade_prompt_versions'`))
+    );
+
+    const trades: Array<[string, string, number | null, string]> = [
+      ['t1', 'winner', 4, 'now'],
+      ['t2', 'loser', -2, 'now'],
+      ['t3', 'active', null, 'now'],
+      ['t4', 'winner', 6, 'now'],
+      ['t5', 'winner', 10, '-60 days'],
+    ];
+    for (const [tradeId, outcome, pnlPercent, age] of trades) {
+      await database.run(`
+        INSERT INTO trade_outcomes (
+          trade_id, symbol, category, strategy_type,
+          predicted_entry, predicted_target, predicted_stop, predicted_confidence,
+          actual_pnl_percent, outcome, created_at
+        ) VALUES (?, 'AAPL', 'momentum', 'long', 100, 110, 95, 70, ?, ?, datetime('now', ?))
+      `, [tradeId, pnlPercent, outcome, age === 'now' ? '+0 seconds' : age]);
+    }
+
+    const versions: Array<[string, string, string]> = [
+      ['t1', 'risk', 'risk.system@v1'],
+      ['t2', 'risk', 'risk.system@v1'],
+      ['t3', 'risk', 'risk.system@v1'],
+      ['t4', 'risk', 'risk.system@v2'],
+      ['t5', 'risk', 'risk.system@v2'],
+      ['t1', 'technical', 'technical.system@v1'],
+    ];
+    for (const row of versions) {
+      await database.run('INSERT INTO trade_prompt_versions (trade_id, module, prompt_version) VALUES (?, ?, ?)', row);
+    }
+  });
+
+  afterAll(async () => {
+    await database.close();
+    await tracker.cleanup();
+    process.chdir(originalCwd);
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('counts closed trades, winners and average P&L per requested version', async () => {
+    const outcomes = await tracker.getPromptVersionOutcomes(['risk.system@v1', 'risk.system@v2']);
+
+    expect(outcomes).toEqual({
+      'risk.system@v1': { promptVersion: 'risk.system@v1', closedTrades: 2, winners: 1, averagePnLPercent: 1 },
+      'risk.system@v2': { promptVersion: 'risk.system@v2', closedTrades: 1, winners: 1, averagePnLPercent: 6 },
+    });
+  });
+
+  it('leaves out versions without closed trades in the window', async () => {
+    expect(await tracker.getPromptVersionOutcomes(['risk.system@v3'])).toEqual({});
+    expect(await tracker.getPromptVersionOutcomes(['risk.system@v2'], 90)).toEqual({
+      'risk.system@v2': { promptVersion: 'risk.system@v2', closedTrades: 2, winners: 2, averagePnLPercent: 8 },
+    });
+  });
+});
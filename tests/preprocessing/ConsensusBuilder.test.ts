@@ -0,0 +1,75 @@
+import { ConsensusBuilder, ConsensusCandidate } from '../../src/preprocessing/ConsensusBuilder.js';
+
+// Raw quote payloads in each provider's own shape
+const QUOTE_SHAPES: Record<string, (price: number) => any> = {
+  yahoo: price => ({ price }),
+  polygon: price => ({ results: { p: price } }),
+  finnhub: price => ({ c: price }),
+  alphavantage: price => ({ 'Global Quote': { '05. price': String(price) } }),
+};
+
+function quote(source: string, price: number, score: number = 0.8): ConsensusCandidate {
+  return {
+    source,
+    rawData: QUOTE_SHAPES[source](price),
+    reliability: {
+      score,
+      factors: { freshness: 1, consistency: 1, coverage: 1, latency: 1 },
+      lastUpdated: Date.now(),
+      dataQuality: 'high',
+    },
+  };
+}
+
+describe('ConsensusBuilder', () => {
+  const builder = new ConsensusBuilder();
+
+  describe('weightedMedian', () => {
+    it.each([
+      ['a single value', [[5, 1]], 5],
+      ['an odd count of equal weights', [[1, 1], [2, 1], [3, 1]], 2],
+      ['an even count of equal weights', [[1, 1], [2, 1], [3, 1], [4, 1]], 2.5],
+      ['unsorted input', [[3, 1], [1, 1], [2, 1]], 2],
+      ['a dominant weight', [[1, 1], [2, 1], [10, 5]], 10],
+      ['a heavy low value', [[1, 3], [2, 1], [10, 1]], 1],
+      ['all-zero weights', [[1, 0], [2, 0], [3, 0]], 2],
+    ])('handles %s', (_, entries, expected) => {
+      const values = (entries as number[][]).map(([value, weight]) => ({ value, weight }));
+      expect(builder.weightedMedian(values)).toBe(expected);
+    });
+
+    it('is NaN without values', () => {
+      expect(builder.weightedMedian([])).toBeNaN();
+    });
+  });
+
+  describe('outlier rejection', () => {
+    it.each([
+      ['two disagreeing sources', { yahoo: 100, polygon: 200 }, []],
+      ['a source far from a tight cluster', { yahoo: 100, polygon: 100.2, finnhub: 99.9, alphavantage: 150 }, ['alphavantage']],
+      ['identical values with one inside the relative floor', { yahoo: 100, polygon: 100, finnhub: 100, alphavantage: 100.4 }, []],
+      ['identical values with one past the relative floor', { yahoo: 100, polygon: 100, finnhub: 100, alphavantage: 100.6 }, ['alphavantage']],
+      ['a wide spread without a clear outlier', { yahoo: 90, polygon: 100, finnhub: 110, alphavantage: 105 }, []],
+    ])('judges %s', (_, prices, expectedOutliers) => {
+      const record = builder.build('quote', Object.entries(prices).map(([source, price]) => quote(source, price)))!;
+
+      expect(record.sourcesRejected.map(rejection => rejection.source)).toEqual(expectedOutliers);
+      expect(record.sourcesUsed).toEqual(Object.keys(prices).filter(source => !expectedOutliers.includes(source)));
+    });
+
+    it('takes the consensus price from the sources that remain', () => {
+      const record = builder.build('quote', [
+        quote('yahoo', 100),
+        quote('polygon', 100.2),
+        quote('finnhub', 99.9),
+        quote('alphavantage', 150),
+      ])!;
+
+      expect(record.fields.price.value).toBe(100);
+      expect(record.fields.price.sources.find(value => value.source === 'alphavantage')).toMatchObject({
+        rejected: true,
+        reason: 'source_outlier',
+      });
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { blackScholesPrice, impliedVolatility } from '../../src/preprocessing/OptionChainNormalizer.js';
+
+describe('impliedVolatility', () => {
+  it.each([
+    // Textbook values: S=100, K=100, one year, r=5%, no dividend, 20% volatility
+    ['call', 10.4506, 100, 100, 1, 0.05, 0, 0.2],
+    ['put', 5.5735, 100, 100, 1, 0.05, 0, 0.2],
+  ] as const)('recovers the volatility behind a reference %s price', (optionType, price, spot, strike, time, rate, dividendYield, expected) => {
+    expect(impliedVolatility(optionType, price, spot, strike, time, rate, dividendYield)).toBeCloseTo(expected, 4);
+  });
+
+  it.each([
+    ['an at-the-money call', 'call', 100, 100, 30 / 365, 0, 0.25],
+    ['an in-the-money put', 'put', 100, 120, 90 / 365, 0, 0.4],
+    ['an out-of-the-money call on a dividend payer', 'call', 100, 115, 0.5, 0.02, 0.35],
+    ['a high-volatility put', 'put', 50, 45, 60 / 365, 0, 1.5],
+    ['a deep out-of-the-money call expiring in days', 'call', 100, 130, 3 / 365, 0, 0.9],
+    ['a low-volatility call', 'call', 100, 101, 0.25, 0, 0.05],
+  ] as const)('round-trips %s', (_, optionType, spot, strike, time, dividendYield, volatility) => {
+    const price = blackScholesPrice(optionType, spot, strike, time, 0.045, dividendYield, volatility);
+
+    const implied = impliedVolatility(optionType, price, spot, strike, time, 0.045, dividendYield);
+
+    expect(implied).not.toBeNull();
+    expect(blackScholesPrice(optionType, spot, strike, time, 0.045, dividendYield, implied!)).toBeCloseTo(price, 5);
+    expect(implied!).toBeCloseTo(volatility, 2);
+  });
+
+  it.each([
+    ['a call at intrinsic value', 'call', 20, 120, 100],
+    ['a call below intrinsic value', 'call', 19, 120, 100],
+    ['a put at zero', 'put', 0, 100, 90],
+    ['a call at the spot price', 'call', 100, 100, 100],
+    ['a put above the strike', 'put', 101, 100, 100],
+  ] as const)('rejects %s', (_, optionType, price, spot, strike) => {
+    expect(impliedVolatility(optionType, price, spot, strike, 0.5, 0, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+import { AddressInfo } from 'net';
+import { WebSocketServer, WebSocket } from 'ws';
+import { QuoteStream, QuoteStreamFeedConfig } from '../../src/api/streaming/QuoteStream.js';
+import { finnhubProtocol, polygonProtocol, StreamProtocol } from '../../src/api/streaming/StreamProtocols.js';
+import { NormalizedQuote } from '../../src/types/data.js';
+
+interface MockFeed {
+  url: string;
+  received: any[];
+  sockets: WebSocket[];
+  broadcast(message: any): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Local websocket server that speaks just enough of a feed's protocol: it accepts any
+ * Polygon auth message and records everything the client sends
+ */
+async function startMockFeed(protocol: StreamProtocol): Promise<MockFeed> {
+  const server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+  await new Promise<void>(resolve => server.once('listening', () => resolve()));
+
+  const feed: MockFeed = {
+    url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    received: [],
+    sockets: [],
+    broadcast(message: any) {
+      feed.sockets
+        .filter(socket => socket.readyState === WebSocket.OPEN)
+        .forEach(socket => socket.send(JSON.stringify(message)));
+    },
+    close: () => new Promise<void>(resolve => {
+      feed.sockets.forEach(socket => socket.terminate());
+      server.close(() => resolve());
+    }),
+  };
+
+  server.on('connection', socket => {
+    feed.sockets.push(socket);
+    socket.on('message', data => {
+      const message = JSON.parse(data.toString());
+      feed.received.push(message);
+      if (protocol === polygonProtocol && message.action === 'auth') {
+        socket.send(JSON.stringify([{ ev: 'status', status: 'auth_success' }]));
+      }
+    });
+  });
+
+  return feed;
+}
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+function feedConfig(name: string, protocol: StreamProtocol, feed: MockFeed): QuoteStreamFeedConfig {
+  return { name, protocol, url: feed.url, apiKey: 'test-key' };
+}
+
+describe('QuoteStream', () => {
+  let stream: QuoteStream;
+  let feeds: MockFeed[];
+
+  beforeEach(() => {
+    feeds = [];
+  });
+
+  afterEach(async () => {
+    stream?.stop();
+    await Promise.all(feeds.map(feed => feed.close()));
+  });
+
+  async function start(...protocols: Array<[string, StreamProtocol]>): Promise<MockFeed[]> {
+    feeds = await Promise.all(protocols.map(([, protocol]) => startMockFeed(protocol)));
+    stream = new QuoteStream({
+      feeds: protocols.map(([name, protocol], index) => feedConfig(name, protocol, feeds[index])),
+      heartbeatInterval: 60000,
+      heartbeatTimeout: 180000,
+      reconnectBaseDelay: 10,
+      reconnectMaxDelay: 50,
+    });
+    return feeds;
+  }
+
+  it('authenticates, subscribes and publishes quotes from trades', async () => {
+    const [polygon] = await start(['polygon', polygonProtocol]);
+    const quotes: NormalizedQuote[] = [];
+    stream.on('quote', quote => quotes.push(quote));
+
+    stream.subscribe(['aapl']);
+    stream.start();
+
+    await waitFor(() => polygon.received.some(message => message.action === 'subscribe'));
+    expect(polygon.received[0]).toEqual({ action: 'auth', params: 'test-key' });
+    expect(polygon.received[1]).toEqual({ action: 'subscribe', params: 'T.AAPL,Q.AAPL' });
+
+    const now = Date.now();
+    polygon.broadcast([
+      { ev: 'T', sym: 'AAPL', t: now, p: 190.5, s: 100 },
+      { ev: 'Q', sym: 'AAPL', t: now + 1, bp: 190.4, ap: 190.6 },
+      { ev: 'T', sym: 'MSFT', t: now, p: 410, s: 50 },
+    ]);
+
+    await waitFor(() => quotes.length === 2);
+    expect(quotes.every(quote => quote.symbol === 'AAPL')).toBe(true);
+    expect(stream.getLastQuote('AAPL')).toMatchObject({ price: 190.5, volume: 100, bid: 190.4, ask: 190.6 });
+  });
+
+  it('reconnects and resubscribes after the feed drops', async () => {
+    const [polygon] = await start(['polygon', polygonProtocol]);
+    stream.subscribe(['AAPL', 'MSFT']);
+    stream.start();
+    await waitFor(() => polygon.received.some(message => message.action === 'subscribe'));
+
+    polygon.sockets[0].terminate();
+
+    await waitFor(() => polygon.sockets.length === 2
+      && polygon.received.filter(message => message.action === 'subscribe').length === 2);
+    expect(polygon.received.filter(message => message.action === 'auth')).toHaveLength(2);
+    expect(polygon.received[polygon.received.length - 1]).toEqual({
+      action: 'subscribe',
+      params: 'T.AAPL,Q.AAPL,T.MSFT,Q.MSFT',
+    });
+    await waitFor(() => stream.getStatus()[0].state === 'ready');
+  });
+
+  it('unsubscribes upstream only after the last subscriber leaves', async () => {
+    const [finnhub] = await start(['finnhub', finnhubProtocol]);
+    stream.subscribe(['AAPL']);
+    stream.subscribe(['AAPL']);
+    stream.start();
+    await waitFor(() => finnhub.received.length === 1);
+
+    stream.unsubscribe(['AAPL']);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(finnhub.received).toEqual([{ type: 'subscribe', symbol: 'AAPL' }]);
+    expect(stream.getSubscriptions()).toEqual(['AAPL']);
+
+    stream.unsubscribe(['AAPL']);
+    await waitFor(() => finnhub.received.length === 2);
+    expect(finnhub.received[1]).toEqual({ type: 'unsubscribe', symbol: 'AAPL' });
+    expect(stream.getSubscriptions()).toEqual([]);
+  });
+
+  it('counts trade volume from a single feed', async () => {
+    const [polygon, finnhub] = await start(['polygon', polygonProtocol], ['finnhub', finnhubProtocol]);
+    const quotes: NormalizedQuote[] = [];
+    stream.on('quote', quote => quotes.push(quote));
+    stream.subscribe(['AAPL']);
+    stream.start();
+    await waitFor(() => stream.getStatus().every(status => status.state === 'ready'));
+
+    // The same print arrives on both feeds
+    const now = Date.now();
+    polygon.broadcast([{ ev: 'T', sym: 'AAPL', t: now, p: 190.5, s: 100 }]);
+    await waitFor(() => quotes.length === 1);
+    finnhub.broadcast({ type: 'trade', data: [{ s: 'AAPL', t: now, p: 190.5, v: 100 }] });
+    await waitFor(() => quotes.length === 2);
+
+    expect(stream.getLastQuote('AAPL')?.volume).toBe(100);
+  });
+});